@@ -1,48 +1,106 @@
-import { FormEvent, ReactNode, useCallback, useEffect, useMemo, useState } from "react";
+import { FormEvent, ReactNode, SetStateAction, useCallback, useEffect, useMemo, useRef, useState } from "react";
 import type { Session } from "@supabase/supabase-js";
 import {
   BookOpen,
+  CalendarDays,
   Check,
   Cloud,
   CloudOff,
   ExternalLink,
   FileClock,
+  FlaskConical,
+  History,
+  Layers,
   LayoutDashboard,
   LogOut,
   Menu,
+  Receipt,
+  Redo2,
   RefreshCw,
+  Scale,
   Settings,
   ShieldCheck,
+  Undo2,
+  Upload,
   X,
 } from "lucide-react";
+import { AccountSwitcher } from "./components/AccountSwitcher";
+import { AccountsView } from "./components/AccountsView";
+import { AuditTrail } from "./components/AuditTrail";
+import { CashPanel } from "./components/CashPanel";
+import { CorporateActionsPanel } from "./components/CorporateActionsPanel";
 import { Dashboard } from "./components/Dashboard";
+import { ExpirationPanel } from "./components/ExpirationPanel";
+import { HistoryView } from "./components/HistoryView";
+import { ImportPanel } from "./components/ImportPanel";
+import { IncomePanel } from "./components/IncomePanel";
+import { JournalPanel } from "./components/JournalPanel";
+import { QuotesPanel } from "./components/QuotesPanel";
+import { ReconcileView } from "./components/ReconcileView";
+import { RolloverPanel } from "./components/RolloverPanel";
+import { ScenarioView } from "./components/ScenarioView";
 import { SettingsPanel } from "./components/SettingsPanel";
+import { StressPanel } from "./components/StressPanel";
+import { SyncConflictPanel } from "./components/SyncConflictPanel";
+import { TaxLotsView } from "./components/TaxLotsView";
 import { TradeForm } from "./components/TradeForm";
+import { consolidateAccounts } from "./services/consolidation";
+import { canRedo, canUndo, currentEntry, recordChange, recordRollover, recordSync, redo, restoreTo, undo } from "./services/journal";
+import { sizeOrder } from "./services/orderSizer";
+import { reconcileAccount } from "./services/reconciliation";
+import { DayRollover } from "./services/rollover";
+import { promoteScenario } from "./services/scenarios";
+import { diffTradeEdit, replaceTrade } from "./services/tradeEdit";
 import { calculateAccount, formatMoney } from "./services/engine";
-import { cloud, isCloudConfigured } from "./services/supabase";
-import { localStore } from "./services/storage";
+import { CloudState, cloud, isCloudConfigured } from "./services/supabase";
+import { ConflictChoice, SyncBase, WorkspaceMerge, mergeWorkspace, rebaseMerge, resolveConflicts } from "./services/sync";
+import { PRIMARY_ACCOUNT_ID, createAccountWorkspace, localStore } from "./services/storage";
 import {
   AccountSettings,
   AccountType,
-  DEFAULT_SETTINGS,
+  AccountWorkspace,
+  CalculationContext,
+  ChangeJournal,
+  DayArchive,
+  JournalKind,
   MarginRegime,
+  QuoteMark,
+  Scenario,
   Trade,
 } from "./types";
 
-type View = "dashboard" | "audit" | "rules";
+type View = "dashboard" | "scenarios" | "accounts" | "history" | "taxes" | "reconcile" | "audit" | "rules";
 
 export default function App() {
-  const [settings, setSettings] = useState<AccountSettings>(DEFAULT_SETTINGS);
-  const [trades, setTrades] = useState<Trade[]>([]);
+  const [accounts, setAccounts] = useState<AccountWorkspace[]>(() => [createAccountWorkspace(PRIMARY_ACCOUNT_ID)]);
+  const [activeAccountId, setActiveAccountId] = useState(PRIMARY_ACCOUNT_ID);
+  const [marks, setMarks] = useState<Record<string, QuoteMark>>({});
   const [preview, setPreview] = useState<Trade | null>(null);
   const [view, setView] = useState<View>("dashboard");
   const [settingsOpen, setSettingsOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [quotesOpen, setQuotesOpen] = useState(false);
+  const [stressOpen, setStressOpen] = useState(false);
+  const [cashOpen, setCashOpen] = useState(false);
+  const [incomeOpen, setIncomeOpen] = useState(false);
+  const [actionsOpen, setActionsOpen] = useState(false);
+  const [expirationOpen, setExpirationOpen] = useState(false);
+  const [rolloverOpen, setRolloverOpen] = useState(false);
   const [cloudOpen, setCloudOpen] = useState(false);
   const [session, setSession] = useState<Session | null>(null);
   const [cloudStatus, setCloudStatus] = useState("Saved on this device");
   const [cloudReady, setCloudReady] = useState(false);
   const [hydrated, setHydrated] = useState(false);
   const [mobileNavOpen, setMobileNavOpen] = useState(false);
+  const [archives, setArchives] = useState<DayArchive[]>([]);
+  const [archivesLoading, setArchivesLoading] = useState(false);
+  const [journal, setJournal] = useState<ChangeJournal | null>(null);
+  const [journalOpen, setJournalOpen] = useState(false);
+  const [syncBase, setSyncBase] = useState<SyncBase>({});
+  const [pendingSync, setPendingSync] = useState<{ merge: WorkspaceMerge; base: SyncBase; remote: CloudState[] } | null>(null);
+  // Names the next journal entry when a close or a cloud merge, rather than an
+  // edit, produced the accounts it matches.
+  const journalNote = useRef<{ kind: JournalKind.ROLLOVER | JournalKind.SYNC; accountId?: string; label: string; matches: (next: AccountWorkspace[]) => boolean } | null>(null);
 
   useEffect(() => {
     let active = true;
@@ -50,24 +108,24 @@ export default function App() {
       try {
         const local = await localStore.load();
         if (!active) return;
-        setSettings(local.settings);
-        setTrades(local.trades);
+        setAccounts(local.accounts);
+        setActiveAccountId(local.activeAccountId);
+        setMarks(local.marks);
+        const storedJournal = await localStore.loadJournal();
+        if (!active) return;
+        setJournal(storedJournal);
+        const storedBase = await localStore.loadSyncBase();
+        if (!active) return;
+        setSyncBase(storedBase);
 
         const activeSession = await cloud.getSession();
         if (!active) return;
         setSession(activeSession);
         if (activeSession) {
           const remote = await cloud.load();
-          if (remote && active) {
-            setSettings({
-              ...DEFAULT_SETTINGS,
-              ...remote.settings,
-              symbolMarginOverrides: remote.settings.symbolMarginOverrides ?? {},
-            });
-            setTrades(remote.trades ?? []);
-            setCloudStatus("Cloud workspace loaded");
-          }
-          if (active) setCloudReady(true);
+          if (!active) return;
+          reconcileCloud(local.accounts, storedBase, remote);
+          setCloudReady(true);
         }
       } catch (error) {
         setCloudStatus(error instanceof Error ? error.message : "Could not load saved data");
@@ -90,11 +148,20 @@ export default function App() {
     if (!hydrated) return;
     const timer = window.setTimeout(async () => {
       try {
-        await localStore.save(settings, trades);
-        if (session && cloudReady) {
+        await localStore.save(accounts, activeAccountId, marks);
+        if (journal) await localStore.saveJournal(journal);
+        await localStore.saveSyncBase(syncBase);
+        if (session && cloudReady && !pendingSync) {
           setCloudStatus("Syncing…");
-          await cloud.save(settings, trades);
-          setCloudStatus(`Synced ${new Date().toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })}`);
+          const saved = await cloud.save(accounts, syncBase);
+          if (saved.stale.length > 0) {
+            reconcileCloud(accounts, syncBase, await cloud.load());
+          } else {
+            setSyncBase(saved.base);
+            setCloudStatus(`Synced ${new Date().toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })}`);
+          }
+        } else if (pendingSync) {
+          setCloudStatus("Sync paused for conflicts");
         } else {
           setCloudStatus("Saved on this device");
         }
@@ -103,12 +170,155 @@ export default function App() {
       }
     }, 350);
     return () => window.clearTimeout(timer);
-  }, [cloudReady, hydrated, settings, trades, session]);
+  }, [accounts, activeAccountId, cloudReady, hydrated, journal, marks, pendingSync, session, syncBase]);
+
+  // Every change to the accounts, from any panel, lands in the journal once
+  // the saved workspace has loaded. Undo and redo set the accounts to the
+  // snapshot already current in the journal, so they record nothing. A closed
+  // day is recorded as a barrier, since its archive cannot be taken back, and
+  // a cloud merge as one entry of its own.
+  useEffect(() => {
+    if (!hydrated) return;
+    const note = journalNote.current?.matches(accounts) ? journalNote.current : null;
+    if (note) journalNote.current = null;
+    setJournal((current) => (note?.kind === JournalKind.ROLLOVER
+      ? recordRollover(current, accounts, note.accountId as string, note.label)
+      : note
+        ? recordSync(current, accounts, note.label)
+        : recordChange(current, accounts)));
+  }, [accounts, hydrated]);
+
+  const applyJournal = useCallback((next: ChangeJournal) => {
+    setJournal(next);
+    setAccounts(currentEntry(next).accounts);
+    setPreview(null);
+  }, []);
+  const undoChange = useCallback(() => { if (journal && canUndo(journal)) applyJournal(undo(journal)); }, [applyJournal, journal]);
+  const redoChange = useCallback(() => { if (journal && canRedo(journal)) applyJournal(redo(journal)); }, [applyJournal, journal]);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (!(event.metaKey || event.ctrlKey) || target?.closest("input, textarea, select, [contenteditable]")) return;
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        undoChange();
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        redoChange();
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [redoChange, undoChange]);
+
+  const account = accounts.find((candidate) => candidate.id === activeAccountId) ?? accounts[0];
+  const { settings, trades } = account;
+
+  useEffect(() => {
+    if (!hydrated || (view !== "history" && view !== "taxes")) return;
+    let active = true;
+    setArchivesLoading(true);
+    localStore.loadArchive(account.id)
+      .then((loaded) => { if (active) setArchives(loaded); })
+      .catch((error) => setCloudStatus(error instanceof Error ? error.message : "Could not load the day archive"))
+      .finally(() => { if (active) setArchivesLoading(false); });
+    return () => {
+      active = false;
+    };
+  }, [account.id, hydrated, view]);
+
+  const updateAccount = useCallback((update: (current: AccountWorkspace) => AccountWorkspace) => {
+    setAccounts((current) => current.map((candidate) => (candidate.id === account.id ? update(candidate) : candidate)));
+  }, [account.id]);
+  const setSettings = useCallback((next: SetStateAction<AccountSettings>) => {
+    updateAccount((current) => ({ ...current, settings: typeof next === "function" ? next(current.settings) : next }));
+  }, [updateAccount]);
+  const setTrades = useCallback((next: SetStateAction<Trade[]>) => {
+    updateAccount((current) => ({ ...current, trades: typeof next === "function" ? next(current.trades) : next }));
+  }, [updateAccount]);
+
+  function adoptAccounts(next: AccountWorkspace[], label: string) {
+    journalNote.current = { kind: JournalKind.SYNC, label, matches: (candidate) => candidate === next };
+    setAccounts(next);
+    setActiveAccountId((current) => (next.some((candidate) => candidate.id === current) ? current : next[0].id));
+  }
+
+  // Merges the cloud rows into the given workspace against the last synced
+  // base. Clean merges apply at once; conflicts hold sync until resolved.
+  function reconcileCloud(local: AccountWorkspace[], base: SyncBase, remote: CloudState[]) {
+    const merge = mergeWorkspace(base, local, remote);
+    if (merge.conflicts.length > 0) {
+      setPendingSync({ merge, base, remote });
+      setCloudStatus(`${merge.conflicts.length} sync conflict${merge.conflicts.length === 1 ? "" : "s"} to resolve`);
+      return;
+    }
+    if (merge.pulled > 0 && merge.accounts.length > 0) adoptAccounts(merge.accounts, "Merged cloud changes");
+    setSyncBase(Object.fromEntries(remote.map((row) => [row.accountId, row])));
+    setCloudStatus(merge.pulled > 0 ? "Merged cloud changes" : "Cloud workspace up to date");
+  }
+
+  const resolveSync = (choices: Record<string, ConflictChoice>) => {
+    if (!pendingSync) return;
+    // Edits made while the conflicts were on screen are merged in, not lost.
+    const { merge, unseen } = rebaseMerge(pendingSync.merge, pendingSync.base, accounts, pendingSync.remote);
+    if (unseen.length > 0) {
+      setPendingSync({ ...pendingSync, merge });
+      setCloudStatus(`${unseen.length} new sync conflict${unseen.length === 1 ? "" : "s"} to resolve`);
+      return;
+    }
+    const resolved = resolveConflicts(merge, choices);
+    if (resolved.length > 0) adoptAccounts(resolved, "Resolved sync conflicts");
+    setSyncBase(Object.fromEntries(pendingSync.remote.map((row) => [row.accountId, row])));
+    setPendingSync(null);
+  };
+
+  const selectAccount = (id: string) => {
+    setActiveAccountId(id);
+    setPreview(null);
+    setView("dashboard");
+  };
+  const createAccount = (accountType: AccountType) => {
+    const created = createAccountWorkspace(undefined, {
+      accountName: accountType === AccountType.CASH ? "Cash account" : "Margin account",
+      accountType,
+    });
+    setAccounts((current) => [...current, created]);
+    selectAccount(created.id);
+    setSettingsOpen(true);
+  };
+  const deleteAccount = (id: string) => {
+    const remaining = accounts.filter((candidate) => candidate.id !== id);
+    if (remaining.length === 0) return;
+    setAccounts(remaining);
+    if (id === activeAccountId) selectAccount(remaining[0].id);
+  };
 
-  const result = useMemo(() => calculateAccount(settings, trades), [settings, trades]);
+  const context = useMemo<CalculationContext>(() => ({ marks }), [marks]);
+  const { reconciliation, result } = useMemo(
+    () => reconcileAccount(settings, trades, calculateAccount(settings, trades, undefined, context), context),
+    [context, settings, trades],
+  );
+  const consolidated = useMemo(
+    () => (view === "accounts"
+      ? consolidateAccounts(accounts.map((candidate) => ({
+        account: candidate,
+        result: candidate.id === account.id
+          ? result
+          : reconcileAccount(
+            candidate.settings,
+            candidate.trades,
+            calculateAccount(candidate.settings, candidate.trades, undefined, context),
+            context,
+          ).result,
+      })))
+      : null),
+    [account.id, accounts, context, result, view],
+  );
   const previewResult = useMemo(
-    () => (preview ? calculateAccount(settings, [...trades, preview]) : result),
-    [preview, result, settings, trades],
+    () => (preview ? calculateAccount(settings, [...trades, preview], undefined, context) : result),
+    [context, preview, result, settings, trades],
   );
 
   const handlePreview = useCallback((trade: Trade | null) => setPreview(trade), []);
@@ -116,10 +326,46 @@ export default function App() {
     setTrades((current) => [...current, trade]);
     setPreview(null);
   };
+  const applyRollover = (rollover: DayRollover) => {
+    localStore.saveArchive(rollover.archive)
+      .then(() => {
+        journalNote.current = {
+          kind: JournalKind.ROLLOVER,
+          accountId: account.id,
+          label: `Closed ${rollover.closedDate}`,
+          matches: (next) => next.some((candidate) => candidate.settings === rollover.settings),
+        };
+        updateAccount((current) => ({ ...current, settings: rollover.settings, trades: rollover.trades }));
+        setArchives((current) => [...current, rollover.archive]);
+        setPreview(null);
+      })
+      .catch((error) => {
+        setCloudStatus(error instanceof Error ? error.message : "Could not archive the closed day");
+      });
+  };
+  const promote = (scenario: Scenario) => {
+    updateAccount((current) => ({
+      ...current,
+      scenarios: current.scenarios.filter((candidate) => candidate.id !== scenario.id),
+      trades: [...current.trades, ...promoteScenario(current.trades, scenario)],
+    }));
+    setView("dashboard");
+  };
+  const importTrades = (imported: Trade[]) => setTrades((current) => [...current, ...imported]);
   const deleteTrade = (id: string) => setTrades((current) => current.filter((trade) => trade.id !== id));
+  const updateTrade = (edited: Trade) => setTrades((current) => replaceTrade(current, edited));
+  const previewEdit = useCallback(
+    (edited: Trade) => diffTradeEdit(settings, trades, edited, context),
+    [context, settings, trades],
+  );
 
   const navItems: Array<{ id: View; label: string; icon: ReactNode }> = [
     { id: "dashboard", label: "Overview", icon: <LayoutDashboard /> },
+    { id: "scenarios", label: "Scenarios", icon: <FlaskConical /> },
+    { id: "accounts", label: "All accounts", icon: <Layers /> },
+    { id: "history", label: "Day archive", icon: <CalendarDays /> },
+    { id: "taxes", label: "Tax lots", icon: <Receipt /> },
+    { id: "reconcile", label: "Reconcile", icon: <Scale /> },
     { id: "audit", label: "Math audit", icon: <FileClock /> },
     { id: "rules", label: "Rules & method", icon: <BookOpen /> },
   ];
@@ -154,10 +400,33 @@ export default function App() {
         </nav>
 
         <div className="topbar-actions">
+          <AccountSwitcher
+            accounts={accounts}
+            activeAccountId={account.id}
+            onSelect={selectAccount}
+            onCreate={createAccount}
+            onDelete={deleteAccount}
+            onShowAll={() => setView("accounts")}
+          />
+          <div className="history-buttons">
+            <button className="icon-button" type="button" aria-label="Undo" title="Undo (Ctrl+Z)" disabled={!canUndo(journal)} onClick={undoChange}>
+              <Undo2 />
+            </button>
+            <button className="icon-button" type="button" aria-label="Redo" title="Redo (Ctrl+Shift+Z)" disabled={!canRedo(journal)} onClick={redoChange}>
+              <Redo2 />
+            </button>
+            <button className="icon-button" type="button" aria-label="Change history" title="Change history" onClick={() => setJournalOpen(true)}>
+              <History />
+            </button>
+          </div>
           <button className="sync-button" type="button" onClick={() => setCloudOpen(true)}>
             {session ? <Cloud /> : <CloudOff />}
             <span>{cloudStatus}</span>
           </button>
+          <button className="button secondary" type="button" onClick={() => setImportOpen(true)}>
+            <Upload />
+            <span>Import fills</span>
+          </button>
           <button className="button secondary" type="button" onClick={() => setSettingsOpen(true)}>
             <Settings />
             <span>Opening balances</span>
@@ -182,7 +451,10 @@ export default function App() {
                       : "Margin · new intraday standard"}
                 </strong>
               </div>
-              <button type="button" onClick={() => setSettingsOpen(true)}>Change regime</button>
+              <div>
+                <button type="button" onClick={() => setRolloverOpen(true)}>Close the day</button>
+                <button type="button" onClick={() => setSettingsOpen(true)}>Change regime</button>
+              </div>
             </div>
             <TradeForm
               onAddTrade={addTrade}
@@ -190,10 +462,46 @@ export default function App() {
               previewAnalysis={previewResult.analyses.preview}
               previewIntradayBuyingPower={previewResult.intradayBuyingPower}
               settings={settings}
+              onSize={(order, cushion) => sizeOrder(settings, trades, order, cushion, context)}
+              openLots={result.openLots}
+              onRecordLocate={(locate) => setSettings((current) => ({ ...current, shortLocates: [...current.shortLocates, locate] }))}
+            />
+            <Dashboard
+              result={result}
+              settings={settings}
+              trades={trades}
+              onDeleteTrade={deleteTrade}
+              onUpdateTrade={updateTrade}
+              onPreviewEdit={previewEdit}
+              onEditMarks={() => setQuotesOpen(true)}
+              onStressTest={() => setStressOpen(true)}
+              onRecordCash={() => setCashOpen(true)}
+              onRecordIncome={() => setIncomeOpen(true)}
+              onCorporateActions={() => setActionsOpen(true)}
+              onExpirations={() => setExpirationOpen(true)}
             />
-            <Dashboard result={result} settings={settings} trades={trades} onDeleteTrade={deleteTrade} />
           </>
         )}
+        {view === "scenarios" && (
+          <ScenarioView
+            settings={settings}
+            trades={trades}
+            scenarios={account.scenarios}
+            context={context}
+            onSaveScenarios={(scenarios) => updateAccount((current) => ({ ...current, scenarios }))}
+            onPromote={promote}
+          />
+        )}
+        {view === "accounts" && consolidated && <AccountsView consolidated={consolidated} onOpenAccount={selectAccount} />}
+        {view === "history" && <HistoryView archives={archives} loading={archivesLoading} />}
+        {view === "taxes" && <TaxLotsView archives={archives} loading={archivesLoading} trades={trades} result={result} />}
+        {view === "reconcile" && (
+          <ReconcileView
+            settings={settings}
+            reconciliation={reconciliation}
+            onSave={(brokerStatement, reconciliationTolerance) => setSettings((current) => ({ ...current, brokerStatement, reconciliationTolerance }))}
+          />
+        )}
         {view === "audit" && <AuditView result={result} />}
         {view === "rules" && <RulesView />}
       </main>
@@ -204,6 +512,78 @@ export default function App() {
       </footer>
 
       <SettingsPanel isOpen={settingsOpen} settings={settings} onSave={setSettings} onClose={() => setSettingsOpen(false)} />
+      <ImportPanel
+        isOpen={importOpen}
+        settings={settings}
+        trades={trades}
+        context={context}
+        onImport={importTrades}
+        onSaveProfiles={(importProfiles) => setSettings((current) => ({ ...current, importProfiles }))}
+        onClose={() => setImportOpen(false)}
+      />
+      <QuotesPanel
+        isOpen={quotesOpen}
+        settings={settings}
+        positions={result.positions}
+        marks={marks}
+        onSaveMarks={setMarks}
+        onSaveSettings={setSettings}
+        onClose={() => setQuotesOpen(false)}
+      />
+      <CashPanel
+        isOpen={cashOpen}
+        movements={settings.cashMovements}
+        onSave={(cashMovements) => setSettings((current) => ({ ...current, cashMovements }))}
+        onClose={() => setCashOpen(false)}
+      />
+      <IncomePanel
+        isOpen={incomeOpen}
+        snapshotDate={settings.snapshotDate}
+        events={settings.incomeEvents}
+        onSave={(incomeEvents) => setSettings((current) => ({ ...current, incomeEvents }))}
+        onClose={() => setIncomeOpen(false)}
+      />
+      <CorporateActionsPanel
+        isOpen={actionsOpen}
+        snapshotDate={settings.snapshotDate}
+        actions={settings.corporateActions}
+        onSave={(corporateActions) => setSettings((current) => ({ ...current, corporateActions }))}
+        onClose={() => setActionsOpen(false)}
+      />
+      <ExpirationPanel
+        isOpen={expirationOpen}
+        settings={settings}
+        trades={trades}
+        context={context}
+        onBook={importTrades}
+        onClose={() => setExpirationOpen(false)}
+      />
+      <StressPanel
+        isOpen={stressOpen}
+        settings={settings}
+        trades={trades}
+        result={result}
+        context={context}
+        onClose={() => setStressOpen(false)}
+      />
+      <RolloverPanel
+        isOpen={rolloverOpen}
+        account={account}
+        context={context}
+        onConfirm={applyRollover}
+        onClose={() => setRolloverOpen(false)}
+      />
+      <JournalPanel
+        isOpen={journalOpen}
+        journal={journal}
+        accounts={accounts}
+        canUndo={canUndo(journal)}
+        canRedo={canRedo(journal)}
+        onUndo={undoChange}
+        onRedo={redoChange}
+        onRestore={(entryId) => { if (journal) applyJournal(restoreTo(journal, entryId)); }}
+        onClose={() => setJournalOpen(false)}
+      />
       <CloudPanel
         isOpen={cloudOpen}
         session={session}
@@ -211,21 +591,22 @@ export default function App() {
         onSession={(nextSession) => {
           setSession(nextSession);
           setCloudReady(false);
+          if (!nextSession) setSyncBase({});
         }}
         onLoad={async () => {
-          const remote = await cloud.load();
-          if (remote) {
-            setSettings({
-              ...DEFAULT_SETTINGS,
-              ...remote.settings,
-              symbolMarginOverrides: remote.settings.symbolMarginOverrides ?? {},
-            });
-            setTrades(remote.trades ?? []);
-            setCloudStatus("Cloud workspace loaded");
-          }
+          reconcileCloud(accounts, syncBase, await cloud.load());
           setCloudReady(true);
         }}
       />
+      <SyncConflictPanel
+        merge={pendingSync?.merge ?? null}
+        onResolve={resolveSync}
+        onCancel={() => {
+          setPendingSync(null);
+          setCloudReady(false);
+          setCloudStatus("Sync paused; pull the cloud copy to try again");
+        }}
+      />
     </div>
   );
 }
@@ -244,19 +625,7 @@ function AuditView({ result }: { result: ReturnType<typeof calculateAccount> })
         <div><span>Realized P&amp;L</span><strong>{formatMoney(result.realizedPnl)}</strong></div>
         <div><span>Unrealized P&amp;L</span><strong>{formatMoney(result.unrealizedPnl)}</strong></div>
       </div>
-      <div className="panel audit-panel">
-        {result.auditTrail.length === 0 ? (
-          <div className="empty-table">Log a trade to build the audit trail.</div>
-        ) : (
-          result.auditTrail.map((entry) => (
-            <article className="audit-row" key={entry.id}>
-              <time>{new Date(entry.timestamp).toLocaleString()}</time>
-              <div><strong>{entry.label}</strong><code>{entry.formula}</code></div>
-              <strong>{formatMoney(entry.result)}</strong>
-            </article>
-          ))
-        )}
-      </div>
+      <AuditTrail entries={result.auditTrail} />
     </section>
   );
 }
@@ -321,7 +690,7 @@ function RulesView() {
         <article className="rule-card caution">
           <span>Hard boundary</span>
           <h2>Your broker remains the source of truth.</h2>
-          <p>Portfolio-margin models, option offsets, deposits, assignments, corporate actions and proprietary controls require broker data. Enter broker-reported capacity for excluded account classes and treat discrepancies as a stop signal.</p>
+          <p>Portfolio-margin models, option strategies outside the recognized FINRA 4210 pairings, deposits, assignments, corporate actions and proprietary controls require broker data. Enter broker-reported capacity for excluded account classes and treat discrepancies as a stop signal.</p>
         </article>
       </div>
     </section>
@@ -400,7 +769,7 @@ function CloudPanel({
           </div>
         ) : (
           <>
-            <p>Use email authentication to keep one private, RLS-protected account state across devices.</p>
+            <p>Use email authentication to keep every tracked account in its own private, RLS-protected row across devices.</p>
             <form className="cloud-form" onSubmit={submit}>
               <label className="field"><span>Email</span><input type="email" required value={email} onChange={(event) => setEmail(event.target.value)} /></label>
               <label className="field"><span>Password</span><input type="password" minLength={8} required value={password} onChange={(event) => setPassword(event.target.value)} /></label>
@@ -0,0 +1,91 @@
+import { useEffect, useRef, useState } from "react";
+import { Check, ChevronDown, Layers, Plus, Trash2 } from "lucide-react";
+import { AccountType, AccountWorkspace, MarginRegime } from "../types";
+
+interface Props {
+  accounts: AccountWorkspace[];
+  activeAccountId: string;
+  onSelect: (id: string) => void;
+  onCreate: (accountType: AccountType) => void;
+  onDelete: (id: string) => void;
+  onShowAll: () => void;
+}
+
+const accountKind = (account: AccountWorkspace) =>
+  account.settings.accountType === AccountType.CASH
+    ? "Cash"
+    : account.settings.marginRegime === MarginRegime.LEGACY_PDT
+      ? "Margin · legacy PDT"
+      : "Margin · intraday";
+
+export function AccountSwitcher({ accounts, activeAccountId, onSelect, onCreate, onDelete, onShowAll }: Props) {
+  const [open, setOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const active = accounts.find((account) => account.id === activeAccountId) ?? accounts[0];
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) setOpen(false);
+    };
+    window.addEventListener("mousedown", close);
+    return () => window.removeEventListener("mousedown", close);
+  }, [open]);
+
+  const choose = (action: () => void) => {
+    action();
+    setOpen(false);
+  };
+
+  return (
+    <div className="account-switcher" ref={menuRef}>
+      <button className="account-trigger" type="button" aria-haspopup="menu" aria-expanded={open} onClick={() => setOpen((value) => !value)}>
+        <span>
+          <strong>{active.settings.accountName}</strong>
+          <small>{accountKind(active)}</small>
+        </span>
+        <ChevronDown aria-hidden="true" />
+      </button>
+      {open && (
+        <div className="account-menu" role="menu">
+          {accounts.map((account) => (
+            <div className={`account-option ${account.id === active.id ? "active" : ""}`} key={account.id}>
+              <button type="button" role="menuitem" onClick={() => choose(() => onSelect(account.id))}>
+                {account.id === active.id ? <Check aria-hidden="true" /> : <span className="account-option-spacer" />}
+                <span>
+                  <strong>{account.settings.accountName}</strong>
+                  <small>{account.settings.brokerName} · {accountKind(account)} · {account.trades.length} execution{account.trades.length === 1 ? "" : "s"}</small>
+                </span>
+              </button>
+              {accounts.length > 1 && (
+                <button
+                  className="icon-button"
+                  type="button"
+                  aria-label={`Remove ${account.settings.accountName}`}
+                  onClick={() => {
+                    if (window.confirm(`Remove ${account.settings.accountName} and its ${account.trades.length} logged execution(s)?`)) {
+                      choose(() => onDelete(account.id));
+                    }
+                  }}
+                >
+                  <Trash2 />
+                </button>
+              )}
+            </div>
+          ))}
+          <div className="account-menu-actions">
+            <button type="button" role="menuitem" onClick={() => choose(onShowAll)}>
+              <Layers aria-hidden="true" /> All accounts
+            </button>
+            <button type="button" role="menuitem" onClick={() => choose(() => onCreate(AccountType.MARGIN))}>
+              <Plus aria-hidden="true" /> New margin account
+            </button>
+            <button type="button" role="menuitem" onClick={() => choose(() => onCreate(AccountType.CASH))}>
+              <Plus aria-hidden="true" /> New cash / IRA account
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { AlertOctagon, CheckCircle2, ShieldAlert } from "lucide-react";
+import { formatMoney } from "../services/engine";
+import { ConsolidatedView } from "../services/consolidation";
+import { AccountType, MarginRegime } from "../types";
+
+interface Props {
+  consolidated: ConsolidatedView;
+  onOpenAccount: (id: string) => void;
+}
+
+export function AccountsView({ consolidated, onOpenAccount }: Props) {
+  return (
+    <section className="page-view accounts-view">
+      <div className="page-header">
+        <span className="eyebrow">{consolidated.accounts.length} tracked account{consolidated.accounts.length === 1 ? "" : "s"}</span>
+        <h1>Consolidated view</h1>
+        <p>Equity, cash and alerts summed across every account. Buying power is not pooled: each account clears its own trades against its own limits.</p>
+      </div>
+      <div className="audit-summary">
+        <div><span>Combined equity</span><strong>{formatMoney(consolidated.currentEquity)}</strong></div>
+        <div><span>Settled cash</span><strong>{formatMoney(consolidated.settledCash)}</strong></div>
+        <div><span>Maintenance excess</span><strong>{formatMoney(consolidated.maintenanceExcess)}</strong></div>
+        <div><span>Unrealized P&amp;L</span><strong>{formatMoney(consolidated.unrealizedPnl)}</strong></div>
+      </div>
+
+      <section className="panel positions-panel">
+        <div className="section-heading compact">
+          <div>
+            <span className="eyebrow">Per account</span>
+            <h2>Balances</h2>
+          </div>
+          <div className="ledger-totals">
+            <span>{consolidated.openPositions} open positions</span>
+            <span>{formatMoney(consolidated.unsettledCash)} pending settlement</span>
+          </div>
+        </div>
+        <div className="table-scroll">
+          <table>
+            <thead>
+              <tr>
+                <th>Account</th>
+                <th>Equity</th>
+                <th>Settled cash</th>
+                <th>Cash available</th>
+                <th>Maintenance excess</th>
+                <th>Capacity</th>
+                <th>Alerts</th>
+              </tr>
+            </thead>
+            <tbody>
+              {consolidated.accounts.map(({ account, result }) => {
+                const { settings } = account;
+                const dangerCount = result.alerts.filter((alert) => alert.level === "danger").length;
+                return (
+                  <tr className="clickable-row" key={account.id} onClick={() => onOpenAccount(account.id)}>
+                    <td>
+                      <strong>{settings.accountName}</strong>
+                      <small>{settings.brokerName} · {settings.accountType === AccountType.CASH ? "cash" : "margin"}</small>
+                    </td>
+                    <td>{formatMoney(result.currentEquity)}</td>
+                    <td>{formatMoney(result.settledCash)}</td>
+                    <td>{formatMoney(result.cashAvailableToTrade)}</td>
+                    <td className={result.maintenanceExcess < 0 ? "negative" : ""}>
+                      {settings.accountType === AccountType.CASH ? "—" : formatMoney(result.maintenanceExcess)}
+                    </td>
+                    <td>
+                      {settings.accountType === AccountType.CASH
+                        ? formatMoney(result.cashAvailableToTrade)
+                        : settings.marginRegime === MarginRegime.LEGACY_PDT
+                          ? formatMoney(result.dtbpRemaining)
+                          : formatMoney(result.intradayBuyingPower)}
+                      <small>
+                        {settings.accountType === AccountType.CASH
+                          ? "cash"
+                          : settings.marginRegime === MarginRegime.LEGACY_PDT ? "DTBP left" : "intraday BP"}
+                      </small>
+                    </td>
+                    <td>
+                      <span className={`clearance ${dangerCount > 0 ? "danger" : result.alerts.length > 0 ? "watch" : "info"}`}>
+                        {result.alerts.length}
+                      </span>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      <section className="panel risk-panel consolidated-alerts">
+        <div className="section-heading compact">
+          <div>
+            <span className="eyebrow">Guardrails</span>
+            <h2>All alerts</h2>
+          </div>
+          <span className="count-badge">{consolidated.alerts.length}</span>
+        </div>
+        {consolidated.alerts.length === 0 ? (
+          <div className="empty-state short">
+            <CheckCircle2 />
+            <div>
+              <strong>No tracked violations</strong>
+              <p>Alerts from every account are listed here, most severe first.</p>
+            </div>
+          </div>
+        ) : (
+          <div className="alert-list">
+            {consolidated.alerts.map((alert) => (
+              <article className={`alert-row ${alert.level}`} key={`${alert.accountId}-${alert.id}`}>
+                {alert.level === "danger" ? <AlertOctagon /> : <ShieldAlert />}
+                <div>
+                  <strong>{alert.accountName} · {alert.title}</strong>
+                  <p>{alert.detail}</p>
+                </div>
+              </article>
+            ))}
+          </div>
+        )}
+      </section>
+    </section>
+  );
+}
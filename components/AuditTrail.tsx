@@ -0,0 +1,25 @@
+import { formatMoney } from "../services/engine";
+import { AuditEntry } from "../types";
+
+interface Props {
+  entries: AuditEntry[];
+  emptyText?: string;
+}
+
+export function AuditTrail({ entries, emptyText = "Log a trade to build the audit trail." }: Props) {
+  return (
+    <div className="panel audit-panel">
+      {entries.length === 0 ? (
+        <div className="empty-table">{emptyText}</div>
+      ) : (
+        entries.map((entry) => (
+          <article className="audit-row" key={entry.id}>
+            <time>{new Date(entry.timestamp).toLocaleString()}</time>
+            <div><strong>{entry.label}</strong><code>{entry.formula}</code></div>
+            <strong>{formatMoney(entry.result)}</strong>
+          </article>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import { FormEvent, useEffect, useState } from "react";
+import { Info, Plus, Trash2, X } from "lucide-react";
+import { cashMovementLabel, formatMoney, isCashCredit } from "../services/engine";
+import { CashMovement, CashMovementType } from "../types";
+
+interface Props {
+  isOpen: boolean;
+  movements: CashMovement[];
+  onSave: (movements: CashMovement[]) => void;
+  onClose: () => void;
+}
+
+const typeTabs = [
+  CashMovementType.DEPOSIT,
+  CashMovementType.WITHDRAWAL,
+  CashMovementType.JOURNAL_IN,
+  CashMovementType.JOURNAL_OUT,
+];
+
+const localDateTime = () => {
+  const now = new Date();
+  now.setMinutes(now.getMinutes() - now.getTimezoneOffset());
+  return now.toISOString().slice(0, 19);
+};
+
+const blankMovement = () => ({
+  type: CashMovementType.DEPOSIT,
+  amount: 0,
+  postedAt: localDateTime(),
+  clearsOn: "",
+  notes: "",
+});
+
+export function CashPanel({ isOpen, movements, onSave, onClose }: Props) {
+  const [draft, setDraft] = useState(blankMovement);
+
+  useEffect(() => {
+    if (isOpen) setDraft(blankMovement());
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const credit = isCashCredit(draft);
+  const valid = draft.amount > 0 && draft.postedAt !== "";
+
+  const record = (event: FormEvent) => {
+    event.preventDefault();
+    if (!valid) return;
+    onSave([...movements, {
+      id: crypto.randomUUID(),
+      postedAt: new Date(draft.postedAt).toISOString(),
+      type: draft.type,
+      amount: draft.amount,
+      ...(credit && draft.clearsOn ? { clearsOn: draft.clearsOn } : {}),
+      ...(draft.notes.trim() ? { notes: draft.notes.trim() } : {}),
+    }]);
+    setDraft((current) => ({ ...blankMovement(), type: current.type }));
+  };
+
+  return (
+    <div className="modal-backdrop" role="presentation" onMouseDown={onClose}>
+      <section className="settings-sheet" role="dialog" aria-modal="true" aria-labelledby="cash-title" onMouseDown={(event) => event.stopPropagation()}>
+        <header className="sheet-header">
+          <div>
+            <span className="eyebrow">Money in and out</span>
+            <h2 id="cash-title">Cash movements</h2>
+            <p>Deposits, withdrawals and journals post to equity, cash and IML at their own time, in sequence with the day’s executions.</p>
+          </div>
+          <button className="icon-button" type="button" onClick={onClose} aria-label="Close cash movements">
+            <X />
+          </button>
+        </header>
+
+        <form className="sheet-body" onSubmit={record}>
+          <div className="settings-section">
+            <div className="settings-section-title">
+              <span>01</span>
+              <div>
+                <h3>Record a movement</h3>
+                <p>A credit first pays down any purchase still unfunded before its settlement date.</p>
+              </div>
+            </div>
+            <div className="segmented quote-tabs" role="tablist">
+              {typeTabs.map((type) => (
+                <button className={draft.type === type ? "active" : ""} type="button" role="tab" aria-selected={draft.type === type} key={type} onClick={() => setDraft((current) => ({ ...current, type }))}>
+                  {cashMovementLabel[type]}
+                </button>
+              ))}
+            </div>
+            <div className="settings-grid four">
+              <label className="field">
+                <span>Amount</span>
+                <div className="money-input">
+                  <b>$</b>
+                  <input type="number" min="0" step="0.01" value={draft.amount || ""} onChange={(event) => setDraft((current) => ({ ...current, amount: Number(event.target.value) }))} />
+                </div>
+              </label>
+              <label className="field">
+                <span>Posted at</span>
+                <input type="datetime-local" step="1" value={draft.postedAt} onChange={(event) => setDraft((current) => ({ ...current, postedAt: event.target.value }))} />
+              </label>
+              {credit && (
+                <label className="field">
+                  <span>On hold until</span>
+                  <input type="date" value={draft.clearsOn} onChange={(event) => setDraft((current) => ({ ...current, clearsOn: event.target.value }))} />
+                </label>
+              )}
+              <label className="field">
+                <span>Note</span>
+                <input maxLength={60} placeholder="ACH from checking" value={draft.notes} onChange={(event) => setDraft((current) => ({ ...current, notes: event.target.value }))} />
+              </label>
+            </div>
+            {credit && (
+              <div className="info-callout">
+                <Info />
+                <p>Held funds count toward equity and IML at once but settle only when the hold clears. A position bought with them and sold before then is flagged like one bought with unsettled proceeds.</p>
+              </div>
+            )}
+            <div className="catalog-actions">
+              <p>{credit ? "Credits also count toward an intraday deficit that arose before them." : "A withdrawal lowers IML and must come from settled cash in a cash account."}</p>
+              <button className="button primary" type="submit" disabled={!valid}>
+                <Plus size={15} aria-hidden="true" />
+                Record {cashMovementLabel[draft.type].toLowerCase()}
+              </button>
+            </div>
+          </div>
+
+          <div className="settings-section">
+            <div className="settings-section-title">
+              <span>02</span>
+              <div>
+                <h3>Recorded movements</h3>
+                <p>Closing the day folds these into the next opening balances.</p>
+              </div>
+            </div>
+            {movements.length === 0 ? (
+              <div className="info-callout"><Info /><p>No deposits, withdrawals or journals recorded for this snapshot.</p></div>
+            ) : (
+              <div className="table-scroll import-preview">
+                <table>
+                  <thead>
+                    <tr>
+                      <th>Posted</th>
+                      <th>Type</th>
+                      <th>Amount</th>
+                      <th>Hold</th>
+                      <th aria-label="Actions" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[...movements].sort((a, b) => a.postedAt.localeCompare(b.postedAt)).map((movement) => (
+                      <tr key={movement.id}>
+                        <td>
+                          <strong>{new Date(movement.postedAt).toLocaleDateString(undefined, { month: "short", day: "numeric" })}</strong>
+                          <small>{new Date(movement.postedAt).toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" })}</small>
+                        </td>
+                        <td>
+                          <strong>{cashMovementLabel[movement.type]}</strong>
+                          {movement.notes && <small>{movement.notes}</small>}
+                        </td>
+                        <td className={isCashCredit(movement) ? "positive" : "negative"}>
+                          {isCashCredit(movement) ? "+" : "−"}{formatMoney(movement.amount)}
+                        </td>
+                        <td>{movement.clearsOn ? `Until ${movement.clearsOn}` : "Cleared"}</td>
+                        <td>
+                          <button className="icon-button" type="button" aria-label={`Delete ${cashMovementLabel[movement.type].toLowerCase()}`} onClick={() => onSave(movements.filter((item) => item.id !== movement.id))}>
+                            <Trash2 />
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </form>
+
+        <footer className="sheet-footer">
+          <button className="button ghost" type="button" onClick={onClose}>Close</button>
+        </footer>
+      </section>
+    </div>
+  );
+}
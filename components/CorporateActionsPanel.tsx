@@ -0,0 +1,246 @@
+import { FormEvent, useEffect, useState } from "react";
+import { Info, Plus, Trash2, X } from "lucide-react";
+import { corporateActionLabel, describeCorporateAction } from "../services/engine";
+import { CorporateAction, CorporateActionType } from "../types";
+
+interface Props {
+  isOpen: boolean;
+  snapshotDate: string;
+  actions: CorporateAction[];
+  onSave: (actions: CorporateAction[]) => void;
+  onClose: () => void;
+}
+
+const typeTabs = [
+  CorporateActionType.SPLIT,
+  CorporateActionType.SYMBOL_CHANGE,
+  CorporateActionType.CASH_MERGER,
+  CorporateActionType.STOCK_MERGER,
+  CorporateActionType.SPIN_OFF,
+];
+
+const typeHint: Record<CorporateActionType, string> = {
+  [CorporateActionType.SPLIT]: "Quantity and price scale by the ratio; cost is unchanged. Enter 1 for 10 for a reverse split.",
+  [CorporateActionType.SYMBOL_CHANGE]: "Lots keep their cost and dates and are margined at the new symbol’s catalog rates.",
+  [CorporateActionType.CASH_MERGER]: "Open lots close at the cash price and the gain or loss is realized on the effective date.",
+  [CorporateActionType.STOCK_MERGER]: "Shares convert to the acquirer at the exchange ratio, with cost carried over.",
+  [CorporateActionType.SPIN_OFF]: "Part of the parent’s cost moves to the new shares, as stated in the issuer’s basis notice.",
+};
+
+const blankAction = (date: string) => ({
+  type: CorporateActionType.SPLIT,
+  symbol: "",
+  newSymbol: "",
+  splitNew: 2,
+  splitOld: 1,
+  ratio: 1,
+  cashPerShare: 0,
+  basisAllocation: 0,
+  effectiveDate: date,
+});
+
+type Draft = ReturnType<typeof blankAction>;
+
+const toAction = (draft: Draft, id: string): CorporateAction => {
+  const base = { id, type: draft.type, symbol: draft.symbol.trim().toUpperCase(), effectiveDate: draft.effectiveDate };
+  const newSymbol = draft.newSymbol.trim().toUpperCase();
+  switch (draft.type) {
+    case CorporateActionType.SPLIT:
+      return { ...base, ratio: draft.splitOld > 0 ? draft.splitNew / draft.splitOld : 0 };
+    case CorporateActionType.SYMBOL_CHANGE:
+      return { ...base, newSymbol };
+    case CorporateActionType.CASH_MERGER:
+      return { ...base, cashPerShare: draft.cashPerShare };
+    case CorporateActionType.STOCK_MERGER:
+      return { ...base, newSymbol, ratio: draft.ratio };
+    case CorporateActionType.SPIN_OFF:
+      return { ...base, newSymbol, ratio: draft.ratio, basisAllocation: draft.basisAllocation };
+  }
+};
+
+const isValid = (draft: Draft) => {
+  const symbol = draft.symbol.trim().toUpperCase();
+  const newSymbol = draft.newSymbol.trim().toUpperCase();
+  if (symbol === "" || draft.effectiveDate === "") return false;
+  switch (draft.type) {
+    case CorporateActionType.SPLIT:
+      return draft.splitNew > 0 && draft.splitOld > 0 && draft.splitNew !== draft.splitOld;
+    case CorporateActionType.SYMBOL_CHANGE:
+      return newSymbol !== "" && newSymbol !== symbol;
+    case CorporateActionType.CASH_MERGER:
+      return draft.cashPerShare > 0;
+    case CorporateActionType.STOCK_MERGER:
+      return newSymbol !== "" && newSymbol !== symbol && draft.ratio > 0;
+    case CorporateActionType.SPIN_OFF:
+      return newSymbol !== "" && newSymbol !== symbol && draft.ratio > 0 && draft.basisAllocation > 0 && draft.basisAllocation < 1;
+  }
+};
+
+export function CorporateActionsPanel({ isOpen, snapshotDate, actions, onSave, onClose }: Props) {
+  const [draft, setDraft] = useState(() => blankAction(snapshotDate));
+
+  useEffect(() => {
+    if (isOpen) setDraft(blankAction(snapshotDate));
+  }, [isOpen, snapshotDate]);
+
+  if (!isOpen) return null;
+
+  const valid = isValid(draft);
+  const needsNewSymbol = draft.type !== CorporateActionType.SPLIT && draft.type !== CorporateActionType.CASH_MERGER;
+  const update = (change: Partial<Draft>) => setDraft((current) => ({ ...current, ...change }));
+
+  const record = (event: FormEvent) => {
+    event.preventDefault();
+    if (!valid) return;
+    onSave([...actions, toAction(draft, crypto.randomUUID())]);
+    setDraft((current) => ({ ...blankAction(snapshotDate), type: current.type }));
+  };
+
+  return (
+    <div className="modal-backdrop" role="presentation" onMouseDown={onClose}>
+      <section className="settings-sheet" role="dialog" aria-modal="true" aria-labelledby="corporate-actions-title" onMouseDown={(event) => event.stopPropagation()}>
+        <header className="sheet-header">
+          <div>
+            <span className="eyebrow">Issuer events</span>
+            <h2 id="corporate-actions-title">Corporate actions</h2>
+            <p>Actions adjust open lots before the open on their effective date, and each adjustment is explained in the audit trail.</p>
+          </div>
+          <button className="icon-button" type="button" onClick={onClose} aria-label="Close corporate actions">
+            <X />
+          </button>
+        </header>
+
+        <form className="sheet-body" onSubmit={record}>
+          <div className="settings-section">
+            <div className="settings-section-title">
+              <span>01</span>
+              <div>
+                <h3>Record an action</h3>
+                <p>{typeHint[draft.type]}</p>
+              </div>
+            </div>
+            <div className="segmented quote-tabs" role="tablist">
+              {typeTabs.map((type) => (
+                <button className={draft.type === type ? "active" : ""} type="button" role="tab" aria-selected={draft.type === type} key={type} onClick={() => update({ type })}>
+                  {corporateActionLabel[type]}
+                </button>
+              ))}
+            </div>
+            <div className="settings-grid four">
+              <label className="field">
+                <span>Symbol</span>
+                <input maxLength={12} placeholder="AAPL" value={draft.symbol} onChange={(event) => update({ symbol: event.target.value.toUpperCase() })} />
+              </label>
+              {needsNewSymbol && (
+                <label className="field">
+                  <span>{draft.type === CorporateActionType.SPIN_OFF ? "Spun-off symbol" : "New symbol"}</span>
+                  <input maxLength={12} value={draft.newSymbol} onChange={(event) => update({ newSymbol: event.target.value.toUpperCase() })} />
+                </label>
+              )}
+              {draft.type === CorporateActionType.SPLIT && (
+                <>
+                  <label className="field">
+                    <span>New shares</span>
+                    <input type="number" min="0" step="any" value={draft.splitNew || ""} onChange={(event) => update({ splitNew: Number(event.target.value) })} />
+                  </label>
+                  <label className="field">
+                    <span>For every</span>
+                    <input type="number" min="0" step="any" value={draft.splitOld || ""} onChange={(event) => update({ splitOld: Number(event.target.value) })} />
+                  </label>
+                </>
+              )}
+              {draft.type === CorporateActionType.CASH_MERGER && (
+                <label className="field">
+                  <span>Cash per share</span>
+                  <div className="money-input">
+                    <b>$</b>
+                    <input type="number" min="0" step="0.0001" value={draft.cashPerShare || ""} onChange={(event) => update({ cashPerShare: Number(event.target.value) })} />
+                  </div>
+                </label>
+              )}
+              {(draft.type === CorporateActionType.STOCK_MERGER || draft.type === CorporateActionType.SPIN_OFF) && (
+                <label className="field">
+                  <span>New shares per share</span>
+                  <input type="number" min="0" step="any" value={draft.ratio || ""} onChange={(event) => update({ ratio: Number(event.target.value) })} />
+                </label>
+              )}
+              {draft.type === CorporateActionType.SPIN_OFF && (
+                <label className="field">
+                  <span>Cost basis moved</span>
+                  <div className="percent-input">
+                    <input type="number" min="0" max="100" step="0.01" value={draft.basisAllocation ? Number((draft.basisAllocation * 100).toFixed(4)) : ""} onChange={(event) => update({ basisAllocation: Number(event.target.value) / 100 })} />
+                    <b>%</b>
+                  </div>
+                </label>
+              )}
+              <label className="field">
+                <span>Effective date</span>
+                <input type="date" value={draft.effectiveDate} onChange={(event) => update({ effectiveDate: event.target.value })} />
+              </label>
+            </div>
+            <div className="info-callout">
+              <Info />
+              <p>Cash paid in lieu of fractional shares is not booked automatically; log it as a sale of the fraction at the cash-in-lieu price. Options on the symbol are flagged rather than adjusted.</p>
+            </div>
+            <div className="catalog-actions">
+              <p>{valid ? describeCorporateAction(toAction(draft, "")) : "Enter the terms from the issuer’s notice."}</p>
+              <button className="button primary" type="submit" disabled={!valid}>
+                <Plus size={15} aria-hidden="true" />
+                Record {corporateActionLabel[draft.type].toLowerCase()}
+              </button>
+            </div>
+          </div>
+
+          <div className="settings-section">
+            <div className="settings-section-title">
+              <span>02</span>
+              <div>
+                <h3>Scheduled and applied</h3>
+                <p>Closing the day carries the adjusted lots forward and keeps actions with a later effective date.</p>
+              </div>
+            </div>
+            {actions.length === 0 ? (
+              <div className="info-callout"><Info /><p>No corporate actions recorded for this snapshot.</p></div>
+            ) : (
+              <div className="table-scroll import-preview">
+                <table>
+                  <thead>
+                    <tr>
+                      <th>Action</th>
+                      <th>Effective</th>
+                      <th aria-label="Actions" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[...actions].sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate)).map((action) => (
+                      <tr key={action.id}>
+                        <td>
+                          <strong>{describeCorporateAction(action)}</strong>
+                          <small>
+                            {corporateActionLabel[action.type]}
+                            {action.basisAllocation ? ` · ${(action.basisAllocation * 100).toFixed(2)}% of cost` : ""}
+                            {action.notes ? ` · ${action.notes}` : ""}
+                          </small>
+                        </td>
+                        <td>{action.effectiveDate}</td>
+                        <td>
+                          <button className="icon-button" type="button" aria-label={`Delete ${corporateActionLabel[action.type].toLowerCase()}`} onClick={() => onSave(actions.filter((item) => item.id !== action.id))}>
+                            <Trash2 />
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </form>
+
+        <footer className="sheet-footer">
+          <button className="button ghost" type="button" onClick={onClose}>Close</button>
+        </footer>
+      </section>
+    </div>
+  );
+}
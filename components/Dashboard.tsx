@@ -1,22 +1,37 @@
-import type { CSSProperties, ReactNode } from "react";
+import { CSSProperties, Fragment, ReactNode, useState } from "react";
 import {
+  Activity,
   AlertOctagon,
   ArrowDownRight,
   ArrowUpRight,
+  Banknote,
   CalendarClock,
+  CalendarX,
   CheckCircle2,
   CircleDollarSign,
   Gauge,
   Landmark,
+  Pencil,
+  Percent,
+  RefreshCw,
   ShieldAlert,
+  Split,
   Trash2,
 } from "lucide-react";
-import { formatMoney } from "../services/engine";
+import { formatMoney, incomeEventLabel, optionEventLabel } from "../services/engine";
+import { TradeEditDiff } from "../services/tradeEdit";
+import { IntradayTimeline } from "./IntradayTimeline";
+import { TradeEditRow } from "./TradeEditRow";
 import {
   AccountSettings,
   AccountType,
   CalculationResult,
+  DtbpRestriction,
+  InstrumentType,
+  MarginCallType,
   MarginRegime,
+  MarkSource,
+  OptionStrategy,
   Side,
   Trade,
 } from "../types";
@@ -25,9 +40,28 @@ interface Props {
   result: CalculationResult;
   settings: AccountSettings;
   trades: Trade[];
-  onDeleteTrade: (id: string) => void;
+  /** Omitted for archived days, which are read-only. */
+  onDeleteTrade?: (id: string) => void;
+  /** Also omitted for archived days. */
+  onUpdateTrade?: (trade: Trade) => void;
+  onPreviewEdit?: (trade: Trade) => TradeEditDiff;
+  onEditMarks?: () => void;
+  onStressTest?: () => void;
+  onRecordCash?: () => void;
+  onRecordIncome?: () => void;
+  onCorporateActions?: () => void;
+  onExpirations?: () => void;
 }
 
+const strategyLabel: Record<OptionStrategy, string> = {
+  [OptionStrategy.COVERED_CALL]: "Covered call",
+  [OptionStrategy.CASH_SECURED_PUT]: "Cash-secured put",
+  [OptionStrategy.VERTICAL]: "Vertical",
+  [OptionStrategy.STRADDLE]: "Straddle",
+  [OptionStrategy.IRON_CONDOR]: "Iron condor",
+  [OptionStrategy.NAKED]: "Uncovered",
+};
+
 const signedMoney = (value: number) => `${value >= 0 ? "+" : "−"}${formatMoney(Math.abs(value))}`;
 const actionLabel: Record<Side, string> = {
   [Side.BUY]: "Buy",
@@ -35,8 +69,15 @@ const actionLabel: Record<Side, string> = {
   [Side.SELL_SHORT]: "Sell short",
   [Side.BUY_TO_COVER]: "Cover",
 };
+const markSourceLabel: Record<MarkSource, string> = {
+  trade: "Last fill",
+  close: "Prior close",
+  manual: "Manual quote",
+  pasted: "Pasted quote",
+  feed: "Quote feed",
+};
 
-export function Dashboard({ result, settings, trades, onDeleteTrade }: Props) {
+export function Dashboard({ result, settings, trades, onDeleteTrade, onUpdateTrade, onPreviewEdit, onEditMarks, onStressTest, onRecordCash, onRecordIncome, onCorporateActions, onExpirations }: Props) {
   const isIntradayMargin =
     settings.accountType === AccountType.MARGIN
     && settings.marginRegime === MarginRegime.INTRADAY_MARGIN;
@@ -49,9 +90,11 @@ export function Dashboard({ result, settings, trades, onDeleteTrade }: Props) {
 
   const primaryLabel =
     settings.accountType === AccountType.CASH
-      ? "Cash available to trade"
+      ? result.cashRestrictionActive ? "Settled cash available to trade" : "Cash available to trade"
       : settings.marginRegime === MarginRegime.LEGACY_PDT
-        ? "Estimated DTBP remaining"
+        ? result.dtbpRestriction === DtbpRestriction.CASH_AVAILABLE
+          ? "Day trading on cash available"
+          : result.dtbpRestriction === DtbpRestriction.TWO_TIMES ? "Estimated DTBP remaining at 2×" : "Estimated DTBP remaining"
         : "Estimated intraday buying power";
   const capacityLimit =
     settings.accountType === AccountType.CASH
@@ -65,9 +108,17 @@ export function Dashboard({ result, settings, trades, onDeleteTrade }: Props) {
       : settings.marginRegime === MarginRegime.LEGACY_PDT
         ? result.dtbpRemaining
         : result.intradayBuyingPower;
+  const today = result.asOf.slice(0, 10);
+  const incomeEvents = [...settings.incomeEvents].sort((a, b) => a.exDate.localeCompare(b.exDate));
   const capacityPercent = capacityLimit > 0
     ? Math.min(100, Math.max(0, (capacityRemaining / capacityLimit) * 100))
     : 100;
+  const [selectedTradeId, setSelectedTradeId] = useState<string>();
+  const [editingTradeId, setEditingTradeId] = useState<string>();
+  const selectTrade = (tradeId: string) => {
+    setSelectedTradeId(tradeId);
+    document.getElementById(`trade-${tradeId}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+  };
 
   return (
     <>
@@ -99,12 +150,14 @@ export function Dashboard({ result, settings, trades, onDeleteTrade }: Props) {
             <strong>
               {settings.accountType === AccountType.MARGIN
                 ? `${Math.round(capacityPercent)}%`
-                : result.alerts.filter((alert) => alert.level === "danger").length}
+                : result.violationsRemaining}
             </strong>
             <span>
               {settings.accountType === AccountType.MARGIN
                 ? "capacity left"
-                : "critical flags"}
+                : result.cashRestrictionActive
+                  ? `restricted${result.cashRestrictionEndsOn ? ` to ${result.cashRestrictionEndsOn}` : ""}`
+                  : `violation${result.violationsRemaining === 1 ? "" : "s"} remaining`}
             </span>
           </div>
         </div>
@@ -116,7 +169,9 @@ export function Dashboard({ result, settings, trades, onDeleteTrade }: Props) {
           label={settings.accountType === AccountType.CASH ? "Cash available" : "Margin buying power"}
           value={formatMoney(settings.accountType === AccountType.CASH ? result.cashAvailableToTrade : result.marginBuyingPower)}
           note={settings.accountType === AccountType.CASH
-            ? "Settled plus eligible pending proceeds"
+            ? result.cashRestrictionActive
+              ? `Settled cash only · ${result.goodFaithViolations} GFV in 12 months`
+              : `Settled plus eligible pending proceeds · ${result.goodFaithViolations} GFV in 12 months`
             : settings.brokerMarginBuyingPower > 0
               ? "Broker opening BP less tracked use"
               : "Estimate from maintenance excess"}
@@ -154,7 +209,7 @@ export function Dashboard({ result, settings, trades, onDeleteTrade }: Props) {
             settings.accountType === AccountType.CASH
               ? "Sale proceeds awaiting T+1"
               : settings.marginRegime === MarginRegime.LEGACY_PDT
-              ? `${formatMoney(result.dtbpLimit)} opening limit`
+              ? `${formatMoney(result.dtbpLimit)} opening limit · ${result.pdtCounter.flagged ? "PDT flag" : `${result.pdtCounter.remaining} day trade${result.pdtCounter.remaining === 1 ? "" : "s"} left`}`
               : result.outstandingIntradayDeficit > 0
                 ? `${formatMoney(result.outstandingIntradayDeficit)} outstanding${result.intradayDeficitDueDate ? ` · checkpoint ${result.intradayDeficitDueDate}` : ""}`
                 : "Largest negative IML after reducing transactions"
@@ -201,6 +256,12 @@ export function Dashboard({ result, settings, trades, onDeleteTrade }: Props) {
               <span className="eyebrow">T+1 ledger</span>
               <h2>Settlement queue</h2>
             </div>
+            {onRecordCash && (
+              <button className="text-button" type="button" onClick={onRecordCash}>
+                <Banknote aria-hidden="true" />
+                Cash movements{settings.cashMovements.length > 0 ? ` · ${signedMoney(result.netCashMovements)}` : ""}
+              </button>
+            )}
           </div>
           {result.settlements.length === 0 ? (
             <div className="empty-state short">
@@ -218,12 +279,16 @@ export function Dashboard({ result, settings, trades, onDeleteTrade }: Props) {
                   <div>
                     <strong>{item.symbol}</strong>
                     <small>
-                      Sold {new Date(`${item.tradeDate}T12:00:00`).toLocaleDateString(undefined, { month: "short", day: "numeric" })}
+                      {item.incomeType ? "Ex" : item.movementType ? "Posted" : "Sold"} {new Date(`${item.tradeDate}T12:00:00`).toLocaleDateString(undefined, { month: "short", day: "numeric" })}
                     </small>
                   </div>
                   <div className="timeline-value">
                     <strong>{formatMoney(item.amount)}</strong>
-                    <small>{item.status === "settled" ? "Settled" : `Due ${item.settlementDate}`}</small>
+                    <small>
+                      {item.status === "settled"
+                        ? (item.incomeType ? "Paid" : item.movementType ? "Cleared" : "Settled")
+                        : `${item.incomeType ? "Pays" : item.movementType ? "Hold until" : "Due"} ${item.settlementDate}`}
+                    </small>
                   </div>
                 </div>
               ))}
@@ -232,13 +297,127 @@ export function Dashboard({ result, settings, trades, onDeleteTrade }: Props) {
         </div>
       </section>
 
+      {result.marginCalls.length > 0 && (
+        <section className="panel margin-calls-panel">
+          <div className="section-heading compact">
+            <div>
+              <span className="eyebrow">Calls</span>
+              <h2>Reg T and house calls</h2>
+            </div>
+            <span className="count-badge">{result.marginCalls.filter((call) => call.remaining > 0).length}</span>
+          </div>
+          <div className="timeline">
+            {result.marginCalls.map((call) => (
+              <div className="timeline-row" key={call.id}>
+                <span className={`timeline-dot ${call.remaining <= 0 ? "settled" : call.level === "danger" ? "danger" : ""}`} />
+                <div>
+                  <strong>{call.type === MarginCallType.REG_T ? "Reg T call" : "House call"} · {formatMoney(call.amount)}</strong>
+                  <small>Issued {call.issuedOn}</small>
+                </div>
+                <div className="timeline-value">
+                  <strong>{formatMoney(call.remaining)}</strong>
+                  <small>
+                    {call.remaining <= 0
+                      ? "Met"
+                      : call.businessDaysLeft < 0 ? `Past due since ${call.dueOn}` : `Due ${call.dueOn}`}
+                  </small>
+                </div>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {(settings.accountType === AccountType.MARGIN || incomeEvents.length > 0 || onRecordIncome) && (
+        <section className="panel interest-panel">
+          <div className="section-heading compact">
+            <div>
+              <span className="eyebrow">Carry</span>
+              <h2>Income and interest</h2>
+            </div>
+            {onRecordIncome && (
+              <button className="text-button" type="button" onClick={onRecordIncome}>
+                <Percent aria-hidden="true" />
+                Dividends and interest
+              </button>
+            )}
+          </div>
+          <div className="audit-summary">
+            <div><span>Income booked</span><strong className={result.netIncome < 0 ? "negative" : ""}>{signedMoney(result.netIncome)}</strong></div>
+            <div>
+              <span>Margin debit</span>
+              <strong>{formatMoney(result.marginDebitBalance)}</strong>
+              <small>{result.marginDebitBalance > 0 ? `${(result.marginInterestRate * 100).toFixed(2)}% blended` : "No borrowing on tracked positions"}</small>
+            </div>
+            <div>
+              <span>Tonight’s accrual</span>
+              <strong>{formatMoney(result.pendingCarryDebit)}</strong>
+              {result.pendingCarryDebit > 0 && (
+                <small>
+                  {result.borrowFeeAccrual > 0 ? `${formatMoney(result.borrowFeeAccrual)} stock-loan fees · ` : ""}
+                  Debited at the close; not in today’s equity, IML or buying power
+                </small>
+              )}
+            </div>
+            <div>
+              <span>Accrued this month</span>
+              <strong>{formatMoney(result.marginInterestAccrued + result.borrowFeesAccrued)}</strong>
+              {result.borrowFeesAccrued > 0 && <small>{formatMoney(result.borrowFeesAccrued)} stock-loan fees</small>}
+            </div>
+          </div>
+          {incomeEvents.length > 0 && (
+            <div className="timeline">
+              {incomeEvents.map((event) => (
+                <div className="timeline-row" key={event.id}>
+                  <span className={`timeline-dot ${event.payDate <= today ? "settled" : ""}`} />
+                  <div>
+                    <strong>{event.symbol ? `${event.symbol} ${incomeEventLabel[event.type].toLowerCase()}` : incomeEventLabel[event.type]}</strong>
+                    <small>{event.exDate > today ? `Ex-date ${event.exDate}` : `Booked ${event.exDate}`}{event.notes ? ` · ${event.notes}` : ""}</small>
+                  </div>
+                  <div className="timeline-value">
+                    <strong>{formatMoney(event.amount)}{event.symbol ? " / share" : ""}</strong>
+                    <small>{event.payDate <= today ? "Paid" : `Pays ${event.payDate}`}</small>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+      )}
+
       <section className="panel positions-panel">
         <div className="section-heading compact">
           <div>
             <span className="eyebrow">Exposure</span>
             <h2>Tracked positions</h2>
           </div>
-          <span className="muted-copy">{result.positions.length} open</span>
+          <div className="ledger-totals">
+            <span>{result.positions.length} open</span>
+            {onEditMarks && (
+              <button className="text-button" type="button" onClick={onEditMarks}>
+                <RefreshCw aria-hidden="true" />
+                Update marks
+              </button>
+            )}
+            {onStressTest && result.positions.length > 0 && (
+              <button className="text-button" type="button" onClick={onStressTest}>
+                <Activity aria-hidden="true" />
+                Stress test
+              </button>
+            )}
+            {onExpirations && result.positions.some((position) => position.instrument === InstrumentType.OPTION) && (
+              <button className="text-button" type="button" onClick={onExpirations}>
+                <CalendarX aria-hidden="true" />
+                Expirations
+              </button>
+            )}
+            {onCorporateActions && (
+              <button className="text-button" type="button" onClick={onCorporateActions}>
+                <Split aria-hidden="true" />
+                Corporate actions
+              </button>
+            )}
+          </div>
         </div>
         {result.positions.length === 0 ? (
           <div className="empty-table">Open positions built from logged trades will appear here.</div>
@@ -265,7 +444,12 @@ export function Dashboard({ result, settings, trades, onDeleteTrade }: Props) {
                     </td>
                     <td>{position.quantity.toLocaleString()}</td>
                     <td>{formatMoney(position.averagePrice)}</td>
-                    <td>{formatMoney(position.markPrice)}</td>
+                    <td>
+                      {formatMoney(position.markPrice)}
+                      <small title={new Date(position.markedAt).toLocaleString()}>
+                        {markSourceLabel[position.markSource]} · {new Date(position.markedAt).toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" })}
+                      </small>
+                    </td>
                     <td>{formatMoney(position.marketValue)}</td>
                     <td>{formatMoney(position.maintenanceRequirement)}</td>
                     <td className={position.unrealizedPnl >= 0 ? "positive" : "negative"}>
@@ -277,8 +461,24 @@ export function Dashboard({ result, settings, trades, onDeleteTrade }: Props) {
             </table>
           </div>
         )}
+        {result.optionStrategies.length > 0 && (
+          <div className="strategy-list">
+            {result.optionStrategies.map((group) => (
+              <div key={group.id}>
+                <span className={`clearance ${group.strategy === OptionStrategy.NAKED ? "watch" : "info"}`}>{strategyLabel[group.strategy]}</span>
+                <p>
+                  <strong>{group.underlying}</strong> {group.description} × {group.contracts}
+                  <small>{group.legs.map((leg) => `${leg.quantity > 0 ? "+" : ""}${leg.quantity} ${leg.symbol}`).join(" · ")}</small>
+                </p>
+                <b>{formatMoney(group.requirement)}</b>
+              </div>
+            ))}
+          </div>
+        )}
       </section>
 
+      <IntradayTimeline result={result} settings={settings} trades={trades} selectedTradeId={selectedTradeId} onSelectTrade={selectTrade} />
+
       <section className="panel ledger-panel">
         <div className="section-heading compact">
           <div>
@@ -288,7 +488,7 @@ export function Dashboard({ result, settings, trades, onDeleteTrade }: Props) {
           <div className="ledger-totals">
             <span>
               {settings.accountType === AccountType.MARGIN && settings.marginRegime === MarginRegime.LEGACY_PDT
-                ? `${result.dayTrades} day trade${result.dayTrades === 1 ? "" : "s"}`
+                ? `${result.pdtCounter.dayTrades} day trade${result.pdtCounter.dayTrades === 1 ? "" : "s"} in 5 days · ${result.pdtCounter.flagged ? "PDT flag" : `${result.pdtCounter.remaining} left before PDT flag`}`
                 : isIntradayMargin
                   ? `${result.imlReducingTransactions} IML-reducing`
                   : `${result.tradeCount} execution${result.tradeCount === 1 ? "" : "s"}`}
@@ -317,13 +517,32 @@ export function Dashboard({ result, settings, trades, onDeleteTrade }: Props) {
                 {[...trades].sort((a, b) => b.executedAt.localeCompare(a.executedAt)).map((trade) => {
                   const analysis = result.analyses[trade.id];
                   const isBuy = trade.side === Side.BUY || trade.side === Side.BUY_TO_COVER;
+                  if (trade.id === editingTradeId && onUpdateTrade && onPreviewEdit) {
+                    return (
+                      <Fragment key={trade.id}>
+                        <TradeEditRow
+                          trade={trade}
+                          trades={trades}
+                          onPreview={onPreviewEdit}
+                          onSave={(edited) => {
+                            onUpdateTrade(edited);
+                            setEditingTradeId(undefined);
+                          }}
+                          onCancel={() => setEditingTradeId(undefined)}
+                        />
+                      </Fragment>
+                    );
+                  }
                   return (
-                    <tr key={trade.id}>
+                    <tr key={trade.id} id={`trade-${trade.id}`} className={trade.id === selectedTradeId ? "selected" : undefined}>
                       <td>
                         <strong>{new Date(trade.executedAt).toLocaleDateString(undefined, { month: "short", day: "numeric" })}</strong>
                         <small>{new Date(trade.executedAt).toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" })}</small>
                       </td>
-                      <td><strong>{trade.symbol}</strong></td>
+                      <td>
+                        <strong>{trade.symbol}</strong>
+                        {trade.optionEvent && <small>{optionEventLabel[trade.optionEvent]}</small>}
+                      </td>
                       <td>
                         <span className={`action-chip ${isBuy ? "buy" : "sell"}`}>
                           {isBuy ? <ArrowDownRight /> : <ArrowUpRight />}
@@ -338,10 +557,17 @@ export function Dashboard({ result, settings, trades, onDeleteTrade }: Props) {
                           {analysis?.risk === "danger" ? "Review" : analysis?.risk === "watch" ? "Hold" : "Clear"}
                         </span>
                       </td>
-                      <td>
-                        <button className="icon-button" type="button" aria-label={`Delete ${trade.symbol} trade`} onClick={() => onDeleteTrade(trade.id)}>
-                          <Trash2 />
-                        </button>
+                      <td className="row-actions">
+                        {onUpdateTrade && onPreviewEdit && (
+                          <button className="icon-button" type="button" aria-label={`Edit ${trade.symbol} trade`} onClick={() => setEditingTradeId(trade.id)}>
+                            <Pencil />
+                          </button>
+                        )}
+                        {onDeleteTrade && (
+                          <button className="icon-button" type="button" aria-label={`Delete ${trade.symbol} trade`} onClick={() => onDeleteTrade(trade.id)}>
+                            <Trash2 />
+                          </button>
+                        )}
                       </td>
                     </tr>
                   );
@@ -0,0 +1,164 @@
+import { useEffect, useMemo, useState } from "react";
+import { CalendarCheck, Info, X } from "lucide-react";
+import { formatMoney, optionEventLabel } from "../services/engine";
+import { ExerciseInstruction, ExpirationRun, planExpirations } from "../services/expiration";
+import { AccountSettings, CalculationContext, OptionEventType, Trade } from "../types";
+
+interface Props {
+  isOpen: boolean;
+  settings: AccountSettings;
+  trades: Trade[];
+  context: CalculationContext;
+  onBook: (trades: Trade[]) => void;
+  onClose: () => void;
+}
+
+const deliveryText = (shares: number, underlying: string, strike: number) =>
+  shares === 0 ? "None" : `${shares > 0 ? "Buy" : "Sell"} ${Math.abs(shares).toLocaleString()} ${underlying} at ${formatMoney(strike)}`;
+
+export function ExpirationPanel({ isOpen, settings, trades, context, onBook, onClose }: Props) {
+  const [expiration, setExpiration] = useState(settings.snapshotDate);
+  const [prices, setPrices] = useState<Record<string, number>>({});
+  const [instructions, setInstructions] = useState<Record<string, ExerciseInstruction>>({});
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setExpiration(settings.snapshotDate);
+    setPrices({});
+    setInstructions({});
+  }, [isOpen, settings.snapshotDate]);
+
+  const run: ExpirationRun | null = useMemo(
+    () => (isOpen ? planExpirations(settings, trades, expiration, prices, instructions, context) : null),
+    [context, expiration, instructions, isOpen, prices, settings, trades],
+  );
+
+  if (!isOpen || !run) return null;
+
+  const underlyings = [...new Set(run.outcomes.map((outcome) => outcome.contract.underlying))];
+  const priceFor = (underlying: string) =>
+    prices[underlying] ?? run.outcomes.find((outcome) => outcome.contract.underlying === underlying)?.underlyingPrice ?? 0;
+
+  const book = () => {
+    onBook(run.trades);
+    onClose();
+  };
+
+  return (
+    <div className="modal-backdrop" role="presentation" onMouseDown={onClose}>
+      <section className="settings-sheet" role="dialog" aria-modal="true" aria-labelledby="expiration-title" onMouseDown={(event) => event.stopPropagation()}>
+        <header className="sheet-header">
+          <div>
+            <span className="eyebrow">Options leaving the book</span>
+            <h2 id="expiration-title">Expiration, exercise and assignment</h2>
+            <p>Contracts a cent or more in the money are exercised or assigned at the strike; the rest expire worthless. Deliveries settle on the usual cycle from the expiration date.</p>
+          </div>
+          <button className="icon-button" type="button" onClick={onClose} aria-label="Close expirations">
+            <X />
+          </button>
+        </header>
+
+        <div className="sheet-body">
+          <div className="settings-section">
+            <div className="settings-section-title">
+              <span>01</span>
+              <div>
+                <h3>Expiration and closing prices</h3>
+                <p>Contracts expiring on or before this date are settled against the underlying’s closing price.</p>
+              </div>
+            </div>
+            <div className="settings-grid four">
+              <label className="field">
+                <span>Expiration</span>
+                <input type="date" value={expiration} onChange={(event) => setExpiration(event.target.value)} />
+              </label>
+              {underlyings.map((underlying) => (
+                <label className="field" key={underlying}>
+                  <span>{underlying} close</span>
+                  <div className="money-input">
+                    <b>$</b>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={priceFor(underlying) || ""}
+                      onChange={(event) => setPrices((current) => ({ ...current, [underlying]: Number(event.target.value) }))}
+                    />
+                  </div>
+                </label>
+              ))}
+            </div>
+            {run.missingPrices.length > 0 && (
+              <div className="info-callout">
+                <Info />
+                <p>Enter a closing price for {run.missingPrices.join(", ")}; until then those contracts stay open.</p>
+              </div>
+            )}
+          </div>
+
+          <div className="settings-section">
+            <div className="settings-section-title">
+              <span>02</span>
+              <div>
+                <h3>Outcome</h3>
+                <p>Assignment of short contracts is assumed whenever they finish in the money. Long holders can instruct their broker not to exercise.</p>
+              </div>
+            </div>
+            {run.outcomes.length === 0 ? (
+              <div className="info-callout"><Info /><p>No tracked contracts expire on or before {expiration}.</p></div>
+            ) : (
+              <div className="table-scroll import-preview">
+                <table>
+                  <thead>
+                    <tr>
+                      <th>Contract</th>
+                      <th>Held</th>
+                      <th>In the money</th>
+                      <th>Outcome</th>
+                      <th>Delivery</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {run.outcomes.map((outcome) => (
+                      <tr key={`${outcome.symbol}-${outcome.side}`}>
+                        <td><strong>{outcome.symbol}</strong></td>
+                        <td>{outcome.side === "long" ? "+" : "−"}{outcome.contracts.toLocaleString()}</td>
+                        <td className={outcome.moneyness !== null && outcome.moneyness > 0 ? "positive" : ""}>
+                          {outcome.moneyness === null ? "No price" : outcome.moneyness > 0 ? formatMoney(outcome.moneyness) : "Out"}
+                        </td>
+                        <td>
+                          {outcome.event === null ? "Stays open" : optionEventLabel[outcome.event]}
+                          {outcome.side === "long" && outcome.event !== null && (
+                            <button
+                              className="text-button"
+                              type="button"
+                              onClick={() => setInstructions((current) => ({
+                                ...current,
+                                [outcome.symbol]: outcome.event === OptionEventType.EXERCISE ? "expire" : "exercise",
+                              }))}
+                            >
+                              {outcome.event === OptionEventType.EXERCISE ? "Do not exercise" : "Exercise"}
+                            </button>
+                          )}
+                        </td>
+                        <td>{deliveryText(outcome.shares, outcome.contract.underlying, outcome.contract.strike)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <footer className="sheet-footer">
+          <button className="button ghost" type="button" onClick={onClose}>Cancel</button>
+          <button className="button primary" type="button" disabled={run.trades.length === 0} onClick={book}>
+            <CalendarCheck size={15} aria-hidden="true" />
+            Book {run.trades.length} leg{run.trades.length === 1 ? "" : "s"}
+          </button>
+        </footer>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { useEffect, useMemo, useState } from "react";
+import { AlertTriangle, CalendarDays, CheckCircle2, ChevronLeft, ChevronRight } from "lucide-react";
+import { AuditTrail } from "./AuditTrail";
+import { Dashboard } from "./Dashboard";
+import { freezeArchive, replayDay, replayDrift } from "../services/archive";
+import { formatMoney } from "../services/engine";
+import { DayArchive } from "../types";
+
+interface Props {
+  archives: DayArchive[];
+  loading: boolean;
+}
+
+const weekdays = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const shiftMonth = (month: string, offset: number) => {
+  const [year, index] = month.split("-").map(Number);
+  const date = new Date(Date.UTC(year, index - 1 + offset, 1));
+  return date.toISOString().slice(0, 7);
+};
+
+const monthDays = (month: string) => {
+  const [year, index] = month.split("-").map(Number);
+  const leading = new Date(Date.UTC(year, index - 1, 1)).getUTCDay();
+  const count = new Date(Date.UTC(year, index, 0)).getUTCDate();
+  return [
+    ...Array.from({ length: leading }, () => null),
+    ...Array.from({ length: count }, (_, day) => `${month}-${String(day + 1).padStart(2, "0")}`),
+  ];
+};
+
+const longDate = (date: string) =>
+  new Date(`${date}T12:00:00`).toLocaleDateString(undefined, { weekday: "long", month: "long", day: "numeric", year: "numeric" });
+
+export function HistoryView({ archives, loading }: Props) {
+  const latest = archives.at(-1)?.date ?? "";
+  const [selectedDate, setSelectedDate] = useState(latest);
+  const [month, setMonth] = useState((latest || new Date().toISOString()).slice(0, 7));
+
+  useEffect(() => {
+    setSelectedDate(latest);
+    if (latest) setMonth(latest.slice(0, 7));
+  }, [latest]);
+
+  const byDate = useMemo(() => new Map(archives.map((archive) => [archive.date, archive])), [archives]);
+  const selected = byDate.get(selectedDate);
+  const replay = useMemo(() => {
+    if (!selected) return null;
+    const archive = freezeArchive(selected);
+    const result = replayDay(archive);
+    return { archive, result, drift: replayDrift(archive, result) };
+  }, [selected]);
+
+  return (
+    <section className="page-view history-view">
+      <div className="page-header">
+        <span className="eyebrow">{archives.length} closed day{archives.length === 1 ? "" : "s"}</span>
+        <h1>Day archive</h1>
+        <p>Each closed day keeps its opening snapshot, executions and closing marks exactly as they were. Pick a day to replay it through the engine.</p>
+      </div>
+
+      <section className="panel history-calendar">
+        <div className="section-heading compact">
+          <div>
+            <span className="eyebrow">Calendar</span>
+            <h2>{new Date(`${month}-01T12:00:00`).toLocaleDateString(undefined, { month: "long", year: "numeric" })}</h2>
+          </div>
+          <div className="calendar-nav">
+            <button className="icon-button" type="button" aria-label="Previous month" onClick={() => setMonth((value) => shiftMonth(value, -1))}>
+              <ChevronLeft />
+            </button>
+            <button className="icon-button" type="button" aria-label="Next month" onClick={() => setMonth((value) => shiftMonth(value, 1))}>
+              <ChevronRight />
+            </button>
+          </div>
+        </div>
+        <div className="calendar-grid">
+          {weekdays.map((day) => <span className="calendar-weekday" key={day}>{day}</span>)}
+          {monthDays(month).map((date, index) => {
+            if (!date) return <span key={`blank-${index}`} />;
+            const archive = byDate.get(date);
+            const danger = archive?.result.alerts.some((alert) => alert.level === "danger");
+            return (
+              <button
+                className={`calendar-day ${archive ? "archived" : ""} ${date === selectedDate ? "active" : ""}`}
+                type="button"
+                key={date}
+                disabled={!archive}
+                onClick={() => setSelectedDate(date)}
+              >
+                <span>{Number(date.slice(8))}</span>
+                {archive && <small className={danger ? "danger" : ""}>{formatMoney(archive.result.currentEquity)}</small>}
+              </button>
+            );
+          })}
+        </div>
+      </section>
+
+      {!replay ? (
+        <section className="panel">
+          <div className="empty-state short">
+            <CalendarDays />
+            <div>
+              <strong>{loading ? "Loading the archive…" : "No archived days yet"}</strong>
+              <p>Use “Close the day” on the overview to archive a session and roll its balances forward.</p>
+            </div>
+          </div>
+        </section>
+      ) : (
+        <>
+          <div className="regime-strip">
+            <div>
+              <strong>{longDate(replay.archive.date)}</strong>
+              <span>closed {new Date(replay.archive.closedAt).toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" })} · read-only</span>
+            </div>
+          </div>
+          {replay.drift.length === 0 ? (
+            <div className="info-callout">
+              <CheckCircle2 />
+              <p>Replay matches the figures recorded at the close.</p>
+            </div>
+          ) : (
+            <div className="info-callout warning">
+              <AlertTriangle />
+              <p>
+                The engine now reads this day differently than it did at the close:{" "}
+                {replay.drift.map((item) => (item.field === "Alerts"
+                  ? `alerts ${item.archived} → ${item.replayed}`
+                  : `${item.field.toLowerCase()} ${formatMoney(item.archived)} → ${formatMoney(item.replayed)}`)).join("; ")}.
+                The archived inputs are unchanged.
+              </p>
+            </div>
+          )}
+          <Dashboard result={replay.result} settings={replay.archive.settings} trades={replay.archive.trades} />
+          <div className="section-heading compact history-audit-heading">
+            <div>
+              <span className="eyebrow">Explain every number</span>
+              <h2>Audit trail</h2>
+            </div>
+          </div>
+          <AuditTrail entries={replay.result.auditTrail} emptyText="No executions were logged on this day." />
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,314 @@
+import { ChangeEvent, useEffect, useMemo, useState } from "react";
+import { FileUp, Info, Save, X } from "lucide-react";
+import { calculateAccount, formatMoney } from "../services/engine";
+import {
+  IMPORT_FIELDS,
+  buildImportTable,
+  mapImportRows,
+  missingRequiredColumns,
+  suggestColumns,
+} from "../services/csvImport";
+import { optionContractFor, optionContractSymbol } from "../services/optionStrategies";
+import {
+  AccountSettings,
+  AccountType,
+  CalculationContext,
+  ImportField,
+  ImportProfile,
+  InstrumentType,
+  MarginRegime,
+  Trade,
+} from "../types";
+
+const importedSymbol = (trade: Trade) => {
+  const contract = optionContractFor(trade);
+  return contract ? optionContractSymbol(contract) : trade.symbol;
+};
+
+interface Props {
+  isOpen: boolean;
+  settings: AccountSettings;
+  trades: Trade[];
+  context: CalculationContext;
+  onImport: (trades: Trade[]) => void;
+  onSaveProfiles: (profiles: ImportProfile[]) => void;
+  onClose: () => void;
+}
+
+const blankProfile = (): ImportProfile => ({
+  id: crypto.randomUUID(),
+  name: "My broker export",
+  hasHeader: true,
+  columns: {},
+  defaultInstrument: InstrumentType.STOCK,
+  defaultMultiplier: 100,
+});
+
+export function ImportPanel({ isOpen, settings, trades, context, onImport, onSaveProfiles, onClose }: Props) {
+  const [text, setText] = useState("");
+  const [profile, setProfile] = useState<ImportProfile>(() => settings.importProfiles[0] ?? blankProfile());
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setText("");
+    setProfile(settings.importProfiles[0] ?? blankProfile());
+  }, [isOpen]);
+
+  const table = useMemo(() => buildImportTable(text, profile.hasHeader), [profile.hasHeader, text]);
+  const batch = useMemo(() => mapImportRows(table, profile, trades), [profile, table, trades]);
+  const missing = missingRequiredColumns(profile);
+  const dryRun = useMemo(() => {
+    if (!isOpen || batch.trades.length === 0) return null;
+    const before = calculateAccount(settings, trades, undefined, context);
+    const after = calculateAccount(settings, [...trades, ...batch.trades], undefined, context);
+    return {
+      before,
+      after,
+      newAlerts: after.alerts.filter((alert) => !before.alerts.some((existing) => existing.id === alert.id)),
+    };
+  }, [batch.trades, context, isOpen, settings, trades]);
+
+  if (!isOpen) return null;
+
+  const isSaved = settings.importProfiles.some((saved) => saved.id === profile.id);
+
+  const loadFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const contents = await file.text();
+    setText(contents);
+    if (Object.keys(profile.columns).length === 0) {
+      setProfile((current) => ({ ...current, columns: suggestColumns(buildImportTable(contents, current.hasHeader).headers) }));
+    }
+  };
+
+  const setColumn = (field: ImportField, header: string) =>
+    setProfile((current) => {
+      const columns = { ...current.columns };
+      if (header) columns[field] = header;
+      else delete columns[field];
+      return { ...current, columns };
+    });
+
+  const saveProfile = () => {
+    onSaveProfiles(isSaved
+      ? settings.importProfiles.map((saved) => (saved.id === profile.id ? profile : saved))
+      : [...settings.importProfiles, profile]);
+  };
+
+  const commit = () => {
+    if (batch.trades.length === 0 || missing.length > 0) return;
+    saveProfile();
+    onImport(batch.trades);
+    onClose();
+  };
+
+  const capacityLabel = settings.accountType === AccountType.CASH
+    ? "Cash available"
+    : settings.marginRegime === MarginRegime.LEGACY_PDT
+      ? "DTBP remaining"
+      : "Intraday buying power";
+  const capacity = (result: ReturnType<typeof calculateAccount>) => settings.accountType === AccountType.CASH
+    ? result.cashAvailableToTrade
+    : settings.marginRegime === MarginRegime.LEGACY_PDT
+      ? result.dtbpRemaining
+      : result.intradayBuyingPower;
+
+  return (
+    <div className="modal-backdrop" role="presentation" onMouseDown={onClose}>
+      <section className="settings-sheet import-sheet" role="dialog" aria-modal="true" aria-labelledby="import-title" onMouseDown={(event) => event.stopPropagation()}>
+        <header className="sheet-header">
+          <div>
+            <span className="eyebrow">Broker activity</span>
+            <h2 id="import-title">Import executions</h2>
+            <p>Paste a table or load a CSV export, map its columns once, and dry-run the batch before it reaches the ledger.</p>
+          </div>
+          <button className="icon-button" type="button" onClick={onClose} aria-label="Close import">
+            <X />
+          </button>
+        </header>
+
+        <div className="sheet-body">
+          <div className="settings-section">
+            <div className="settings-section-title">
+              <span>01</span>
+              <div>
+                <h3>Source</h3>
+                <p>Comma, tab, semicolon and pipe delimiters are detected automatically.</p>
+              </div>
+            </div>
+            <div className="settings-grid">
+              <label className="field">
+                <span>Mapping profile</span>
+                <select
+                  value={isSaved ? profile.id : ""}
+                  onChange={(event) => setProfile(settings.importProfiles.find((saved) => saved.id === event.target.value) ?? blankProfile())}
+                >
+                  <option value="">New profile…</option>
+                  {settings.importProfiles.map((saved) => (
+                    <option value={saved.id} key={saved.id}>{saved.name}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="field">
+                <span>CSV file</span>
+                <input type="file" accept=".csv,.tsv,.txt,text/csv" onChange={loadFile} />
+              </label>
+              <label className="field import-text">
+                <span>Or paste rows</span>
+                <textarea
+                  rows={6}
+                  spellCheck={false}
+                  placeholder={"Date,Action,Symbol,Quantity,Price,Fees\n07/27/2026 09:31:02,Buy,AAPL,100,212.40,0"}
+                  value={text}
+                  onChange={(event) => setText(event.target.value)}
+                  onBlur={() => {
+                    if (Object.keys(profile.columns).length === 0) {
+                      setProfile((current) => ({ ...current, columns: suggestColumns(table.headers) }));
+                    }
+                  }}
+                />
+              </label>
+            </div>
+          </div>
+
+          <div className="settings-section">
+            <div className="settings-section-title">
+              <span>02</span>
+              <div>
+                <h3>Column mapping</h3>
+                <p>Saved with the profile so tomorrow’s export maps itself. Unmapped optional columns use the defaults below.</p>
+              </div>
+            </div>
+            <div className="settings-grid">
+              <label className="field">
+                <span>Profile name</span>
+                <input value={profile.name} onChange={(event) => setProfile((current) => ({ ...current, name: event.target.value }))} />
+              </label>
+              <label className="toggle-row">
+                <input type="checkbox" checked={profile.hasHeader} onChange={(event) => setProfile((current) => ({ ...current, hasHeader: event.target.checked }))} />
+                <span><strong>First row contains headers</strong><small>Turn off for headerless pastes; columns become “Column 1”, “Column 2”…</small></span>
+              </label>
+              {IMPORT_FIELDS.map(({ field, label, required }) => (
+                <label className="field" key={field}>
+                  <span>{label}{required ? " *" : ""}</span>
+                  <select value={profile.columns[field] ?? ""} onChange={(event) => setColumn(field, event.target.value)}>
+                    <option value="">{required ? "Choose a column" : "Not in export"}</option>
+                    {table.headers.map((header) => (
+                      <option value={header} key={header}>{header}</option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+              <label className="field">
+                <span>Default instrument</span>
+                <select
+                  value={profile.defaultInstrument}
+                  onChange={(event) => setProfile((current) => ({ ...current, defaultInstrument: event.target.value as InstrumentType }))}
+                >
+                  <option value={InstrumentType.STOCK}>Stock</option>
+                  <option value={InstrumentType.ETF}>ETF</option>
+                  <option value={InstrumentType.LEVERAGED_ETP}>Leveraged ETP</option>
+                  <option value={InstrumentType.OPTION}>Option</option>
+                </select>
+              </label>
+              <label className="field">
+                <span>Default multiplier</span>
+                <input
+                  type="number"
+                  min="1"
+                  value={profile.defaultMultiplier}
+                  onChange={(event) => setProfile((current) => ({ ...current, defaultMultiplier: Number(event.target.value) }))}
+                />
+              </label>
+            </div>
+            <div className="catalog-actions">
+              <p>{missing.length > 0 ? `Map ${missing.join(", ")} to continue.` : "All required columns are mapped."}</p>
+              <button className="text-button" type="button" onClick={saveProfile}>
+                <Save size={14} aria-hidden="true" />
+                {isSaved ? "Update profile" : "Save profile"}
+              </button>
+            </div>
+          </div>
+
+          <div className="settings-section">
+            <div className="settings-section-title">
+              <span>03</span>
+              <div>
+                <h3>Dry run</h3>
+                <p>
+                  {batch.trades.length} new · {batch.duplicates} duplicate · {batch.errors} unreadable.
+                  Duplicates match an existing execution ID, or, for rows without one, the same time, symbol, action, quantity and price.
+                </p>
+              </div>
+            </div>
+            {dryRun && (
+              <div className="audit-summary import-summary">
+                <div><span>Current equity</span><strong>{formatMoney(dryRun.after.currentEquity)}</strong></div>
+                <div><span>Maintenance excess / IML</span><strong>{formatMoney(dryRun.after.maintenanceExcess)}</strong></div>
+                <div><span>{capacityLabel}</span><strong>{formatMoney(capacity(dryRun.after))}</strong></div>
+                <div><span>Change in capacity</span><strong>{formatMoney(capacity(dryRun.after) - capacity(dryRun.before))}</strong></div>
+              </div>
+            )}
+            {dryRun && dryRun.newAlerts.length > 0 && (
+              <div className="alert-list import-alerts">
+                {dryRun.newAlerts.map((alert) => (
+                  <article className={`alert-row ${alert.level}`} key={alert.id}>
+                    <Info />
+                    <div>
+                      <strong>{alert.title}</strong>
+                      <p>{alert.detail}</p>
+                    </div>
+                  </article>
+                ))}
+              </div>
+            )}
+            {batch.rows.length > 0 && (
+              <div className="table-scroll import-preview">
+                <table>
+                  <thead>
+                    <tr>
+                      <th>Line</th>
+                      <th>Execution</th>
+                      <th>Symbol</th>
+                      <th>Action</th>
+                      <th>Quantity</th>
+                      <th>Price</th>
+                      <th>Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {batch.rows.map((row) => (
+                      <tr key={row.line}>
+                        <td>{row.line}</td>
+                        <td>{row.trade ? new Date(row.trade.executedAt).toLocaleString() : "—"}</td>
+                        <td><strong>{row.trade ? importedSymbol(row.trade) : "—"}</strong></td>
+                        <td>{row.trade?.side.replaceAll("_", " ") ?? "—"}</td>
+                        <td>{row.trade?.quantity.toLocaleString() ?? "—"}</td>
+                        <td>{row.trade ? formatMoney(row.trade.price) : "—"}</td>
+                        <td>
+                          <span className={`clearance ${row.status === "new" ? "info" : row.status === "duplicate" ? "watch" : "danger"}`}>
+                            {row.status}
+                          </span>
+                          <small>{row.message}</small>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <footer className="sheet-footer">
+          <button className="button ghost" type="button" onClick={onClose}>Cancel</button>
+          <button className="button primary" type="button" disabled={batch.trades.length === 0 || missing.length > 0} onClick={commit}>
+            <FileUp size={15} aria-hidden="true" />
+            Import {batch.trades.length} execution{batch.trades.length === 1 ? "" : "s"}
+          </button>
+        </footer>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+import { FormEvent, useEffect, useState } from "react";
+import { Info, Plus, Trash2, X } from "lucide-react";
+import { formatMoney, incomeEventLabel } from "../services/engine";
+import { IncomeEvent, IncomeEventType } from "../types";
+
+interface Props {
+  isOpen: boolean;
+  snapshotDate: string;
+  events: IncomeEvent[];
+  onSave: (events: IncomeEvent[]) => void;
+  onClose: () => void;
+}
+
+const typeTabs = [IncomeEventType.DIVIDEND, IncomeEventType.CREDIT_INTEREST];
+
+const blankEvent = (date: string) => ({
+  type: IncomeEventType.DIVIDEND,
+  symbol: "",
+  amount: 0,
+  exDate: date,
+  payDate: date,
+});
+
+export function IncomePanel({ isOpen, snapshotDate, events, onSave, onClose }: Props) {
+  const [draft, setDraft] = useState(() => blankEvent(snapshotDate));
+
+  useEffect(() => {
+    if (isOpen) setDraft(blankEvent(snapshotDate));
+  }, [isOpen, snapshotDate]);
+
+  if (!isOpen) return null;
+
+  const dividend = draft.type === IncomeEventType.DIVIDEND;
+  const valid = draft.amount > 0 && draft.exDate !== "" && draft.payDate >= draft.exDate && (!dividend || draft.symbol.trim() !== "");
+
+  const record = (event: FormEvent) => {
+    event.preventDefault();
+    if (!valid) return;
+    onSave([...events, {
+      id: crypto.randomUUID(),
+      type: draft.type,
+      ...(dividend ? { symbol: draft.symbol.trim().toUpperCase() } : {}),
+      amount: draft.amount,
+      exDate: draft.exDate,
+      payDate: draft.payDate,
+    }]);
+    setDraft((current) => ({ ...blankEvent(snapshotDate), type: current.type }));
+  };
+
+  return (
+    <div className="modal-backdrop" role="presentation" onMouseDown={onClose}>
+      <section className="settings-sheet" role="dialog" aria-modal="true" aria-labelledby="income-title" onMouseDown={(event) => event.stopPropagation()}>
+        <header className="sheet-header">
+          <div>
+            <span className="eyebrow">Carry</span>
+            <h2 id="income-title">Dividends and interest</h2>
+            <p>Dividends book on the ex-date against the position held going into it and reach cash on the pay date. Short positions owe the dividend.</p>
+          </div>
+          <button className="icon-button" type="button" onClick={onClose} aria-label="Close dividends and interest">
+            <X />
+          </button>
+        </header>
+
+        <form className="sheet-body" onSubmit={record}>
+          <div className="settings-section">
+            <div className="settings-section-title">
+              <span>01</span>
+              <div>
+                <h3>Record an event</h3>
+                <p>Enter upcoming dividends ahead of time; nothing books until the ex-date.</p>
+              </div>
+            </div>
+            <div className="segmented quote-tabs" role="tablist">
+              {typeTabs.map((type) => (
+                <button className={draft.type === type ? "active" : ""} type="button" role="tab" aria-selected={draft.type === type} key={type} onClick={() => setDraft((current) => ({ ...current, type }))}>
+                  {incomeEventLabel[type]}
+                </button>
+              ))}
+            </div>
+            <div className="settings-grid four">
+              {dividend && (
+                <label className="field">
+                  <span>Symbol</span>
+                  <input maxLength={12} placeholder="AAPL" value={draft.symbol} onChange={(event) => setDraft((current) => ({ ...current, symbol: event.target.value.toUpperCase() }))} />
+                </label>
+              )}
+              <label className="field">
+                <span>{dividend ? "Per share" : "Amount"}</span>
+                <div className="money-input">
+                  <b>$</b>
+                  <input type="number" min="0" step={dividend ? "0.0001" : "0.01"} value={draft.amount || ""} onChange={(event) => setDraft((current) => ({ ...current, amount: Number(event.target.value) }))} />
+                </div>
+              </label>
+              <label className="field">
+                <span>{dividend ? "Ex-date" : "Credited"}</span>
+                <input type="date" value={draft.exDate} onChange={(event) => setDraft((current) => ({ ...current, exDate: event.target.value, payDate: current.payDate < event.target.value ? event.target.value : current.payDate }))} />
+              </label>
+              <label className="field">
+                <span>Pay date</span>
+                <input type="date" min={draft.exDate} value={draft.payDate} onChange={(event) => setDraft((current) => ({ ...current, payDate: event.target.value }))} />
+              </label>
+            </div>
+            <div className="catalog-actions">
+              <p>Margin interest is accrued automatically from the rate schedule in the account configuration.</p>
+              <button className="button primary" type="submit" disabled={!valid}>
+                <Plus size={15} aria-hidden="true" />
+                Record {incomeEventLabel[draft.type].toLowerCase()}
+              </button>
+            </div>
+          </div>
+
+          <div className="settings-section">
+            <div className="settings-section-title">
+              <span>02</span>
+              <div>
+                <h3>Scheduled and booked</h3>
+                <p>Closing the day keeps events with a later ex-date; booked amounts still unpaid stay in the settlement queue.</p>
+              </div>
+            </div>
+            {events.length === 0 ? (
+              <div className="info-callout"><Info /><p>No dividends or interest recorded for this snapshot.</p></div>
+            ) : (
+              <div className="table-scroll import-preview">
+                <table>
+                  <thead>
+                    <tr>
+                      <th>Event</th>
+                      <th>Amount</th>
+                      <th>Ex-date</th>
+                      <th>Pay date</th>
+                      <th aria-label="Actions" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[...events].sort((a, b) => a.exDate.localeCompare(b.exDate)).map((event) => (
+                      <tr key={event.id}>
+                        <td>
+                          <strong>{event.symbol ?? incomeEventLabel[event.type]}</strong>
+                          <small>{event.symbol ? incomeEventLabel[event.type] : event.notes ?? ""}</small>
+                        </td>
+                        <td>{formatMoney(event.amount)}{event.symbol ? " / share" : ""}</td>
+                        <td>{event.exDate}</td>
+                        <td>{event.payDate}</td>
+                        <td>
+                          <button className="icon-button" type="button" aria-label={`Delete ${incomeEventLabel[event.type].toLowerCase()}`} onClick={() => onSave(events.filter((item) => item.id !== event.id))}>
+                            <Trash2 />
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </form>
+
+        <footer className="sheet-footer">
+          <button className="button ghost" type="button" onClick={onClose}>Close</button>
+        </footer>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { useMemo } from "react";
+import { formatMoney } from "../services/engine";
+import { IntradayTimeline as Timeline, TimelineSeries, buildIntradayTimeline, timelineSeriesLabel } from "../services/intradayTimeline";
+import { AccountSettings, CalculationResult, Trade } from "../types";
+
+interface Props {
+  result: CalculationResult;
+  settings: AccountSettings;
+  trades: Trade[];
+  selectedTradeId?: string;
+  onSelectTrade: (tradeId: string) => void;
+}
+
+const WIDTH = 720;
+const HEIGHT = 240;
+const PAD = { top: 18, right: 18, bottom: 30, left: 64 };
+
+const compactMoney = new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", notation: "compact", maximumFractionDigits: 1 });
+const timeLabel = (executedAt: string) => new Date(executedAt).toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" });
+
+export function IntradayTimeline({ result, settings, trades, selectedTradeId, onSelectTrade }: Props) {
+  const timeline: Timeline = useMemo(() => buildIntradayTimeline(settings, trades, result), [result, settings, trades]);
+  const { points, series, references } = timeline;
+  if (points.length === 0) return null;
+
+  const values = [0, ...points.flatMap((point) => series.map((key) => point.values[key])), ...references.map((reference) => reference.value)];
+  const low = Math.min(...values);
+  const high = Math.max(...values);
+  const span = high - low || 1;
+  const times = points.map((point) => Date.parse(point.executedAt));
+  const first = Math.min(...times);
+  const elapsed = Math.max(...times) - first;
+  const plotWidth = WIDTH - PAD.left - PAD.right;
+  const plotHeight = HEIGHT - PAD.top - PAD.bottom;
+
+  // Executions are placed by time of day; a ledger whose fills share one
+  // timestamp falls back to even spacing so every point stays clickable.
+  const x = (index: number) => PAD.left + (points.length === 1
+    ? plotWidth / 2
+    : elapsed > 0 ? ((times[index] - first) / elapsed) * plotWidth : (index / (points.length - 1)) * plotWidth);
+  const y = (value: number) => PAD.top + ((high - value) / span) * plotHeight;
+  const path = (key: TimelineSeries) => points.map((point, index) => `${index === 0 ? "M" : "L"}${x(index).toFixed(1)},${y(point.values[key]).toFixed(1)}`).join(" ");
+  const deficit = points.findIndex((point) => point.deficitHigh);
+  const reducing = points.filter((point) => point.imlReducing).length;
+
+  return (
+    <section className="panel timeline-panel">
+      <div className="section-heading compact">
+        <div>
+          <span className="eyebrow">Through the session · {timeline.day}</span>
+          <h2>Intraday timeline</h2>
+        </div>
+        <div className="ledger-totals">
+          <span>{points.length} execution{points.length === 1 ? "" : "s"}</span>
+          {series.includes("iml") && <span>{reducing} IML-reducing</span>}
+          {deficit >= 0 && <span>Deficit high {formatMoney(result.highestIntradayDeficit)}</span>}
+        </div>
+      </div>
+
+      <div className="intraday-chart">
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} role="img" aria-label="Balances after each execution">
+          {[...new Set([high, low])].map((value) => (
+            <g key={`tick-${value}`} className="chart-axis">
+              <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(value)} y2={y(value)} />
+              <text x={PAD.left - 8} y={y(value) + 4}>{compactMoney.format(value)}</text>
+            </g>
+          ))}
+          {low < 0 && high > 0 && <line className="chart-zero" x1={PAD.left} x2={WIDTH - PAD.right} y1={y(0)} y2={y(0)} />}
+          {references.map((reference) => (
+            <g key={reference.label} className="chart-reference">
+              <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(reference.value)} y2={y(reference.value)} />
+              <text x={WIDTH - PAD.right} y={y(reference.value) - 5}>{reference.label}</text>
+            </g>
+          ))}
+          <text className="chart-time" x={x(0)} y={HEIGHT - 8}>{timeLabel(points[0].executedAt)}</text>
+          {points.length > 1 && <text className="chart-time end" x={x(points.length - 1)} y={HEIGHT - 8}>{timeLabel(points[points.length - 1].executedAt)}</text>}
+
+          {series.map((key) => <path key={key} className={`chart-line ${key}`} d={path(key)} />)}
+
+          {points.map((point, index) => (
+            <g
+              key={point.tradeId}
+              className={`chart-point${point.tradeId === selectedTradeId ? " selected" : ""}`}
+              role="button"
+              tabIndex={0}
+              aria-label={`${point.symbol} at ${timeLabel(point.executedAt)}`}
+              onClick={() => onSelectTrade(point.tradeId)}
+              onKeyDown={(event) => {
+                if (event.key === "Enter" || event.key === " ") {
+                  event.preventDefault();
+                  onSelectTrade(point.tradeId);
+                }
+              }}
+            >
+              <title>
+                {`${point.symbol} · ${timeLabel(point.executedAt)}\n${series.map((key) => `${timelineSeriesLabel[key]}: ${formatMoney(point.values[key])}`).join("\n")}`}
+              </title>
+              <rect className="chart-hit" x={x(index) - 9} y={PAD.top} width={18} height={plotHeight} />
+              {series.map((key) => <circle key={key} className={`chart-dot ${key}`} cx={x(index)} cy={y(point.values[key])} r={3.5} />)}
+              {point.imlReducing && series.includes("iml") && (
+                <path className="chart-marker reducing" d={`M${x(index) - 5},${y(point.values.iml) + 12} l5,-8 l5,8 z`} />
+              )}
+              {point.deficitHigh && (
+                <>
+                  <circle className="chart-marker deficit" cx={x(index)} cy={y(point.values.iml)} r={8} />
+                  <text className="chart-marker-label" x={x(index)} y={y(point.values.iml) - 13}>Deficit high</text>
+                </>
+              )}
+            </g>
+          ))}
+        </svg>
+      </div>
+
+      <div className="chart-legend">
+        {series.map((key) => <span key={key}><i className={`chart-swatch ${key}`} />{timelineSeriesLabel[key]}</span>)}
+        {series.includes("iml") && <span><i className="chart-swatch reducing" />IML-reducing</span>}
+        {deficit >= 0 && <span><i className="chart-swatch deficit" />Deficit high</span>}
+        <small>Click a point to find the execution in the ledger.</small>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,116 @@
+import { Info, Redo2, RotateCcw, Undo2, X } from "lucide-react";
+import { canRestore } from "../services/journal";
+import { AccountWorkspace, ChangeJournal, JournalKind } from "../types";
+
+interface Props {
+  isOpen: boolean;
+  journal: ChangeJournal | null;
+  accounts: AccountWorkspace[];
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onRestore: (entryId: string) => void;
+  onClose: () => void;
+}
+
+const kindLabel: Record<JournalKind, string> = {
+  [JournalKind.BASELINE]: "Opened",
+  [JournalKind.ADD_TRADE]: "Trade added",
+  [JournalKind.EDIT_TRADE]: "Trade edited",
+  [JournalKind.DELETE_TRADE]: "Trade deleted",
+  [JournalKind.SETTINGS]: "Settings",
+  [JournalKind.OVERRIDES]: "Overrides",
+  [JournalKind.SCENARIOS]: "Scenarios",
+  [JournalKind.ACCOUNT]: "Accounts",
+  [JournalKind.RESTORE]: "Restore",
+  [JournalKind.ROLLOVER]: "Day closed",
+  [JournalKind.SYNC]: "Cloud sync",
+};
+
+export function JournalPanel({ isOpen, journal, accounts, canUndo, canRedo, onUndo, onRedo, onRestore, onClose }: Props) {
+  if (!isOpen || !journal) return null;
+
+  const nameOf = (accountId?: string) => {
+    if (!accountId) return "Workspace";
+    const entry = journal.entries.find((candidate) => candidate.accounts.some((account) => account.id === accountId));
+    return (accounts.find((account) => account.id === accountId) ?? entry?.accounts.find((account) => account.id === accountId))?.settings.accountName ?? "Removed account";
+  };
+  const entries = [...journal.entries].reverse();
+
+  return (
+    <div className="modal-backdrop" role="presentation" onMouseDown={onClose}>
+      <section className="settings-sheet" role="dialog" aria-modal="true" aria-labelledby="journal-title" onMouseDown={(event) => event.stopPropagation()}>
+        <header className="sheet-header">
+          <div>
+            <span className="eyebrow">Change journal</span>
+            <h2 id="journal-title">Workspace history</h2>
+            <p>Every trade, settings and override change, newest first. Undo and redo step through it; restoring an earlier point is recorded as a change of its own, so nothing here is lost.</p>
+          </div>
+          <button className="icon-button" type="button" onClick={onClose} aria-label="Close history">
+            <X />
+          </button>
+        </header>
+
+        <div className="sheet-body">
+          <div className="journal-actions">
+            <button className="button ghost" type="button" disabled={!canUndo} onClick={onUndo}>
+              <Undo2 size={15} aria-hidden="true" /> Undo
+            </button>
+            <button className="button ghost" type="button" disabled={!canRedo} onClick={onRedo}>
+              <Redo2 size={15} aria-hidden="true" /> Redo
+            </button>
+          </div>
+          <div className="table-scroll import-preview journal-table">
+            <table>
+              <thead>
+                <tr>
+                  <th>When</th>
+                  <th>Change</th>
+                  <th>Account</th>
+                  <th>State</th>
+                  <th aria-label="Actions" />
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((entry) => {
+                  const current = entry.id === journal.currentId;
+                  const undone = journal.redo.includes(entry.id);
+                  return (
+                    <tr key={entry.id} className={current ? "selected" : undefined}>
+                      <td>
+                        <strong>{new Date(entry.at).toLocaleDateString(undefined, { month: "short", day: "numeric" })}</strong>
+                        <small>{new Date(entry.at).toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit", second: "2-digit" })}</small>
+                      </td>
+                      <td>
+                        <strong>{entry.label}</strong>
+                        <small>{kindLabel[entry.kind]}</small>
+                      </td>
+                      <td>{nameOf(entry.accountId)}</td>
+                      <td>
+                        {current
+                          ? <span className="clearance info">Current</span>
+                          : undone ? <span className="clearance watch">Undone</span> : "—"}
+                      </td>
+                      <td>
+                        {!current && canRestore(journal, entry.id) && (
+                          <button className="text-button" type="button" onClick={() => onRestore(entry.id)}>
+                            <RotateCcw aria-hidden="true" /> Restore
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          <div className="info-callout">
+            <Info />
+            <p>The journal is kept on this device and holds the latest entries only. Closing a day archives it for good, so undo, redo and restore stop at the close.</p>
+          </div>
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+import { useEffect, useState } from "react";
+import { Info, RefreshCw, Trash2, X } from "lucide-react";
+import { formatMoney } from "../services/engine";
+import {
+  QuoteProvider,
+  jsonQuoteProvider,
+  manualQuoteProvider,
+  mergeMarks,
+  pastedQuoteProvider,
+} from "../services/quotes";
+import { AccountSettings, Position, QuoteMark, QuoteSource } from "../types";
+
+interface Props {
+  isOpen: boolean;
+  settings: AccountSettings;
+  positions: Position[];
+  marks: Record<string, QuoteMark>;
+  onSaveMarks: (marks: Record<string, QuoteMark>) => void;
+  onSaveSettings: (settings: AccountSettings) => void;
+  onClose: () => void;
+}
+
+const sourceTabs: Array<{ id: QuoteSource; label: string }> = [
+  { id: "manual", label: "Manual entry" },
+  { id: "pasted", label: "Paste quotes" },
+  { id: "feed", label: "JSON / HTTP feed" },
+];
+
+export function QuotesPanel({ isOpen, settings, positions, marks, onSaveMarks, onSaveSettings, onClose }: Props) {
+  const [source, setSource] = useState<QuoteSource>("manual");
+  const [manualPrices, setManualPrices] = useState<Record<string, number>>({});
+  const [pasted, setPasted] = useState("");
+  const [feedUrl, setFeedUrl] = useState(settings.quoteFeedUrl);
+  const [staleMinutes, setStaleMinutes] = useState(settings.quoteStaleMinutes);
+  const [message, setMessage] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setManualPrices({});
+    setMessage("");
+    setFeedUrl(settings.quoteFeedUrl);
+    setStaleMinutes(settings.quoteStaleMinutes);
+  }, [isOpen, settings.quoteFeedUrl, settings.quoteStaleMinutes]);
+
+  if (!isOpen) return null;
+
+  const symbols = [...new Set(positions.map((position) => position.symbol))];
+
+  const apply = async () => {
+    const provider: QuoteProvider = source === "manual"
+      ? manualQuoteProvider(manualPrices)
+      : source === "pasted"
+        ? pastedQuoteProvider(pasted)
+        : jsonQuoteProvider(feedUrl);
+    setBusy(true);
+    setMessage("");
+    try {
+      const quotes = await provider.fetchQuotes(source === "pasted" ? [] : symbols);
+      onSaveMarks(mergeMarks(marks, quotes));
+      saveQuoteSettings();
+      setManualPrices({});
+      setMessage(`${quotes.length} mark${quotes.length === 1 ? "" : "s"} applied from ${provider.label.toLowerCase()}.`);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : "Quotes could not be loaded.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const saveQuoteSettings = () => {
+    if (feedUrl !== settings.quoteFeedUrl || staleMinutes !== settings.quoteStaleMinutes) {
+      onSaveSettings({ ...settings, quoteFeedUrl: feedUrl, quoteStaleMinutes: staleMinutes });
+    }
+  };
+
+  const removeMark = (symbol: string) => {
+    const next = { ...marks };
+    delete next[symbol];
+    onSaveMarks(next);
+  };
+
+  return (
+    <div className="modal-backdrop" role="presentation" onMouseDown={onClose}>
+      <section className="settings-sheet" role="dialog" aria-modal="true" aria-labelledby="quotes-title" onMouseDown={(event) => event.stopPropagation()}>
+        <header className="sheet-header">
+          <div>
+            <span className="eyebrow">Mark to market</span>
+            <h2 id="quotes-title">Position marks</h2>
+            <p>Quotes replace the last fill price for unrealized P&amp;L, maintenance and IML. Every mark keeps its own timestamp.</p>
+          </div>
+          <button className="icon-button" type="button" onClick={onClose} aria-label="Close marks">
+            <X />
+          </button>
+        </header>
+
+        <div className="sheet-body">
+          <div className="settings-section">
+            <div className="settings-section-title">
+              <span>01</span>
+              <div>
+                <h3>Quote source</h3>
+                <p>No brokerage or market-data connection is made unless you point the feed at one.</p>
+              </div>
+            </div>
+            <div className="segmented quote-tabs" role="tablist">
+              {sourceTabs.map((tab) => (
+                <button className={source === tab.id ? "active" : ""} type="button" role="tab" aria-selected={source === tab.id} key={tab.id} onClick={() => setSource(tab.id)}>
+                  {tab.label}
+                </button>
+              ))}
+            </div>
+            {source === "manual" && (
+              symbols.length === 0 ? (
+                <div className="info-callout"><Info /><p>Open positions appear here once trades are logged.</p></div>
+              ) : (
+                <div className="settings-grid four">
+                  {symbols.map((symbol) => (
+                    <label className="field" key={symbol}>
+                      <span>{symbol}</span>
+                      <div className="money-input">
+                        <b>$</b>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          placeholder={(marks[symbol]?.price ?? positions.find((position) => position.symbol === symbol)?.markPrice ?? 0).toFixed(2)}
+                          value={manualPrices[symbol] || ""}
+                          onChange={(event) => setManualPrices((current) => ({ ...current, [symbol]: Number(event.target.value) }))}
+                        />
+                      </div>
+                    </label>
+                  ))}
+                </div>
+              )
+            )}
+            {source === "pasted" && (
+              <div className="settings-grid">
+                <label className="field import-text">
+                  <span>Symbol, price, optional time</span>
+                  <textarea rows={6} spellCheck={false} placeholder={"AAPL,213.05,10:42\nMSFT\t501.10"} value={pasted} onChange={(event) => setPasted(event.target.value)} />
+                </label>
+              </div>
+            )}
+            {source === "feed" && (
+              <>
+                <div className="settings-grid">
+                  <label className="field import-text">
+                    <span>Feed URL</span>
+                    <input placeholder="http://localhost:8787/quotes.json" value={feedUrl} onChange={(event) => setFeedUrl(event.target.value)} />
+                  </label>
+                </div>
+                <div className="info-callout">
+                  <Info />
+                  <p>The endpoint receives <code>?symbols=AAPL,MSFT</code> and may return <code>[{"{"}"symbol","price","asOf"{"}"}]</code> or a <code>{"{"}"AAPL": 213.05{"}"}</code> map.</p>
+                </div>
+              </>
+            )}
+            <div className="catalog-actions">
+              <p>{message || "Marks apply only when at least as recent as the position’s last fill."}</p>
+              <button className="text-button" type="button" disabled={busy} onClick={apply}>
+                <RefreshCw size={14} className={busy ? "spin" : ""} aria-hidden="true" />
+                Apply marks
+              </button>
+            </div>
+          </div>
+
+          <div className="settings-section">
+            <div className="settings-section-title">
+              <span>02</span>
+              <div>
+                <h3>Current marks</h3>
+                <p>A mark older than the limit raises a stale-quote alert in the risk center.</p>
+              </div>
+            </div>
+            <div className="settings-grid">
+              <label className="field">
+                <span>Stale after (minutes)</span>
+                <input type="number" min="0" step="1" value={staleMinutes} onChange={(event) => setStaleMinutes(Number(event.target.value))} />
+              </label>
+            </div>
+            {Object.keys(marks).length === 0 ? (
+              <div className="info-callout"><Info /><p>No quotes yet. Positions are marked at their last execution price.</p></div>
+            ) : (
+              <div className="table-scroll import-preview">
+                <table>
+                  <thead>
+                    <tr>
+                      <th>Symbol</th>
+                      <th>Mark</th>
+                      <th>Source</th>
+                      <th>As of</th>
+                      <th aria-label="Actions" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {Object.values(marks).sort((a, b) => a.symbol.localeCompare(b.symbol)).map((mark) => (
+                      <tr key={mark.symbol}>
+                        <td><strong>{mark.symbol}</strong></td>
+                        <td>{formatMoney(mark.price)}</td>
+                        <td>{sourceTabs.find((tab) => tab.id === mark.source)?.label ?? mark.source}</td>
+                        <td>{new Date(mark.asOf).toLocaleString()}</td>
+                        <td>
+                          <button className="icon-button" type="button" aria-label={`Remove ${mark.symbol} mark`} onClick={() => removeMark(mark.symbol)}>
+                            <Trash2 />
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <footer className="sheet-footer">
+          <button className="button ghost" type="button" onClick={() => { saveQuoteSettings(); onClose(); }}>Done</button>
+        </footer>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,278 @@
+import { useEffect, useState } from "react";
+import { CheckCircle2, ClipboardPaste, Scale } from "lucide-react";
+import { formatMoney } from "../services/engine";
+import { parseBrokerStatement } from "../services/reconciliation";
+import {
+  AccountSettings,
+  AccountType,
+  BrokerStatement,
+  MarginRegime,
+  PositionVarianceStatus,
+  Reconciliation,
+  ReconciliationTolerance,
+} from "../types";
+
+interface Props {
+  settings: AccountSettings;
+  reconciliation: Reconciliation | null;
+  onSave: (statement: BrokerStatement | null, tolerance: ReconciliationTolerance) => void;
+}
+
+type BalanceKey = "equity" | "cash" | "maintenanceRequirement" | "marginBuyingPower" | "dayTradingBuyingPower";
+
+const statusLabel: Record<PositionVarianceStatus, string> = {
+  matched: "Matched",
+  variance: "Variance",
+  missing_in_ledger: "Not in ledger",
+  missing_at_broker: "Not at broker",
+};
+
+const emptyStatement = (date: string): BrokerStatement => ({
+  asOf: `${date}T20:00:00.000Z`,
+  equity: null,
+  maintenanceRequirement: null,
+  marginBuyingPower: null,
+  dayTradingBuyingPower: null,
+  cash: null,
+  positions: [],
+});
+
+const positionsText = (statement: BrokerStatement) =>
+  statement.positions.map((position) => `${position.symbol}, ${position.quantity}, ${position.averagePrice}`).join("\n");
+
+const signedMoney = (value: number) => `${value > 0 ? "+" : value < 0 ? "−" : ""}${formatMoney(Math.abs(value))}`;
+const signedNumber = (value: number) => `${value > 0 ? "+" : value < 0 ? "−" : ""}${Math.abs(value).toLocaleString()}`;
+
+export function ReconcileView({ settings, reconciliation, onSave }: Props) {
+  const [draft, setDraft] = useState<BrokerStatement>(() => settings.brokerStatement ?? emptyStatement(settings.snapshotDate));
+  const [positions, setPositions] = useState(() => positionsText(draft));
+  const [tolerance, setTolerance] = useState(settings.reconciliationTolerance);
+  const [pasted, setPasted] = useState("");
+
+  useEffect(() => {
+    const saved = settings.brokerStatement ?? emptyStatement(settings.snapshotDate);
+    setDraft(saved);
+    setPositions(positionsText(saved));
+    setTolerance(settings.reconciliationTolerance);
+  }, [settings.brokerStatement, settings.reconciliationTolerance, settings.snapshotDate]);
+
+  const dayTradingLabel = settings.accountType === AccountType.CASH
+    ? "Cash available to trade"
+    : settings.marginRegime === MarginRegime.LEGACY_PDT ? "Day-trading buying power" : "Intraday buying power";
+  const balanceFields: Array<{ key: BalanceKey; label: string }> = [
+    { key: "equity", label: "Equity / net liquidation" },
+    { key: "cash", label: "Cash balance" },
+    { key: "maintenanceRequirement", label: "Maintenance requirement" },
+    { key: "marginBuyingPower", label: "Margin buying power" },
+    { key: "dayTradingBuyingPower", label: dayTradingLabel },
+  ];
+
+  const setBalance = (key: BalanceKey, raw: string) =>
+    setDraft((current) => ({ ...current, [key]: raw === "" ? null : Number(raw) }));
+
+  const fillFromPaste = () => {
+    const parsed = parseBrokerStatement(pasted, draft.asOf);
+    setDraft((current) => ({
+      ...current,
+      ...Object.fromEntries(balanceFields.map(({ key }) => [key, parsed[key] ?? current[key]])),
+      positions: parsed.positions.length > 0 ? parsed.positions : current.positions,
+    }));
+    if (parsed.positions.length > 0) setPositions(positionsText(parsed));
+    setPasted("");
+  };
+
+  const reconcile = () => onSave({ ...draft, positions: parseBrokerStatement(positions, draft.asOf).positions }, tolerance);
+
+  return (
+    <section className="page-view reconcile-view">
+      <div className="page-header">
+        <span className="eyebrow">Broker statement</span>
+        <h1>Reconcile before you trade</h1>
+        <p>Enter what the broker reports and compare it with the ledger field by field. Anything outside tolerance raises an alert on the overview until the two agree.</p>
+      </div>
+
+      <section className="panel">
+        <div className="settings-section">
+          <div className="settings-section-title">
+            <span>01</span>
+            <div>
+              <h3>Reported balances</h3>
+              <p>Leave a field blank to skip it. Paste a balances page to fill what can be recognized.</p>
+            </div>
+          </div>
+          <div className="settings-grid four">
+            <label className="field">
+              <span>Statement date</span>
+              <input
+                type="date"
+                value={draft.asOf.slice(0, 10)}
+                onChange={(event) => setDraft((current) => ({ ...current, asOf: `${event.target.value}T20:00:00.000Z` }))}
+              />
+            </label>
+            {balanceFields.map(({ key, label }) => (
+              <label className="field" key={key}>
+                <span>{label}</span>
+                <div className="money-input">
+                  <b>$</b>
+                  <input type="number" step="0.01" value={draft[key] ?? ""} onChange={(event) => setBalance(key, event.target.value)} />
+                </div>
+              </label>
+            ))}
+          </div>
+          <div className="settings-grid">
+            <label className="field import-text">
+              <span>Positions: symbol, signed quantity, average price</span>
+              <textarea rows={4} spellCheck={false} placeholder={"AAPL, 100, 190.25\nTSLA, -5, 1010"} value={positions} onChange={(event) => setPositions(event.target.value)} />
+            </label>
+            <label className="field import-text">
+              <span>Paste from broker</span>
+              <textarea rows={4} spellCheck={false} placeholder={"Net liquidation value\t31,250.40\nDay trading buying power\t118,000"} value={pasted} onChange={(event) => setPasted(event.target.value)} />
+            </label>
+          </div>
+          <div className="catalog-actions">
+            <p>Balance rows are matched by label; three-column rows are read as positions.</p>
+            <button className="text-button" type="button" disabled={!pasted.trim()} onClick={fillFromPaste}>
+              <ClipboardPaste aria-hidden="true" /> Fill from paste
+            </button>
+          </div>
+        </div>
+
+        <div className="settings-section">
+          <div className="settings-section-title">
+            <span>02</span>
+            <div>
+              <h3>Tolerance</h3>
+              <p>A balance matches when the variance is within the larger of the dollar and percentage thresholds.</p>
+            </div>
+          </div>
+          <div className="settings-grid four">
+            <label className="field">
+              <span>Balance, dollars</span>
+              <div className="money-input">
+                <b>$</b>
+                <input type="number" min="0" step="0.01" value={tolerance.amount} onChange={(event) => setTolerance((current) => ({ ...current, amount: Number(event.target.value) }))} />
+              </div>
+            </label>
+            <label className="field">
+              <span>Balance, percent</span>
+              <div className="percent-input">
+                <input type="number" min="0" step="0.01" value={Number((tolerance.percent * 100).toFixed(4))} onChange={(event) => setTolerance((current) => ({ ...current, percent: Number(event.target.value) / 100 }))} />
+                <b>%</b>
+              </div>
+            </label>
+            <label className="field">
+              <span>Quantity</span>
+              <input type="number" min="0" step="1" value={tolerance.quantity} onChange={(event) => setTolerance((current) => ({ ...current, quantity: Number(event.target.value) }))} />
+            </label>
+            <label className="field">
+              <span>Average price</span>
+              <div className="money-input">
+                <b>$</b>
+                <input type="number" min="0" step="0.01" value={tolerance.price} onChange={(event) => setTolerance((current) => ({ ...current, price: Number(event.target.value) }))} />
+              </div>
+            </label>
+          </div>
+        </div>
+
+        <div className="reconcile-actions">
+          {settings.brokerStatement && (
+            <button className="button ghost" type="button" onClick={() => onSave(null, tolerance)}>Clear statement</button>
+          )}
+          <button className="button primary" type="button" onClick={reconcile}>
+            <Scale size={15} aria-hidden="true" />
+            Reconcile
+          </button>
+        </div>
+      </section>
+
+      {reconciliation && (
+        <>
+          <section className="panel reconcile-results">
+            <div className="section-heading compact">
+              <div>
+                <span className="eyebrow">Statement of {reconciliation.asOf.slice(0, 10)}</span>
+                <h2>Balance variance</h2>
+              </div>
+              <span className="count-badge">{reconciliation.breaks}</span>
+            </div>
+            {reconciliation.breaks === 0 && (
+              <div className="info-callout">
+                <CheckCircle2 />
+                <p>Every reported figure is within tolerance of the ledger.</p>
+              </div>
+            )}
+            <div className="table-scroll">
+              <table>
+                <thead>
+                  <tr>
+                    <th>Field</th>
+                    <th>Broker</th>
+                    <th>Ledger</th>
+                    <th>Variance</th>
+                    <th>Tolerance</th>
+                    <th>Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {reconciliation.balances.length === 0 ? (
+                    <tr><td colSpan={6}>No balances entered.</td></tr>
+                  ) : reconciliation.balances.map((row) => (
+                    <tr key={row.field}>
+                      <td><strong>{row.field}</strong></td>
+                      <td>{formatMoney(row.broker)}</td>
+                      <td>{formatMoney(row.ledger)}</td>
+                      <td className={row.withinTolerance ? "" : "negative"}>{signedMoney(row.variance)}</td>
+                      <td>±{formatMoney(row.tolerance)}</td>
+                      <td><span className={`clearance ${row.withinTolerance ? "info" : "danger"}`}>{row.withinTolerance ? "Matched" : "Break"}</span></td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+
+          <section className="panel reconcile-results">
+            <div className="section-heading compact">
+              <div>
+                <span className="eyebrow">Ledger minus broker</span>
+                <h2>Position variance</h2>
+              </div>
+            </div>
+            <div className="table-scroll">
+              <table>
+                <thead>
+                  <tr>
+                    <th>Symbol</th>
+                    <th>Broker qty</th>
+                    <th>Ledger qty</th>
+                    <th>Qty diff</th>
+                    <th>Broker avg</th>
+                    <th>Ledger avg</th>
+                    <th>Price diff</th>
+                    <th>Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {reconciliation.positions.length === 0 ? (
+                    <tr><td colSpan={8}>Both sides are flat.</td></tr>
+                  ) : reconciliation.positions.map((row) => (
+                    <tr key={row.symbol}>
+                      <td><strong>{row.symbol}</strong></td>
+                      <td>{row.brokerQuantity.toLocaleString()}</td>
+                      <td>{row.ledgerQuantity.toLocaleString()}</td>
+                      <td className={row.quantityVariance !== 0 ? "negative" : ""}>{signedNumber(row.quantityVariance)}</td>
+                      <td>{row.brokerQuantity !== 0 ? formatMoney(row.brokerAveragePrice) : "—"}</td>
+                      <td>{row.ledgerQuantity !== 0 ? formatMoney(row.ledgerAveragePrice) : "—"}</td>
+                      <td>{row.status === "matched" || row.status === "variance" ? signedMoney(row.priceVariance) : "—"}</td>
+                      <td><span className={`clearance ${row.status === "matched" ? "info" : "danger"}`}>{statusLabel[row.status]}</span></td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,125 @@
+import { useMemo } from "react";
+import { Info, MoonStar, X } from "lucide-react";
+import { formatMoney } from "../services/engine";
+import { DayRollover, closeDay } from "../services/rollover";
+import { AccountType, AccountWorkspace, CalculationContext } from "../types";
+
+interface Props {
+  isOpen: boolean;
+  account: AccountWorkspace;
+  context: CalculationContext;
+  onConfirm: (rollover: DayRollover) => void;
+  onClose: () => void;
+}
+
+const longDate = (date: string) =>
+  new Date(`${date}T12:00:00`).toLocaleDateString(undefined, { weekday: "long", month: "long", day: "numeric" });
+
+export function RolloverPanel({ isOpen, account, context, onConfirm, onClose }: Props) {
+  const rollover = useMemo(() => (isOpen ? closeDay(account, context) : null), [account, context, isOpen]);
+
+  if (!isOpen || !rollover) return null;
+
+  const { result, settings: next } = rollover;
+  const pendingTotal = next.openingSettlements.reduce((sum, item) => sum + item.amount, 0);
+
+  return (
+    <div className="modal-backdrop" role="presentation" onMouseDown={onClose}>
+      <section className="settings-sheet" role="dialog" aria-modal="true" aria-labelledby="rollover-title" onMouseDown={(event) => event.stopPropagation()}>
+        <header className="sheet-header">
+          <div>
+            <span className="eyebrow">End of day</span>
+            <h2 id="rollover-title">Close {longDate(rollover.closedDate)}</h2>
+            <p>The ledger as of the 4:00 p.m. close becomes the opening snapshot for {longDate(rollover.nextDate)}. The closed day is archived unchanged.</p>
+          </div>
+          <button className="icon-button" type="button" onClick={onClose} aria-label="Close rollover">
+            <X />
+          </button>
+        </header>
+
+        <div className="sheet-body">
+          <div className="settings-section">
+            <div className="settings-section-title">
+              <span>01</span>
+              <div>
+                <h3>Opening balances</h3>
+                <p>Closing equity and cash carry forward; each pending settlement keeps its own date.</p>
+              </div>
+            </div>
+            <div className="audit-summary import-summary">
+              <div><span>Opening equity</span><strong>{formatMoney(next.startOfDayEquity)}</strong></div>
+              <div><span>Settled cash</span><strong>{formatMoney(next.settledCash)}</strong></div>
+              <div><span>Pending settlement</span><strong>{formatMoney(pendingTotal)}</strong></div>
+              <div><span>Day P&amp;L</span><strong>{formatMoney(result.realizedPnl + result.unrealizedPnl - result.fees)}</strong></div>
+            </div>
+            {account.settings.accountType === AccountType.MARGIN && (
+              <div className="info-callout">
+                <Info />
+                <p>
+                  {next.outstandingIntradayDeficit > 0
+                    ? `${formatMoney(next.outstandingIntradayDeficit)} intraday deficit carries forward, dated ${next.intradayDeficitDate}.`
+                    : "No intraday deficit carries forward."}
+                  {" "}Broker-reported buying power fields are cleared so tomorrow’s limits are computed from these balances; re-enter them if your broker shows different figures.
+                </p>
+              </div>
+            )}
+          </div>
+
+          <div className="settings-section">
+            <div className="settings-section-title">
+              <span>02</span>
+              <div>
+                <h3>Carried positions</h3>
+                <p>Valued at the closing mark. Original cost and acquisition time are kept for tax lots.</p>
+              </div>
+            </div>
+            {next.openingLots.length === 0 ? (
+              <div className="info-callout"><Info /><p>No open positions. Tomorrow starts flat.</p></div>
+            ) : (
+              <div className="table-scroll import-preview">
+                <table>
+                  <thead>
+                    <tr>
+                      <th>Symbol</th>
+                      <th>Side</th>
+                      <th>Quantity</th>
+                      <th>Closing mark</th>
+                      <th>Cost basis</th>
+                      <th>Acquired</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {next.openingLots.map((lot, index) => (
+                      <tr key={`${lot.symbol}-${lot.acquiredAt}-${index}`}>
+                        <td><strong>{lot.symbol}</strong><small>{lot.instrument.replaceAll("_", " ")}</small></td>
+                        <td>{lot.side}</td>
+                        <td>{lot.quantity.toLocaleString()}</td>
+                        <td>{formatMoney(lot.price)}</td>
+                        <td>{formatMoney(lot.costBasis)}</td>
+                        <td>{new Date(lot.acquiredAt).toLocaleDateString()}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            <div className="catalog-actions">
+              <p>
+                {rollover.archive.trades.length} execution{rollover.archive.trades.length === 1 ? "" : "s"} archived
+                {rollover.trades.length > 0 ? ` · ${rollover.trades.length} after the close stay in the ledger` : ""}.
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <footer className="sheet-footer">
+          <button className="button ghost" type="button" onClick={onClose}>Cancel</button>
+          <button className="button primary" type="button" onClick={() => { onConfirm(rollover); onClose(); }}>
+            <MoonStar size={15} aria-hidden="true" />
+            Close the day
+          </button>
+        </footer>
+      </section>
+    </div>
+  );
+}
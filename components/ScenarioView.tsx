@@ -0,0 +1,254 @@
+import { FormEvent, Fragment, useMemo, useState } from "react";
+import { ArrowUpRight, Copy, FlaskConical, Plus, Trash2, X } from "lucide-react";
+import { formatMoney } from "../services/engine";
+import { ScenarioRun, runScenario } from "../services/scenarios";
+import {
+  AccountSettings,
+  AccountType,
+  CalculationContext,
+  CalculationResult,
+  InstrumentType,
+  MarginRegime,
+  Scenario,
+  Side,
+  Trade,
+} from "../types";
+
+interface Props {
+  settings: AccountSettings;
+  trades: Trade[];
+  scenarios: Scenario[];
+  context: CalculationContext;
+  onSaveScenarios: (scenarios: Scenario[]) => void;
+  onPromote: (scenario: Scenario) => void;
+}
+
+const actionLabel: Record<Side, string> = {
+  [Side.BUY]: "Buy",
+  [Side.SELL]: "Sell",
+  [Side.SELL_SHORT]: "Short",
+  [Side.BUY_TO_COVER]: "Cover",
+};
+
+const blankLeg = () => ({ symbol: "", side: Side.BUY, quantity: 100, price: 0 });
+
+export function ScenarioView({ settings, trades, scenarios, context, onSaveScenarios, onPromote }: Props) {
+  const runs = useMemo(() => {
+    const startAt = new Date().toISOString();
+    return scenarios.map((scenario) => runScenario(settings, trades, scenario, context, startAt));
+  }, [context, scenarios, settings, trades]);
+
+  const capacityLabel = settings.accountType === AccountType.CASH
+    ? "Cash available"
+    : settings.marginRegime === MarginRegime.LEGACY_PDT ? "DTBP left" : "Intraday BP";
+  const capacity = (result: Pick<CalculationResult, "cashAvailableToTrade" | "dtbpRemaining" | "intradayBuyingPower">) =>
+    settings.accountType === AccountType.CASH
+      ? result.cashAvailableToTrade
+      : settings.marginRegime === MarginRegime.LEGACY_PDT ? result.dtbpRemaining : result.intradayBuyingPower;
+
+  const update = (id: string, change: (scenario: Scenario) => Scenario) =>
+    onSaveScenarios(scenarios.map((scenario) => (scenario.id === id ? change(scenario) : scenario)));
+  const addScenario = () =>
+    onSaveScenarios([...scenarios, { id: crypto.randomUUID(), name: `Scenario ${scenarios.length + 1}`, legs: [] }]);
+  const duplicate = (scenario: Scenario) =>
+    onSaveScenarios([...scenarios, {
+      id: crypto.randomUUID(),
+      name: `${scenario.name} (copy)`,
+      legs: scenario.legs.map((leg) => ({ ...leg, id: crypto.randomUUID() })),
+    }]);
+
+  return (
+    <section className="page-view scenario-view">
+      <div className="page-header">
+        <span className="eyebrow">Hypothetical orders</span>
+        <h1>Scenario sandbox</h1>
+        <p>Stage several orders in sequence and watch IML, capacity and cash after each leg. Nothing touches the ledger until you log a scenario.</p>
+      </div>
+
+      {runs.length > 1 && (
+        <section className="panel positions-panel scenario-compare">
+          <div className="section-heading compact">
+            <div>
+              <span className="eyebrow">Side by side</span>
+              <h2>After the last leg</h2>
+            </div>
+          </div>
+          <div className="table-scroll">
+            <table>
+              <thead>
+                <tr>
+                  <th>Scenario</th>
+                  <th>Legs</th>
+                  <th>Equity</th>
+                  <th>IML</th>
+                  <th>{capacityLabel}</th>
+                  <th>Cash available</th>
+                  <th>Clearance</th>
+                </tr>
+              </thead>
+              <tbody>
+                {runs.map((run) => (
+                  <tr key={run.scenario.id}>
+                    <td><strong>{run.scenario.name}</strong></td>
+                    <td>{run.legs.length}</td>
+                    <td>{formatMoney(run.after.currentEquity)}</td>
+                    <td className={run.after.intradayMarginLevel < 0 ? "negative" : ""}>{formatMoney(run.after.intradayMarginLevel)}</td>
+                    <td>{formatMoney(capacity(run.after))}</td>
+                    <td>{formatMoney(run.after.cashAvailableToTrade)}</td>
+                    <td>
+                      <span className={`clearance ${run.dangerLegs > 0 ? "danger" : "info"}`}>
+                        {run.dangerLegs > 0 ? `${run.dangerLegs} to review` : "Clear"}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      )}
+
+      <div className="scenario-grid">
+        {runs.map((run) => (
+          <Fragment key={run.scenario.id}>
+            <ScenarioCard
+              run={run}
+              capacityLabel={capacityLabel}
+              capacity={capacity}
+              onRename={(name) => update(run.scenario.id, (scenario) => ({ ...scenario, name }))}
+              onAddLeg={(leg) => update(run.scenario.id, (scenario) => ({ ...scenario, legs: [...scenario.legs, leg] }))}
+              onRemoveLeg={(legId) => update(run.scenario.id, (scenario) => ({ ...scenario, legs: scenario.legs.filter((leg) => leg.id !== legId) }))}
+              onDuplicate={() => duplicate(run.scenario)}
+              onDelete={() => onSaveScenarios(scenarios.filter((scenario) => scenario.id !== run.scenario.id))}
+              onPromote={() => {
+                if (window.confirm(`Log the ${run.legs.length} leg(s) of ${run.scenario.name} as real executions?`)) onPromote(run.scenario);
+              }}
+            />
+          </Fragment>
+        ))}
+        <button className="scenario-add" type="button" onClick={addScenario}>
+          <FlaskConical aria-hidden="true" />
+          <strong>New scenario</strong>
+          <span>Stage a sequence of orders against the current ledger.</span>
+        </button>
+      </div>
+    </section>
+  );
+}
+
+interface CardProps {
+  run: ScenarioRun;
+  capacityLabel: string;
+  capacity: (result: Pick<CalculationResult, "cashAvailableToTrade" | "dtbpRemaining" | "intradayBuyingPower">) => number;
+  onRename: (name: string) => void;
+  onAddLeg: (leg: Trade) => void;
+  onRemoveLeg: (legId: string) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+  onPromote: () => void;
+}
+
+function ScenarioCard({ run, capacityLabel, capacity, onRename, onAddLeg, onRemoveLeg, onDuplicate, onDelete, onPromote }: CardProps) {
+  const [leg, setLeg] = useState(blankLeg);
+  const valid = leg.symbol.trim() !== "" && leg.quantity > 0 && leg.price > 0;
+
+  const addLeg = (event: FormEvent) => {
+    event.preventDefault();
+    if (!valid) return;
+    onAddLeg({
+      id: crypto.randomUUID(),
+      executedAt: new Date().toISOString(),
+      symbol: leg.symbol.trim().toUpperCase(),
+      instrument: InstrumentType.STOCK,
+      side: leg.side,
+      quantity: leg.quantity,
+      price: leg.price,
+      fees: 0,
+      contractMultiplier: 100,
+      leverageFactor: 1,
+    });
+    setLeg((current) => ({ ...blankLeg(), side: current.side }));
+  };
+
+  return (
+    <section className="panel scenario-card">
+      <div className="scenario-card-header">
+        <input aria-label="Scenario name" value={run.scenario.name} onChange={(event) => onRename(event.target.value)} />
+        <button className="icon-button" type="button" aria-label="Duplicate scenario" onClick={onDuplicate}><Copy /></button>
+        <button className="icon-button" type="button" aria-label="Delete scenario" onClick={onDelete}><Trash2 /></button>
+      </div>
+
+      <div className="table-scroll">
+        <table>
+          <thead>
+            <tr>
+              <th>Leg</th>
+              <th>IML</th>
+              <th>{capacityLabel}</th>
+              <th>Cash</th>
+              <th>Clearance</th>
+              <th aria-label="Remove" />
+            </tr>
+          </thead>
+          <tbody>
+            <tr className="scenario-start">
+              <td><strong>Now</strong><small>current ledger</small></td>
+              <td>{formatMoney(run.before.intradayMarginLevel)}</td>
+              <td>{formatMoney(capacity(run.before))}</td>
+              <td>{formatMoney(run.before.cashAvailableToTrade)}</td>
+              <td />
+              <td />
+            </tr>
+            {run.steps.map((step, index) => (
+              <tr key={step.leg.id}>
+                <td>
+                  <strong>{index + 1}. {actionLabel[step.leg.side]} {step.leg.quantity.toLocaleString()} {step.leg.symbol}</strong>
+                  <small>@ {formatMoney(step.leg.price)} · {formatMoney(step.analysis?.notional ?? 0)}</small>
+                </td>
+                <td className={step.intradayMarginLevel < 0 ? "negative" : ""}>{formatMoney(step.intradayMarginLevel)}</td>
+                <td>{formatMoney(capacity(step))}</td>
+                <td>{formatMoney(step.cashAvailableToTrade)}</td>
+                <td>
+                  <span className={`clearance ${step.analysis?.risk ?? "info"}`} title={step.analysis?.message}>
+                    {step.analysis?.risk === "danger" ? "Review" : step.analysis?.risk === "watch" ? "Hold" : "Clear"}
+                  </span>
+                </td>
+                <td>
+                  <button className="icon-button" type="button" aria-label={`Remove leg ${index + 1}`} onClick={() => onRemoveLeg(step.leg.id)}>
+                    <X />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {run.steps.filter((step) => step.analysis?.risk && step.analysis.risk !== "info").map((step) => (
+        <p className={`scenario-note ${step.analysis.risk}`} key={step.leg.id}>
+          {step.leg.symbol}: {step.analysis.message}
+        </p>
+      ))}
+
+      <form className="scenario-leg-form" onSubmit={addLeg}>
+        <input aria-label="Symbol" placeholder="Symbol" maxLength={12} value={leg.symbol} onChange={(event) => setLeg((current) => ({ ...current, symbol: event.target.value.toUpperCase() }))} />
+        <select aria-label="Action" value={leg.side} onChange={(event) => setLeg((current) => ({ ...current, side: event.target.value as Side }))}>
+          <option value={Side.BUY}>Buy</option>
+          <option value={Side.SELL}>Sell</option>
+          <option value={Side.SELL_SHORT}>Sell short</option>
+          <option value={Side.BUY_TO_COVER}>Buy to cover</option>
+        </select>
+        <input aria-label="Quantity" type="number" min="0.0001" step="any" value={leg.quantity} onChange={(event) => setLeg((current) => ({ ...current, quantity: Number(event.target.value) }))} />
+        <input aria-label="Price" type="number" min="0" step="0.01" placeholder="Price" value={leg.price || ""} onChange={(event) => setLeg((current) => ({ ...current, price: Number(event.target.value) }))} />
+        <button className="button secondary" type="submit" disabled={!valid}><Plus size={15} aria-hidden="true" />Add leg</button>
+      </form>
+
+      <div className="scenario-card-footer">
+        <span>{run.dangerLegs > 0 ? `${run.dangerLegs} leg${run.dangerLegs === 1 ? "" : "s"} would be flagged` : `${run.legs.length} staged leg${run.legs.length === 1 ? "" : "s"}`}</span>
+        <button className="button primary" type="button" disabled={run.legs.length === 0} onClick={onPromote}>
+          <ArrowUpRight size={15} aria-hidden="true" />
+          Log to ledger
+        </button>
+      </div>
+    </section>
+  );
+}
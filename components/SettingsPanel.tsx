@@ -1,16 +1,27 @@
 import { useEffect, useMemo, useState } from "react";
-import { Info, RotateCcw, Search, X } from "lucide-react";
+import { Info, Plus, RotateCcw, Search, Trash2, X } from "lucide-react";
 import {
   PROTOTYPE_MARGIN_SYMBOLS,
   normalizeMarginSymbol,
+  resolveSymbolBeta,
+  resolveSymbolBorrow,
   resolveSymbolMargin,
 } from "../data/prototypeMarginCatalog";
+import { REG_T_PAYMENT_DAYS, addBusinessDays, formatMoney, lotReliefLabel } from "../services/engine";
 import {
   AccountSettings,
   AccountType,
+  BorrowStatus,
+  CashViolation,
+  CashViolationType,
   DtbpMethod,
+  LotReliefMethod,
   MarginAccountClass,
+  MarginCall,
+  MarginCallType,
+  MarginInterestTier,
   MarginRegime,
+  SymbolMarginOverride,
 } from "../types";
 
 interface Props {
@@ -28,6 +39,8 @@ export function SettingsPanel({ isOpen, settings, onSave, onClose }: Props) {
 
   const normalizedMarginSymbol = normalizeMarginSymbol(marginSymbol);
   const resolvedMargin = resolveSymbolMargin(normalizedMarginSymbol, draft);
+  const resolvedBeta = resolveSymbolBeta(normalizedMarginSymbol, draft);
+  const resolvedBorrow = resolveSymbolBorrow(normalizedMarginSymbol, draft);
   const matchingSymbols = useMemo(
     () => PROTOTYPE_MARGIN_SYMBOLS
       .filter((symbol) => !normalizedMarginSymbol || symbol.includes(normalizedMarginSymbol))
@@ -40,9 +53,9 @@ export function SettingsPanel({ isOpen, settings, onSave, onClose }: Props) {
   const set = <K extends keyof AccountSettings>(key: K, value: AccountSettings[K]) =>
     setDraft((current) => ({ ...current, [key]: value }));
 
-  const updateMarginOverride = (
-    key: "initialMarginPct" | "longMaintenancePct" | "shortMaintenancePct",
-    value: number,
+  const updateMarginOverride = <K extends Exclude<keyof SymbolMarginOverride, "notes">>(
+    key: K,
+    value: SymbolMarginOverride[K],
   ) => {
     if (!normalizedMarginSymbol) return;
     setDraft((current) => ({
@@ -57,6 +70,61 @@ export function SettingsPanel({ isOpen, settings, onSave, onClose }: Props) {
     }));
   };
 
+  const updateInterestTier = (index: number, change: Partial<MarginInterestTier>) =>
+    setDraft((current) => ({
+      ...current,
+      marginInterestTiers: current.marginInterestTiers.map((tier, position) => (position === index ? { ...tier, ...change } : tier)),
+    }));
+
+  // New tiers split the top, uncapped tier so the schedule always ends open.
+  const addInterestTier = () =>
+    setDraft((current) => {
+      const capped = current.marginInterestTiers.filter((tier) => tier.upTo !== null);
+      const top = current.marginInterestTiers.find((tier) => tier.upTo === null) ?? { upTo: null, annualRate: current.marginInterestTiers.at(-1)?.annualRate ?? 0 };
+      const ceiling = capped.at(-1)?.upTo ?? 0;
+      return {
+        ...current,
+        marginInterestTiers: [...capped, { upTo: Math.max(ceiling * 2, 25_000), annualRate: top.annualRate }, top],
+      };
+    });
+
+  const updateMarginCall = (index: number, change: Partial<MarginCall>) =>
+    setDraft((current) => ({
+      ...current,
+      marginCalls: current.marginCalls.map((call, position) => (position === index ? { ...call, ...change } : call)),
+    }));
+
+  const addMarginCall = () =>
+    setDraft((current) => ({
+      ...current,
+      marginCalls: [...current.marginCalls, {
+        id: crypto.randomUUID(),
+        type: MarginCallType.REG_T,
+        amount: 0,
+        outstanding: 0,
+        issuedOn: current.snapshotDate,
+        dueOn: addBusinessDays(current.snapshotDate, REG_T_PAYMENT_DAYS, current.settlementHolidays),
+      }],
+    }));
+
+  const updateCashViolation = (index: number, change: Partial<CashViolation>) =>
+    setDraft((current) => ({
+      ...current,
+      cashViolations: current.cashViolations.map((violation, position) => (position === index ? { ...violation, ...change } : violation)),
+    }));
+
+  const addCashViolation = () =>
+    setDraft((current) => ({
+      ...current,
+      cashViolations: [...current.cashViolations, {
+        id: crypto.randomUUID(),
+        type: CashViolationType.GOOD_FAITH,
+        date: current.snapshotDate,
+        symbol: "",
+        amount: 0,
+      }],
+    }));
+
   const resetMarginOverride = () => {
     if (!normalizedMarginSymbol) return;
     setDraft((current) => {
@@ -109,6 +177,15 @@ export function SettingsPanel({ isOpen, settings, onSave, onClose }: Props) {
                 <span>Snapshot date</span>
                 <input type="date" value={draft.snapshotDate} onChange={(event) => set("snapshotDate", event.target.value)} />
               </label>
+              <label className="field">
+                <span>Lot relief</span>
+                <select value={draft.lotReliefMethod} onChange={(event) => set("lotReliefMethod", event.target.value as LotReliefMethod)}>
+                  {Object.values(LotReliefMethod).map((method) => (
+                    <option value={method} key={method}>{lotReliefLabel[method]}</option>
+                  ))}
+                </select>
+                <small>Which lots a sale or cover closes unless the ticket chooses otherwise.</small>
+              </label>
             </div>
           </div>
 
@@ -143,7 +220,7 @@ export function SettingsPanel({ isOpen, settings, onSave, onClose }: Props) {
                     </label>
                     <label className="toggle-row">
                       <input type="checkbox" checked={draft.pdtRestricted} onChange={(event) => set("pdtRestricted", event.target.checked)} />
-                      <span><strong>Active DTBP call restriction</strong><small>Use 2× rather than 4× maintenance excess.</small></span>
+                      <span><strong>Active DTBP call restriction</strong><small>Use 2× rather than 4× maintenance excess even without a call entered below.</small></span>
                     </label>
                   </div>
                 )}
@@ -182,7 +259,11 @@ export function SettingsPanel({ isOpen, settings, onSave, onClose }: Props) {
                 </div>
                 <div className="settings-grid">
                   <MoneyField label="Start-of-day equity" value={draft.startOfDayEquity} onChange={(value) => set("startOfDayEquity", value)} />
-                  <MoneyField label="Maintenance requirement" value={draft.startOfDayMaintenance} onChange={(value) => set("startOfDayMaintenance", value)} />
+                  <MoneyField
+                    label={draft.openingLots.length > 0 ? "Maintenance on untracked positions" : "Maintenance requirement"}
+                    value={draft.startOfDayMaintenance}
+                    onChange={(value) => set("startOfDayMaintenance", value)}
+                  />
                   <MoneyField label="Margin buying power" value={draft.brokerMarginBuyingPower} onChange={(value) => set("brokerMarginBuyingPower", value)} />
                   {draft.marginRegime === MarginRegime.LEGACY_PDT ? (
                     <MoneyField label="Day-trade buying power" value={draft.brokerDtbp} onChange={(value) => set("brokerDtbp", value)} />
@@ -192,8 +273,44 @@ export function SettingsPanel({ isOpen, settings, onSave, onClose }: Props) {
                   <MoneyField label="Settled cash" value={draft.settledCash} onChange={(value) => set("settledCash", value)} />
                   <MoneyField label="Unsettled cash" value={draft.unsettledCash} onChange={(value) => set("unsettledCash", value)} />
                 </div>
+                {draft.openingLots.length > 0 && (
+                  <div className="info-callout">
+                    <Info />
+                    <p>
+                      {draft.openingLots.length} lot{draft.openingLots.length === 1 ? "" : "s"} carried from the last close {draft.openingLots.length === 1 ? "is" : "are"} tracked as positions, and their maintenance is computed from current marks.
+                      Enter a requirement above only for holdings that are not in this ledger.
+                    </p>
+                  </div>
+                )}
               </div>
 
+              {draft.marginRegime === MarginRegime.LEGACY_PDT && (
+                <div className="settings-section">
+                  <div className="settings-section-title">
+                    <span>04</span>
+                    <div>
+                      <h3>Day-trading call status</h3>
+                      <p>Copy any unmet day-trading call or restriction from the broker. A call is due by the fifth business day after it is issued.</p>
+                    </div>
+                  </div>
+                  <div className="settings-grid">
+                    <MoneyField label="Outstanding day-trading call" value={draft.outstandingDtbpCall} onChange={(value) => set("outstandingDtbpCall", value)} />
+                    <label className="field">
+                      <span>Call issued</span>
+                      <input type="date" value={draft.dtbpCallDate} onChange={(event) => set("dtbpCallDate", event.target.value)} />
+                    </label>
+                    <label className="field">
+                      <span>Cash-available restriction ends</span>
+                      <input type="date" value={draft.dtbpRestrictionUntil} onChange={(event) => set("dtbpRestrictionUntil", event.target.value)} />
+                    </label>
+                  </div>
+                  <div className="info-callout">
+                    <Info />
+                    <p>While a call is unmet, day-trading buying power is two times maintenance excess. A call still unmet after its due date restricts day trades to cash available for 90 days or until it is met.</p>
+                  </div>
+                </div>
+              )}
+
               {draft.marginRegime === MarginRegime.INTRADAY_MARGIN && (
                 <div className="settings-section">
                   <div className="settings-section-title">
@@ -231,7 +348,7 @@ export function SettingsPanel({ isOpen, settings, onSave, onClose }: Props) {
 
               <div className="settings-section">
                 <div className="settings-section-title">
-                  <span>{draft.marginRegime === MarginRegime.INTRADAY_MARGIN ? "05" : "04"}</span>
+                  <span>05</span>
                   <div>
                     <h3>Margin assumptions</h3>
                     <p>House rules can be higher. Override a security’s requirement on the trade when needed.</p>
@@ -242,12 +359,66 @@ export function SettingsPanel({ isOpen, settings, onSave, onClose }: Props) {
                   <PercentField label="Short maintenance" value={draft.shortMaintenancePct} onChange={(value) => set("shortMaintenancePct", value)} />
                   <PercentField label="Initial margin" value={draft.initialMarginPct} onChange={(value) => set("initialMarginPct", value)} />
                   <PercentField label="House buffer" value={draft.houseBufferPct} onChange={(value) => set("houseBufferPct", value)} />
+                  <PercentField label="Hard-to-borrow short floor" value={draft.htbShortMaintenancePct} onChange={(value) => set("htbShortMaintenancePct", value)} />
                 </div>
               </div>
 
               <div className="settings-section">
                 <div className="settings-section-title">
-                  <span>{draft.marginRegime === MarginRegime.INTRADAY_MARGIN ? "06" : "05"}</span>
+                  <span>06</span>
+                  <div>
+                    <h3>Margin calls</h3>
+                    <p>Copy any open Reg T or house call from the broker. Calls the ledger issues at the close carry forward here on their own.</p>
+                  </div>
+                </div>
+                <div className="interest-tiers">
+                  {draft.marginCalls.map((call, index) => (
+                    <div className="settings-grid four" key={call.id}>
+                      <label className="field">
+                        <span>Call type</span>
+                        <select value={call.type} onChange={(event) => updateMarginCall(index, { type: event.target.value as MarginCallType })}>
+                          <option value={MarginCallType.REG_T}>Reg T (initial margin)</option>
+                          <option value={MarginCallType.HOUSE}>House (maintenance)</option>
+                        </select>
+                      </label>
+                      <MoneyField
+                        label="Still owed"
+                        value={call.outstanding}
+                        onChange={(value) => updateMarginCall(index, { outstanding: value, amount: Math.max(call.amount, value) })}
+                      />
+                      <label className="field">
+                        <span>Issued</span>
+                        <input type="date" value={call.issuedOn} onChange={(event) => updateMarginCall(index, { issuedOn: event.target.value })} />
+                      </label>
+                      <label className="field">
+                        <span>Due</span>
+                        <input type="date" value={call.dueOn} onChange={(event) => updateMarginCall(index, { dueOn: event.target.value })} />
+                      </label>
+                      <button className="text-button" type="button" onClick={() => set("marginCalls", draft.marginCalls.filter((_, position) => position !== index))}>
+                        <Trash2 size={14} aria-hidden="true" />
+                        Remove call
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <div className="settings-grid four">
+                  <label className="field">
+                    <span>House call window (business days)</span>
+                    <input type="number" min="1" step="1" value={draft.houseCallDays} onChange={(event) => set("houseCallDays", Number(event.target.value))} />
+                  </label>
+                </div>
+                <div className="catalog-actions">
+                  <p>A Reg T call is due {REG_T_PAYMENT_DAYS} business days after the trade: settlement plus two days.</p>
+                  <button className="text-button" type="button" onClick={addMarginCall}>
+                    <Plus size={14} aria-hidden="true" />
+                    Add call
+                  </button>
+                </div>
+              </div>
+
+              <div className="settings-section">
+                <div className="settings-section-title">
+                  <span>07</span>
                   <div>
                     <h3>Symbol margin catalog</h3>
                     <p>{PROTOTYPE_MARGIN_SYMBOLS.length} prototype symbols. Search any ticker and replace the assumptions with your broker’s current house requirements.</p>
@@ -274,6 +445,22 @@ export function SettingsPanel({ isOpen, settings, onSave, onClose }: Props) {
                       <PercentField label="Initial margin" value={resolvedMargin.initialMarginPct} onChange={(value) => updateMarginOverride("initialMarginPct", value)} />
                       <PercentField label="Long maintenance" value={resolvedMargin.longMaintenancePct} onChange={(value) => updateMarginOverride("longMaintenancePct", value)} />
                       <PercentField label="Short maintenance" value={resolvedMargin.shortMaintenancePct} onChange={(value) => updateMarginOverride("shortMaintenancePct", value)} />
+                      <label className="field">
+                        <span>Beta to SPY{resolvedBeta.source === "assumed" ? " (assumed)" : ""}</span>
+                        <input type="number" step="0.05" value={resolvedBeta.beta} onChange={(event) => updateMarginOverride("beta", Number(event.target.value))} />
+                      </label>
+                      <label className="field">
+                        <span>Borrow{resolvedBorrow.source === "assumed" ? " (assumed)" : ""}</span>
+                        <select value={resolvedBorrow.borrowStatus} onChange={(event) => updateMarginOverride("borrowStatus", event.target.value as BorrowStatus)}>
+                          <option value={BorrowStatus.EASY}>Easy to borrow</option>
+                          <option value={BorrowStatus.HARD}>Hard to borrow</option>
+                        </select>
+                      </label>
+                      <PercentField label="Borrow fee (annual)" value={resolvedBorrow.borrowFeeRate} onChange={(value) => updateMarginOverride("borrowFeeRate", value)} />
+                      <label className="toggle-row">
+                        <input type="checkbox" checked={resolvedBorrow.locateRequired} onChange={(event) => updateMarginOverride("locateRequired", event.target.checked)} />
+                        <span><strong>Locate required</strong><small>Short sales need a locate recorded for the trade date.</small></span>
+                      </label>
                     </div>
                     <div className="catalog-actions">
                       <p>{resolvedMargin.notes ?? "Baseline rates inherit from the account assumptions above."}</p>
@@ -300,6 +487,56 @@ export function SettingsPanel({ isOpen, settings, onSave, onClose }: Props) {
                   <p>These values are planning assumptions, not a live broker feed. A trade-level override still takes precedence over both catalog and account rates.</p>
                 </div>
               </div>
+
+              <div className="settings-section">
+                <div className="settings-section-title">
+                  <span>08</span>
+                  <div>
+                    <h3>Margin interest</h3>
+                    <p>Each slice of the debit balance is charged at its tier’s annual rate. Interest accrues nightly and is charged to cash when the month turns.</p>
+                  </div>
+                </div>
+                <div className="interest-tiers">
+                  {draft.marginInterestTiers.map((tier, index) => (
+                    <div className="settings-grid four" key={index}>
+                      {tier.upTo === null ? (
+                        <div className="catalog-symbol-card">
+                          <span>Balance</span>
+                          <strong>Above {formatMoney(draft.marginInterestTiers[index - 1]?.upTo ?? 0)}</strong>
+                          <small>Top tier</small>
+                        </div>
+                      ) : (
+                        <MoneyField label={`Tier ${index + 1} up to`} value={tier.upTo} onChange={(value) => updateInterestTier(index, { upTo: value })} />
+                      )}
+                      <PercentField label="Annual rate" value={tier.annualRate} onChange={(value) => updateInterestTier(index, { annualRate: value })} />
+                      {tier.upTo !== null && (
+                        <button className="text-button" type="button" onClick={() => set("marginInterestTiers", draft.marginInterestTiers.filter((_, position) => position !== index))}>
+                          <Trash2 size={14} aria-hidden="true" />
+                          Remove tier
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+                <div className="settings-grid four">
+                  <label className="field">
+                    <span>Day count</span>
+                    <select value={draft.marginInterestDayCount} onChange={(event) => set("marginInterestDayCount", Number(event.target.value) as 360 | 365)}>
+                      <option value={360}>Actual / 360</option>
+                      <option value={365}>Actual / 365</option>
+                    </select>
+                  </label>
+                  <MoneyField label="Accrued, not yet charged" value={draft.marginInterestAccrued} onChange={(value) => set("marginInterestAccrued", value)} />
+                  <MoneyField label="Stock-loan fees accrued" value={draft.borrowFeesAccrued} onChange={(value) => set("borrowFeesAccrued", value)} />
+                </div>
+                <div className="catalog-actions">
+                  <p>The debit is estimated as tracked positions, net of short proceeds, beyond equity.</p>
+                  <button className="text-button" type="button" onClick={addInterestTier}>
+                    <Plus size={14} aria-hidden="true" />
+                    Add tier
+                  </button>
+                </div>
+              </div>
             </>
           ) : (
             <div className="settings-section">
@@ -315,7 +552,7 @@ export function SettingsPanel({ isOpen, settings, onSave, onClose }: Props) {
                 <MoneyField label="Unsettled sale proceeds" value={draft.unsettledCash} onChange={(value) => set("unsettledCash", value)} />
                 <label className="toggle-row wide">
                   <input type="checkbox" checked={draft.cashRestricted} onChange={(event) => set("cashRestricted", event.target.checked)} />
-                  <span><strong>Cash-up-front restriction active</strong><small>Purchases may use settled cash only, such as during a 90-day restriction.</small></span>
+                  <span><strong>Cash-up-front restriction active</strong><small>Purchases may use settled cash only. A restriction the violation register derives applies without this.</small></span>
                 </label>
               </div>
               <div className="info-callout">
@@ -324,6 +561,56 @@ export function SettingsPanel({ isOpen, settings, onSave, onClose }: Props) {
               </div>
             </div>
           )}
+
+          {draft.accountType === AccountType.CASH && (
+            <div className="settings-section">
+              <div className="settings-section-title">
+                <span>03</span>
+                <div>
+                  <h3>Violation register</h3>
+                  <p>Copy earlier good-faith and freeriding violations from the broker. Violations the ledger flags are added when the day is closed.</p>
+                </div>
+              </div>
+              <div className="interest-tiers">
+                {draft.cashViolations.map((violation, index) => (
+                  <div className="settings-grid four" key={violation.id}>
+                    <label className="field">
+                      <span>Violation</span>
+                      <select value={violation.type} onChange={(event) => updateCashViolation(index, { type: event.target.value as CashViolationType })}>
+                        <option value={CashViolationType.GOOD_FAITH}>Good faith</option>
+                        <option value={CashViolationType.FREERIDING}>Freeriding</option>
+                      </select>
+                    </label>
+                    <label className="field">
+                      <span>Symbol</span>
+                      <input value={violation.symbol} onChange={(event) => updateCashViolation(index, { symbol: event.target.value.toUpperCase() })} />
+                    </label>
+                    <label className="field">
+                      <span>Date</span>
+                      <input type="date" value={violation.date} onChange={(event) => updateCashViolation(index, { date: event.target.value })} />
+                    </label>
+                    <button className="text-button" type="button" onClick={() => set("cashViolations", draft.cashViolations.filter((_, position) => position !== index))}>
+                      <Trash2 size={14} aria-hidden="true" />
+                      Remove
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <div className="settings-grid four">
+                <label className="field">
+                  <span>Good-faith violations before restriction</span>
+                  <input type="number" min="1" step="1" value={draft.gfvRestrictionThreshold} onChange={(event) => set("gfvRestrictionThreshold", Number(event.target.value))} />
+                </label>
+              </div>
+              <div className="catalog-actions">
+                <p>Reaching the threshold within 12 months, or any freeriding, limits purchases to settled cash for 90 days.</p>
+                <button className="text-button" type="button" onClick={addCashViolation}>
+                  <Plus size={14} aria-hidden="true" />
+                  Add violation
+                </button>
+              </div>
+            </div>
+          )}
         </div>
 
         <footer className="sheet-footer">
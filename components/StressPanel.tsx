@@ -0,0 +1,174 @@
+import { Fragment, useEffect, useMemo, useState } from "react";
+import { Activity, Info, X } from "lucide-react";
+import { formatMoney } from "../services/engine";
+import { PriceShock, ShockMode, StressReport, stressSymbols, stressTest } from "../services/stress";
+import { AccountSettings, CalculationContext, CalculationResult, Trade } from "../types";
+
+interface Props {
+  isOpen: boolean;
+  settings: AccountSettings;
+  trades: Trade[];
+  result: CalculationResult;
+  context: CalculationContext;
+  onClose: () => void;
+}
+
+const modeTabs: Array<{ id: ShockMode; label: string }> = [
+  { id: "uniform", label: "Uniform" },
+  { id: "symbol", label: "Per symbol" },
+  { id: "beta", label: "Beta to SPY" },
+];
+
+const percent = (value: number) => `${value > 0 ? "+" : value < 0 ? "−" : ""}${Math.abs(value * 100).toFixed(1)}%`;
+
+export function StressPanel({ isOpen, settings, trades, result, context, onClose }: Props) {
+  const [shock, setShock] = useState<PriceShock>({ mode: "uniform", uniformPct: -0.1, symbolPct: {}, spyPct: -0.1 });
+  const [report, setReport] = useState<StressReport | null>(null);
+  const symbols = useMemo(() => stressSymbols(result), [result]);
+
+  useEffect(() => {
+    if (!isOpen) setReport(null);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const run = () => setReport(stressTest(settings, trades, shock, context));
+  const breakevenLabel = shock.mode === "beta" ? "SPY move to a call" : "Uniform move to a call";
+
+  return (
+    <div className="modal-backdrop" role="presentation" onMouseDown={onClose}>
+      <section className="settings-sheet stress-sheet" role="dialog" aria-modal="true" aria-labelledby="stress-title" onMouseDown={(event) => event.stopPropagation()}>
+        <header className="sheet-header">
+          <div>
+            <span className="eyebrow">What if the market moves</span>
+            <h2 id="stress-title">Price-shock stress test</h2>
+            <p>Positions are repriced through the same maintenance rules as the ledger. The breakeven is the move that takes maintenance excess to zero.</p>
+          </div>
+          <button className="icon-button" type="button" onClick={onClose} aria-label="Close stress test">
+            <X />
+          </button>
+        </header>
+
+        <div className="sheet-body">
+          <div className="settings-section">
+            <div className="settings-section-title">
+              <span>01</span>
+              <div>
+                <h3>Shock</h3>
+                <p>Enter moves in percent; negative numbers are declines.</p>
+              </div>
+            </div>
+            <div className="segmented quote-tabs" role="tablist">
+              {modeTabs.map((tab) => (
+                <button className={shock.mode === tab.id ? "active" : ""} type="button" role="tab" aria-selected={shock.mode === tab.id} key={tab.id} onClick={() => setShock((current) => ({ ...current, mode: tab.id }))}>
+                  {tab.label}
+                </button>
+              ))}
+            </div>
+            <div className="settings-grid four">
+              {shock.mode === "uniform" && (
+                <PercentField label="Every position" value={shock.uniformPct} onChange={(uniformPct) => setShock((current) => ({ ...current, uniformPct }))} />
+              )}
+              {shock.mode === "symbol" && symbols.map((symbol) => (
+                <Fragment key={symbol}>
+                  <PercentField
+                    label={symbol}
+                    value={shock.symbolPct[symbol] ?? 0}
+                    onChange={(value) => setShock((current) => ({ ...current, symbolPct: { ...current.symbolPct, [symbol]: value } }))}
+                  />
+                </Fragment>
+              ))}
+              {shock.mode === "beta" && (
+                <PercentField label="SPY" value={shock.spyPct} onChange={(spyPct) => setShock((current) => ({ ...current, spyPct }))} />
+              )}
+            </div>
+            {shock.mode === "beta" && (
+              <div className="info-callout">
+                <Info />
+                <p>Each symbol moves by SPY’s move times its beta: a custom beta from the symbol overrides, else the prototype catalog, else 1.0. Leveraged ETPs scale by their leverage factor.</p>
+              </div>
+            )}
+            <div className="catalog-actions">
+              <p>Options move with their underlying. Each premium keeps its time value and tracks intrinsic value, never falling below it.</p>
+              <button className="button primary" type="button" onClick={run}>
+                <Activity size={15} aria-hidden="true" />
+                Run stress test
+              </button>
+            </div>
+          </div>
+
+          {report && (
+            <div className="settings-section">
+              <div className="settings-section-title">
+                <span>02</span>
+                <div>
+                  <h3>Result</h3>
+                  <p>Ledger as of now, repriced. Per-position breakevens move that name alone.</p>
+                </div>
+              </div>
+              <div className="audit-summary import-summary">
+                <div><span>Equity</span><strong>{formatMoney(report.shocked.currentEquity)}</strong></div>
+                <div><span>Maintenance</span><strong>{formatMoney(report.shocked.maintenanceRequirement)}</strong></div>
+                <div><span>Excess / IML</span><strong className={report.shocked.maintenanceExcess < 0 ? "negative" : ""}>{formatMoney(report.shocked.maintenanceExcess)}</strong></div>
+                <div>
+                  <span>{breakevenLabel}</span>
+                  <strong>{report.portfolioBreakevenMove === null ? "None" : percent(report.portfolioBreakevenMove)}</strong>
+                </div>
+              </div>
+              <div className="table-scroll import-preview">
+                <table>
+                  <thead>
+                    <tr>
+                      <th>Symbol</th>
+                      <th>Quantity</th>
+                      <th>Move</th>
+                      <th>Price</th>
+                      <th>Maintenance</th>
+                      <th>P&amp;L</th>
+                      <th>Breakeven</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.positions.map((position) => (
+                      <tr key={position.symbol}>
+                        <td>
+                          <strong>{position.symbol}</strong>
+                          <small>
+                            {position.movesWith !== position.symbol ? `moves with ${position.movesWith} · ` : ""}
+                            β {position.beta.beta.toFixed(2)}{position.beta.source === "assumed" ? " assumed" : ""}
+                          </small>
+                        </td>
+                        <td>{position.quantity.toLocaleString()}</td>
+                        <td>{percent(position.move)}</td>
+                        <td>{formatMoney(position.markPrice)} → {formatMoney(position.shockedPrice)}</td>
+                        <td>{formatMoney(position.maintenanceBefore)} → {formatMoney(position.maintenanceAfter)}</td>
+                        <td className={position.pnl < 0 ? "negative" : position.pnl > 0 ? "positive" : ""}>{formatMoney(position.pnl)}</td>
+                        <td>{position.breakevenMove === null ? "None" : percent(position.breakevenMove)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <footer className="sheet-footer">
+          <button className="button ghost" type="button" onClick={onClose}>Close</button>
+        </footer>
+      </section>
+    </div>
+  );
+}
+
+function PercentField({ label, value, onChange }: { label: string; value: number; onChange: (value: number) => void }) {
+  return (
+    <label className="field">
+      <span>{label}</span>
+      <div className="percent-input">
+        <input type="number" min="-99" step="1" value={Number((value * 100).toFixed(4))} onChange={(event) => onChange(Number(event.target.value) / 100)} />
+        <b>%</b>
+      </div>
+    </label>
+  );
+}
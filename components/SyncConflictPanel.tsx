@@ -0,0 +1,125 @@
+import { useEffect, useState } from "react";
+import { CloudOff, GitMerge, Info } from "lucide-react";
+import { formatMoney } from "../services/engine";
+import { ConflictChoice, SyncConflict, WorkspaceMerge } from "../services/sync";
+import { Scenario, Side, Trade } from "../types";
+
+interface Props {
+  merge: WorkspaceMerge | null;
+  onResolve: (choices: Record<string, ConflictChoice>) => void;
+  onCancel: () => void;
+}
+
+const actionLabel: Record<Side, string> = {
+  [Side.BUY]: "Buy",
+  [Side.SELL]: "Sell",
+  [Side.SELL_SHORT]: "Sell short",
+  [Side.BUY_TO_COVER]: "Cover",
+};
+
+const tradeText = (trade?: Trade) => (trade
+  ? `${actionLabel[trade.side]} ${trade.quantity.toLocaleString()} ${trade.symbol.toUpperCase()} at ${formatMoney(trade.price)} · ${new Date(trade.executedAt).toLocaleString(undefined, { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" })}`
+  : "Deleted");
+
+const scenarioText = (scenario?: Scenario) => (scenario
+  ? `${scenario.name} · ${scenario.legs.length} leg${scenario.legs.length === 1 ? "" : "s"}`
+  : "Deleted");
+
+const valueText = (value: unknown) => {
+  if (value === undefined || value === null || value === "") return "Not set";
+  if (Array.isArray(value)) return `${value.length} item${value.length === 1 ? "" : "s"}`;
+  if (typeof value === "object") return `${Object.keys(value).length} entr${Object.keys(value).length === 1 ? "y" : "ies"}`;
+  if (typeof value === "number") return value.toLocaleString();
+  return String(value);
+};
+
+const fieldLabel = (field: string) => field.replace(/([A-Z])/g, " $1").toLowerCase();
+
+const describe = (conflict: SyncConflict) => (conflict.kind === "trade"
+  ? { title: `${(conflict.local ?? conflict.remote)?.symbol.toUpperCase() ?? "Trade"} trade`, local: tradeText(conflict.local), remote: tradeText(conflict.remote) }
+  : conflict.kind === "scenario"
+    ? { title: `Scenario: ${(conflict.local ?? conflict.remote)?.name ?? "Untitled"}`, local: scenarioText(conflict.local), remote: scenarioText(conflict.remote) }
+    : { title: `Setting: ${fieldLabel(conflict.field)}`, local: valueText(conflict.local), remote: valueText(conflict.remote) });
+
+/**
+ * Records both devices changed since they last synced. Everything else has
+ * already merged; nothing is pushed until each conflict has a side.
+ */
+export function SyncConflictPanel({ merge, onResolve, onCancel }: Props) {
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+
+  // A merge redone after edits keeps the answers to conflicts still listed.
+  useEffect(() => {
+    setChoices((current) => Object.fromEntries(
+      Object.entries(current).filter(([id]) => merge?.conflicts.some((conflict) => conflict.id === id)),
+    ));
+  }, [merge]);
+
+  if (!merge || merge.conflicts.length === 0) return null;
+
+  const choose = (choice: ConflictChoice) =>
+    setChoices(Object.fromEntries(merge.conflicts.map((conflict) => [conflict.id, choice])));
+
+  return (
+    <div className="modal-backdrop" role="presentation">
+      <section className="settings-sheet" role="dialog" aria-modal="true" aria-labelledby="sync-conflict-title">
+        <header className="sheet-header">
+          <div>
+            <span className="eyebrow">Cloud sync</span>
+            <h2 id="sync-conflict-title">Resolve sync conflicts</h2>
+            <p>
+              {merge.conflicts.length} record{merge.conflicts.length === 1 ? " was" : "s were"} changed both on this device and in the cloud since the last sync.
+              {merge.pulled > 0 && ` ${merge.pulled} other change${merge.pulled === 1 ? "" : "s"} from the cloud merged on their own.`}
+            </p>
+          </div>
+        </header>
+
+        <div className="sheet-body">
+          <div className="journal-actions">
+            <button className="button ghost" type="button" onClick={() => choose("local")}>Keep all from this device</button>
+            <button className="button ghost" type="button" onClick={() => choose("remote")}>Take all from the cloud</button>
+          </div>
+          <div className="conflict-list">
+            {merge.conflicts.map((conflict) => {
+              const text = describe(conflict);
+              const choice = choices[conflict.id] ?? "local";
+              return (
+                <div className="conflict-row" key={conflict.id}>
+                  <div>
+                    <strong>{text.title}</strong>
+                    <small>{conflict.accountName}</small>
+                  </div>
+                  <button className={`conflict-option ${choice === "local" ? "selected" : ""}`} type="button" aria-pressed={choice === "local"} onClick={() => setChoices((current) => ({ ...current, [conflict.id]: "local" }))}>
+                    <span>This device</span>
+                    <strong>{text.local}</strong>
+                    <small>Not yet synced</small>
+                  </button>
+                  <button className={`conflict-option ${choice === "remote" ? "selected" : ""}`} type="button" aria-pressed={choice === "remote"} onClick={() => setChoices((current) => ({ ...current, [conflict.id]: "remote" }))}>
+                    <span>Cloud</span>
+                    <strong>{text.remote}</strong>
+                    <small>{conflict.remoteUpdatedAt ? `Changed ${new Date(conflict.remoteUpdatedAt).toLocaleString(undefined, { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" })}` : "Changed on another device"}</small>
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+          <div className="info-callout">
+            <Info />
+            <p>Resolving is recorded in the change journal, so a wrong choice can be undone; the merged workspace is then pushed to the cloud.</p>
+          </div>
+        </div>
+
+        <footer className="sheet-footer">
+          <button className="button ghost" type="button" onClick={onCancel}>
+            <CloudOff size={15} aria-hidden="true" />
+            Pause sync
+          </button>
+          <button className="button primary" type="button" onClick={() => onResolve(choices)}>
+            <GitMerge size={15} aria-hidden="true" />
+            Apply and sync
+          </button>
+        </footer>
+      </section>
+    </div>
+  );
+}
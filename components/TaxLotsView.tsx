@@ -0,0 +1,135 @@
+import { useEffect, useMemo, useState } from "react";
+import { Download, Info, Receipt } from "lucide-react";
+import { formatMoney } from "../services/engine";
+import { TaxLotReport, buildTaxLotReport, form8949Csv } from "../services/taxLots";
+import { CalculationResult, DayArchive, Trade } from "../types";
+
+interface Props {
+  archives: DayArchive[];
+  loading: boolean;
+  trades: Trade[];
+  result: CalculationResult;
+}
+
+const signedMoney = (value: number) => `${value < 0 ? "−" : ""}${formatMoney(Math.abs(value))}`;
+
+export function TaxLotsView({ archives, loading, trades, result }: Props) {
+  const report: TaxLotReport = useMemo(
+    () => buildTaxLotReport([...archives.map((archive) => ({ trades: archive.trades, result: archive.result })), { trades, result }]),
+    [archives, result, trades],
+  );
+  const years: string[] = useMemo(() => [...new Set(report.lots.map((lot) => lot.sold.slice(0, 4)))].sort().reverse(), [report]);
+  const [year, setYear] = useState(years[0] ?? "");
+
+  useEffect(() => {
+    if (!years.includes(year)) setYear(years[0] ?? "");
+  }, [year, years]);
+
+  const lots = report.lots.filter((lot) => lot.sold.startsWith(year));
+  const yearReport = {
+    lots,
+    shortTermGain: lots.filter((lot) => lot.term === "short").reduce((sum, lot) => sum + lot.gain, 0),
+    longTermGain: lots.filter((lot) => lot.term === "long").reduce((sum, lot) => sum + lot.gain, 0),
+    washSaleDisallowed: lots.reduce((sum, lot) => sum + lot.washSaleDisallowed, 0),
+  };
+
+  const download = () => {
+    const url = URL.createObjectURL(new Blob([form8949Csv(yearReport)], { type: "text/csv" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `form-8949-${year}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <section className="page-view tax-lots-view">
+      <div className="page-header">
+        <span className="eyebrow">Realized lots</span>
+        <h1>Tax lots</h1>
+        <p>Every lot a sale or cover closed, across the day archive and today’s ledger. Losses replaced within 30 days are disallowed as wash sales and carried into the replacement shares.</p>
+      </div>
+
+      <div className="audit-summary">
+        <div><span>Short-term gain</span><strong className={yearReport.shortTermGain < 0 ? "negative" : ""}>{signedMoney(yearReport.shortTermGain)}</strong></div>
+        <div><span>Long-term gain</span><strong className={yearReport.longTermGain < 0 ? "negative" : ""}>{signedMoney(yearReport.longTermGain)}</strong></div>
+        <div><span>Wash sales disallowed</span><strong>{formatMoney(yearReport.washSaleDisallowed)}</strong></div>
+        <div><span>Lots closed</span><strong>{lots.length.toLocaleString()}</strong></div>
+      </div>
+
+      <section className="panel positions-panel">
+        <div className="section-heading compact">
+          <div>
+            <span className="eyebrow">Form 8949</span>
+            <h2>Closed lots</h2>
+          </div>
+          <div className="tax-lots-actions">
+            {years.length > 0 && (
+              <select aria-label="Tax year" value={year} onChange={(event) => setYear(event.target.value)}>
+                {years.map((option) => <option key={option} value={option}>{option}</option>)}
+              </select>
+            )}
+            <button className="text-button" type="button" disabled={lots.length === 0} onClick={download}>
+              <Download aria-hidden="true" /> Export CSV
+            </button>
+          </div>
+        </div>
+        {lots.length === 0 ? (
+          <div className="empty-state short">
+            <Receipt />
+            <div>
+              <strong>{loading ? "Loading the archive…" : "No closed lots yet"}</strong>
+              <p>Lots appear here once a sale or cover relieves them.</p>
+            </div>
+          </div>
+        ) : (
+          <div className="table-scroll">
+            <table>
+              <thead>
+                <tr>
+                  <th>Description</th>
+                  <th>Acquired</th>
+                  <th>Sold</th>
+                  <th>Proceeds</th>
+                  <th>Basis</th>
+                  <th>Wash sale</th>
+                  <th>Gain or loss</th>
+                  <th>Term</th>
+                </tr>
+              </thead>
+              <tbody>
+                {lots.map((lot) => (
+                  <tr key={lot.id}>
+                    <td>
+                      <strong>{lot.description}</strong>
+                      <small>{lot.side === "short" ? "Short sale" : `Lot ${lot.lotId.slice(0, 8)}`}</small>
+                    </td>
+                    <td>{lot.acquired}</td>
+                    <td>{lot.sold}</td>
+                    <td>{formatMoney(lot.proceeds)}</td>
+                    <td>{formatMoney(lot.costBasis)}</td>
+                    <td>
+                      {lot.washSaleDisallowed > 0 ? (
+                        <>
+                          {formatMoney(lot.washSaleDisallowed)}
+                          <small>W · carried to {lot.replacementLotIds.length} lot{lot.replacementLotIds.length === 1 ? "" : "s"}</small>
+                        </>
+                      ) : "—"}
+                    </td>
+                    <td className={lot.gain < 0 ? "negative" : lot.gain > 0 ? "positive" : ""}>{signedMoney(lot.gain)}</td>
+                    <td>{lot.term === "long" ? "Long" : "Short"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      <div className="info-callout">
+        <Info />
+        <p>Wash sales are matched only within this account and on the same symbol or option contract. Purchase fees are added to basis and sale fees deducted from proceeds. Check the figures against the broker’s 1099-B before filing.</p>
+      </div>
+    </section>
+  );
+}
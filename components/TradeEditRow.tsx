@@ -0,0 +1,158 @@
+import { useMemo, useState } from "react";
+import { Check, X } from "lucide-react";
+import { formatMoney } from "../services/engine";
+import { MetricChange, TradeEditDiff } from "../services/tradeEdit";
+import { RiskLevel, Side, Trade } from "../types";
+
+interface Props {
+  trade: Trade;
+  trades: Trade[];
+  onPreview: (trade: Trade) => TradeEditDiff;
+  onSave: (trade: Trade) => void;
+  onCancel: () => void;
+}
+
+const sideLabel: Record<Side, string> = {
+  [Side.BUY]: "Buy",
+  [Side.SELL]: "Sell",
+  [Side.SELL_SHORT]: "Sell short",
+  [Side.BUY_TO_COVER]: "Cover",
+};
+const riskLabel: Record<RiskLevel, string> = { info: "Clear", watch: "Hold", danger: "Review" };
+const alertStatusLabel = { added: "New", removed: "Cleared", changed: "Changed" };
+
+const toLocalDateTime = (iso: string) => {
+  const date = new Date(iso);
+  date.setMinutes(date.getMinutes() - date.getTimezoneOffset());
+  return date.toISOString().slice(0, 19);
+};
+
+const signedMoney = (value: number) => `${value >= 0 ? "+" : "−"}${formatMoney(Math.abs(value))}`;
+const metricValue = (metric: MetricChange, value: number) => (metric.format === "money" ? formatMoney(value) : value.toLocaleString());
+const metricDelta = (metric: MetricChange) => {
+  const delta = metric.after - metric.before;
+  return metric.format === "money" ? signedMoney(delta) : `${delta > 0 ? "+" : "−"}${Math.abs(delta).toLocaleString()}`;
+};
+
+/**
+ * A ledger row opened for editing, followed by the recalculation it would
+ * cause. The trade keeps its id; nothing is saved until the edit is confirmed.
+ */
+export function TradeEditRow({ trade, trades, onPreview, onSave, onCancel }: Props) {
+  const [draft, setDraft] = useState({ ...trade, executedAt: toLocalDateTime(trade.executedAt) });
+  const edited: Trade = useMemo(() => {
+    const executedAt = new Date(draft.executedAt);
+    return {
+      ...draft,
+      symbol: draft.symbol.trim().toUpperCase(),
+      executedAt: Number.isNaN(executedAt.getTime()) ? trade.executedAt : executedAt.toISOString(),
+    };
+  }, [draft, trade.executedAt]);
+  const valid = edited.symbol !== "" && draft.executedAt !== "" && edited.quantity > 0 && edited.price >= 0 && edited.fees >= 0;
+  const diff: TradeEditDiff | null = useMemo(() => (valid ? onPreview(edited) : null), [edited, onPreview, valid]);
+  const tradesById = new Map(trades.map((candidate) => [candidate.id, candidate]));
+  const set = <K extends keyof Trade>(field: K, value: Trade[K]) => setDraft((current) => ({ ...current, [field]: value }));
+  const after = diff?.after.analyses[trade.id];
+
+  return (
+    <>
+      <tr className="edit-row">
+        <td>
+          <input type="datetime-local" step="1" aria-label="Executed at" value={draft.executedAt} onChange={(event) => set("executedAt", event.target.value)} />
+        </td>
+        <td>
+          <input aria-label="Symbol" value={draft.symbol} onChange={(event) => set("symbol", event.target.value)} />
+        </td>
+        <td>
+          <select aria-label="Action" value={draft.side} onChange={(event) => set("side", event.target.value as Side)}>
+            {Object.values(Side).map((side) => <option key={side} value={side}>{sideLabel[side]}</option>)}
+          </select>
+        </td>
+        <td>
+          <input type="number" min="0" step="any" aria-label="Quantity" value={draft.quantity || ""} onChange={(event) => set("quantity", Number(event.target.value))} />
+        </td>
+        <td>
+          <input type="number" min="0" step="0.01" aria-label="Price" value={draft.price || ""} onChange={(event) => set("price", Number(event.target.value))} />
+        </td>
+        <td>{formatMoney(after?.notional ?? 0)}</td>
+        <td>
+          <span className={`clearance ${after?.risk ?? "info"}`}>{riskLabel[after?.risk ?? "info"]}</span>
+        </td>
+        <td>
+          <button className="icon-button" type="button" aria-label="Save edit" disabled={!valid || !diff?.edited} onClick={() => onSave(edited)}>
+            <Check />
+          </button>
+          <button className="icon-button" type="button" aria-label="Cancel edit" onClick={onCancel}>
+            <X />
+          </button>
+        </td>
+      </tr>
+      <tr className="edit-diff-row">
+        <td colSpan={8}>
+          <div className="edit-diff-header">
+            <label>
+              <span>Fees</span>
+              <input type="number" min="0" step="0.01" value={draft.fees || ""} onChange={(event) => set("fees", Number(event.target.value))} />
+            </label>
+            <p>
+              {!valid
+                ? "Enter a symbol, time, quantity and price to recalculate."
+                : !diff?.edited
+                  ? "Change a field to see what the edit moves."
+                  : diff.metrics.length + diff.alerts.length + diff.analyses.length === 0
+                    ? "The edit changes no metric, alert or execution analysis."
+                    : "Recalculated with the edit, against the ledger as it stands."}
+            </p>
+          </div>
+          {diff?.edited && (
+            <div className="edit-diff">
+              {diff.metrics.length > 0 && (
+                <div>
+                  <span className="eyebrow">Metrics</span>
+                  {diff.metrics.map((metric) => (
+                    <p key={metric.field}>
+                      <strong>{metric.label}</strong>
+                      <span>{metricValue(metric, metric.before)} → {metricValue(metric, metric.after)}</span>
+                      <small className={metric.after < metric.before ? "negative" : "positive"}>{metricDelta(metric)}</small>
+                    </p>
+                  ))}
+                </div>
+              )}
+              {diff.alerts.length > 0 && (
+                <div>
+                  <span className="eyebrow">Alerts</span>
+                  {diff.alerts.map((change) => (
+                    <p key={change.alert.id}>
+                      <span className={`clearance ${change.status === "removed" ? "info" : change.alert.level}`}>{alertStatusLabel[change.status]}</span>
+                      <strong>{change.alert.title}</strong>
+                      <small>{change.alert.detail}</small>
+                    </p>
+                  ))}
+                </div>
+              )}
+              {diff.analyses.length > 0 && (
+                <div>
+                  <span className="eyebrow">Executions</span>
+                  {diff.analyses.map((change) => {
+                    const subject = tradesById.get(change.tradeId);
+                    return (
+                      <p key={change.tradeId}>
+                        <strong>
+                          {change.edited ? "This trade" : `${subject?.symbol ?? ""} · ${subject ? new Date(subject.executedAt).toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" }) : ""}`}
+                        </strong>
+                        {change.riskBefore !== change.riskAfter && <span>{riskLabel[change.riskBefore]} → {riskLabel[change.riskAfter]}</span>}
+                        {change.fields.map((field) => (
+                          <small key={field.field}>{field.label}: {formatMoney(field.before)} → {formatMoney(field.after)}</small>
+                        ))}
+                      </p>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          )}
+        </td>
+      </tr>
+    </>
+  );
+}
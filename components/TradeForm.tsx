@@ -1,8 +1,21 @@
 import { FormEvent, useEffect, useMemo, useState } from "react";
-import { ArrowRight, Plus, ScanSearch } from "lucide-react";
-import { formatMoney } from "../services/engine";
-import { resolveSymbolMargin } from "../data/prototypeMarginCatalog";
-import { AccountSettings, InstrumentType, MarginRegime, Side, Trade, TradeAnalysis } from "../types";
+import { ArrowRight, Gauge, Layers, Plus, ScanSearch, ShieldAlert } from "lucide-react";
+import { formatMoney, lotReliefLabel } from "../services/engine";
+import { OrderSizing } from "../services/orderSizer";
+import { resolveSymbolBorrow, resolveSymbolMargin } from "../data/prototypeMarginCatalog";
+import {
+  AccountSettings,
+  BorrowStatus,
+  InstrumentType,
+  LotReliefMethod,
+  MarginRegime,
+  OpeningLot,
+  OptionType,
+  ShortLocate,
+  Side,
+  Trade,
+  TradeAnalysis,
+} from "../types";
 
 interface Props {
   onAddTrade: (trade: Trade) => void;
@@ -10,6 +23,10 @@ interface Props {
   previewAnalysis?: TradeAnalysis;
   previewIntradayBuyingPower?: number;
   settings: AccountSettings;
+  onSize?: (order: Trade, cushion: number) => OrderSizing;
+  /** Lots open before this ticket, offered for specific identification on closing trades. */
+  openLots?: OpeningLot[];
+  onRecordLocate?: (locate: ShortLocate) => void;
 }
 
 const localDateTime = () => {
@@ -37,19 +54,50 @@ export function TradeForm({
   previewAnalysis,
   previewIntradayBuyingPower,
   settings,
+  onSize,
+  openLots = [],
+  onRecordLocate,
 }: Props) {
   const [trade, setTrade] = useState(blankTrade);
   const [expanded, setExpanded] = useState(false);
+  const [sizerOpen, setSizerOpen] = useState(false);
+  const [cushion, setCushion] = useState(0);
+  const [sizing, setSizing] = useState<OrderSizing | null>(null);
+  const [lotsOpen, setLotsOpen] = useState(false);
   const symbolMargin = resolveSymbolMargin(trade.symbol, settings);
   const effectiveMaintenance = trade.marginRequirementPct
     ?? (trade.side === Side.SELL_SHORT || trade.side === Side.BUY_TO_COVER
       ? symbolMargin.shortMaintenancePct
       : symbolMargin.longMaintenancePct);
+  const borrow = resolveSymbolBorrow(trade.symbol, settings);
+  const locateShortfall = previewAnalysis?.locateShortfall ?? 0;
+
+  const closing = trade.side === Side.SELL || trade.side === Side.BUY_TO_COVER;
+  const closableLots = closing
+    ? openLots.filter((lot) =>
+      Boolean(lot.lotId)
+      && lot.side === (trade.side === Side.SELL ? "long" : "short")
+      && lot.symbol.toUpperCase() === trade.symbol.trim().toUpperCase()
+      && lot.instrument === trade.instrument
+      && (trade.instrument !== InstrumentType.OPTION
+        || (lot.optionType === trade.optionType && lot.strike === trade.strike && lot.expiration === trade.expiration)))
+    : [];
+  const unitCost = (lot: OpeningLot) =>
+    lot.costBasis / lot.quantity / (lot.instrument === InstrumentType.OPTION ? lot.contractMultiplier || 100 : 1);
+  const selectedQuantity = (lotId?: string) =>
+    trade.lotSelections?.find((selection) => selection.lotId === lotId)?.quantity ?? 0;
+  const selectLot = (lotId: string, quantity: number) =>
+    set("lotSelections", [
+      ...(trade.lotSelections ?? []).filter((selection) => selection.lotId !== lotId),
+      ...(quantity > 0 ? [{ lotId, quantity }] : []),
+    ]);
 
   const preview = useMemo<Trade | null>(() => {
     if (!trade.symbol.trim() || trade.quantity <= 0 || trade.price <= 0) return null;
+    const closingSide = trade.side === Side.SELL || trade.side === Side.BUY_TO_COVER;
     return {
       ...trade,
+      ...(closingSide ? {} : { lotRelief: undefined, lotSelections: undefined }),
       id: "preview",
       symbol: trade.symbol.trim().toUpperCase(),
       executedAt: new Date(trade.executedAt).toISOString(),
@@ -60,6 +108,21 @@ export function TradeForm({
     onPreview(preview);
   }, [preview, onPreview]);
 
+  useEffect(() => {
+    setSizing(null);
+  }, [trade.symbol, trade.side, trade.price, trade.instrument, trade.executedAt, trade.strike, trade.expiration, trade.optionType, cushion]);
+
+  const sizingOrder = useMemo<Trade | null>(() => {
+    if (!trade.symbol.trim() || trade.price <= 0) return null;
+    return {
+      ...trade,
+      id: "preview",
+      quantity: 1,
+      symbol: trade.symbol.trim().toUpperCase(),
+      executedAt: new Date(trade.executedAt).toISOString(),
+    };
+  }, [trade]);
+
   const set = <K extends keyof typeof trade>(key: K, value: (typeof trade)[K]) => {
     setTrade((current) => ({ ...current, [key]: value }));
   };
@@ -85,7 +148,7 @@ export function TradeForm({
       <form onSubmit={submit}>
         <div className="ticket-grid">
           <label className="field symbol-field">
-            <span>Symbol</span>
+            <span>{trade.instrument === InstrumentType.OPTION ? "Underlying" : "Symbol"}</span>
             <input
               autoComplete="off"
               inputMode="text"
@@ -141,10 +204,24 @@ export function TradeForm({
         </div>
 
         <div className="ticket-meta-row">
-          <button className="text-button" type="button" onClick={() => setExpanded((value) => !value)}>
-            {expanded ? "Hide trade details" : "Instrument, fees & execution time"}
-            <ArrowRight className={expanded ? "rotate" : ""} size={14} aria-hidden="true" />
-          </button>
+          <div className="ticket-meta-actions">
+            <button className="text-button" type="button" onClick={() => setExpanded((value) => !value)}>
+              {expanded ? "Hide trade details" : "Instrument, fees & execution time"}
+              <ArrowRight className={expanded ? "rotate" : ""} size={14} aria-hidden="true" />
+            </button>
+            {closableLots.length > 0 && (
+              <button className="text-button" type="button" onClick={() => setLotsOpen((value) => !value)}>
+                <Layers aria-hidden="true" />
+                {lotsOpen ? "Hide lots" : "Choose lots"}
+              </button>
+            )}
+            {onSize && (
+              <button className="text-button" type="button" onClick={() => setSizerOpen((value) => !value)}>
+                <Gauge aria-hidden="true" />
+                {sizerOpen ? "Hide sizer" : "Max safe quantity"}
+              </button>
+            )}
+          </div>
           {preview && (
             <div className={`preview-line ${previewAnalysis?.risk ?? "info"}`}>
               <ScanSearch size={15} aria-hidden="true" />
@@ -160,6 +237,138 @@ export function TradeForm({
           )}
         </div>
 
+        {preview && locateShortfall > 0 && (
+          <div className="preview-line watch locate-warning">
+            <ShieldAlert size={15} aria-hidden="true" />
+            <span>
+              No locate recorded for {locateShortfall.toLocaleString()} {preview.symbol} shares on {preview.executedAt.slice(0, 10)}
+              {borrow.borrowStatus === BorrowStatus.HARD ? ` · hard to borrow at ${(borrow.borrowFeeRate * 100).toFixed(2)}% a year` : ""}
+            </span>
+            {onRecordLocate && (
+              <button
+                className="text-button"
+                type="button"
+                onClick={() => onRecordLocate({
+                  id: crypto.randomUUID(),
+                  symbol: preview.symbol,
+                  quantity: locateShortfall,
+                  obtainedOn: preview.executedAt.slice(0, 10),
+                })}
+              >
+                Record locate
+              </button>
+            )}
+          </div>
+        )}
+
+        {lotsOpen && closableLots.length > 0 && (
+          <div className="lot-picker">
+            <label className="field">
+              <span>Lot relief</span>
+              <select
+                value={trade.lotRelief ?? ""}
+                onChange={(event) => set("lotRelief", (event.target.value || undefined) as LotReliefMethod | undefined)}
+              >
+                <option value="">Account default · {lotReliefLabel[settings.lotReliefMethod]}</option>
+                {Object.values(LotReliefMethod).map((method) => (
+                  <option value={method} key={method}>{lotReliefLabel[method]}</option>
+                ))}
+              </select>
+            </label>
+            <p>
+              {previewAnalysis?.relievedLots?.length
+                ? `Relieves ${previewAnalysis.relievedLots
+                  .map((lot) => `${lot.quantity.toLocaleString()} from ${new Date(lot.acquiredAt).toLocaleDateString(undefined, { month: "short", day: "numeric" })} (${formatMoney(lot.costBasis)} cost)`)
+                  .join(", ")}.`
+                : "Enter a quantity and price to see which lots this trade relieves."}
+            </p>
+            {trade.lotRelief === LotReliefMethod.SPECIFIC && (
+              <div className="table-scroll">
+                <table>
+                  <thead>
+                    <tr>
+                      <th>Acquired</th>
+                      <th>Open</th>
+                      <th>Unit cost</th>
+                      <th>Take</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {closableLots.map((lot) => {
+                      const lotId = lot.lotId ?? "";
+                      return (
+                        <tr key={lotId}>
+                          <td>
+                            <strong>{new Date(lot.acquiredAt).toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" })}</strong>
+                            <small>{new Date(lot.acquiredAt).toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" })}</small>
+                          </td>
+                          <td>{lot.quantity.toLocaleString()}</td>
+                          <td>{formatMoney(unitCost(lot))}</td>
+                          <td>
+                            <input
+                              aria-label={`Quantity from lot acquired ${lot.acquiredAt}`}
+                              type="number"
+                              min="0"
+                              max={lot.quantity}
+                              step="any"
+                              value={selectedQuantity(lotId) || ""}
+                              onChange={(event) => selectLot(lotId, Math.min(lot.quantity, Math.max(0, Number(event.target.value))))}
+                            />
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
+        {sizerOpen && onSize && (
+          <div className="order-sizer">
+            <label className="field">
+              <span>Cushion to keep</span>
+              <div className="money-input">
+                <b>$</b>
+                <input
+                  type="number"
+                  min="0"
+                  step="100"
+                  placeholder="0"
+                  value={cushion || ""}
+                  onChange={(event) => setCushion(Math.max(0, Number(event.target.value)))}
+                />
+              </div>
+            </label>
+            <button
+              className="button secondary"
+              type="button"
+              disabled={!sizingOrder}
+              onClick={() => sizingOrder && setSizing(onSize(sizingOrder, cushion))}
+            >
+              Solve
+            </button>
+            <p>
+              {!sizingOrder
+                ? "Enter a symbol and price to solve for the largest quantity that keeps IML non-negative, stays within DTBP and is fully funded."
+                : sizing
+                  ? (
+                    <>
+                      <strong>{sizing.quantity.toLocaleString()} {trade.instrument === InstrumentType.OPTION ? "contracts" : "units"}</strong>
+                      {sizing.analysis ? ` · ${formatMoney(sizing.analysis.notional)} notional` : ""} · {sizing.message}
+                    </>
+                  )
+                  : `Solves for ${trade.side === Side.SELL || trade.side === Side.BUY_TO_COVER ? "a closing" : "an opening"} order at ${formatMoney(trade.price)}.`}
+            </p>
+            {sizing && sizing.quantity > 0 && (
+              <button className="text-button" type="button" onClick={() => set("quantity", sizing.quantity)}>
+                Use this quantity
+              </button>
+            )}
+          </div>
+        )}
+
         {expanded && (
           <div className="ticket-details">
             <label className="field">
@@ -172,6 +381,9 @@ export function TradeForm({
                     ...current,
                     instrument,
                     leverageFactor: instrument === InstrumentType.LEVERAGED_ETP ? 3 : 1,
+                    optionType: instrument === InstrumentType.OPTION ? current.optionType ?? OptionType.CALL : undefined,
+                    strike: instrument === InstrumentType.OPTION ? current.strike : undefined,
+                    expiration: instrument === InstrumentType.OPTION ? current.expiration : undefined,
                   }));
                 }}
               >
@@ -182,15 +394,50 @@ export function TradeForm({
               </select>
             </label>
             {trade.instrument === InstrumentType.OPTION && (
-              <label className="field">
-                <span>Contract multiplier</span>
-                <input
-                  type="number"
-                  min="1"
-                  value={trade.contractMultiplier}
-                  onChange={(event) => set("contractMultiplier", Number(event.target.value))}
-                />
-              </label>
+              <>
+                <label className="field">
+                  <span>Put / call</span>
+                  <select value={trade.optionType ?? OptionType.CALL} onChange={(event) => set("optionType", event.target.value as OptionType)}>
+                    <option value={OptionType.CALL}>Call</option>
+                    <option value={OptionType.PUT}>Put</option>
+                  </select>
+                </label>
+                <label className="field">
+                  <span>Strike</span>
+                  <div className="money-input">
+                    <b>$</b>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.5"
+                      value={trade.strike || ""}
+                      onChange={(event) => set("strike", event.target.value === "" ? undefined : Number(event.target.value))}
+                    />
+                  </div>
+                </label>
+                <label className="field">
+                  <span>Expiration</span>
+                  <input
+                    type="date"
+                    value={trade.expiration ?? ""}
+                    onChange={(event) => set("expiration", event.target.value || undefined)}
+                  />
+                  <small>
+                    {trade.strike && trade.expiration
+                      ? "Margined by strategy with other legs on this underlying."
+                      : "Without strike and expiration the contract is held at 100%."}
+                  </small>
+                </label>
+                <label className="field">
+                  <span>Contract multiplier</span>
+                  <input
+                    type="number"
+                    min="1"
+                    value={trade.contractMultiplier}
+                    onChange={(event) => set("contractMultiplier", Number(event.target.value))}
+                  />
+                </label>
+              </>
             )}
             {trade.instrument === InstrumentType.LEVERAGED_ETP && (
               <label className="field">
@@ -1,4 +1,4 @@
-import type { AccountSettings, SymbolMarginOverride } from "../types";
+import { AccountSettings, BorrowStatus, SymbolMarginOverride } from "../types";
 
 /**
  * Prototype symbol coverage, not broker-authoritative margin data.
@@ -46,6 +46,10 @@ export interface ResolvedSymbolMargin {
 export const normalizeMarginSymbol = (symbol: string) =>
   symbol.trim().toUpperCase().replace(".", "-");
 
+/**
+ * A hard-to-borrow symbol's short requirement is raised to the account's HTB
+ * floor unless the symbol has its own custom short rate.
+ */
 export function resolveSymbolMargin(
   symbol: string,
   settings: AccountSettings,
@@ -53,6 +57,8 @@ export function resolveSymbolMargin(
   const normalized = normalizeMarginSymbol(symbol);
   const prototype = PROTOTYPE_SPECIAL_MARGIN[normalized] ?? {};
   const custom = settings.symbolMarginOverrides?.[normalized] ?? {};
+  const shortMaintenancePct = custom.shortMaintenancePct ?? prototype.shortMaintenancePct ?? settings.shortMaintenancePct;
+  const hardToBorrow = resolveSymbolBorrow(normalized, settings).borrowStatus === BorrowStatus.HARD;
 
   return {
     symbol: normalized,
@@ -60,7 +66,127 @@ export function resolveSymbolMargin(
     isCustom: Boolean(settings.symbolMarginOverrides?.[normalized]),
     initialMarginPct: custom.initialMarginPct ?? prototype.initialMarginPct ?? settings.initialMarginPct,
     longMaintenancePct: custom.longMaintenancePct ?? prototype.longMaintenancePct ?? settings.longMaintenancePct,
-    shortMaintenancePct: custom.shortMaintenancePct ?? prototype.shortMaintenancePct ?? settings.shortMaintenancePct,
+    shortMaintenancePct: hardToBorrow && custom.shortMaintenancePct === undefined
+      ? Math.max(shortMaintenancePct, settings.htbShortMaintenancePct ?? 0)
+      : shortMaintenancePct,
     notes: custom.notes ?? prototype.notes,
   };
 }
+
+/** Stock-loan rate for symbols on a broker's easy-to-borrow list: roughly the general-collateral rebate spread. */
+export const GENERAL_COLLATERAL_BORROW_RATE = 0.0025;
+
+/**
+ * Illustrative hard-to-borrow examples, like the margin examples above: not a
+ * live availability feed or any broker's current rates. Everything else is
+ * treated as easy to borrow, which the broker's list covers as a locate.
+ */
+export const PROTOTYPE_BORROW: Record<string, Pick<SymbolMarginOverride, "borrowStatus" | "borrowFeeRate" | "locateRequired">> = {
+  CVNA: { borrowStatus: BorrowStatus.HARD, borrowFeeRate: 0.08, locateRequired: true },
+  MSTR: { borrowStatus: BorrowStatus.HARD, borrowFeeRate: 0.12, locateRequired: true },
+  SMCI: { borrowStatus: BorrowStatus.HARD, borrowFeeRate: 0.06, locateRequired: true },
+};
+
+export interface ResolvedSymbolBorrow {
+  symbol: string;
+  borrowStatus: BorrowStatus;
+  borrowFeeRate: number;
+  locateRequired: boolean;
+  source: "custom" | "catalog" | "assumed";
+}
+
+/** Custom borrow fields win field by field over the prototype table; unlisted symbols are easy to borrow. */
+export function resolveSymbolBorrow(
+  symbol: string,
+  settings: AccountSettings,
+): ResolvedSymbolBorrow {
+  const normalized = normalizeMarginSymbol(symbol);
+  const prototype = PROTOTYPE_BORROW[normalized];
+  const custom = settings.symbolMarginOverrides?.[normalized] ?? {};
+  const borrowStatus = custom.borrowStatus ?? prototype?.borrowStatus ?? BorrowStatus.EASY;
+  return {
+    symbol: normalized,
+    borrowStatus,
+    borrowFeeRate: custom.borrowFeeRate ?? prototype?.borrowFeeRate ?? GENERAL_COLLATERAL_BORROW_RATE,
+    locateRequired: custom.locateRequired ?? prototype?.locateRequired ?? borrowStatus === BorrowStatus.HARD,
+    source: custom.borrowStatus !== undefined || custom.borrowFeeRate !== undefined || custom.locateRequired !== undefined
+      ? "custom"
+      : prototype ? "catalog" : "assumed",
+  };
+}
+
+/**
+ * Illustrative betas to SPY for beta-weighted stress tests, in the same spirit
+ * as the margin examples above: plausible shapes, not current estimates. Other
+ * SPY constituents are treated as market-weight.
+ */
+export const PROTOTYPE_BETAS: Record<string, number> = {
+  SPY: 1,
+  QQQ: 1.15,
+  IWM: 1.2,
+  AAPL: 1.2,
+  AMD: 1.9,
+  AMZN: 1.3,
+  COIN: 2.8,
+  JNJ: 0.55,
+  KO: 0.6,
+  META: 1.35,
+  MSFT: 1.1,
+  MSTR: 3.2,
+  NVDA: 1.8,
+  PG: 0.5,
+  PLTR: 2.4,
+  TSLA: 2.0,
+  XOM: 0.85,
+};
+
+export interface ResolvedSymbolBeta {
+  symbol: string;
+  beta: number;
+  source: "custom" | "catalog" | "assumed";
+}
+
+/**
+ * A custom beta wins; otherwise the prototype table, then market-weight for
+ * catalog constituents. Unlisted symbols are assumed to move with SPY. A
+ * leveraged ETP without a custom beta scales by its leverage factor.
+ */
+export function resolveSymbolBeta(
+  symbol: string,
+  settings: AccountSettings,
+  leverageFactor = 1,
+): ResolvedSymbolBeta {
+  const normalized = normalizeMarginSymbol(symbol);
+  const custom = settings.symbolMarginOverrides?.[normalized]?.beta;
+  if (custom !== undefined) return { symbol: normalized, beta: custom, source: "custom" };
+  const listed = PROTOTYPE_BETAS[normalized] ?? (PROTOTYPE_MARGIN_SYMBOL_SET.has(normalized) ? 1 : undefined);
+  return {
+    symbol: normalized,
+    beta: (listed ?? 1) * Math.max(1, leverageFactor),
+    source: listed === undefined ? "assumed" : "catalog",
+  };
+}
+
+/**
+ * Illustrative daily leverage of common leveraged and inverse ETPs, as a
+ * magnitude: an inverse 3x fund is listed as 3. Not a complete product list.
+ */
+export const PROTOTYPE_LEVERAGE: Record<string, number> = {
+  QLD: 2,
+  SDS: 2,
+  SOXL: 3,
+  SOXS: 3,
+  SPXL: 3,
+  SPXU: 3,
+  SQQQ: 3,
+  SSO: 2,
+  TNA: 3,
+  TQQQ: 3,
+  TSLL: 2,
+  TZA: 3,
+  UPRO: 3,
+};
+
+/** The catalog's leverage factor for a leveraged ETP, or undefined when the symbol is not listed. */
+export const resolveLeverageFactor = (symbol: string): number | undefined =>
+  PROTOTYPE_LEVERAGE[normalizeMarginSymbol(symbol)];
@@ -0,0 +1,51 @@
+import { describe, expect, test } from "vitest";
+import { freezeArchive, replayDay, replayDrift } from "./archive";
+import { closeDay } from "./rollover";
+import { createAccountWorkspace } from "./storage";
+import { InstrumentType, Side } from "../types";
+
+const archivedDay = () => closeDay(
+  createAccountWorkspace("test", { snapshotDate: "2026-07-27", settlementHolidays: [] }, [{
+    id: "buy",
+    executedAt: "2026-07-27T14:30:00.000Z",
+    symbol: "SPY",
+    instrument: InstrumentType.STOCK,
+    side: Side.BUY,
+    quantity: 100,
+    price: 100,
+    fees: 0,
+    contractMultiplier: 100,
+    leverageFactor: 1,
+  }]),
+  {
+    marks: {
+      SPY: { symbol: "SPY", price: 98, asOf: "2026-07-27T19:30:00.000Z", source: "manual" },
+      QQQ: { symbol: "QQQ", price: 500, asOf: "2026-07-28T14:00:00.000Z", source: "manual" },
+    },
+  },
+).archive;
+
+describe("day archive replay", () => {
+  test("replays a closed day to the archived result using the marks known at the close", () => {
+    const archive = freezeArchive(archivedDay());
+    const replayed = replayDay(archive);
+
+    expect(Object.keys(archive.marks)).toEqual(["SPY"]);
+    expect(replayed.currentEquity).toBe(29_800);
+    expect(replayDrift(archive, replayed)).toEqual([]);
+  });
+
+  test("reports figures that no longer match the archive", () => {
+    const archive = archivedDay();
+    const drift = replayDrift(archive, { ...replayDay(archive), currentEquity: 29_000 });
+
+    expect(drift).toEqual([{ field: "Equity", archived: 29_800, replayed: 29_000 }]);
+  });
+
+  test("hands out frozen copies", () => {
+    const frozen = freezeArchive(archivedDay());
+
+    expect(Object.isFrozen(frozen.trades[0])).toBe(true);
+    expect(() => { (frozen.settings as { settledCash: number }).settledCash = 0; }).toThrow();
+  });
+});
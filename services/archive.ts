@@ -0,0 +1,52 @@
+import { CalculationResult, DayArchive } from "../types";
+import { calculateAccount } from "./engine";
+
+export interface ReplayDrift {
+  field: string;
+  archived: number;
+  replayed: number;
+}
+
+const comparedFields: Array<[keyof CalculationResult, string]> = [
+  ["currentEquity", "Equity"],
+  ["settledCash", "Settled cash"],
+  ["cashAvailableToTrade", "Cash available"],
+  ["maintenanceRequirement", "Maintenance requirement"],
+  ["maintenanceExcess", "Maintenance excess / IML"],
+  ["intradayBuyingPower", "Intraday buying power"],
+  ["dtbpRemaining", "DTBP remaining"],
+  ["highestIntradayDeficit", "Largest intraday deficit"],
+];
+
+const deepFreeze = <T>(value: T): T => {
+  if (value && typeof value === "object" && !Object.isFrozen(value)) {
+    Object.values(value).forEach(deepFreeze);
+    Object.freeze(value);
+  }
+  return value;
+};
+
+/** Archived days are write-once; hand out frozen copies so nothing edits them in place. */
+export const freezeArchive = (archive: DayArchive): DayArchive => deepFreeze(structuredClone(archive));
+
+/** Runs the archived opening snapshot, executions and marks through today's engine. */
+export const replayDay = (archive: DayArchive): CalculationResult =>
+  calculateAccount(archive.settings, archive.trades, archive.closedAt, { marks: archive.marks });
+
+/**
+ * Lists headline figures and alerts that no longer match what was recorded at
+ * the close. Drift means the engine's rules changed since the day was archived.
+ */
+export const replayDrift = (archive: DayArchive, replayed: CalculationResult): ReplayDrift[] => {
+  const drift: ReplayDrift[] = comparedFields
+    .filter(([key]) => Math.abs((replayed[key] as number) - (archive.result[key] as number)) > 0.005)
+    .map(([key, field]) => ({ field, archived: archive.result[key] as number, replayed: replayed[key] as number }));
+  const archivedAlerts = new Set(archive.result.alerts.map((alert) => alert.id));
+  const replayedAlerts = new Set(replayed.alerts.map((alert) => alert.id));
+  const changedAlerts = [...archivedAlerts].filter((id) => !replayedAlerts.has(id)).length
+    + [...replayedAlerts].filter((id) => !archivedAlerts.has(id)).length;
+  if (changedAlerts > 0) {
+    drift.push({ field: "Alerts", archived: archivedAlerts.size, replayed: replayedAlerts.size });
+  }
+  return drift;
+};
@@ -0,0 +1,93 @@
+import { describe, expect, test } from "vitest";
+import { consolidateAccounts } from "./consolidation";
+import { calculateAccount } from "./engine";
+import { createAccountWorkspace } from "./storage";
+import { AccountType, AccountWorkspace, InstrumentType, Side, Trade } from "../types";
+
+const asOf = "2026-07-27T20:00:00.000Z";
+
+const trade = (overrides: Partial<Trade> = {}): Trade => ({
+  id: "trade",
+  executedAt: "2026-07-27T14:30:00.000Z",
+  symbol: "SPY",
+  instrument: InstrumentType.STOCK,
+  side: Side.BUY,
+  quantity: 100,
+  price: 60,
+  fees: 0,
+  contractMultiplier: 100,
+  leverageFactor: 1,
+  ...overrides,
+});
+
+const summarize = (...accounts: AccountWorkspace[]) => accounts.map((account) => ({
+  account,
+  result: calculateAccount(account.settings, account.trades, asOf),
+}));
+
+describe("consolidated accounts", () => {
+  test("sums balances and tags each alert with its account", () => {
+    const margin = createAccountWorkspace("margin", { accountName: "Margin", snapshotDate: "2026-07-27", startOfDayEquity: 30_000, settledCash: 30_000 });
+    const ira = createAccountWorkspace("ira", { accountName: "IRA", accountType: AccountType.CASH, snapshotDate: "2026-07-27", startOfDayEquity: 5_000, settledCash: 5_000 }, [
+      trade({ id: "overspend" }),
+    ]);
+    const view = consolidateAccounts(summarize(margin, ira));
+
+    expect(view.currentEquity).toBe(35_000);
+    expect(view.settledCash).toBe(30_000);
+    expect(view.openPositions).toBe(1);
+    expect(view.alerts.find((alert) => alert.id === "unfunded-overspend")).toEqual(
+      expect.objectContaining({ accountId: "ira", accountName: "IRA", level: "danger" }),
+    );
+  });
+
+  test("adds cash and margin balances from mixed account types", () => {
+    const margin = createAccountWorkspace("margin", { accountName: "Margin", snapshotDate: "2026-07-27", startOfDayEquity: 40_000, settledCash: 40_000 }, [
+      trade({ id: "margin-buy", symbol: "QQQ", quantity: 50, price: 500 }),
+    ]);
+    const cash = createAccountWorkspace("cash", { accountName: "Cash", accountType: AccountType.CASH, snapshotDate: "2026-07-27", startOfDayEquity: 10_000, settledCash: 10_000 }, [
+      trade({ id: "cash-buy", quantity: 50, price: 100 }),
+      trade({ id: "cash-sell", side: Side.SELL, executedAt: "2026-07-27T15:30:00.000Z", quantity: 50, price: 110 }),
+    ]);
+    const accounts = summarize(margin, cash);
+    const view = consolidateAccounts(accounts);
+    const sum = (pick: (summary: typeof accounts[number]) => number) =>
+      accounts.reduce((total, summary) => total + pick(summary), 0);
+
+    expect(view.settledCash).toBeCloseTo(sum(({ result }) => result.settledCash), 2);
+    expect(view.unsettledCash).toBeCloseTo(sum(({ result }) => result.unsettledCash), 2);
+    expect(view.unsettledCash).toBeGreaterThan(0);
+    expect(view.cashAvailableToTrade).toBeCloseTo(sum(({ result }) => result.cashAvailableToTrade), 2);
+    expect(view.maintenanceRequirement).toBeCloseTo(sum(({ result }) => result.maintenanceRequirement), 2);
+    expect(view.realizedPnl).toBe(500);
+    expect(view.openPositions).toBe(1);
+  });
+
+  test("leaves buying power per account instead of summing it", () => {
+    const first = createAccountWorkspace("first", { accountName: "First", snapshotDate: "2026-07-27", startOfDayEquity: 30_000, settledCash: 30_000 });
+    const second = createAccountWorkspace("second", { accountName: "Second", snapshotDate: "2026-07-27", startOfDayEquity: 50_000, settledCash: 50_000 });
+    const view = consolidateAccounts(summarize(first, second));
+
+    expect(view).not.toHaveProperty("marginBuyingPower");
+    expect(view).not.toHaveProperty("dtbpRemaining");
+    expect(view).not.toHaveProperty("intradayBuyingPower");
+    expect(view.accounts.every(({ result }) => result.marginBuyingPower > 0)).toBe(true);
+  });
+
+  test("collects alerts from every account with the most severe first", () => {
+    const margin = createAccountWorkspace("margin", { accountName: "Margin", snapshotDate: "2026-07-27", startOfDayEquity: 30_000, settledCash: 30_000 });
+    const ira = createAccountWorkspace("ira", { accountName: "IRA", accountType: AccountType.CASH, snapshotDate: "2026-07-27", startOfDayEquity: 5_000, settledCash: 5_000 }, [
+      trade({ id: "overspend" }),
+    ]);
+    const accounts = summarize(margin, ira);
+    const view = consolidateAccounts(accounts);
+    const rank = { danger: 0, watch: 1, info: 2 };
+
+    expect(view.alerts).toHaveLength(accounts.reduce((total, { result }) => total + result.alerts.length, 0));
+    expect(view.alerts.map((alert) => rank[alert.level])).toEqual(
+      [...view.alerts.map((alert) => rank[alert.level])].sort((a, b) => a - b),
+    );
+    expect(view.alerts[0].level).toBe("danger");
+    expect(view.alerts.every((alert) => alert.accountName === (alert.accountId === "ira" ? "IRA" : "Margin"))).toBe(true);
+  });
+});
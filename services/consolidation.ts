@@ -0,0 +1,56 @@
+import { AccountWorkspace, CalculationResult, RiskAlert } from "../types";
+
+export interface AccountSummary {
+  account: AccountWorkspace;
+  result: CalculationResult;
+}
+
+export interface ConsolidatedAlert extends RiskAlert {
+  accountId: string;
+  accountName: string;
+}
+
+export interface ConsolidatedView {
+  accounts: AccountSummary[];
+  currentEquity: number;
+  settledCash: number;
+  unsettledCash: number;
+  cashAvailableToTrade: number;
+  maintenanceRequirement: number;
+  maintenanceExcess: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+  openPositions: number;
+  alerts: ConsolidatedAlert[];
+}
+
+const alertRank: Record<RiskAlert["level"], number> = { danger: 0, watch: 1, info: 2 };
+
+/**
+ * Sums balances across accounts. Buying power is deliberately not added up:
+ * each account clears its own trades, so a combined figure would overstate
+ * what any single order could use.
+ */
+export const consolidateAccounts = (accounts: AccountSummary[]): ConsolidatedView => {
+  const total = (pick: (result: CalculationResult) => number) =>
+    Math.round(accounts.reduce((sum, { result }) => sum + pick(result), 0) * 100) / 100;
+  return {
+    accounts,
+    currentEquity: total((result) => result.currentEquity),
+    settledCash: total((result) => result.settledCash),
+    unsettledCash: total((result) => result.unsettledCash),
+    cashAvailableToTrade: total((result) => result.cashAvailableToTrade),
+    maintenanceRequirement: total((result) => result.maintenanceRequirement),
+    maintenanceExcess: total((result) => result.maintenanceExcess),
+    realizedPnl: total((result) => result.realizedPnl),
+    unrealizedPnl: total((result) => result.unrealizedPnl),
+    openPositions: accounts.reduce((sum, { result }) => sum + result.positions.length, 0),
+    alerts: accounts
+      .flatMap(({ account, result }) => result.alerts.map((alert) => ({
+        ...alert,
+        accountId: account.id,
+        accountName: account.settings.accountName,
+      })))
+      .sort((a, b) => alertRank[a.level] - alertRank[b.level]),
+  };
+};
@@ -0,0 +1,206 @@
+import { describe, expect, test } from "vitest";
+import {
+  buildImportTable,
+  mapImportRows,
+  parseDelimited,
+  parseImportNumber,
+  parseImportSide,
+  suggestColumns,
+} from "./csvImport";
+import { ImportProfile, InstrumentType, OptionType, Side, Trade } from "../types";
+
+const profile = (overrides: Partial<ImportProfile> = {}): ImportProfile => ({
+  id: "profile",
+  name: "Test broker",
+  hasHeader: true,
+  columns: {
+    executedAt: "Date",
+    side: "Action",
+    symbol: "Symbol",
+    quantity: "Quantity",
+    price: "Price",
+    fees: "Fees",
+  },
+  defaultInstrument: InstrumentType.STOCK,
+  defaultMultiplier: 100,
+  ...overrides,
+});
+
+const existing = (overrides: Partial<Trade> = {}): Trade => ({
+  id: "existing",
+  executedAt: new Date("2026-07-27T09:31:00").toISOString(),
+  symbol: "AAPL",
+  instrument: InstrumentType.STOCK,
+  side: Side.BUY,
+  quantity: 100,
+  price: 212.4,
+  fees: 0,
+  contractMultiplier: 100,
+  leverageFactor: 1,
+  ...overrides,
+});
+
+describe("delimited parsing", () => {
+  test("handles quoted delimiters and doubled quotes", () => {
+    expect(parseDelimited("a,\"b, c\",\"say \"\"hi\"\"\"\n1,2,3")).toEqual([
+      ["a", "b, c", "say \"hi\""],
+      ["1", "2", "3"],
+    ]);
+  });
+
+  test("detects tab-separated spreadsheet pastes", () => {
+    expect(parseDelimited("Date\tSymbol\n07/27/2026\tAAPL")).toEqual([
+      ["Date", "Symbol"],
+      ["07/27/2026", "AAPL"],
+    ]);
+  });
+
+  test("reads accounting negatives and broker side codes", () => {
+    expect(parseImportNumber("($1,234.50)")).toBe(-1_234.5);
+    expect(parseImportSide("SLD")).toBe(Side.SELL);
+    expect(parseImportSide("Sell Short")).toBe(Side.SELL_SHORT);
+    expect(parseImportSide("BUY_TO_COVER")).toBe(Side.BUY_TO_COVER);
+  });
+
+  test("suggests a mapping from familiar headers", () => {
+    expect(suggestColumns(["Trade Date", "Action", "Symbol", "Qty", "Fill Price", "Commission"])).toEqual({
+      executedAt: "Trade Date",
+      side: "Action",
+      symbol: "Symbol",
+      quantity: "Qty",
+      price: "Fill Price",
+      fees: "Commission",
+    });
+  });
+});
+
+describe("execution mapping", () => {
+  test("maps rows into trades with local timestamps", () => {
+    const table = buildImportTable(
+      "Date,Action,Symbol,Quantity,Price,Fees\n07/27/2026 10:15:00 AM,Sold,msft,50,\"$1,010.25\",1.00",
+      true,
+    );
+    const batch = mapImportRows(table, profile(), [], () => "generated");
+
+    expect(batch.errors).toBe(0);
+    expect(batch.trades).toEqual([
+      expect.objectContaining({
+        id: "generated",
+        executedAt: new Date("2026-07-27T10:15:00").toISOString(),
+        symbol: "MSFT",
+        side: Side.SELL,
+        quantity: 50,
+        price: 1_010.25,
+        fees: 1,
+      }),
+    ]);
+  });
+
+  test("skips rows that match an existing execution or an earlier row", () => {
+    const table = buildImportTable(
+      [
+        "Date,Action,Symbol,Quantity,Price,Fees",
+        "07/27/2026 09:31:00,Buy,AAPL,100,212.40,0",
+        "07/27/2026 09:45:00,Buy,AAPL,10,213,0",
+        "07/27/2026 09:45:00,Buy,AAPL,10,213,0",
+      ].join("\n"),
+      true,
+    );
+    const batch = mapImportRows(table, profile(), [existing()]);
+
+    expect(batch.trades).toHaveLength(1);
+    expect(batch.duplicates).toBe(2);
+  });
+
+  test("uses the broker execution ID for idempotent re-imports", () => {
+    const table = buildImportTable("Date,Action,Symbol,Quantity,Price,Exec ID\n2026-07-27,Buy,SPY,1,600,X1", true);
+    const mapping = profile({ columns: { ...profile().columns, fees: undefined, id: "Exec ID" } });
+    const first = mapImportRows(table, mapping, []);
+    const second = mapImportRows(table, mapping, first.trades);
+
+    expect(first.trades[0].id).toBe("import-X1");
+    expect(second.trades).toHaveLength(0);
+    expect(second.duplicates).toBe(1);
+  });
+
+  test("keeps split fills that share content but carry different execution IDs", () => {
+    const table = buildImportTable(
+      [
+        "Date,Action,Symbol,Quantity,Price,Exec ID",
+        "2026-07-27,Buy,SPY,100,600,X1",
+        "2026-07-27,Buy,SPY,100,600,X2",
+        "2026-07-27,Buy,SPY,100,600,X2",
+      ].join("\n"),
+      true,
+    );
+    const mapping = profile({ columns: { ...profile().columns, fees: undefined, id: "Exec ID" } });
+    const batch = mapImportRows(table, mapping, []);
+
+    expect(batch.trades.map((trade) => trade.id)).toEqual(["import-X1", "import-X2"]);
+    expect(batch.duplicates).toBe(1);
+  });
+
+  test("infers the side from a signed quantity when no action column is mapped", () => {
+    const table = buildImportTable("Date,Symbol,Quantity,Price\n2026-07-27,SPY,-5,600", true);
+    const mapping = profile({ columns: { executedAt: "Date", symbol: "Symbol", quantity: "Quantity", price: "Price" } });
+    const batch = mapImportRows(table, mapping, []);
+
+    expect(batch.trades[0]).toEqual(expect.objectContaining({ side: Side.SELL, quantity: 5 }));
+  });
+
+  test("reports unreadable rows with their source line", () => {
+    const table = buildImportTable("Date,Action,Symbol,Quantity,Price,Fees\nnot a date,Buy,AAPL,1,1,0\n07/27/2026,Hold,AAPL,1,1,0", true);
+    const batch = mapImportRows(table, profile(), []);
+
+    expect(batch.errors).toBe(2);
+    expect(batch.rows.map((row) => row.line)).toEqual([2, 3]);
+  });
+
+  test("takes the leverage factor from a mapped column, then the catalog, then the default", () => {
+    const table = buildImportTable(
+      [
+        "Date,Action,Symbol,Quantity,Price,Type,Leverage",
+        "2026-07-27,Buy,UPRO,10,90,Leveraged ETP,",
+        "2026-07-27,Buy,SSO,10,90,,",
+        "2026-07-27,Buy,ABCD,10,90,Leveraged ETP,-2",
+        "2026-07-27,Buy,WXYZ,10,90,Leveraged ETP,",
+      ].join("\n"),
+      true,
+    );
+    const mapping = profile({ columns: { ...profile().columns, fees: undefined, instrument: "Type", leverageFactor: "Leverage" } });
+    const batch = mapImportRows(table, mapping, []);
+
+    expect(batch.trades.map((trade) => [trade.symbol, trade.instrument, trade.leverageFactor])).toEqual([
+      ["UPRO", InstrumentType.LEVERAGED_ETP, 3],
+      ["SSO", InstrumentType.LEVERAGED_ETP, 2],
+      ["ABCD", InstrumentType.LEVERAGED_ETP, 2],
+      ["WXYZ", InstrumentType.LEVERAGED_ETP, 3],
+    ]);
+  });
+
+  test("maps option contract columns and keeps different contracts apart", () => {
+    const table = buildImportTable(
+      [
+        "Date,Action,Symbol,Quantity,Price,Put/Call,Strike,Expiry,Underlying",
+        "2026-07-27,Sell Short,SPY 95P,1,2,P,95,08/21/2026,spy",
+        "2026-07-27,Sell Short,SPY 96P,1,2,Put,96,2026-08-21,SPY",
+      ].join("\n"),
+      true,
+    );
+    const batch = mapImportRows(table, profile({ columns: { ...profile().columns, fees: undefined, ...suggestColumns(table.headers) } }), []);
+
+    expect(batch.duplicates).toBe(0);
+    expect(batch.trades).toEqual([
+      expect.objectContaining({ instrument: InstrumentType.OPTION, optionType: OptionType.PUT, strike: 95, expiration: "2026-08-21", underlying: "SPY" }),
+      expect.objectContaining({ instrument: InstrumentType.OPTION, optionType: OptionType.PUT, strike: 96, expiration: "2026-08-21", underlying: "SPY" }),
+    ]);
+  });
+
+  test("rejects option rows that do not name a contract", () => {
+    const table = buildImportTable("Date,Action,Symbol,Quantity,Price\n2026-07-27,Buy,SPY 110C,1,2", true);
+    const batch = mapImportRows(table, profile({ defaultInstrument: InstrumentType.OPTION }), []);
+
+    expect(batch.errors).toBe(1);
+    expect(batch.rows[0].message).toMatch(/strike/);
+  });
+});
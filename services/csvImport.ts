@@ -0,0 +1,350 @@
+import {
+  ImportField,
+  ImportProfile,
+  InstrumentType,
+  OptionType,
+  Side,
+  Trade,
+} from "../types";
+import { resolveLeverageFactor } from "../data/prototypeMarginCatalog";
+import { optionContractFor, optionContractSymbol } from "./optionStrategies";
+
+const DEFAULT_LEVERAGE_FACTOR = 3;
+
+export const IMPORT_FIELDS: Array<{ field: ImportField; label: string; required: boolean }> = [
+  { field: "executedAt", label: "Execution date / time", required: true },
+  { field: "executedTime", label: "Execution time (separate column)", required: false },
+  { field: "symbol", label: "Symbol", required: true },
+  { field: "side", label: "Action / side (or signed quantity)", required: false },
+  { field: "quantity", label: "Quantity", required: true },
+  { field: "price", label: "Price", required: true },
+  { field: "fees", label: "Fees & commissions", required: false },
+  { field: "instrument", label: "Instrument", required: false },
+  { field: "contractMultiplier", label: "Multiplier", required: false },
+  { field: "leverageFactor", label: "Leverage factor", required: false },
+  { field: "optionType", label: "Option type (call / put)", required: false },
+  { field: "strike", label: "Strike", required: false },
+  { field: "expiration", label: "Expiration date", required: false },
+  { field: "underlying", label: "Underlying", required: false },
+  { field: "id", label: "Broker execution ID", required: false },
+];
+
+// Header keywords used to pre-fill a mapping the first time an export is seen.
+const HEADER_HINTS: Record<ImportField, RegExp> = {
+  executedAt: /^(trade ?date|date|exec(ution)? ?(date|time)|time ?stamp|filled ?at|date\/time|run ?date)$/i,
+  executedTime: /^(time|exec(ution)? ?time|trade ?time)$/i,
+  symbol: /^(symbol|ticker|security|instrument ?symbol)$/i,
+  side: /^(action|side|b\/s|buy\/sell|transaction|type|activity)$/i,
+  quantity: /^(qty|quantity|shares|filled ?qty|contracts)$/i,
+  price: /^(price|fill ?price|avg ?price|exec(ution)? ?price|trade ?price)$/i,
+  fees: /^(fees?|commission|commissions|comm|fees ?& ?comm(ission)?s?)$/i,
+  instrument: /^(asset ?class|security ?type|instrument|product|asset ?type)$/i,
+  contractMultiplier: /^(multiplier|contract ?size)$/i,
+  leverageFactor: /^(leverage|leverage ?factor|lev(erage)? ?ratio)$/i,
+  optionType: /^(put ?\/ ?call|call ?\/ ?put|option ?type|p\/c|c\/p|right)$/i,
+  strike: /^(strike|strike ?price)$/i,
+  expiration: /^(exp|expiry|expiration|expiration ?date|exp(iry)? ?date)$/i,
+  underlying: /^(underlying|underlying ?symbol|root|root ?symbol)$/i,
+  id: /^(id|exec(ution)? ?id|order ?id|trade ?id|fill ?id|reference|ref)$/i,
+};
+
+const SIDE_ALIASES: Array<[RegExp, Side]> = [
+  [/^(buy ?to ?cover|btc|cover|bought ?to ?cover|buy ?to ?close)$/i, Side.BUY_TO_COVER],
+  [/^(sell ?short|short|ss|sold ?short|sto|sell ?to ?open)$/i, Side.SELL_SHORT],
+  [/^(buy|b|bot|bought|bto|buy ?to ?open|you ?bought)$/i, Side.BUY],
+  [/^(sell|s|sld|sold|stc|sell ?to ?close|you ?sold)$/i, Side.SELL],
+];
+
+const INSTRUMENT_ALIASES: Array<[RegExp, InstrumentType]> = [
+  [/opt|call|put/i, InstrumentType.OPTION],
+  [/lev/i, InstrumentType.LEVERAGED_ETP],
+  [/etf|etp|fund/i, InstrumentType.ETF],
+  [/stock|equity|share|common|cs/i, InstrumentType.STOCK],
+];
+
+export interface ImportTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export type ImportRowStatus = "new" | "duplicate" | "error";
+
+export interface ImportRow {
+  line: number;
+  status: ImportRowStatus;
+  trade?: Trade;
+  message: string;
+}
+
+export interface ImportBatch {
+  rows: ImportRow[];
+  trades: Trade[];
+  duplicates: number;
+  errors: number;
+}
+
+const detectDelimiter = (text: string) => {
+  const sample = text.split(/\r?\n/).find((line) => line.trim()) ?? "";
+  const candidates = ["\t", ",", ";", "|"];
+  return candidates.reduce((best, candidate) =>
+    sample.split(candidate).length > sample.split(best).length ? candidate : best,
+  ",");
+};
+
+/**
+ * Parses a broker CSV export or a table pasted from a spreadsheet. Quoted
+ * fields may contain the delimiter, doubled quotes, and line breaks.
+ */
+export const parseDelimited = (text: string, delimiter = detectDelimiter(text)): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (quoted) {
+      if (char === "\"" && text[index + 1] === "\"") {
+        field += "\"";
+        index += 1;
+      } else if (char === "\"") {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === "\"" && field.trim() === "") {
+      field = "";
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field.trim());
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") index += 1;
+      row.push(field.trim());
+      if (row.some((value) => value !== "")) rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  row.push(field.trim());
+  if (row.some((value) => value !== "")) rows.push(row);
+  return rows;
+};
+
+export const buildImportTable = (text: string, hasHeader: boolean): ImportTable => {
+  const parsed = parseDelimited(text);
+  const width = parsed.reduce((max, row) => Math.max(max, row.length), 0);
+  const generated = Array.from({ length: width }, (_, index) => `Column ${index + 1}`);
+  if (!hasHeader || parsed.length === 0) return { headers: generated, rows: parsed };
+  const headers = generated.map((fallback, index) => parsed[0][index] || fallback);
+  return { headers, rows: parsed.slice(1) };
+};
+
+export const suggestColumns = (headers: string[]): ImportProfile["columns"] => {
+  const columns: ImportProfile["columns"] = {};
+  IMPORT_FIELDS.forEach(({ field }) => {
+    const match = headers.find((header) => HEADER_HINTS[field].test(header.trim()));
+    if (match) columns[field] = match;
+  });
+  return columns;
+};
+
+export const parseImportNumber = (raw: string | undefined) => {
+  if (raw === undefined) return Number.NaN;
+  const trimmed = raw.trim();
+  if (!trimmed) return Number.NaN;
+  const negative = /^\(.*\)$/.test(trimmed) || trimmed.startsWith("-");
+  const digits = trimmed.replace(/[()$,\s+-]/g, "");
+  const value = Number(digits);
+  return negative ? -value : value;
+};
+
+export const parseImportSide = (raw: string | undefined): Side | undefined => {
+  const normalized = (raw ?? "").trim().replace(/[_-]/g, " ").replace(/\s+/g, " ");
+  return SIDE_ALIASES.find(([pattern]) => pattern.test(normalized))?.[1];
+};
+
+const parseInstrument = (raw: string | undefined, fallback: InstrumentType) => {
+  if (!raw?.trim()) return fallback;
+  return INSTRUMENT_ALIASES.find(([pattern]) => pattern.test(raw))?.[1] ?? fallback;
+};
+
+const parseOptionType = (raw: string | undefined) => {
+  const normalized = (raw ?? "").trim();
+  if (/^c(all)?s?$/i.test(normalized)) return OptionType.CALL;
+  if (/^p(ut)?s?$/i.test(normalized)) return OptionType.PUT;
+  return undefined;
+};
+
+const US_DATE = /^(\d{1,2})\/(\d{1,2})\/(\d{2,4})(?:[ T,]+(.*))?$/;
+
+/** Reads an ISO or U.S. month/day/year date as a calendar day, for option expirations. */
+const parseImportDay = (raw: string | undefined) => {
+  const date = (raw ?? "").trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(date)) return date;
+  const usMatch = date.match(US_DATE);
+  if (!usMatch) return undefined;
+  const year = usMatch[3].length === 2 ? `20${usMatch[3]}` : usMatch[3];
+  return `${year}-${usMatch[1].padStart(2, "0")}-${usMatch[2].padStart(2, "0")}`;
+};
+
+/**
+ * Accepts ISO timestamps and U.S. month/day/year exports. Values without an
+ * explicit offset are read as local time, matching the trade ticket.
+ */
+export const parseImportTimestamp = (dateRaw: string | undefined, timeRaw?: string) => {
+  const date = (dateRaw ?? "").trim();
+  if (!date) return undefined;
+  let isoDay = "";
+  let time = (timeRaw ?? "").trim();
+
+  const usMatch = date.match(US_DATE);
+  if (usMatch) {
+    const year = usMatch[3].length === 2 ? `20${usMatch[3]}` : usMatch[3];
+    isoDay = `${year}-${usMatch[1].padStart(2, "0")}-${usMatch[2].padStart(2, "0")}`;
+    time = time || (usMatch[4] ?? "");
+  } else if (/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    isoDay = date;
+  } else {
+    const parsed = new Date(time ? `${date} ${time}` : date);
+    return Number.isNaN(parsed.getTime()) ? undefined : parsed.toISOString();
+  }
+
+  const clock = time.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(am|pm)?/i);
+  let hours = clock ? Number(clock[1]) : 12;
+  const minutes = clock ? clock[2] : "00";
+  const seconds = clock?.[3] ?? "00";
+  if (clock?.[4]) {
+    const pm = clock[4].toLowerCase() === "pm";
+    if (pm && hours < 12) hours += 12;
+    if (!pm && hours === 12) hours = 0;
+  }
+  const parsed = new Date(`${isoDay}T${String(hours).padStart(2, "0")}:${minutes}:${seconds}`);
+  return Number.isNaN(parsed.getTime()) ? undefined : parsed.toISOString();
+};
+
+type DuplicateFields = "executedAt" | "symbol" | "side" | "quantity" | "price" | "optionType" | "strike" | "expiration" | "underlying";
+
+const duplicateKey = (trade: Pick<Trade, DuplicateFields>) => {
+  const contract = optionContractFor(trade);
+  return [
+    new Date(trade.executedAt).toISOString(),
+    contract ? optionContractSymbol(contract) : trade.symbol.toUpperCase(),
+    trade.side,
+    trade.quantity,
+    trade.price,
+  ].join("|");
+};
+
+export const mapImportRows = (
+  table: ImportTable,
+  profile: ImportProfile,
+  existingTrades: Trade[],
+  createId: () => string = () => crypto.randomUUID(),
+): ImportBatch => {
+  const columnIndex = (field: ImportField) => {
+    const header = profile.columns[field];
+    return header ? table.headers.indexOf(header) : -1;
+  };
+  const read = (row: string[], field: ImportField) => {
+    const index = columnIndex(field);
+    return index >= 0 ? row[index] : undefined;
+  };
+
+  const knownIds = new Set(existingTrades.map((trade) => trade.id));
+  const knownKeys = new Set(existingTrades.map(duplicateKey));
+  const rows: ImportRow[] = [];
+  const trades: Trade[] = [];
+  const firstLine = profile.hasHeader ? 2 : 1;
+
+  table.rows.forEach((row, index) => {
+    const line = index + firstLine;
+    const executedAt = parseImportTimestamp(read(row, "executedAt"), read(row, "executedTime"));
+    const symbol = (read(row, "symbol") ?? "").trim().toUpperCase();
+    const rawQuantity = parseImportNumber(read(row, "quantity"));
+    const side = parseImportSide(read(row, "side"))
+      ?? (profile.columns.side ? undefined : rawQuantity < 0 ? Side.SELL : Side.BUY);
+    const price = Math.abs(parseImportNumber(read(row, "price")));
+    const rawFees = parseImportNumber(read(row, "fees"));
+    const optionType = parseOptionType(read(row, "optionType"));
+    const strike = parseImportNumber(read(row, "strike"));
+    const expiration = parseImportDay(read(row, "expiration"));
+    const catalogLeverage = resolveLeverageFactor(symbol);
+    // A row that names a contract is an option, and a catalog leveraged ETP
+    // is one, unless the export says otherwise.
+    const instrument = parseInstrument(
+      read(row, "instrument"),
+      optionType ? InstrumentType.OPTION : catalogLeverage ? InstrumentType.LEVERAGED_ETP : profile.defaultInstrument,
+    );
+    const rawMultiplier = parseImportNumber(read(row, "contractMultiplier"));
+    const rawLeverage = parseImportNumber(read(row, "leverageFactor"));
+    const isOption = instrument === InstrumentType.OPTION;
+
+    const problem =
+      !executedAt ? "Unreadable execution date."
+        : !symbol ? "Missing symbol."
+          : !side ? `Unrecognized action “${read(row, "side") ?? ""}”.`
+            : !Number.isFinite(rawQuantity) || rawQuantity === 0 ? "Quantity must be a non-zero number."
+              : !Number.isFinite(price) || price <= 0 ? "Price must be greater than zero."
+                : isOption && (!optionType || !(strike > 0) || !expiration)
+                  ? "Option rows need a call or put type, a strike and an expiration; map those columns."
+                  : "";
+    if (problem || !executedAt || !side) {
+      rows.push({ line, status: "error", message: problem });
+      return;
+    }
+
+    const brokerId = (read(row, "id") ?? "").trim();
+    const trade: Trade = {
+      id: brokerId ? `import-${brokerId}` : createId(),
+      executedAt,
+      symbol,
+      instrument,
+      side,
+      quantity: Math.abs(rawQuantity),
+      price,
+      fees: Number.isFinite(rawFees) ? Math.abs(rawFees) : 0,
+      contractMultiplier: Number.isFinite(rawMultiplier) && rawMultiplier > 0
+        ? rawMultiplier
+        : profile.defaultMultiplier,
+      leverageFactor: instrument !== InstrumentType.LEVERAGED_ETP
+        ? 1
+        : Number.isFinite(rawLeverage) && rawLeverage !== 0
+          ? Math.abs(rawLeverage)
+          : catalogLeverage ?? DEFAULT_LEVERAGE_FACTOR,
+      notes: `Imported with “${profile.name}”`,
+    };
+    if (isOption) {
+      trade.optionType = optionType;
+      trade.strike = strike;
+      trade.expiration = expiration;
+      const underlying = (read(row, "underlying") ?? "").trim().toUpperCase();
+      if (underlying) trade.underlying = underlying;
+    }
+
+    // Split fills can share every field but the execution ID, so the content
+    // key only stands in for rows the broker did not identify.
+    const key = duplicateKey(trade);
+    if (brokerId ? knownIds.has(trade.id) : knownKeys.has(key)) {
+      rows.push({ line, status: "duplicate", trade, message: "Already in the ledger or earlier in this file." });
+      return;
+    }
+    knownIds.add(trade.id);
+    knownKeys.add(key);
+    trades.push(trade);
+    rows.push({ line, status: "new", trade, message: "Ready to import." });
+  });
+
+  return {
+    rows,
+    trades,
+    duplicates: rows.filter((row) => row.status === "duplicate").length,
+    errors: rows.filter((row) => row.status === "error").length,
+  };
+};
+
+export const missingRequiredColumns = (profile: ImportProfile) =>
+  IMPORT_FIELDS.filter(({ field, required }) => required && !profile.columns[field])
+    .map(({ label }) => label);
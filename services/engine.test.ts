@@ -1,17 +1,32 @@
 import { describe, expect, test } from "vitest";
-import { addBusinessDays, calculateAccount, settlementDateFor } from "./engine";
+import { addBusinessDays, annualMarginInterest, calculateAccount, settlementDateFor } from "./engine";
 import {
   PROTOTYPE_MARGIN_SYMBOLS,
+  resolveSymbolBorrow,
   resolveSymbolMargin,
 } from "../data/prototypeMarginCatalog";
 import {
   AccountSettings,
   AccountType,
+  BorrowStatus,
+  CashMovement,
+  CashMovementType,
+  CashViolation,
+  CashViolationType,
+  CorporateAction,
+  CorporateActionType,
   DEFAULT_SETTINGS,
   DtbpMethod,
+  DtbpRestriction,
+  IncomeEventType,
   InstrumentType,
+  LotReliefMethod,
   MarginAccountClass,
+  MarginCall,
+  MarginCallType,
   MarginRegime,
+  OptionStrategy,
+  OptionType,
   Side,
   Trade,
 } from "../types";
@@ -23,6 +38,14 @@ const settings = (overrides: Partial<AccountSettings> = {}): AccountSettings =>
   ...overrides,
 });
 
+const movement = (overrides: Partial<CashMovement> = {}): CashMovement => ({
+  id: crypto.randomUUID(),
+  postedAt: "2026-07-27T16:00:00.000Z",
+  type: CashMovementType.DEPOSIT,
+  amount: 10_000,
+  ...overrides,
+});
+
 const trade = (overrides: Partial<Trade> = {}): Trade => ({
   id: crypto.randomUUID(),
   executedAt: "2026-07-27T14:30:00.000Z",
@@ -114,6 +137,56 @@ describe("cash account funding ledger", () => {
   });
 });
 
+describe("cash violation register", () => {
+  const violation = (overrides: Partial<CashViolation> = {}): CashViolation => ({
+    id: crypto.randomUUID(),
+    type: CashViolationType.GOOD_FAITH,
+    date: "2026-01-10",
+    symbol: "SPY",
+    amount: 1_000,
+    ...overrides,
+  });
+  const cash = (cashViolations: CashViolation[]) =>
+    settings({ accountType: AccountType.CASH, settledCash: 10_000, unsettledCash: 2_000, cashViolations });
+
+  test("records today's good-faith violation and restricts the account at the threshold", () => {
+    const result = calculateAccount(
+      cash([violation({ date: "2025-09-01" }), violation()]),
+      [
+        trade({ id: "buy-a" }),
+        trade({ id: "sell-a", side: Side.SELL, executedAt: "2026-07-27T15:00:00.000Z" }),
+        trade({ id: "buy-b", symbol: "QQQ", executedAt: "2026-07-27T16:00:00.000Z" }),
+        trade({ id: "sell-b", symbol: "QQQ", side: Side.SELL, executedAt: "2026-07-27T17:00:00.000Z" }),
+      ],
+      "2026-07-27T20:00:00.000Z",
+    );
+
+    expect(result.cashViolations.at(-1)).toMatchObject({ id: "gfv-sell-b", type: CashViolationType.GOOD_FAITH, date: "2026-07-27", amount: 10_000 });
+    expect(result).toMatchObject({ goodFaithViolations: 3, violationsRemaining: 0, cashRestrictionActive: true, cashRestrictionEndsOn: "2026-10-25" });
+    expect(result.alerts).toContainEqual(expect.objectContaining({ id: "cash-restricted", title: "Settled cash only" }));
+  });
+
+  test("counts only the last 12 months and warns before the last violation", () => {
+    const result = calculateAccount(cash([violation({ date: "2025-07-01" }), violation({ date: "2025-08-15" }), violation()]), [], "2026-07-27T20:00:00.000Z");
+
+    expect(result).toMatchObject({ goodFaithViolations: 2, violationsRemaining: 1, cashRestrictionActive: false });
+    expect(result.cashAvailableToTrade).toBe(12_000);
+    expect(result.alerts).toContainEqual(expect.objectContaining({ id: "gfv-threshold", title: "One good-faith violation left" }));
+  });
+
+  test("restricts for 90 days after any freeriding", () => {
+    const freeride = cash([violation({ type: CashViolationType.FREERIDING, date: "2026-06-01" })]);
+
+    expect(calculateAccount(freeride, [], "2026-07-27T20:00:00.000Z")).toMatchObject({
+      freeridingViolations: 1,
+      cashRestrictionActive: true,
+      cashRestrictionEndsOn: "2026-08-30",
+      cashAvailableToTrade: 10_000,
+    });
+    expect(calculateAccount({ ...freeride, snapshotDate: "2026-08-31" }, [], "2026-08-31T20:00:00.000Z").cashRestrictionActive).toBe(false);
+  });
+});
+
 describe("legacy DTBP", () => {
   test("uses a broker opening limit and peak time-and-tick commitment", () => {
     const result = calculateAccount(
@@ -170,6 +243,167 @@ describe("legacy DTBP", () => {
   });
 });
 
+describe("day-trading call lifecycle", () => {
+  const legacy = (overrides: Partial<AccountSettings> = {}) => settings({
+    marginRegime: MarginRegime.LEGACY_PDT,
+    brokerDtbp: 0,
+    settledCash: 10_000,
+    ...overrides,
+  });
+
+  test("issues a call for a quarter of the exceedance, due on the fifth business day", () => {
+    const result = calculateAccount(legacy(), [trade({ quantity: 1_300 })], "2026-07-27T20:00:00.000Z");
+
+    expect(result.dtbpLimit).toBe(120_000);
+    expect(result.dtbpCall).toBe(2_500);
+    expect(result).toMatchObject({ dtbpCallDate: "2026-07-27", dtbpCallDueDate: "2026-08-03", dtbpRestriction: DtbpRestriction.NONE });
+    expect(result.alerts.find((alert) => alert.id === "dtbp-call")?.detail).toContain("day-trading call for $2,500.00");
+  });
+
+  test("holds an open call to two times maintenance excess and counts deposits toward it", () => {
+    const open = legacy({ outstandingDtbpCall: 2_500, dtbpCallDate: "2026-07-23" });
+    const restricted = calculateAccount(open, [], "2026-07-27T20:00:00.000Z");
+    const partlyMet = calculateAccount({ ...open, cashMovements: [movement({ amount: 1_000 })] }, [], "2026-07-27T20:00:00.000Z");
+
+    expect(restricted).toMatchObject({ dtbpRestriction: DtbpRestriction.TWO_TIMES, dtbpLimit: 60_000, dtbpCall: 2_500, dtbpCallDueDate: "2026-07-30" });
+    expect(restricted.alerts).toContainEqual(expect.objectContaining({ id: "dtbp-call-outstanding", title: "Day-trading call outstanding" }));
+    expect(partlyMet).toMatchObject({ dtbpCall: 1_500, dtbpCallMet: 1_000 });
+  });
+
+  test("restricts day trading to cash available once the call is past due, until it is met", () => {
+    const pastDue = legacy({ outstandingDtbpCall: 2_500, dtbpCallDate: "2026-07-17" });
+    const restricted = calculateAccount(pastDue, [trade({ quantity: 50 })], "2026-07-27T20:00:00.000Z");
+    const met = calculateAccount({ ...pastDue, cashMovements: [movement({ amount: 2_500 })] }, [], "2026-07-27T20:00:00.000Z");
+
+    expect(restricted).toMatchObject({ dtbpRestriction: DtbpRestriction.CASH_AVAILABLE, dtbpRestrictionEndsOn: "2026-10-22" });
+    expect(restricted.dtbpRemaining).toBe(restricted.cashAvailableToTrade);
+    expect(restricted.alerts).toContainEqual(expect.objectContaining({ id: "dtbp-call-outstanding", title: "Day-trading call past due" }));
+    expect(met).toMatchObject({ dtbpRestriction: DtbpRestriction.NONE, dtbpCall: 0, dtbpLimit: 120_000 });
+    expect(met.alerts).toContainEqual(expect.objectContaining({ id: "dtbp-call-outstanding", level: "info" }));
+  });
+});
+
+describe("Reg T and house calls", () => {
+  const call = (overrides: Partial<MarginCall> = {}): MarginCall => ({
+    id: "reg-t-2026-07-23",
+    type: MarginCallType.REG_T,
+    amount: 10_000,
+    outstanding: 10_000,
+    issuedOn: "2026-07-23",
+    dueOn: "2026-07-28",
+    ...overrides,
+  });
+
+  test("issues a Reg T call for initial margin beyond the excess, due in the payment period", () => {
+    const result = calculateAccount(settings(), [trade({ symbol: "XYZ", quantity: 800 })], "2026-07-27T20:00:00.000Z");
+
+    expect(result.marginCalls).toEqual([expect.objectContaining({
+      id: "reg-t-2026-07-27",
+      type: MarginCallType.REG_T,
+      amount: 10_000,
+      remaining: 10_000,
+      dueOn: "2026-07-30",
+      businessDaysLeft: 3,
+      level: "watch",
+    })]);
+    expect(result.alerts).toContainEqual(expect.objectContaining({ id: "margin-call-reg-t-2026-07-27", title: "Reg T call outstanding" }));
+    expect(calculateAccount(settings({ cashMovements: [movement()] }), [trade({ symbol: "XYZ", quantity: 800 })], "2026-07-27T20:00:00.000Z").marginCalls).toEqual([]);
+  });
+
+  test("escalates as the due date nears and counts deposits and sales of held positions toward it", () => {
+    const dueTomorrow = calculateAccount(settings({ marginCalls: [call()], cashMovements: [movement({ amount: 4_000 })] }), [], "2026-07-27T20:00:00.000Z");
+    const held = settings({
+      marginCalls: [call()],
+      openingLots: [{
+        lotId: "held",
+        symbol: "XYZ",
+        instrument: InstrumentType.STOCK,
+        side: "long",
+        quantity: 100,
+        price: 100,
+        costBasis: 10_000,
+        acquiredAt: "2026-07-20T15:00:00.000Z",
+        markedAt: "2026-07-24T20:00:00.000Z",
+        contractMultiplier: 1,
+        leverageFactor: 1,
+        unsettledFunding: [],
+        unfundedAmount: 0,
+      }],
+    });
+    const liquidated = calculateAccount(held, [trade({ symbol: "XYZ", side: Side.SELL, price: 120 })], "2026-07-27T20:00:00.000Z");
+    const pastDue = calculateAccount(settings({ marginCalls: [call({ dueOn: "2026-07-24" })] }), [], "2026-07-27T20:00:00.000Z");
+
+    expect(dueTomorrow.marginCalls[0]).toMatchObject({ remaining: 6_000, cured: { deposit: 4_000, liquidation: 0, recovery: 0 }, level: "danger" });
+    expect(dueTomorrow.alerts).toContainEqual(expect.objectContaining({ title: "Reg T call due tomorrow" }));
+    expect(liquidated.marginCalls[0]).toMatchObject({ remaining: 4_000, cured: { deposit: 0, liquidation: 6_000, recovery: 0 } });
+    expect(pastDue.marginCalls[0].businessDaysLeft).toBe(-1);
+    expect(pastDue.alerts).toContainEqual(expect.objectContaining({ id: "margin-call-reg-t-2026-07-23", title: "Reg T call past due" }));
+  });
+
+  test("issues a house call for a maintenance deficit and credits a recovery in prices", () => {
+    const issued = calculateAccount(settings({ startOfDayMaintenance: 32_000 }), [], "2026-07-27T20:00:00.000Z");
+    const house = call({ id: "house-2026-07-23", type: MarginCallType.HOUSE, amount: 2_000, outstanding: 2_000, dueOn: "2026-07-30" });
+    const recovered = calculateAccount(
+      settings({ startOfDayMaintenance: 31_000, marginCalls: [house], cashMovements: [movement({ amount: 500 })] }),
+      [],
+      "2026-07-27T20:00:00.000Z",
+    );
+
+    expect(issued.marginCalls).toEqual([expect.objectContaining({ type: MarginCallType.HOUSE, amount: 2_000, dueOn: "2026-08-03" })]);
+    expect(recovered.marginCalls).toEqual([expect.objectContaining({ remaining: 500, cured: { deposit: 500, liquidation: 0, recovery: 1_000 } })]);
+  });
+});
+
+describe("pattern day trader counter", () => {
+  const legacy = (overrides: Partial<AccountSettings> = {}) => settings({
+    marginRegime: MarginRegime.LEGACY_PDT,
+    dayTradeHistory: [
+      { date: "2026-07-20", dayTrades: 3, trades: 6 },
+      { date: "2026-07-22", dayTrades: 2, trades: 4 },
+    ],
+    ...overrides,
+  });
+  const roundTrip = (symbol: string) => [
+    trade({ id: `${symbol}-buy`, symbol }),
+    trade({ id: `${symbol}-sell`, symbol, side: Side.SELL, executedAt: "2026-07-27T15:00:00.000Z" }),
+  ];
+
+  test("counts backward over business days and the holiday calendar", () => {
+    expect(addBusinessDays("2026-07-27", -4)).toBe("2026-07-21");
+    expect(addBusinessDays("2026-07-06", -1)).toBe("2026-07-02");
+    expect(addBusinessDays("2026-07-29", -1, ["2026-07-28"])).toBe("2026-07-27");
+  });
+
+  test("adds carried tallies inside the five-day window to today's round trips", () => {
+    const result = calculateAccount(legacy(), roundTrip("SPY"), "2026-07-27T20:00:00.000Z");
+
+    expect(result.pdtCounter).toMatchObject({ windowStart: "2026-07-21", windowEnd: "2026-07-27", dayTrades: 3, trades: 6, remaining: 0, flagged: false });
+    expect(result.pdtCounter.days.map((day) => day.date)).toEqual(["2026-07-21", "2026-07-22", "2026-07-23", "2026-07-24", "2026-07-27"]);
+    expect(result.alerts).toContainEqual(expect.objectContaining({ id: "pdt-last", level: "watch" }));
+    expect(result.alerts.find((alert) => alert.id === "pdt-last")?.detail).toContain("before 2026-07-29");
+  });
+
+  test("warns on the opening and the round trip that would designate the account", () => {
+    const opening = trade({ id: "qqq-buy", symbol: "QQQ", executedAt: "2026-07-27T16:00:00.000Z" });
+    const closing = trade({ id: "qqq-sell", symbol: "QQQ", side: Side.SELL, executedAt: "2026-07-27T16:30:00.000Z" });
+    const opened = calculateAccount(legacy(), [...roundTrip("SPY"), opening], "2026-07-27T20:00:00.000Z");
+    const flagged = calculateAccount(legacy({ startOfDayEquity: 20_000 }), [...roundTrip("SPY"), opening, closing], "2026-07-27T20:00:00.000Z");
+
+    expect(opened.analyses["qqq-buy"]).toMatchObject({ risk: "watch", message: expect.stringContaining("No day trades left") });
+    expect(flagged.analyses["qqq-sell"]).toMatchObject({ risk: "danger", message: expect.stringContaining("day trade 4 in five business days") });
+    expect(flagged.pdtCounter.flagged).toBe(true);
+    expect(flagged.alerts).toContainEqual(expect.objectContaining({ id: "pdt-flag", level: "danger" }));
+  });
+
+  test("does not designate when day trades are 6% or less of the window's trades", () => {
+    const busy = legacy({ dayTradeHistory: [{ date: "2026-07-22", dayTrades: 3, trades: 98 }] });
+    const result = calculateAccount(busy, roundTrip("SPY"), "2026-07-27T20:00:00.000Z");
+
+    expect(result.pdtCounter).toMatchObject({ dayTrades: 4, trades: 100, flagged: false });
+    expect(result.alerts.some((alert) => alert.id.startsWith("pdt-flag"))).toBe(false);
+  });
+});
+
 describe("new intraday margin standard", () => {
   test("captures the largest negative intraday margin level", () => {
     const result = calculateAccount(
@@ -375,6 +609,280 @@ describe("new intraday margin standard", () => {
   });
 });
 
+describe("cash movements", () => {
+  test("a deposit before settlement funds an unfunded purchase", () => {
+    const result = calculateAccount(
+      settings({
+        accountType: AccountType.CASH,
+        settledCash: 2_000,
+        cashMovements: [movement({ id: "ach", amount: 8_000 })],
+      }),
+      [
+        trade({ id: "buy" }),
+        trade({ id: "sell", side: Side.SELL, executedAt: "2026-07-28T15:30:00.000Z" }),
+      ],
+      "2026-07-28T20:00:00.000Z",
+    );
+
+    expect(result.analyses.buy.unfundedAmount).toBe(0);
+    expect(result.alerts.find((alert) => alert.id === "unfunded-buy")).toEqual(
+      expect.objectContaining({ level: "info", title: "Purchase funded by deposit" }),
+    );
+    expect(result.alerts.some((alert) => alert.title === "Potential freeriding violation")).toBe(false);
+    expect(result.netCashMovements).toBe(8_000);
+    expect(result.currentEquity).toBe(38_000);
+  });
+
+  test("a held deposit adds equity now but settles on its clearing date", () => {
+    const result = calculateAccount(
+      settings({
+        accountType: AccountType.CASH,
+        settledCash: 0,
+        startOfDayEquity: 0,
+        cashMovements: [movement({ id: "ach", postedAt: "2026-07-27T13:00:00.000Z", clearsOn: "2026-07-29" })],
+      }),
+      [
+        trade({ id: "buy", quantity: 50 }),
+        trade({ id: "sell", side: Side.SELL, quantity: 50, executedAt: "2026-07-28T15:30:00.000Z" }),
+      ],
+      "2026-07-28T20:00:00.000Z",
+    );
+
+    expect(result.currentEquity).toBe(10_000);
+    expect(result.analyses.buy.unsettledFundsUsed).toBe(5_000);
+    expect(result.alerts.some((alert) => alert.title === "Potential good-faith violation")).toBe(true);
+    expect(result.pendingSettlements).toContainEqual(
+      expect.objectContaining({ tradeId: "ach", settlesOn: "2026-07-29", amount: 5_000, movementType: CashMovementType.DEPOSIT }),
+    );
+  });
+
+  test("a deposit after the day's high meets the intraday deficit", () => {
+    const result = calculateAccount(
+      settings({ startOfDayEquity: 10_000, settledCash: 10_000, brokerMarginBuyingPower: 0 }),
+      [trade({ quantity: 500 })],
+      "2026-07-27T20:00:00.000Z",
+    );
+    const cured = calculateAccount(
+      settings({ startOfDayEquity: 10_000, settledCash: 10_000, brokerMarginBuyingPower: 0, cashMovements: [movement({ amount: 2_500 })] }),
+      [trade({ quantity: 500 })],
+      "2026-07-27T20:00:00.000Z",
+    );
+
+    expect(result.outstandingIntradayDeficit).toBe(2_500);
+    expect(cured.highestIntradayDeficit).toBe(2_500);
+    expect(cured.intradayDeficitMet).toBe(2_500);
+    expect(cured.outstandingIntradayDeficit).toBe(0);
+    expect(cured.intradayMarginLevel).toBe(0);
+    expect(cured.alerts.find((alert) => alert.id === "intraday-deficit")?.level).toBe("info");
+  });
+
+  test("a withdrawal is IML-reducing and cannot exceed settled cash in a cash account", () => {
+    const margin = calculateAccount(
+      settings({ startOfDayEquity: 10_000, brokerMarginBuyingPower: 0 }),
+      [trade({ quantity: 300 })],
+      "2026-07-27T20:00:00.000Z",
+    );
+    const withdrawn = calculateAccount(
+      settings({
+        startOfDayEquity: 10_000,
+        brokerMarginBuyingPower: 0,
+        cashMovements: [movement({ type: CashMovementType.WITHDRAWAL, amount: 5_000 })],
+      }),
+      [trade({ quantity: 300 })],
+      "2026-07-27T20:00:00.000Z",
+    );
+    const cash = calculateAccount(
+      settings({
+        accountType: AccountType.CASH,
+        settledCash: 1_000,
+        unsettledCash: 4_000,
+        cashMovements: [movement({ id: "out", type: CashMovementType.JOURNAL_OUT, amount: 3_000 })],
+      }),
+      [],
+      "2026-07-27T20:00:00.000Z",
+    );
+
+    expect(withdrawn.imlReducingTransactions).toBe(margin.imlReducingTransactions + 1);
+    expect(withdrawn.highestIntradayDeficit).toBe(2_500);
+    expect(cash.alerts.map((alert) => alert.id)).toContain("withdrawal-exceeds-cash-out");
+  });
+});
+
+describe("income and margin interest", () => {
+  const dividend = (overrides = {}) => ({
+    id: "div",
+    type: IncomeEventType.DIVIDEND,
+    symbol: "SPY",
+    amount: 1.5,
+    exDate: "2026-07-28",
+    payDate: "2026-07-31",
+    ...overrides,
+  });
+
+  test("books a dividend on the ex-date and pays it on the pay date", () => {
+    const trades = [trade({ id: "held" }), trade({ id: "late", executedAt: "2026-07-28T15:00:00.000Z" })];
+    const booked = calculateAccount(settings({ incomeEvents: [dividend()] }), trades, "2026-07-28T20:00:00.000Z");
+    const paid = calculateAccount(settings({ incomeEvents: [dividend()] }), trades, "2026-07-31T20:00:00.000Z");
+
+    expect(booked.netIncome).toBe(150);
+    expect(booked.currentEquity).toBe(30_150);
+    expect(booked.settlements).toContainEqual(
+      expect.objectContaining({ tradeId: "div", amount: 150, settlementDate: "2026-07-31", status: "pending", incomeType: IncomeEventType.DIVIDEND }),
+    );
+    expect(paid.settledCash).toBe(30_150);
+    expect(paid.unsettledCash).toBe(0);
+  });
+
+  test("debits a short position for the dividend", () => {
+    const result = calculateAccount(
+      settings({
+        incomeEvents: [dividend(), { id: "int", type: IncomeEventType.CREDIT_INTEREST, amount: 12.5, exDate: "2026-07-28", payDate: "2026-07-28" }],
+      }),
+      [trade({ side: Side.SELL_SHORT })],
+      "2026-07-28T20:00:00.000Z",
+    );
+
+    expect(result.netIncome).toBe(-137.5);
+    expect(result.unsettledCash).toBe(-150);
+    expect(result.settledCash).toBe(30_012.5);
+    expect(result.auditTrail.some((entry) => entry.label === "SPY dividend owed on short position")).toBe(true);
+  });
+
+  test("blends tiered rates and accrues over the weekend", () => {
+    const tiers = [{ upTo: 25_000, annualRate: 0.12 }, { upTo: null, annualRate: 0.09 }];
+    expect(annualMarginInterest(10_000, tiers)).toBeCloseTo(1_200);
+    expect(annualMarginInterest(50_000, tiers)).toBeCloseTo(5_250);
+
+    const friday = calculateAccount(
+      settings({ snapshotDate: "2026-07-31", startOfDayEquity: 30_000, marginInterestTiers: tiers, marginInterestDayCount: 360 }),
+      [trade({ executedAt: "2026-07-31T14:30:00.000Z", quantity: 800 })],
+      "2026-07-31T20:00:00.000Z",
+    );
+    expect(friday.marginDebitBalance).toBe(50_000);
+    expect(friday.marginInterestRate).toBeCloseTo(0.105);
+    expect(friday.marginInterestAccrual).toBe(43.75);
+    expect(friday.pendingCarryDebit).toBe(43.75);
+
+    const cash = calculateAccount(
+      settings({ accountType: AccountType.CASH, settledCash: 100_000 }),
+      [trade({ quantity: 800 })],
+      "2026-07-27T20:00:00.000Z",
+    );
+    expect(cash.marginInterestAccrual).toBe(0);
+  });
+});
+
+describe("corporate actions", () => {
+  const action = (overrides: Partial<CorporateAction> = {}): CorporateAction => ({
+    id: "action",
+    type: CorporateActionType.SPLIT,
+    symbol: "SPY",
+    effectiveDate: "2026-07-28",
+    ratio: 4,
+    ...overrides,
+  });
+
+  test("rescales lots and the mark on a split without moving equity", () => {
+    const staleQuote = { SPY: { symbol: "SPY", price: 101, asOf: "2026-07-27T19:59:00.000Z", source: "manual" as const } };
+    const forward = calculateAccount(
+      settings({ corporateActions: [action()] }),
+      [trade()],
+      "2026-07-28T20:00:00.000Z",
+      { marks: staleQuote },
+    );
+    const reverse = calculateAccount(settings({ corporateActions: [action({ ratio: 0.1 })] }), [trade()], "2026-07-28T20:00:00.000Z");
+
+    expect(forward.positions[0]).toMatchObject({ quantity: 400, averagePrice: 25, markPrice: 25 });
+    expect(forward.currentEquity).toBe(30_000);
+    expect(forward.auditTrail.some((entry) => entry.label === "SPY 4-for-1 split")).toBe(true);
+    expect(reverse.positions[0]).toMatchObject({ quantity: 10, averagePrice: 1_000 });
+    expect(reverse.auditTrail.some((entry) => entry.label === "SPY 1-for-10 reverse split")).toBe(true);
+  });
+
+  test("moves lots to a new symbol and its catalog rates from the effective date", () => {
+    const renamed = settings({ corporateActions: [action({ type: CorporateActionType.SYMBOL_CHANGE, symbol: "XYZQ", newSymbol: "TSLA", ratio: undefined })] });
+    const before = calculateAccount(renamed, [trade({ symbol: "XYZQ" })], "2026-07-27T20:00:00.000Z");
+    const after = calculateAccount(renamed, [trade({ symbol: "XYZQ" })], "2026-07-28T20:00:00.000Z");
+
+    expect(before.positions[0]).toMatchObject({ symbol: "XYZQ", maintenanceRequirement: 2_500 });
+    expect(after.positions[0]).toMatchObject({ symbol: "TSLA", quantity: 100, averagePrice: 100, maintenanceRequirement: 3_000 });
+  });
+
+  test("closes lots at the cash price in a cash merger", () => {
+    const result = calculateAccount(
+      settings({ accountType: AccountType.CASH, corporateActions: [action({ type: CorporateActionType.CASH_MERGER, cashPerShare: 110 })] }),
+      [trade()],
+      "2026-07-28T20:00:00.000Z",
+    );
+
+    expect(result.positions).toHaveLength(0);
+    expect(result.realizedPnl).toBe(1_000);
+    expect(result.currentEquity).toBe(31_000);
+    expect(result.settledCash).toBe(31_000);
+  });
+
+  test("carves part of the basis into spun-off shares", () => {
+    const result = calculateAccount(
+      settings({ corporateActions: [action({ type: CorporateActionType.SPIN_OFF, newSymbol: "SPYX", ratio: 0.5, basisAllocation: 0.2 })] }),
+      [trade()],
+      "2026-07-28T20:00:00.000Z",
+    );
+
+    expect(result.positions.find((position) => position.symbol === "SPY")).toMatchObject({ quantity: 100, averagePrice: 80, markPrice: 80 });
+    expect(result.positions.find((position) => position.symbol === "SPYX")).toMatchObject({ quantity: 50, averagePrice: 40, markPrice: 40 });
+    expect(result.currentEquity).toBe(30_000);
+  });
+});
+
+describe("lot relief", () => {
+  const lots = [
+    trade({ id: "first", price: 100 }),
+    trade({ id: "dearest", executedAt: "2026-07-27T14:31:00.000Z", price: 120 }),
+    trade({ id: "last", executedAt: "2026-07-27T14:32:00.000Z", price: 110 }),
+  ];
+  const sale = (overrides: Partial<Trade> = {}) =>
+    trade({ id: "sale", executedAt: "2026-07-27T15:00:00.000Z", side: Side.SELL, price: 115, ...overrides });
+  const relieve = (method: LotReliefMethod, overrides: Partial<Trade> = {}) =>
+    calculateAccount(settings({ lotReliefMethod: method }), [...lots, sale(overrides)], "2026-07-27T20:00:00.000Z");
+
+  test("relieves lots by the account method", () => {
+    expect(relieve(LotReliefMethod.FIFO).realizedPnl).toBe(1_500);
+    expect(relieve(LotReliefMethod.LIFO).realizedPnl).toBe(500);
+    const highest = relieve(LotReliefMethod.HIGHEST_COST);
+    expect(highest.realizedPnl).toBe(-500);
+    expect(highest.analyses.sale.relievedLots).toEqual([
+      { lotId: "dearest", acquiredAt: "2026-07-27T14:31:00.000Z", quantity: 100, costBasis: 12_000, exitValue: 11_500 },
+    ]);
+  });
+
+  test("takes specifically identified lots first and the rest by the account method", () => {
+    const result = relieve(LotReliefMethod.FIFO, {
+      quantity: 150,
+      lotRelief: LotReliefMethod.SPECIFIC,
+      lotSelections: [{ lotId: "last", quantity: 50 }],
+    });
+
+    expect(result.realizedPnl).toBe(1_750);
+    expect(result.analyses.sale.relievedLots?.map((lot) => [lot.lotId, lot.quantity])).toEqual([["last", 50], ["first", 100]]);
+    expect(result.openLots.map((lot) => [lot.lotId, lot.quantity])).toEqual([["dearest", 100], ["last", 50]]);
+  });
+
+  test("flags a good-faith risk only when the chosen lot was bought with unsettled funds", () => {
+    const cash = (method: LotReliefMethod) => calculateAccount(
+      settings({ accountType: AccountType.CASH, settledCash: 10_000, unsettledCash: 10_000, lotReliefMethod: method }),
+      [
+        trade({ id: "settled-lot" }),
+        trade({ id: "unsettled-lot", executedAt: "2026-07-27T14:31:00.000Z" }),
+        trade({ id: "sale", executedAt: "2026-07-27T15:00:00.000Z", side: Side.SELL, price: 101 }),
+      ],
+      "2026-07-27T20:00:00.000Z",
+    );
+
+    expect(cash(LotReliefMethod.FIFO).alerts.some((alert) => alert.id === "gfv-sale")).toBe(false);
+    expect(cash(LotReliefMethod.LIFO).alerts.some((alert) => alert.id === "gfv-sale")).toBe(true);
+  });
+});
+
 describe("symbol margin catalog", () => {
   test("ships a broad prototype universe with the requested examples", () => {
     expect(PROTOTYPE_MARGIN_SYMBOLS.length).toBeGreaterThanOrEqual(500);
@@ -441,3 +949,133 @@ describe("short-stock maintenance floors", () => {
     expect(result.positions[0].maintenanceRequirement).toBe(250);
   });
 });
+
+describe("short borrow", () => {
+  const short = (overrides: Partial<Trade> = {}) => trade({ symbol: "MSTR", side: Side.SELL_SHORT, ...overrides });
+
+  test("accrues the borrow fee nightly and raises a hard-to-borrow short to the HTB floor", () => {
+    const result = calculateAccount(settings(), [short()], "2026-07-27T20:00:00.000Z");
+
+    expect(resolveSymbolBorrow("MSTR", settings())).toMatchObject({ borrowStatus: BorrowStatus.HARD, locateRequired: true });
+    expect(resolveSymbolMargin("MSTR", settings()).shortMaintenancePct).toBe(1);
+    expect(result.positions[0].maintenanceRequirement).toBe(10_000);
+    expect(result.borrowFeeAccrual).toBe(3.33);
+    expect(result.alerts).toContainEqual(expect.objectContaining({ id: "htb-short-MSTR", level: "watch" }));
+    expect(calculateAccount(settings(), [trade({ side: Side.SELL_SHORT })], "2026-07-31T20:00:00.000Z").borrowFeeAccrual).toBe(0.21);
+  });
+
+  test("draws each short sale against the day's recorded locates", () => {
+    const first = short({ id: "first", quantity: 100 });
+    const second = short({ id: "second", quantity: 50, executedAt: "2026-07-27T15:00:00.000Z" });
+    const result = calculateAccount(
+      settings({ shortLocates: [{ id: "locate", symbol: "mstr", quantity: 120, obtainedOn: "2026-07-27" }] }),
+      [first, second],
+      "2026-07-27T20:00:00.000Z",
+    );
+
+    expect(result.analyses.first.locateShortfall).toBeUndefined();
+    expect(result.analyses.second).toMatchObject({ locateShortfall: 30, risk: "watch" });
+    expect(result.alerts).toContainEqual(expect.objectContaining({ id: "no-locate-second", title: "Short sale without a locate" }));
+    expect(calculateAccount(settings(), [trade({ side: Side.SELL_SHORT })], "2026-07-27T20:00:00.000Z").analyses).not.toHaveProperty("locateShortfall");
+  });
+
+  test("keeps a custom short rate over the hard-to-borrow floor", () => {
+    const custom = settings({ symbolMarginOverrides: { MSTR: { shortMaintenancePct: 0.6 } } });
+
+    expect(resolveSymbolMargin("MSTR", custom).shortMaintenancePct).toBe(0.6);
+    expect(resolveSymbolMargin("SPY", settings({ symbolMarginOverrides: { SPY: { borrowStatus: BorrowStatus.HARD } } })).shortMaintenancePct).toBe(1);
+  });
+});
+
+describe("mark-to-market quotes", () => {
+  test("a newer quote replaces the last fill for P&L and maintenance", () => {
+    const result = calculateAccount(
+      settings({ startOfDayEquity: 30_000, brokerIntradayBuyingPower: 0 }),
+      [trade()],
+      "2026-07-27T15:00:00.000Z",
+      { marks: { SPY: { symbol: "SPY", price: 90, asOf: "2026-07-27T14:55:00.000Z", source: "manual" } } },
+    );
+
+    expect(result.positions[0].markPrice).toBe(90);
+    expect(result.positions[0].markSource).toBe("manual");
+    expect(result.positions[0].unrealizedPnl).toBe(-1_000);
+    expect(result.positions[0].maintenanceRequirement).toBe(2_250);
+    expect(result.intradayMarginLevel).toBe(26_750);
+  });
+
+  test("keeps the fill price when the quote predates it", () => {
+    const result = calculateAccount(
+      settings(),
+      [trade()],
+      "2026-07-27T14:35:00.000Z",
+      { marks: { SPY: { symbol: "SPY", price: 90, asOf: "2026-07-27T14:00:00.000Z", source: "feed" } } },
+    );
+
+    expect(result.positions[0].markPrice).toBe(100);
+    expect(result.positions[0].markSource).toBe("trade");
+  });
+
+  test("raises a stale-quote alert once the mark ages past the limit", () => {
+    const marks = { SPY: { symbol: "SPY", price: 101, asOf: "2026-07-27T14:40:00.000Z", source: "pasted" as const } };
+    const fresh = calculateAccount(settings({ quoteStaleMinutes: 15 }), [trade()], "2026-07-27T14:50:00.000Z", { marks });
+    const stale = calculateAccount(settings({ quoteStaleMinutes: 15 }), [trade()], "2026-07-27T15:30:00.000Z", { marks });
+
+    expect(fresh.alerts.some((alert) => alert.id === "stale-quote-SPY")).toBe(false);
+    expect(stale.alerts.some((alert) => alert.id === "stale-quote-SPY")).toBe(true);
+  });
+
+  test("skips the stale-quote alert when a later fill already re-marked the position", () => {
+    const marks = { SPY: { symbol: "SPY", price: 90, asOf: "2026-07-27T14:00:00.000Z", source: "feed" as const } };
+    const result = calculateAccount(settings({ quoteStaleMinutes: 15 }), [trade()], "2026-07-27T15:30:00.000Z", { marks });
+
+    expect(result.positions[0].markSource).toBe("trade");
+    expect(result.alerts.some((alert) => alert.id === "stale-quote-SPY")).toBe(false);
+  });
+});
+
+describe("option strategy margin", () => {
+  const option = (overrides: Partial<Trade>) => trade({
+    symbol: "SPY",
+    instrument: InstrumentType.OPTION,
+    side: Side.SELL_SHORT,
+    quantity: 1,
+    price: 2,
+    expiration: "2026-08-21",
+    ...overrides,
+  });
+
+  test("a call written against long shares adds no requirement", () => {
+    const result = calculateAccount(
+      settings(),
+      [trade(), option({ executedAt: "2026-07-27T14:31:00.000Z", optionType: OptionType.CALL, strike: 105 })],
+      "2026-07-27T20:00:00.000Z",
+    );
+    const call = result.positions.find((position) => position.instrument === InstrumentType.OPTION);
+
+    expect(call?.symbol).toBe("SPY 2026-08-21 105C");
+    expect(call?.maintenanceRequirement).toBe(0);
+    expect(result.maintenanceRequirement).toBe(2_500);
+    expect(result.optionStrategies.map((group) => group.strategy)).toEqual([OptionStrategy.COVERED_CALL]);
+  });
+
+  test("margins an uncovered call under FINRA 4210 instead of 100% of premium", () => {
+    const result = calculateAccount(settings(), [
+      trade({ symbol: "SPY", quantity: 1 }),
+      option({ executedAt: "2026-07-27T14:31:00.000Z", optionType: OptionType.CALL, strike: 105 }),
+    ], "2026-07-27T20:00:00.000Z");
+    const call = result.positions.find((position) => position.instrument === InstrumentType.OPTION);
+
+    expect(call?.maintenanceRequirement).toBe(1_700);
+  });
+
+  test("reserves the exercise value of a cash-secured put", () => {
+    const result = calculateAccount(
+      settings({ accountType: AccountType.CASH }),
+      [option({ optionType: OptionType.PUT, strike: 95 })],
+      "2026-07-27T20:00:00.000Z",
+    );
+
+    expect(result.optionStrategies[0].strategy).toBe(OptionStrategy.CASH_SECURED_PUT);
+    expect(result.cashAvailableToTrade).toBe(20_500);
+  });
+});
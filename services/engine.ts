@@ -2,23 +2,62 @@ import {
   AccountSettings,
   AccountType,
   AuditEntry,
+  BorrowStatus,
+  CalculationContext,
   CalculationResult,
+  CashMovement,
+  CashMovementType,
+  CashViolation,
+  CashViolationType,
+  CorporateAction,
+  CorporateActionType,
+  DayTradeTally,
   DtbpMethod,
+  DtbpRestriction,
+  IncomeEvent,
+  IncomeEventType,
   InstrumentType,
+  LotReliefMethod,
   MarginAccountClass,
+  MarginCall,
+  MarginCallCure,
+  MarginCallStatus,
+  MarginCallType,
+  MarginInterestTier,
   MarginRegime,
+  MarkSource,
+  OpeningLot,
+  OpeningSettlement,
+  OptionContract,
+  OptionEventType,
+  OptionStrategy,
+  OptionType,
+  PdtCounter,
   Position,
+  RelievedLot,
   RiskAlert,
   SettlementItem,
   Side,
   Trade,
   TradeAnalysis,
 } from "../types";
-import { resolveSymbolMargin } from "../data/prototypeMarginCatalog";
+import { normalizeMarginSymbol, resolveSymbolBorrow, resolveSymbolMargin } from "../data/prototypeMarginCatalog";
+import { groupOptionStrategies, optionContractFor, optionContractSymbol } from "./optionStrategies";
 
 const EPSILON = 0.000_001;
+/** Business days in the pattern-day-trader look-back, today included. */
+export const PDT_WINDOW_DAYS = 5;
+/** Day trades within the window that make a pattern day trader. */
+export const PDT_DAY_TRADES = 4;
+/** Share of the window's trades the day trades must exceed. */
+export const PDT_ACTIVITY_SHARE = 0.06;
+/** A legacy day-trading call is a quarter of the DTBP exceedance, the equity that would have covered it at 4×. */
+export const DTBP_CALL_RATE = 0.25;
+/** Reg T payment period: the T+1 settlement cycle plus two business days. */
+export const REG_T_PAYMENT_DAYS = 3;
 
 interface PositionLot {
+  id: string;
   quantity: number;
   price: number;
   remainingCost: number;
@@ -27,6 +66,9 @@ interface PositionLot {
   openedAt: string;
   maintenanceRate: number;
   initialRate: number;
+  costBasis: number;
+  carried: boolean;
+  marginRequirementPct?: number;
 }
 
 interface InternalPosition {
@@ -37,6 +79,11 @@ interface InternalPosition {
   lots: PositionLot[];
   shortLots: PositionLot[];
   markPrice: number;
+  markSource: MarkSource;
+  markedAt: string;
+  contract?: OptionContract;
+  ruleOverride: boolean;
+  template: Pick<Trade, "symbol" | "instrument" | "contractMultiplier" | "leverageFactor" | "optionType" | "strike" | "expiration" | "underlying">;
 }
 
 const roundMoney = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
@@ -101,12 +148,14 @@ export const marketHolidays = (year: number): Set<string> => {
   ]);
 };
 
+/** Counts forward from `date`, or backward when `days` is negative. */
 export const addBusinessDays = (date: string, days: number, extraHolidays: string[] = []) => {
   const cursor = new Date(`${date}T12:00:00Z`);
   const extras = new Set(extraHolidays);
-  let remaining = days;
+  const step = days < 0 ? -1 : 1;
+  let remaining = Math.abs(days);
   while (remaining > 0) {
-    cursor.setUTCDate(cursor.getUTCDate() + 1);
+    cursor.setUTCDate(cursor.getUTCDate() + step);
     const candidate = isoDate(cursor);
     const weekday = cursor.getUTCDay();
     const closed = weekday === 0 || weekday === 6 || marketHolidays(cursor.getUTCFullYear()).has(candidate) || extras.has(candidate);
@@ -121,6 +170,16 @@ const addCalendarDays = (date: string, days: number) => {
   return isoDate(cursor);
 };
 
+const calendarDaysBetween = (from: string, to: string) =>
+  Math.round((new Date(`${to}T12:00:00Z`).getTime() - new Date(`${from}T12:00:00Z`).getTime()) / 86_400_000);
+
+const businessDaysBetween = (from: string, to: string, extraHolidays: string[] = []): number => {
+  if (to < from) return -businessDaysBetween(to, from, extraHolidays);
+  let count = 0;
+  for (let cursor = from; cursor < to; count += 1) cursor = addBusinessDays(cursor, 1, extraHolidays);
+  return count;
+};
+
 export const settlementDateFor = (trade: Trade, settings: AccountSettings) =>
   addBusinessDays(dateOnly(trade.executedAt), 1, settings.settlementHolidays);
 
@@ -191,6 +250,103 @@ const addAudit = (
   });
 };
 
+export const cashMovementLabel: Record<CashMovementType, string> = {
+  [CashMovementType.DEPOSIT]: "Deposit",
+  [CashMovementType.WITHDRAWAL]: "Withdrawal",
+  [CashMovementType.JOURNAL_IN]: "Journal in",
+  [CashMovementType.JOURNAL_OUT]: "Journal out",
+};
+
+export const isCashCredit = (movement: Pick<CashMovement, "type">) =>
+  movement.type === CashMovementType.DEPOSIT || movement.type === CashMovementType.JOURNAL_IN;
+
+export const incomeEventLabel: Record<IncomeEventType, string> = {
+  [IncomeEventType.DIVIDEND]: "Dividend",
+  [IncomeEventType.CREDIT_INTEREST]: "Credit interest",
+};
+
+export const lotReliefLabel: Record<LotReliefMethod, string> = {
+  [LotReliefMethod.FIFO]: "First in, first out",
+  [LotReliefMethod.LIFO]: "Last in, first out",
+  [LotReliefMethod.HIGHEST_COST]: "Highest cost",
+  [LotReliefMethod.SPECIFIC]: "Specific lots",
+};
+
+export const optionEventLabel: Record<OptionEventType, string> = {
+  [OptionEventType.EXPIRATION]: "Expired worthless",
+  [OptionEventType.EXERCISE]: "Exercise",
+  [OptionEventType.ASSIGNMENT]: "Assignment",
+};
+
+export const corporateActionLabel: Record<CorporateActionType, string> = {
+  [CorporateActionType.SPLIT]: "Split",
+  [CorporateActionType.SYMBOL_CHANGE]: "Symbol change",
+  [CorporateActionType.CASH_MERGER]: "Cash merger",
+  [CorporateActionType.STOCK_MERGER]: "Stock merger",
+  [CorporateActionType.SPIN_OFF]: "Spin-off",
+};
+
+const ratioNumber = (value: number) => Number(value.toFixed(4)).toLocaleString();
+
+/** A one-line description such as "TSLA 3-for-1 split" or "FB renamed META". */
+export const describeCorporateAction = (action: CorporateAction) => {
+  const symbol = action.symbol.toUpperCase();
+  const newSymbol = action.newSymbol?.toUpperCase() ?? "";
+  const ratio = action.ratio && action.ratio > 0 ? action.ratio : 1;
+  switch (action.type) {
+    case CorporateActionType.SPLIT:
+      return ratio >= 1
+        ? `${symbol} ${ratioNumber(ratio)}-for-1 split`
+        : `${symbol} 1-for-${ratioNumber(1 / ratio)} reverse split`;
+    case CorporateActionType.SYMBOL_CHANGE:
+      return `${symbol} renamed ${newSymbol}`;
+    case CorporateActionType.CASH_MERGER:
+      return `${symbol} acquired for ${formatMoney(action.cashPerShare ?? 0)} a share`;
+    case CorporateActionType.STOCK_MERGER:
+      return `${symbol} merged into ${newSymbol} at ${ratioNumber(ratio)} a share`;
+    case CorporateActionType.SPIN_OFF:
+      return `${symbol} spins off ${ratioNumber(ratio)} ${newSymbol} a share`;
+  }
+};
+
+/** Annual interest on a debit balance, each slice charged at its own tier's rate. */
+export const annualMarginInterest = (debit: number, tiers: MarginInterestTier[]) => {
+  let floor = 0;
+  let interest = 0;
+  for (const tier of tiers) {
+    if (debit <= floor) break;
+    const ceiling = tier.upTo ?? Number.POSITIVE_INFINITY;
+    interest += (Math.min(debit, ceiling) - floor) * tier.annualRate;
+    floor = ceiling;
+  }
+  return interest;
+};
+
+/**
+ * The order in which a closing trade relieves lots. Specific identification
+ * takes the chosen lots first, up to the quantity chosen from each, and any
+ * remainder follows the account method (FIFO if that is specific too).
+ * Highest cost ranks by per-unit original cost, with ties taken oldest first.
+ */
+const reliefOrder = (lots: PositionLot[], trade: Trade, settings: AccountSettings) => {
+  const accountMethod = settings.lotReliefMethod ?? LotReliefMethod.FIFO;
+  const ordered = (method: LotReliefMethod) => {
+    if (method === LotReliefMethod.LIFO) return [...lots].reverse();
+    if (method === LotReliefMethod.HIGHEST_COST) {
+      return [...lots].sort((a, b) => b.costBasis / b.quantity - a.costBasis / a.quantity);
+    }
+    return [...lots];
+  };
+  const method = trade.lotRelief ?? accountMethod;
+  if (method !== LotReliefMethod.SPECIFIC) return ordered(method).map((lot) => ({ lot, limit: Number.POSITIVE_INFINITY }));
+  const chosen = (trade.lotSelections ?? []).flatMap((selection) => {
+    const lot = lots.find((candidate) => candidate.id === selection.lotId);
+    return lot && selection.quantity > 0 ? [{ lot, limit: selection.quantity }] : [];
+  });
+  const fallback = accountMethod === LotReliefMethod.SPECIFIC ? LotReliefMethod.FIFO : accountMethod;
+  return [...chosen, ...ordered(fallback).map((lot) => ({ lot, limit: Number.POSITIVE_INFINITY }))];
+};
+
 const releaseFunding = (
   funding: PositionLot["unsettledFunding"],
   ratio: number,
@@ -200,10 +356,15 @@ export const calculateAccount = (
   settings: AccountSettings,
   inputTrades: Trade[],
   asOf = new Date().toISOString(),
+  context: CalculationContext = {},
 ): CalculationResult => {
   const trades = [...inputTrades]
     .filter((trade) => new Date(trade.executedAt).getTime() <= new Date(asOf).getTime())
     .sort((a, b) => new Date(a.executedAt).getTime() - new Date(b.executedAt).getTime());
+  const cashMovements = (settings.cashMovements ?? [])
+    .filter((movement) => new Date(movement.postedAt).getTime() <= new Date(asOf).getTime());
+  const incomeEvents = (settings.incomeEvents ?? []).filter((event) => event.exDate <= dateOnly(asOf));
+  const corporateActions = (settings.corporateActions ?? []).filter((action) => action.effectiveDate <= dateOnly(asOf));
 
   const alerts: RiskAlert[] = [];
   const analyses: Record<string, TradeAnalysis> = {};
@@ -212,20 +373,72 @@ export const calculateAccount = (
   const positions = new Map<string, InternalPosition>();
   const openingByDay = new Map<string, Set<string>>();
   const closingByDay = new Map<string, Set<string>>();
+  const tradesByDay = new Map<string, number>();
+  const legacyPdt = settings.accountType === AccountType.MARGIN && settings.marginRegime === MarginRegime.LEGACY_PDT;
+
+  const dayTradesOn = (day: string) => {
+    const closed = closingByDay.get(day) ?? new Set<string>();
+    return [...(openingByDay.get(day) ?? [])].filter((key) => closed.has(key)).length;
+  };
+
+  // FINRA Rule 4210(f)(8)(B)(ii): four or more day trades within five business
+  // days make a pattern day trader when they are more than 6% of the account's
+  // trades in that window. Days in the loaded ledger are counted from its
+  // trades; earlier days come from the tallies carried forward at each close.
+  const pdtWindow = (end: string): PdtCounter => {
+    const windowStart = addBusinessDays(end, -(PDT_WINDOW_DAYS - 1), settings.settlementHolidays);
+    const days: DayTradeTally[] = [];
+    for (let day = windowStart; day <= end; day = addBusinessDays(day, 1, settings.settlementHolidays)) {
+      const logged = tradesByDay.get(day);
+      days.push(logged !== undefined
+        ? { date: day, dayTrades: dayTradesOn(day), trades: logged }
+        : (settings.dayTradeHistory ?? []).find((tally) => tally.date === day) ?? { date: day, dayTrades: 0, trades: 0 });
+    }
+    const dayTradeTotal = days.reduce((sum, day) => sum + day.dayTrades, 0);
+    const tradeTotal = days.reduce((sum, day) => sum + day.trades, 0);
+    return {
+      windowStart,
+      windowEnd: end,
+      days,
+      dayTrades: dayTradeTotal,
+      trades: tradeTotal,
+      remaining: Math.max(0, PDT_DAY_TRADES - 1 - dayTradeTotal),
+      flagged: dayTradeTotal >= PDT_DAY_TRADES && dayTradeTotal > tradeTotal * PDT_ACTIVITY_SHARE,
+    };
+  };
 
   let settledCash = settings.settledCash;
   let initialUnsettled = settings.unsettledCash;
   let fees = 0;
   let realizedPnl = 0;
   let marginBuyingPowerConsumed = 0;
+  // Requirements released by selling or covering lots carried in from earlier
+  // days, which is what meets a call issued on those days.
+  let liquidatedInitialMargin = 0;
+  let liquidatedMaintenance = 0;
   let aggregateDtbpUse = 0;
   let peakIntradayExposure = 0;
   let highestIntradayDeficit = 0;
   let highestIntradayDeficitDate = "";
+  let highestIntradayDeficitTradeId: string | undefined;
   let imlReducingTransactions = 0;
   let currentTradeMaintenance = 0;
   let currentEquity = settings.startOfDayEquity;
-  let unsettledPool: Array<{ amount: number; settlesOn: string; tradeId: string; symbol: string }> = [];
+  let netCashMovements = 0;
+  let netIncome = 0;
+  const cashCredits: Array<{ day: string; amount: number; afterDeficitHigh: boolean }> = [];
+  const locatesDrawn = new Map<string, number>();
+  const todaysViolations: CashViolation[] = [];
+  let unsettledPool: Array<{
+    amount: number;
+    settlesOn: string;
+    tradeId: string;
+    symbol: string;
+    tradeDate: string;
+    movementType?: CashMovementType;
+    incomeType?: IncomeEventType;
+  }> = [];
+  const unfundedPurchases: Array<{ trade: Trade; lot: PositionLot; amount: number; cured: number; settlesOn: string }> = [];
 
   if (initialUnsettled > 0) {
     unsettledPool.push({
@@ -233,6 +446,7 @@ export const calculateAccount = (
       settlesOn: addBusinessDays(settings.snapshotDate, 1, settings.settlementHolidays),
       tradeId: "opening-unsettled",
       symbol: "Opening balance",
+      tradeDate: settings.snapshotDate,
     });
   }
 
@@ -249,53 +463,183 @@ export const calculateAccount = (
   };
 
   const getPosition = (trade: Trade) => {
-    const key = `${trade.symbol.toUpperCase()}::${trade.instrument}`;
+    const contract = trade.instrument === InstrumentType.OPTION ? optionContractFor(trade) : undefined;
+    const symbol = contract ? optionContractSymbol(contract) : trade.symbol.toUpperCase();
+    const key = `${symbol}::${trade.instrument}`;
     const existing = positions.get(key);
     if (existing) return existing;
     const created: InternalPosition = {
-      symbol: trade.symbol.toUpperCase(),
+      symbol,
       instrument: trade.instrument,
       multiplier: trade.instrument === InstrumentType.OPTION ? trade.contractMultiplier || 100 : 1,
       leverageFactor: trade.leverageFactor || 1,
       lots: [],
       shortLots: [],
       markPrice: trade.price,
+      markSource: "trade",
+      markedAt: trade.executedAt,
+      contract,
+      ruleOverride: false,
+      template: {
+        symbol: trade.symbol.toUpperCase(),
+        instrument: trade.instrument,
+        contractMultiplier: trade.contractMultiplier,
+        leverageFactor: trade.leverageFactor,
+        optionType: trade.optionType,
+        strike: trade.strike,
+        expiration: trade.expiration,
+        underlying: trade.underlying,
+      },
     };
     positions.set(key, created);
     return created;
   };
 
+  // Options with contract details are margined by strategy; a trade-level
+  // override keeps the whole position on the flat percentage instead.
+  const strategyMargined = (position: InternalPosition) => Boolean(position.contract) && !position.ruleOverride;
+
+  const evaluateStrategies = () => {
+    const open = [...positions.values()].filter((position) => position.lots.length > 0 || position.shortLots.length > 0);
+    const quantityOf = (position: InternalPosition) =>
+      position.lots.reduce((sum, lot) => sum + lot.quantity, 0)
+      - position.shortLots.reduce((sum, lot) => sum + lot.quantity, 0);
+    const equities = open.filter((position) =>
+      position.instrument === InstrumentType.STOCK || position.instrument === InstrumentType.ETF);
+    return groupOptionStrategies({
+      legs: open.filter(strategyMargined).map((position) => ({
+        key: position.symbol,
+        symbol: position.symbol,
+        contract: position.contract as OptionContract,
+        quantity: quantityOf(position),
+        markPrice: position.markPrice,
+        multiplier: position.multiplier,
+      })),
+      holdings: equities.map((position) => ({ underlying: position.symbol, quantity: quantityOf(position) })),
+      underlyingPrice: (underlying, fallback) =>
+        equities.find((position) => position.symbol === underlying)?.markPrice
+        ?? context.marks?.[underlying]?.price
+        ?? fallback,
+      cashSecuredPuts: settings.accountType === AccountType.CASH,
+    });
+  };
+
+  const positionMaintenance = (position: InternalPosition, requirements: Map<string, number>) =>
+    strategyMargined(position)
+      ? requirements.get(position.symbol) ?? 0
+      : position.lots.reduce((sum, lot) => sum + lotMaintenanceRequirement(position, lot, false), 0)
+        + position.shortLots.reduce((sum, lot) => sum + lotMaintenanceRequirement(position, lot, true), 0);
+
   const calculateTradeMaintenance = () => {
+    const { requirements } = evaluateStrategies();
     let total = 0;
     positions.forEach((position) => {
-      total += position.lots.reduce(
-        (sum, lot) => sum + lotMaintenanceRequirement(position, lot, false),
-        0,
-      );
-      total += position.shortLots.reduce(
-        (sum, lot) => sum + lotMaintenanceRequirement(position, lot, true),
-        0,
-      );
+      total += positionMaintenance(position, requirements);
     });
     return total;
   };
 
+  // Lots carried in by a rollover were committed on an earlier day, so only
+  // today's share of each requirement counts as intraday exposure.
+  const dayMaintenance = (position: InternalPosition, requirements: Map<string, number>) => {
+    if (strategyMargined(position)) {
+      const lots = [...position.lots, ...position.shortLots];
+      const total = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+      const today = lots.filter((lot) => !lot.carried).reduce((sum, lot) => sum + lot.quantity, 0);
+      return total > EPSILON ? (requirements.get(position.symbol) ?? 0) * (today / total) : 0;
+    }
+    return position.lots.filter((lot) => !lot.carried).reduce((sum, lot) => sum + lotMaintenanceRequirement(position, lot, false), 0)
+      + position.shortLots.filter((lot) => !lot.carried).reduce((sum, lot) => sum + lotMaintenanceRequirement(position, lot, true), 0);
+  };
+
   const currentIntradayExposure = () => {
+    const { requirements } = evaluateStrategies();
     let exposure = 0;
     positions.forEach((position) => {
-      exposure += position.lots.reduce(
-        (sum, lot) => sum + lotMaintenanceRequirement(position, lot, false) / Math.max(settings.longMaintenancePct, EPSILON),
-        0,
-      );
-      exposure += position.shortLots.reduce(
-        (sum, lot) => sum + lotMaintenanceRequirement(position, lot, true) / Math.max(settings.longMaintenancePct, EPSILON),
-        0,
-      );
+      exposure += dayMaintenance(position, requirements);
+    });
+    return exposure / Math.max(settings.longMaintenancePct, EPSILON);
+  };
+
+  // Rolled-over lots open the day at the prior close, so the day's P&L and any
+  // sale are measured from that mark rather than the original purchase price.
+  settings.openingLots.forEach((opening, index) => {
+    const openingTrade: Trade = {
+      id: `opening-lot-${index}`,
+      executedAt: opening.acquiredAt,
+      symbol: opening.symbol,
+      instrument: opening.instrument,
+      side: opening.side === "short" ? Side.SELL_SHORT : Side.BUY,
+      quantity: opening.quantity,
+      price: opening.price,
+      fees: 0,
+      contractMultiplier: opening.contractMultiplier,
+      leverageFactor: opening.leverageFactor,
+      marginRequirementPct: opening.marginRequirementPct,
+      optionType: opening.optionType,
+      strike: opening.strike,
+      expiration: opening.expiration,
+      underlying: opening.underlying,
+    };
+    const position = getPosition(openingTrade);
+    if (opening.marginRequirementPct && opening.marginRequirementPct > 0) position.ruleOverride = true;
+    position.markPrice = opening.price;
+    position.markSource = "close";
+    position.markedAt = opening.markedAt;
+    (opening.side === "short" ? position.shortLots : position.lots).push({
+      id: opening.lotId ?? `opening-lot-${index}`,
+      quantity: opening.quantity,
+      price: opening.price,
+      remainingCost: opening.quantity * opening.price * position.multiplier,
+      unsettledFunding: opening.unsettledFunding.map((source) => ({ ...source })),
+      unfundedAmount: opening.unfundedAmount,
+      openedAt: opening.acquiredAt,
+      maintenanceRate: maintenanceRate(openingTrade, settings),
+      initialRate: initialMarginRate(openingTrade, settings),
+      costBasis: opening.costBasis,
+      carried: true,
+      marginRequirementPct: opening.marginRequirementPct,
+    });
+  });
+  settings.openingSettlements.forEach((item) => {
+    unsettledPool.push({ ...item });
+    settlements.push({
+      id: `settlement-${item.tradeId}`,
+      tradeId: item.tradeId,
+      symbol: item.symbol,
+      tradeDate: item.tradeDate,
+      settlementDate: item.settlesOn,
+      amount: item.amount,
+      status: item.settlesOn <= dateOnly(asOf) ? "settled" : "pending",
+      movementType: item.movementType,
+      incomeType: item.incomeType,
     });
-    return exposure;
+  });
+  currentTradeMaintenance = calculateTradeMaintenance();
+  const openingMaintenance = settings.startOfDayMaintenance + currentTradeMaintenance;
+
+  const intradayRuleApplies =
+    settings.accountType === AccountType.MARGIN
+    && settings.marginRegime === MarginRegime.INTRADAY_MARGIN
+    && settings.marginAccountClass === MarginAccountClass.STANDARD;
+
+  // Any transaction that lowers IML counts, and a negative IML after it is a
+  // deficit. Only credits that arrive after the day's high count toward it.
+  const recordImlChange = (imlBefore: number, iml: number, day: string, tradeId?: string) => {
+    const imlReducing = intradayRuleApplies && iml < imlBefore - EPSILON;
+    if (imlReducing) {
+      imlReducingTransactions += 1;
+      if (iml < 0 && Math.abs(iml) > highestIntradayDeficit) {
+        highestIntradayDeficit = Math.abs(iml);
+        highestIntradayDeficitDate = day;
+        highestIntradayDeficitTradeId = tradeId;
+        cashCredits.forEach((credit) => { credit.afterDeficitHigh = false; });
+      }
+    }
+    return imlReducing;
   };
 
-  trades.forEach((trade, index) => {
+  const applyTrade = (trade: Trade, index: number) => {
     const imlBefore = currentEquity - settings.startOfDayMaintenance - currentTradeMaintenance;
     const tradeDay = dateOnly(trade.executedAt);
     const settlementDate = settlementDateFor(trade, settings);
@@ -303,21 +647,34 @@ export const calculateAccount = (
     const position = getPosition(trade);
     const resolvedMaintenanceRate = maintenanceRate(trade, settings);
     const resolvedInitialRate = initialMarginRate(trade, settings);
+    if (trade.marginRequirementPct && trade.marginRequirementPct > 0) position.ruleOverride = true;
     position.markPrice = trade.price;
+    position.markSource = "trade";
+    position.markedAt = trade.executedAt;
     settleThrough(tradeDay);
     fees += trade.fees || 0;
-    currentEquity = settings.startOfDayEquity + realizedPnl - fees;
+    currentEquity = settings.startOfDayEquity + realizedPnl - fees + netCashMovements + netIncome;
 
-    const opened = openingByDay.get(tradeDay) ?? new Set<string>();
-    const closed = closingByDay.get(tradeDay) ?? new Set<string>();
-    openingByDay.set(tradeDay, opened);
-    closingByDay.set(tradeDay, closed);
+    // Expiration, exercise and assignment legs are not orders and never make a
+    // day trade, so they are tallied in sets that are then discarded.
+    const opened = trade.optionEvent ? new Set<string>() : openingByDay.get(tradeDay) ?? new Set<string>();
+    const closed = trade.optionEvent ? new Set<string>() : closingByDay.get(tradeDay) ?? new Set<string>();
+    if (!trade.optionEvent) {
+      openingByDay.set(tradeDay, opened);
+      closingByDay.set(tradeDay, closed);
+      tradesByDay.set(tradeDay, (tradesByDay.get(tradeDay) ?? 0) + 1);
+    }
+    const openedBefore = opened.size;
+    const dayTradesBefore = dayTradesOn(tradeDay);
+    const optionRemoval = Boolean(trade.optionEvent) && trade.instrument === InstrumentType.OPTION;
 
     let settledFundsUsed = 0;
     let unsettledFundsUsed = 0;
+    const relievedLots: RelievedLot[] = [];
     let unfundedAmount = 0;
     let analysisRisk: TradeAnalysis["risk"] = "info";
     let message = "Recorded with no settlement warning.";
+    let locateShortfall = 0;
 
     const addLongLot = (quantity: number, cost: number) => {
       let remainingCost = cost + (trade.fees || 0);
@@ -337,9 +694,10 @@ export const calculateAccount = (
             funding.push({ amount: used, settlesOn: source.settlesOn });
           }
         }
-        unsettledPool = unsettledPool.filter((source) => source.amount > EPSILON);
+        unsettledPool = unsettledPool.filter((source) => Math.abs(source.amount) > EPSILON);
         unfundedAmount = Math.max(0, remainingCost);
-        position.lots.push({
+        const lot: PositionLot = {
+          id: trade.id,
           quantity,
           price: trade.price,
           remainingCost: cost,
@@ -348,9 +706,17 @@ export const calculateAccount = (
           openedAt: trade.executedAt,
           maintenanceRate: resolvedMaintenanceRate,
           initialRate: resolvedInitialRate,
-        });
+          costBasis: cost,
+          carried: false,
+          marginRequirementPct: trade.marginRequirementPct,
+        };
+        position.lots.push(lot);
+        if (unfundedAmount > EPSILON) {
+          unfundedPurchases.push({ trade, lot, amount: unfundedAmount, cured: 0, settlesOn: settlementDate });
+        }
       } else {
         position.lots.push({
+          id: trade.id,
           quantity,
           price: trade.price,
           remainingCost: cost,
@@ -359,6 +725,9 @@ export const calculateAccount = (
           openedAt: trade.executedAt,
           maintenanceRate: resolvedMaintenanceRate,
           initialRate: resolvedInitialRate,
+          costBasis: cost,
+          carried: false,
+          marginRequirementPct: trade.marginRequirementPct,
         });
       }
     };
@@ -370,15 +739,27 @@ export const calculateAccount = (
       let riskUnfunded = 0;
       let releasedInitialMargin = 0;
 
-      while (remaining > EPSILON && lots.length > 0) {
-        const lot = lots[0];
-        const closedQty = Math.min(remaining, lot.quantity);
+      for (const { lot, limit } of reliefOrder(lots, trade, settings)) {
+        if (remaining <= EPSILON) break;
+        const closedQty = Math.min(remaining, limit, lot.quantity);
+        if (closedQty <= EPSILON) continue;
         const ratio = closedQty / lot.quantity;
         const allocatedCost = lot.remainingCost * ratio;
         const exitValue = closedQty * trade.price * position.multiplier;
         releasedInitialMargin += closedQty * lot.price * position.multiplier * lot.initialRate;
+        if (lot.carried) {
+          liquidatedInitialMargin += exitValue * lot.initialRate;
+          liquidatedMaintenance += exitValue * lot.maintenanceRate;
+        }
         realizedPnl += isLong ? exitValue - allocatedCost : allocatedCost - exitValue;
         proceedsForCash += isLong ? exitValue : 0;
+        relievedLots.push({
+          lotId: lot.id,
+          acquiredAt: lot.openedAt,
+          quantity: closedQty,
+          costBasis: roundMoney(lot.costBasis * ratio),
+          exitValue: roundMoney(exitValue),
+        });
 
         releaseFunding(lot.unsettledFunding, ratio).forEach((source) => {
           if (source.settlesOn > tradeDay) riskUnsettled += source.amount;
@@ -386,13 +767,14 @@ export const calculateAccount = (
         riskUnfunded += lot.unfundedAmount * ratio;
         lot.quantity -= closedQty;
         lot.remainingCost -= allocatedCost;
+        lot.costBasis -= lot.costBasis * ratio;
         lot.unfundedAmount -= lot.unfundedAmount * ratio;
         lot.unsettledFunding = lot.unsettledFunding
           .map((source) => ({ ...source, amount: source.amount * (1 - ratio) }))
           .filter((source) => source.amount > EPSILON);
         remaining -= closedQty;
-        if (lot.quantity <= EPSILON) lots.shift();
       }
+      lots.splice(0, lots.length, ...lots.filter((lot) => lot.quantity > EPSILON));
 
       if (settings.accountType === AccountType.CASH && proceedsForCash > 0) {
         unsettledPool.push({
@@ -400,6 +782,7 @@ export const calculateAccount = (
           settlesOn: settlementDate,
           tradeId: trade.id,
           symbol: trade.symbol.toUpperCase(),
+          tradeDate: tradeDay,
         });
         settlements.push({
           id: `settlement-${trade.id}`,
@@ -412,9 +795,21 @@ export const calculateAccount = (
         });
       }
 
-      if (riskUnfunded > EPSILON) {
+      if (optionRemoval) {
+        message = trade.optionEvent === OptionEventType.EXPIRATION
+          ? "Expired worthless; the premium is realized."
+          : `Closed by ${optionEventLabel[trade.optionEvent as OptionEventType].toLowerCase()}; the delivery is booked as a separate leg at the strike.`;
+      } else if (riskUnfunded > EPSILON) {
         analysisRisk = "danger";
         message = `Potential freeriding: ${formatMoney(riskUnfunded)} of this lot was not paid for before sale.`;
+        todaysViolations.push({
+          id: `freeride-${trade.id}`,
+          type: CashViolationType.FREERIDING,
+          date: tradeDay,
+          symbol: position.symbol,
+          amount: roundMoney(riskUnfunded),
+          tradeId: trade.id,
+        });
         addAlert(alerts, {
           id: `freeride-${trade.id}`,
           level: "danger",
@@ -425,6 +820,14 @@ export const calculateAccount = (
       } else if (riskUnsettled > EPSILON) {
         analysisRisk = "danger";
         message = `Potential good-faith violation: ${formatMoney(riskUnsettled)} of the sold lot was funded by proceeds that had not settled.`;
+        todaysViolations.push({
+          id: `gfv-${trade.id}`,
+          type: CashViolationType.GOOD_FAITH,
+          date: tradeDay,
+          symbol: position.symbol,
+          amount: roundMoney(riskUnsettled),
+          tradeId: trade.id,
+        });
         addAlert(alerts, {
           id: `gfv-${trade.id}`,
           level: "danger",
@@ -467,6 +870,7 @@ export const calculateAccount = (
       }
     } else if (trade.side === Side.SELL_SHORT) {
       position.shortLots.push({
+        id: trade.id,
         quantity: trade.quantity,
         price: trade.price,
         remainingCost: notional,
@@ -475,6 +879,9 @@ export const calculateAccount = (
         openedAt: trade.executedAt,
         maintenanceRate: maintenanceRate(trade, settings, Side.SELL_SHORT),
         initialRate: resolvedInitialRate,
+        costBasis: notional,
+        carried: false,
+        marginRequirementPct: trade.marginRequirementPct,
       });
       opened.add(`${position.symbol}::short`);
       aggregateDtbpUse += notional;
@@ -516,30 +923,51 @@ export const calculateAccount = (
     if (unfundedAmount > EPSILON) {
       analysisRisk = "danger";
       message = `${formatMoney(unfundedAmount)} is not covered by tracked cash. Deposit funds by settlement or correct the opening balances.`;
-      addAlert(alerts, {
-        id: `unfunded-${trade.id}`,
-        level: "danger",
-        title: "Purchase not fully funded",
-        detail: message,
-        tradeId: trade.id,
-      });
     }
 
-    currentTradeMaintenance = calculateTradeMaintenance();
-    currentEquity = settings.startOfDayEquity + realizedPnl - fees;
-    const iml = currentEquity - settings.startOfDayMaintenance - currentTradeMaintenance;
-    const intradayRuleApplies =
-      settings.accountType === AccountType.MARGIN
-      && settings.marginRegime === MarginRegime.INTRADAY_MARGIN
-      && settings.marginAccountClass === MarginAccountClass.STANDARD;
-    const imlReducing = intradayRuleApplies && iml < imlBefore - EPSILON;
-    if (imlReducing) {
-      imlReducingTransactions += 1;
-      if (iml < 0 && Math.abs(iml) > highestIntradayDeficit) {
-        highestIntradayDeficit = Math.abs(iml);
-        highestIntradayDeficitDate = tradeDay;
+    // Reg SHO Rule 203(b): a short sale needs reasonable grounds to believe the
+    // shares can be borrowed. The broker's easy-to-borrow list serves for most
+    // symbols; the rest need a locate for the day, which each sale draws down.
+    const borrow = trade.side === Side.SELL_SHORT && trade.instrument !== InstrumentType.OPTION
+      ? resolveSymbolBorrow(trade.symbol, settings)
+      : null;
+    if (borrow?.locateRequired) {
+      const key = `${borrow.symbol}::${tradeDay}`;
+      const located = (settings.shortLocates ?? [])
+        .filter((locate) => normalizeMarginSymbol(locate.symbol) === borrow.symbol && locate.obtainedOn === tradeDay)
+        .reduce((sum, locate) => sum + locate.quantity, 0);
+      const drawn = locatesDrawn.get(key) ?? 0;
+      locateShortfall = Math.max(0, trade.quantity - Math.max(0, located - drawn));
+      locatesDrawn.set(key, drawn + trade.quantity);
+      if (locateShortfall > EPSILON && analysisRisk !== "danger") {
+        analysisRisk = "watch";
+        message = `No locate recorded for ${locateShortfall.toLocaleString()} of these ${borrow.symbol} shares on ${tradeDay}. ${borrow.borrowStatus === BorrowStatus.HARD ? `It is hard to borrow at ${(borrow.borrowFeeRate * 100).toFixed(2)}% a year; ` : ""}a short sale without a locate can be rejected or bought in.`;
+        addAlert(alerts, {
+          id: `no-locate-${trade.id}`,
+          level: "watch",
+          title: "Short sale without a locate",
+          detail: message,
+          tradeId: trade.id,
+        });
       }
     }
+
+    if (legacyPdt && !trade.optionEvent) {
+      const window = pdtWindow(tradeDay);
+      const isDayTrade = dayTradesOn(tradeDay) > dayTradesBefore;
+      if (isDayTrade && window.flagged && analysisRisk !== "danger") {
+        analysisRisk = settings.startOfDayEquity < 25_000 ? "danger" : "watch";
+        message = `This round trip is day trade ${window.dayTrades} in five business days and ${((window.dayTrades / window.trades) * 100).toFixed(1)}% of ${window.trades} trades. A legacy-regime broker will designate the account a pattern day trader${settings.startOfDayEquity < 25_000 ? " and block day trades until equity reaches $25,000" : ""}.`;
+      } else if (!isDayTrade && opened.size > openedBefore && window.remaining === 0 && analysisRisk === "info") {
+        analysisRisk = "watch";
+        message = `No day trades left before the PDT flag. Closing this position on ${tradeDay} would be day trade ${window.dayTrades + 1} in five business days.`;
+      }
+    }
+
+    currentTradeMaintenance = calculateTradeMaintenance();
+    currentEquity = settings.startOfDayEquity + realizedPnl - fees + netCashMovements + netIncome;
+    const iml = currentEquity - settings.startOfDayMaintenance - currentTradeMaintenance;
+    const imlReducing = recordImlChange(imlBefore, iml, tradeDay, trade.id);
     peakIntradayExposure = Math.max(peakIntradayExposure, currentIntradayExposure());
     const previewRate = Math.max(resolvedMaintenanceRate + settings.houseBufferPct, EPSILON);
 
@@ -556,19 +984,478 @@ export const calculateAccount = (
       imlAfter: roundMoney(iml),
       imlReducing,
       intradayBuyingPowerAfter: roundMoney(Math.max(0, iml) / previewRate),
+      dtbpUsedAfter: roundMoney(settings.dtbpMethod === DtbpMethod.AGGREGATE ? aggregateDtbpUse : peakIntradayExposure),
+      settledCashAfter: roundMoney(settledCash),
+      ...(relievedLots.length > 0 ? { relievedLots } : {}),
+      ...(locateShortfall > EPSILON ? { locateShortfall } : {}),
     };
 
     addAudit(
       auditTrail,
       trade.executedAt,
-      `${index + 1}. ${trade.side.replaceAll("_", " ")} ${trade.symbol.toUpperCase()}`,
+      `${index + 1}. ${trade.optionEvent ? `${optionEventLabel[trade.optionEvent].toLowerCase()}: ` : ""}${trade.side.replaceAll("_", " ")} ${trade.symbol.toUpperCase()}`,
       `${trade.quantity} × ${formatMoney(trade.price)} × ${position.multiplier}`,
       notional,
     );
+  };
+
+  // A credit first pays down purchases still unfunded and not yet past
+  // settlement; a held credit funds them with money that settles only when the
+  // hold clears, so selling before then is a good-faith risk like unsettled
+  // proceeds.
+  const applyCashMovement = (movement: CashMovement) => {
+    const day = dateOnly(movement.postedAt);
+    const amount = Math.abs(movement.amount);
+    const label = cashMovementLabel[movement.type];
+    const held = Boolean(movement.clearsOn) && (movement.clearsOn ?? "") > day;
+    const imlBefore = currentEquity - settings.startOfDayMaintenance - currentTradeMaintenance;
+    settleThrough(day);
+
+    if (isCashCredit(movement)) {
+      let remaining = amount;
+      for (const purchase of unfundedPurchases) {
+        if (remaining <= EPSILON) break;
+        if (purchase.settlesOn < day || purchase.lot.unfundedAmount <= EPSILON) continue;
+        const applied = Math.min(remaining, purchase.lot.unfundedAmount);
+        purchase.lot.unfundedAmount -= applied;
+        purchase.cured += applied;
+        if (held) purchase.lot.unsettledFunding.push({ amount: applied, settlesOn: movement.clearsOn ?? day });
+        remaining -= applied;
+      }
+      if (held && remaining > EPSILON) {
+        unsettledPool.push({
+          amount: remaining,
+          settlesOn: movement.clearsOn ?? day,
+          tradeId: movement.id,
+          symbol: label,
+          tradeDate: day,
+          movementType: movement.type,
+        });
+        settlements.push({
+          id: `settlement-${movement.id}`,
+          tradeId: movement.id,
+          symbol: label,
+          tradeDate: day,
+          settlementDate: movement.clearsOn ?? day,
+          amount: remaining,
+          status: "pending",
+          movementType: movement.type,
+        });
+      } else if (remaining > EPSILON) {
+        settledCash += remaining;
+      }
+      netCashMovements += amount;
+      cashCredits.push({ day, amount, afterDeficitHigh: true });
+    } else {
+      if (settings.accountType === AccountType.CASH && amount > settledCash + EPSILON) {
+        addAlert(alerts, {
+          id: `withdrawal-exceeds-cash-${movement.id}`,
+          level: "danger",
+          title: "Withdrawal exceeds settled cash",
+          detail: `The ${label.toLowerCase()} of ${formatMoney(amount)} is ${formatMoney(amount - Math.max(0, settledCash))} more than settled cash. Only settled, cleared funds can leave a cash account.`,
+        });
+      }
+      settledCash -= amount;
+      netCashMovements -= amount;
+    }
+
+    currentEquity = settings.startOfDayEquity + realizedPnl - fees + netCashMovements + netIncome;
+    recordImlChange(imlBefore, currentEquity - settings.startOfDayMaintenance - currentTradeMaintenance, day);
+    addAudit(
+      auditTrail,
+      movement.postedAt,
+      `${label}${movement.notes ? ` · ${movement.notes}` : ""}`,
+      isCashCredit(movement)
+        ? `${formatMoney(amount)} credited${held ? `, on hold until ${movement.clearsOn}` : ""}`
+        : `${formatMoney(amount)} debited from settled cash`,
+      isCashCredit(movement) ? amount : -amount,
+    );
+  };
+
+  // Dividends go to whoever held the position going into the ex-date. Amounts
+  // paid later sit in the settlement queue until the pay date, and a short
+  // dividend is a negative entry there.
+  const applyIncomeEvent = (event: IncomeEvent) => {
+    const day = event.exDate;
+    const label = event.type === IncomeEventType.DIVIDEND
+      ? `${event.symbol?.toUpperCase() ?? ""} dividend`
+      : incomeEventLabel[event.type];
+    let amount = Math.abs(event.amount);
+    let basis = formatMoney(amount);
+    if (event.type === IncomeEventType.DIVIDEND) {
+      const held = [...positions.values()]
+        .filter((position) => position.symbol === event.symbol?.toUpperCase() && position.instrument !== InstrumentType.OPTION)
+        .reduce((sum, position) =>
+          sum + position.lots.reduce((total, lot) => total + lot.quantity, 0)
+          - position.shortLots.reduce((total, lot) => total + lot.quantity, 0), 0);
+      if (Math.abs(held) < EPSILON) return;
+      amount = held * Math.abs(event.amount);
+      basis = `${held.toLocaleString()} shares × ${formatMoney(Math.abs(event.amount))}`;
+    }
+    const imlBefore = currentEquity - settings.startOfDayMaintenance - currentTradeMaintenance;
+    settleThrough(day);
+    netIncome += amount;
+    if (event.payDate > day) {
+      unsettledPool.push({ amount, settlesOn: event.payDate, tradeId: event.id, symbol: label, tradeDate: day, incomeType: event.type });
+      settlements.push({
+        id: `settlement-${event.id}`,
+        tradeId: event.id,
+        symbol: label,
+        tradeDate: day,
+        settlementDate: event.payDate,
+        amount,
+        status: "pending",
+        incomeType: event.type,
+      });
+    } else {
+      settledCash += amount;
+    }
+    currentEquity = settings.startOfDayEquity + realizedPnl - fees + netCashMovements + netIncome;
+    recordImlChange(imlBefore, currentEquity - settings.startOfDayMaintenance - currentTradeMaintenance, day);
+    addAudit(
+      auditTrail,
+      `${day}T00:00:00.000Z`,
+      amount < 0 ? `${label} owed on short position` : label,
+      `${basis}, paid ${event.payDate}`,
+      amount,
+    );
+  };
+
+  const rerate = (position: InternalPosition) => {
+    const rated = (lot: PositionLot, side: Side) => {
+      const trade = {
+        ...position.template,
+        id: "",
+        executedAt: lot.openedAt,
+        side,
+        quantity: lot.quantity,
+        price: lot.price,
+        fees: 0,
+        marginRequirementPct: lot.marginRequirementPct,
+      };
+      lot.maintenanceRate = maintenanceRate(trade, settings);
+      lot.initialRate = initialMarginRate(trade, settings);
+    };
+    position.lots.forEach((lot) => rated(lot, Side.BUY));
+    position.shortLots.forEach((lot) => rated(lot, Side.SELL_SHORT));
+  };
+
+  // Lots that change symbol take the new symbol's catalog rates from the
+  // effective date and join any position already held in it.
+  const moveToSymbol = (position: InternalPosition, symbol: string) => {
+    positions.delete(`${position.symbol}::${position.instrument}`);
+    position.symbol = symbol;
+    position.template = { ...position.template, symbol };
+    rerate(position);
+    const key = `${symbol}::${position.instrument}`;
+    const existing = positions.get(key);
+    if (existing && (existing.lots.length > 0 || existing.shortLots.length > 0)) {
+      existing.lots.push(...position.lots);
+      existing.shortLots.push(...position.shortLots);
+      return;
+    }
+    positions.set(key, position);
+  };
+
+  const splitLots = (position: InternalPosition, ratio: number) => {
+    [...position.lots, ...position.shortLots].forEach((lot) => {
+      lot.quantity *= ratio;
+      lot.price /= ratio;
+    });
+    position.markPrice /= ratio;
+  };
+
+  // Corporate actions apply before the open on the effective date. Cost and
+  // acquisition dates carry over, so only a cash merger moves equity; the mark
+  // is restated and stamped with the effective time so that quotes printed
+  // before the action cannot replace it.
+  const applyCorporateAction = (action: CorporateAction) => {
+    const day = action.effectiveDate;
+    const at = `${day}T00:00:00.000Z`;
+    const symbol = action.symbol.toUpperCase();
+    const newSymbol = action.newSymbol?.trim().toUpperCase() ?? "";
+    const ratio = action.ratio && action.ratio > 0 ? action.ratio : 1;
+    const description = describeCorporateAction(action);
+    const open = (position: InternalPosition) => position.lots.length > 0 || position.shortLots.length > 0;
+    const netQuantity = (position: InternalPosition) =>
+      position.lots.reduce((sum, lot) => sum + lot.quantity, 0)
+      - position.shortLots.reduce((sum, lot) => sum + lot.quantity, 0);
+
+    if ([...positions.values()].some((position) => open(position) && position.contract?.underlying.toUpperCase() === symbol)) {
+      addAlert(alerts, {
+        id: `corporate-action-options-${action.id}`,
+        level: "watch",
+        title: `Options on ${symbol} not adjusted`,
+        detail: `${description} was applied to shares only. Listed options are adjusted by the OCC to a new deliverable; close and re-enter the adjusted contracts so their strategy requirements reflect it.`,
+      });
+    }
+    const affected = [...positions.values()].filter((position) =>
+      position.symbol === symbol && position.instrument !== InstrumentType.OPTION && open(position));
+    const needsSymbol = action.type !== CorporateActionType.SPLIT && action.type !== CorporateActionType.CASH_MERGER;
+    if (affected.length === 0 || (needsSymbol && !newSymbol)) return;
+
+    const imlBefore = currentEquity - settings.startOfDayMaintenance - currentTradeMaintenance;
+    settleThrough(day);
+    affected.forEach((position) => {
+      const quantity = netQuantity(position);
+      const markBefore = position.markPrice;
+      position.markedAt = at;
+      let basis = "";
+      let result = 0;
+
+      if (action.type === CorporateActionType.SPLIT) {
+        splitLots(position, ratio);
+        basis = `${quantity.toLocaleString()} → ${netQuantity(position).toLocaleString()} shares, mark ${formatMoney(markBefore)} → ${formatMoney(position.markPrice)}; cost unchanged`;
+        result = Math.abs(netQuantity(position)) * position.markPrice * position.multiplier;
+      } else if (action.type === CorporateActionType.SYMBOL_CHANGE) {
+        moveToSymbol(position, newSymbol);
+        basis = `${quantity.toLocaleString()} shares now held as ${newSymbol}, margined at ${newSymbol}'s rates`;
+        result = Math.abs(quantity) * markBefore * position.multiplier;
+      } else if (action.type === CorporateActionType.STOCK_MERGER) {
+        splitLots(position, ratio);
+        const merged = netQuantity(position);
+        moveToSymbol(position, newSymbol);
+        basis = `${quantity.toLocaleString()} × ${ratioNumber(ratio)} = ${merged.toLocaleString()} ${newSymbol} shares at an implied ${formatMoney(position.markPrice)}; cost carries over`;
+        result = Math.abs(merged) * position.markPrice * position.multiplier;
+      } else if (action.type === CorporateActionType.CASH_MERGER) {
+        const cash = Math.max(0, action.cashPerShare ?? 0);
+        let proceeds = 0;
+        let realized = 0;
+        const cashOut = (lots: PositionLot[], isLong: boolean) => {
+          lots.forEach((lot) => {
+            const value = lot.quantity * cash * position.multiplier;
+            realized += isLong ? value - lot.remainingCost : lot.remainingCost - value;
+            proceeds += isLong ? value : -value;
+            marginBuyingPowerConsumed = Math.max(0, marginBuyingPowerConsumed - lot.quantity * lot.price * position.multiplier * lot.initialRate);
+          });
+          lots.splice(0, lots.length);
+        };
+        cashOut(position.lots, true);
+        cashOut(position.shortLots, false);
+        realizedPnl += realized;
+        if (settings.accountType === AccountType.CASH) settledCash += proceeds;
+        position.markPrice = cash;
+        basis = `${quantity.toLocaleString()} shares × ${formatMoney(cash)}, realizing ${formatMoney(realized)}`;
+        result = proceeds;
+      } else {
+        const allocation = Math.min(1, Math.max(0, action.basisAllocation ?? 0));
+        const child = getPosition({
+          ...position.template,
+          id: action.id,
+          executedAt: at,
+          symbol: newSymbol,
+          side: Side.BUY,
+          quantity: 0,
+          price: (markBefore * allocation) / ratio,
+          fees: 0,
+        });
+        child.markSource = position.markSource;
+        const carve = (lot: PositionLot): PositionLot => {
+          const carved = {
+            ...lot,
+            id: `${lot.id}:${action.id}`,
+            quantity: lot.quantity * ratio,
+            price: (lot.price * allocation) / ratio,
+            remainingCost: lot.remainingCost * allocation,
+            costBasis: lot.costBasis * allocation,
+            unfundedAmount: lot.unfundedAmount * allocation,
+            unsettledFunding: releaseFunding(lot.unsettledFunding, allocation),
+          };
+          lot.price *= 1 - allocation;
+          lot.remainingCost *= 1 - allocation;
+          lot.costBasis *= 1 - allocation;
+          lot.unfundedAmount *= 1 - allocation;
+          lot.unsettledFunding = releaseFunding(lot.unsettledFunding, 1 - allocation);
+          return carved;
+        };
+        child.lots.push(...position.lots.map(carve));
+        child.shortLots.push(...position.shortLots.map(carve));
+        rerate(child);
+        position.markPrice *= 1 - allocation;
+        basis = `${netQuantity(child).toLocaleString()} ${newSymbol} shares at ${formatMoney(child.markPrice)} carry ${(allocation * 100).toFixed(2)}% of the cost; ${symbol} marked ${formatMoney(markBefore)} → ${formatMoney(position.markPrice)}`;
+        result = Math.abs(netQuantity(child)) * child.markPrice * child.multiplier;
+      }
+
+      addAudit(auditTrail, at, `${description}${action.notes ? ` · ${action.notes}` : ""}`, basis, result);
+    });
+
+    currentTradeMaintenance = calculateTradeMaintenance();
+    currentEquity = settings.startOfDayEquity + realizedPnl - fees + netCashMovements + netIncome;
+    recordImlChange(imlBefore, currentEquity - settings.startOfDayMaintenance - currentTradeMaintenance, day);
+  };
+
+  // Executions, cash movements, income and corporate actions replay as one
+  // timeline; at the same instant an execution is applied first.
+  [
+    ...trades.map((trade, index) => ({ at: new Date(trade.executedAt).getTime(), apply: () => applyTrade(trade, index) })),
+    ...cashMovements.map((movement) => ({ at: new Date(movement.postedAt).getTime(), apply: () => applyCashMovement(movement) })),
+    ...incomeEvents.map((event) => ({ at: new Date(`${event.exDate}T00:00:00.000Z`).getTime(), apply: () => applyIncomeEvent(event) })),
+    ...corporateActions.map((action) => ({ at: new Date(`${action.effectiveDate}T00:00:00.000Z`).getTime(), apply: () => applyCorporateAction(action) })),
+  ]
+    .sort((a, b) => a.at - b.at)
+    .forEach((entry) => entry.apply());
+
+  unfundedPurchases.forEach(({ trade, lot, amount, cured, settlesOn }) => {
+    const analysis = analyses[trade.id];
+    const outstanding = Math.max(0, amount - cured);
+    if (outstanding > EPSILON) {
+      const detail = cured > EPSILON
+        ? `${formatMoney(outstanding)} is still not covered after ${formatMoney(cured)} in deposits. Deposit the rest by ${settlesOn} or correct the opening balances.`
+        : analysis.message;
+      analysis.unfundedAmount = roundMoney(outstanding);
+      addAlert(alerts, {
+        id: `unfunded-${trade.id}`,
+        level: "danger",
+        title: "Purchase not fully funded",
+        detail,
+        tradeId: trade.id,
+      });
+      return;
+    }
+    const onHold = lot.unsettledFunding.some((source) => source.settlesOn > dateOnly(asOf));
+    analysis.unfundedAmount = 0;
+    analysis.risk = onHold ? "watch" : "info";
+    analysis.message = `Funded by ${formatMoney(cured)} deposited before settlement.${onHold ? " Part of it is on hold; hold the position until it clears." : ""}`;
+    addAlert(alerts, {
+      id: `unfunded-${trade.id}`,
+      level: onHold ? "watch" : "info",
+      title: "Purchase funded by deposit",
+      detail: analysis.message,
+      tradeId: trade.id,
+    });
   });
 
   settleThrough(dateOnly(asOf));
 
+  // A quote replaces the last fill only when it is at least as recent as that
+  // fill; quotes dated after asOf are ignored so past days replay unchanged.
+  // Only a quote that became the mark can be stale.
+  const asOfTime = new Date(asOf).getTime();
+  const staleAfterMs = Math.max(0, settings.quoteStaleMinutes) * 60_000;
+  positions.forEach((position) => {
+    const open = position.lots.length > 0 || position.shortLots.length > 0;
+    const quote = context.marks?.[position.symbol];
+    if (!open || !quote || !(quote.price > 0)) return;
+    const quoteTime = new Date(quote.asOf).getTime();
+    if (quoteTime > asOfTime) return;
+    if (quoteTime >= new Date(position.markedAt).getTime()) {
+      position.markPrice = quote.price;
+      position.markSource = quote.source;
+      position.markedAt = quote.asOf;
+      addAudit(
+        auditTrail,
+        quote.asOf,
+        `Mark ${position.symbol} from ${quote.source} quote`,
+        `${formatMoney(quote.price)} replaces the last execution price`,
+        quote.price,
+      );
+      if (staleAfterMs > 0 && asOfTime - quoteTime > staleAfterMs) {
+        addAlert(alerts, {
+          id: `stale-quote-${position.symbol}`,
+          level: "watch",
+          title: `Stale quote for ${position.symbol}`,
+          detail: `The ${quote.source} mark of ${formatMoney(quote.price)} is from ${new Date(quote.asOf).toLocaleString()}, older than the ${settings.quoteStaleMinutes}-minute limit. Unrealized P&L, maintenance and IML may not reflect the market.`,
+        });
+      }
+    }
+  });
+  currentTradeMaintenance = calculateTradeMaintenance();
+
+  // A short contract in the money near expiry can be assigned, and a long one
+  // is exercised by exception at expiration; either delivers stock that needs
+  // cash or margin. Contracts past expiration belong to the expiration
+  // processor.
+  const asOfDay = dateOnly(asOf);
+  const nextSession = addBusinessDays(asOfDay, 1, settings.settlementHolidays);
+  positions.forEach((position) => {
+    const { contract } = position;
+    const longQty = position.lots.reduce((sum, lot) => sum + lot.quantity, 0);
+    const shortQty = position.shortLots.reduce((sum, lot) => sum + lot.quantity, 0);
+    if (!contract || (longQty < EPSILON && shortQty < EPSILON)) return;
+    if (contract.expiration < asOfDay) {
+      addAlert(alerts, {
+        id: `expired-open-${position.symbol}`,
+        level: "watch",
+        title: "Expired contract still open",
+        detail: `${position.symbol} expired on ${contract.expiration}. Process expirations to book the expiry, exercise or assignment.`,
+      });
+      return;
+    }
+    if (contract.expiration > nextSession) return;
+    const underlyingPrice = [...positions.values()]
+      .find((candidate) => candidate.symbol === contract.underlying && candidate.instrument !== InstrumentType.OPTION)?.markPrice
+      ?? context.marks?.[contract.underlying]?.price;
+    if (underlyingPrice === undefined) return;
+    const isCall = contract.optionType === OptionType.CALL;
+    const intrinsic = isCall ? underlyingPrice - contract.strike : contract.strike - underlyingPrice;
+    if (intrinsic < 0.01) return;
+    const expiresToday = contract.expiration === asOfDay;
+    const delivery = (contracts: number, buys: boolean) => {
+      const shares = contracts * position.multiplier;
+      return `${buys ? "buy" : "sell"} ${shares.toLocaleString()} ${contract.underlying} at ${formatMoney(contract.strike)}, ${formatMoney(shares * contract.strike)}`;
+    };
+    if (shortQty > EPSILON) {
+      addAlert(alerts, {
+        id: `assignment-risk-${position.symbol}`,
+        level: expiresToday ? "danger" : "watch",
+        title: `Assignment risk on ${position.symbol}`,
+        detail: `${shortQty.toLocaleString()} short contract${shortQty === 1 ? " is" : "s are"} ${formatMoney(intrinsic)} in the money and expire${shortQty === 1 ? "s" : ""} ${expiresToday ? "today" : `on ${contract.expiration}`}. Assignment would ${delivery(shortQty, !isCall)}.`,
+      });
+    }
+    if (longQty > EPSILON && expiresToday) {
+      addAlert(alerts, {
+        id: `auto-exercise-${position.symbol}`,
+        level: "watch",
+        title: `${position.symbol} will be exercised`,
+        detail: `${longQty.toLocaleString()} long contract${longQty === 1 ? " is" : "s are"} ${formatMoney(intrinsic)} in the money and exercised automatically at expiration unless you instruct otherwise. Exercise would ${delivery(longQty, isCall)}.`,
+      });
+    }
+  });
+
+  const strategies = evaluateStrategies();
+  strategies.groups.forEach((group) => {
+    addAudit(
+      auditTrail,
+      asOf,
+      `${group.underlying} ${group.description}`,
+      `${group.contracts} contract${group.contracts === 1 ? "" : "s"} margined as one FINRA 4210 strategy`,
+      group.requirement,
+    );
+  });
+  const cashSecuredReserve = strategies.groups
+    .filter((group) => group.strategy === OptionStrategy.CASH_SECURED_PUT)
+    .reduce((sum, group) => sum + group.requirement, 0);
+
+  const openLots: OpeningLot[] = [];
+  positions.forEach((position) => {
+    const carry = (lot: PositionLot, side: OpeningLot["side"]) => openLots.push({
+      ...position.template,
+      lotId: lot.id,
+      side,
+      quantity: lot.quantity,
+      price: position.markPrice,
+      costBasis: roundMoney(lot.costBasis),
+      acquiredAt: lot.openedAt,
+      markedAt: position.markedAt,
+      marginRequirementPct: lot.marginRequirementPct,
+      unsettledFunding: lot.unsettledFunding
+        .filter((source) => source.settlesOn > dateOnly(asOf))
+        .map((source) => ({ ...source, amount: roundMoney(source.amount) })),
+      unfundedAmount: roundMoney(lot.unfundedAmount),
+    });
+    position.lots.forEach((lot) => carry(lot, "long"));
+    position.shortLots.forEach((lot) => carry(lot, "short"));
+  });
+  const pendingSettlements: OpeningSettlement[] = unsettledPool.map((item) => ({
+    tradeId: item.tradeId,
+    symbol: item.symbol,
+    tradeDate: item.tradeDate,
+    settlesOn: item.settlesOn,
+    amount: roundMoney(item.amount),
+    ...(item.movementType ? { movementType: item.movementType } : {}),
+    ...(item.incomeType ? { incomeType: item.incomeType } : {}),
+  }));
+
   const outputPositions: Position[] = [];
   let unrealizedPnl = 0;
   positions.forEach((position) => {
@@ -583,43 +1470,128 @@ export const calculateAccount = (
     const marketValue = absoluteQty * position.markPrice * position.multiplier;
     const pnl = quantity > 0 ? marketValue - totalCost : totalCost - marketValue;
     unrealizedPnl += pnl;
-    const maintenanceRequirement = activeLots.reduce(
-      (sum, lot) => sum + lotMaintenanceRequirement(position, lot, quantity < 0),
-      0,
-    );
+    const maintenanceRequirement = positionMaintenance(position, strategies.requirements);
     outputPositions.push({
       symbol: position.symbol,
       instrument: position.instrument,
       quantity,
       averagePrice: roundMoney(averagePrice),
       markPrice: position.markPrice,
+      markSource: position.markSource,
+      markedAt: position.markedAt,
       marketValue: roundMoney(marketValue),
       maintenanceRequirement: roundMoney(maintenanceRequirement),
       unrealizedPnl: roundMoney(pnl),
     });
   });
 
-  currentEquity = settings.startOfDayEquity + realizedPnl + unrealizedPnl - fees;
+  currentEquity = settings.startOfDayEquity + realizedPnl + unrealizedPnl - fees + netCashMovements + netIncome;
   const maintenanceRequirement = settings.startOfDayMaintenance + currentTradeMaintenance;
   const maintenanceExcess = currentEquity - maintenanceRequirement;
   const intradayMarginLevel = maintenanceExcess;
+
+  // The debit is inferred from tracked positions: what they are worth net of
+  // short proceeds, beyond the account's equity, is borrowed. Interest accrues
+  // on the closing debit for each calendar day until the next business day.
+  const netMarketValue = outputPositions.reduce((sum, position) =>
+    sum + (position.quantity > 0 ? position.marketValue : -position.marketValue), 0);
+  const marginDebitBalance = settings.accountType === AccountType.MARGIN
+    ? Math.max(0, netMarketValue - currentEquity)
+    : 0;
+  const annualInterest = annualMarginInterest(marginDebitBalance, settings.marginInterestTiers ?? []);
+  const accrualDays = calendarDaysBetween(dateOnly(asOf), addBusinessDays(dateOnly(asOf), 1, settings.settlementHolidays));
+  const marginInterestAccrual = annualInterest * accrualDays / (settings.marginInterestDayCount || 360);
+  if (marginInterestAccrual > 0) {
+    addAudit(
+      auditTrail,
+      asOf,
+      "Overnight margin interest",
+      `${formatMoney(marginDebitBalance)} debit × ${((annualInterest / marginDebitBalance) * 100).toFixed(3)}% ÷ ${settings.marginInterestDayCount || 360} × ${accrualDays} day${accrualDays === 1 ? "" : "s"}`,
+      marginInterestAccrual,
+    );
+  }
+  // Stock-loan fees accrue daily on the short market value at each symbol's
+  // annual rate over a 360-day year, for the same nights as margin interest.
+  const borrowedShorts = outputPositions
+    .filter((position) => position.quantity < 0 && position.instrument !== InstrumentType.OPTION)
+    .map((position) => ({ position, borrow: resolveSymbolBorrow(position.symbol, settings) }));
+  const borrowFeeAccrual = borrowedShorts.reduce((sum, { position, borrow }) =>
+    sum + position.marketValue * borrow.borrowFeeRate * accrualDays / 360, 0);
+  if (borrowFeeAccrual > 0) {
+    addAudit(
+      auditTrail,
+      asOf,
+      "Overnight borrow fees",
+      borrowedShorts
+        .map(({ position, borrow }) => `${formatMoney(position.marketValue)} ${position.symbol} × ${(borrow.borrowFeeRate * 100).toFixed(2)}%`)
+        .join(" + ") + ` ÷ 360 × ${accrualDays} day${accrualDays === 1 ? "" : "s"}`,
+      borrowFeeAccrual,
+    );
+  }
+
   const isLegacyMargin =
     settings.accountType === AccountType.MARGIN
     && settings.marginRegime === MarginRegime.LEGACY_PDT;
-  const intradayRuleApplies =
-    settings.accountType === AccountType.MARGIN
-    && settings.marginRegime === MarginRegime.INTRADAY_MARGIN
-    && settings.marginAccountClass === MarginAccountClass.STANDARD;
-  const computedLegacyLimit = Math.max(0, (settings.startOfDayEquity - settings.startOfDayMaintenance) * (settings.pdtRestricted ? 2 : 4));
-  const dtbpLimit = isLegacyMargin ? (settings.brokerDtbp > 0 ? settings.brokerDtbp : computedLegacyLimit) : 0;
+  const sessionDay = [settings.snapshotDate, ...trades.map((trade) => dateOnly(trade.executedAt))].sort().at(-1) ?? settings.snapshotDate;
+
+  // FINRA Rule 4210(f)(8)(B)(iv): an unmet day-trading call holds day-trading
+  // buying power to two times maintenance excess through the fifth business
+  // day after it is issued, then to a cash-available basis for 90 days or until
+  // the call is met. Deposits and incoming journals since the call meet it.
+  const carriedDtbpCall = isLegacyMargin ? Math.max(0, settings.outstandingDtbpCall) : 0;
+  const carriedCallDueDate = carriedDtbpCall > 0 && settings.dtbpCallDate
+    ? addBusinessDays(settings.dtbpCallDate, 5, settings.settlementHolidays)
+    : undefined;
+  const carriedCallLapsed = Boolean(carriedCallDueDate) && asOfDay > addCalendarDays(carriedCallDueDate ?? "", 90);
+  const callCredits = (from: string) => cashCredits
+    .filter((credit) => credit.day >= from && credit.day <= asOfDay)
+    .reduce((sum, credit) => sum + credit.amount, 0);
+  const carriedCallMet = carriedCallLapsed ? 0 : Math.min(carriedDtbpCall, callCredits(settings.dtbpCallDate));
+  const carriedCallOpen = !carriedCallLapsed && carriedDtbpCall - carriedCallMet > EPSILON;
+  const derivedCashRestrictionEndsOn = carriedCallOpen && carriedCallDueDate && asOfDay > carriedCallDueDate
+    ? addCalendarDays(carriedCallDueDate, 90)
+    : undefined;
+  const reportedCashRestriction = Boolean(settings.dtbpRestrictionUntil) && asOfDay <= settings.dtbpRestrictionUntil;
+  const dtbpRestriction = !isLegacyMargin
+    ? DtbpRestriction.NONE
+    : reportedCashRestriction || derivedCashRestrictionEndsOn
+      ? DtbpRestriction.CASH_AVAILABLE
+      : settings.pdtRestricted || carriedCallOpen ? DtbpRestriction.TWO_TIMES : DtbpRestriction.NONE;
+  const dtbpRestrictionEndsOn = reportedCashRestriction ? settings.dtbpRestrictionUntil : derivedCashRestrictionEndsOn;
+
+  const computedLegacyLimit = Math.max(0, (settings.startOfDayEquity - openingMaintenance) * (dtbpRestriction === DtbpRestriction.NONE ? 4 : 2));
   const dtbpUsed = isLegacyMargin
     ? (settings.dtbpMethod === DtbpMethod.AGGREGATE ? aggregateDtbpUse : peakIntradayExposure)
     : 0;
-  const dtbpRemaining = isLegacyMargin ? Math.max(0, dtbpLimit - dtbpUsed) : 0;
   const estimatedMarginBp = Math.max(0, maintenanceExcess / Math.max(settings.initialMarginPct + settings.houseBufferPct, EPSILON));
-  const brokerBasedMarginBp = Math.max(0, settings.brokerMarginBuyingPower - marginBuyingPowerConsumed + realizedPnl - fees);
+  const brokerBasedMarginBp = Math.max(0, settings.brokerMarginBuyingPower - marginBuyingPowerConsumed + realizedPnl - fees + netCashMovements + netIncome);
+  // Brokers hold a cash account to settled cash for 90 days once it reaches
+  // their threshold of good-faith violations in 12 months, or after any
+  // freeriding (Regulation T §220.8(c)). The register keeps every violation;
+  // only those in the 12 months to each one count toward the threshold.
+  const recorded = settings.cashViolations ?? [];
+  const cashViolations = [...recorded, ...todaysViolations.filter((violation) => !recorded.some((existing) => existing.id === violation.id))]
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const yearTo = (day: string) => (violation: CashViolation) =>
+    violation.date > `${Number(day.slice(0, 4)) - 1}${day.slice(4)}` && violation.date <= day;
+  const goodFaithIn = (day: string) =>
+    cashViolations.filter((violation) => violation.type === CashViolationType.GOOD_FAITH && yearTo(day)(violation)).length;
+  const goodFaithViolations = goodFaithIn(sessionDay);
+  const freeridingViolations = cashViolations.filter((violation) => violation.type === CashViolationType.FREERIDING && yearTo(sessionDay)(violation)).length;
+  const registerRestrictionEndsOn = cashViolations
+    .filter((violation) => violation.type === CashViolationType.FREERIDING || goodFaithIn(violation.date) >= settings.gfvRestrictionThreshold)
+    .map((violation) => addCalendarDays(violation.date, 90))
+    .sort()
+    .at(-1);
+  const registerRestrictionActive = Boolean(registerRestrictionEndsOn) && sessionDay <= (registerRestrictionEndsOn ?? "");
+  const cashRestrictionActive = settings.cashRestricted || registerRestrictionActive;
+  const cashRestrictionEndsOn = registerRestrictionActive ? registerRestrictionEndsOn : undefined;
+  const violationsRemaining = settings.accountType === AccountType.CASH && !cashRestrictionActive
+    ? Math.max(0, settings.gfvRestrictionThreshold - goodFaithViolations)
+    : 0;
+
   const pendingCash = unsettledPool.reduce((sum, item) => sum + item.amount, 0);
-  const cashAvailableToTrade = Math.max(0, settledCash + (settings.cashRestricted ? 0 : pendingCash));
+  const cashAvailableToTrade = Math.max(0, settledCash + (cashRestrictionActive ? 0 : pendingCash) - cashSecuredReserve);
   const leverageEligible = settings.accountType === AccountType.MARGIN && currentEquity >= 2_000;
   const marginBuyingPower = leverageEligible
     ? (settings.brokerMarginBuyingPower > 0 ? brokerBasedMarginBp : estimatedMarginBp)
@@ -628,11 +1600,128 @@ export const calculateAccount = (
     ? cashAvailableToTrade
     : Math.max(0, (settings.brokerMarginBuyingPower > 0 ? settings.brokerMarginBuyingPower * settings.initialMarginPct : maintenanceExcess) - marginBuyingPowerConsumed);
 
+  const dtbpLimit = !isLegacyMargin
+    ? 0
+    : dtbpRestriction === DtbpRestriction.CASH_AVAILABLE
+      ? dtbpUsed + cashAvailableToTrade
+      : settings.brokerDtbp > 0 ? settings.brokerDtbp : computedLegacyLimit;
+  const dtbpRemaining = isLegacyMargin ? Math.max(0, dtbpLimit - dtbpUsed) : 0;
+  const dtbpExcess = Math.max(0, dtbpUsed - dtbpLimit);
+  const todaysDtbpCall = dtbpExcess * DTBP_CALL_RATE;
+  const todaysCallMet = Math.min(todaysDtbpCall, Math.max(0, callCredits(sessionDay) - carriedCallMet));
+  const dtbpCallMet = carriedCallMet + todaysCallMet;
+  const dtbpCall = (carriedCallOpen ? carriedDtbpCall - carriedCallMet : 0) + todaysDtbpCall - todaysCallMet;
+  const dtbpCallDate = carriedCallOpen ? settings.dtbpCallDate : dtbpCall > EPSILON ? sessionDay : undefined;
+  const dtbpCallDueDate = dtbpCallDate ? addBusinessDays(dtbpCallDate, 5, settings.settlementHolidays) : undefined;
+  if (todaysDtbpCall > 0) {
+    addAudit(
+      auditTrail,
+      asOf,
+      "Day-trading call",
+      `(${formatMoney(dtbpUsed)} commitment − ${formatMoney(dtbpLimit)} limit) × ${DTBP_CALL_RATE * 100}%`,
+      todaysDtbpCall,
+    );
+  }
+
+  // Regulation T: initial margin on the day's purchases and short sales beyond
+  // the account's excess is due within the payment period. A house call is
+  // issued when equity closes below the maintenance requirement and is due in
+  // the broker's window. Deposits and incoming journals go to the earliest-due
+  // calls first. Selling positions carried in meets a Reg T call by the initial
+  // margin it releases; a house call is met by whatever closes the deficit, and
+  // what deposits and sales do not explain is credited to the market.
+  const isMarginAccount = settings.accountType === AccountType.MARGIN;
+  const carriedCalls = isMarginAccount
+    ? [...(settings.marginCalls ?? [])].filter((call) => call.outstanding > EPSILON).sort((a, b) => a.dueOn.localeCompare(b.dueOn))
+    : [];
+  let unappliedCredits = isMarginAccount ? callCredits("") : 0;
+  const depositShares = new Map(carriedCalls.map((call) => {
+    const share = Math.min(call.outstanding, unappliedCredits);
+    unappliedCredits -= share;
+    return [call.id, share];
+  }));
+  const callStatus = (call: MarginCall, remaining: number, cured: Record<MarginCallCure, number>): MarginCallStatus => {
+    const businessDaysLeft = businessDaysBetween(sessionDay, call.dueOn, settings.settlementHolidays);
+    return {
+      ...call,
+      amount: roundMoney(call.amount),
+      outstanding: roundMoney(call.outstanding),
+      remaining: remaining > EPSILON ? roundMoney(remaining) : 0,
+      cured: { deposit: roundMoney(cured.deposit), liquidation: roundMoney(cured.liquidation), recovery: roundMoney(cured.recovery) },
+      businessDaysLeft,
+      level: remaining <= EPSILON ? "info" : businessDaysLeft <= 1 ? "danger" : "watch",
+    };
+  };
+
+  let unappliedRegTRelease = liquidatedInitialMargin;
+  const carriedRegTCalls = carriedCalls.filter((call) => call.type === MarginCallType.REG_T).map((call) => {
+    const deposit = depositShares.get(call.id) ?? 0;
+    const liquidation = Math.min(call.outstanding - deposit, unappliedRegTRelease);
+    unappliedRegTRelease -= liquidation;
+    return callStatus(call, call.outstanding - deposit - liquidation, { deposit, liquidation, recovery: 0 });
+  });
+
+  const maintenanceDeficit = isMarginAccount ? Math.max(0, -maintenanceExcess) : 0;
+  const carriedHouse = carriedCalls.filter((call) => call.type === MarginCallType.HOUSE);
+  const houseOutstanding = carriedHouse.reduce((sum, call) => sum + call.outstanding, 0);
+  let houseMet = Math.max(0, houseOutstanding - maintenanceDeficit);
+  let unappliedMaintenanceRelease = liquidatedMaintenance;
+  const carriedHouseCalls = carriedHouse.map((call) => {
+    const met = Math.min(call.outstanding, houseMet);
+    houseMet -= met;
+    const deposit = Math.min(met, depositShares.get(call.id) ?? 0);
+    const liquidation = Math.min(met - deposit, unappliedMaintenanceRelease);
+    unappliedMaintenanceRelease -= liquidation;
+    return callStatus(call, call.outstanding - met, { deposit, liquidation, recovery: Math.max(0, met - deposit - liquidation) });
+  });
+
+  const regTExcess = Math.max(0, settings.brokerMarginBuyingPower > 0
+    ? settings.brokerMarginBuyingPower * settings.initialMarginPct
+    : settings.startOfDayEquity - openingMaintenance);
+  const regTShortfall = isMarginAccount ? Math.max(0, marginBuyingPowerConsumed - regTExcess) : 0;
+  const regTCallMet = Math.min(regTShortfall, unappliedCredits);
+  const todaysRegTCall = regTShortfall - regTCallMet;
+  const todaysHouseCall = Math.max(0, maintenanceDeficit - Math.min(houseOutstanding, maintenanceDeficit));
+  const issuedCalls: MarginCallStatus[] = [];
+  if (todaysRegTCall > EPSILON) {
+    const amount = roundMoney(todaysRegTCall);
+    issuedCalls.push(callStatus(
+      { id: `reg-t-${sessionDay}`, type: MarginCallType.REG_T, amount, outstanding: amount, issuedOn: sessionDay, dueOn: addBusinessDays(sessionDay, REG_T_PAYMENT_DAYS, settings.settlementHolidays) },
+      amount,
+      { deposit: 0, liquidation: 0, recovery: 0 },
+    ));
+    addAudit(
+      auditTrail,
+      asOf,
+      "Reg T call",
+      `${formatMoney(marginBuyingPowerConsumed)} initial margin − ${formatMoney(regTExcess)} excess${regTCallMet > 0 ? ` − ${formatMoney(regTCallMet)} deposited` : ""}`,
+      todaysRegTCall,
+    );
+  }
+  if (todaysHouseCall > EPSILON) {
+    const amount = roundMoney(todaysHouseCall);
+    issuedCalls.push(callStatus(
+      { id: `house-${sessionDay}`, type: MarginCallType.HOUSE, amount, outstanding: amount, issuedOn: sessionDay, dueOn: addBusinessDays(sessionDay, settings.houseCallDays ?? 5, settings.settlementHolidays) },
+      amount,
+      { deposit: 0, liquidation: 0, recovery: 0 },
+    ));
+    addAudit(
+      auditTrail,
+      asOf,
+      "House call",
+      `${formatMoney(maintenanceRequirement)} requirement − ${formatMoney(currentEquity)} equity${houseOutstanding > 0 ? ` − ${formatMoney(Math.min(houseOutstanding, maintenanceDeficit))} already called` : ""}`,
+      todaysHouseCall,
+    );
+  }
+  const marginCalls = [...carriedRegTCalls, ...carriedHouseCalls, ...issuedCalls]
+    .sort((a, b) => a.dueOn.localeCompare(b.dueOn) || a.issuedOn.localeCompare(b.issuedOn));
+
   const countedLegacyDayTrades = [...openingByDay.entries()].reduce((count, [day, opened]) => {
     const closed = closingByDay.get(day) ?? new Set<string>();
     return count + [...opened].filter((key) => closed.has(key)).length;
   }, 0);
   const dayTrades = isLegacyMargin ? countedLegacyDayTrades : 0;
+  const pdtCounter = pdtWindow(sessionDay);
 
   const intradayBuyingPowerRate = Math.max(
     settings.longMaintenancePct + settings.houseBufferPct,
@@ -640,7 +1729,7 @@ export const calculateAccount = (
   );
   const calculatedOpeningIntradayBp = Math.max(
     0,
-    settings.startOfDayEquity - settings.startOfDayMaintenance,
+    settings.startOfDayEquity - openingMaintenance,
   ) / intradayBuyingPowerRate;
   const intradayBuyingPowerLimit = intradayRuleApplies
     ? (settings.brokerIntradayBuyingPower > 0
@@ -654,7 +1743,7 @@ export const calculateAccount = (
     0,
     intradayBuyingPowerLimit
       - currentIntradayExposure()
-      + (realizedPnl - fees) / intradayBuyingPowerRate,
+      + (realizedPnl - fees + netCashMovements + netIncome) / intradayBuyingPowerRate,
   );
 
   const configuredOutstandingDeficit = Math.max(0, settings.outstandingIntradayDeficit);
@@ -669,10 +1758,16 @@ export const calculateAccount = (
   const intradayDeficitExpiresOn = candidateIntradayDeficit > 0 && controllingDeficitDate
     ? addBusinessDays(controllingDeficitDate, 15, settings.settlementHolidays)
     : undefined;
+  // A deficit carried from an earlier day is met by any credit; today's only by
+  // credits after its high.
+  const deficitCredits = (throughDay: string) => cashCredits
+    .filter((credit) => credit.day <= throughDay && (configuredOutstandingDeficit >= currentDayDeficit || credit.afterDeficitHigh))
+    .reduce((sum, credit) => sum + credit.amount, 0);
+  const intradayDeficitMet = Math.min(candidateIntradayDeficit, deficitCredits(dateOnly(asOf)));
   const deficitStillOutstanding =
-    candidateIntradayDeficit > 0
+    candidateIntradayDeficit - intradayDeficitMet > EPSILON
     && (!intradayDeficitExpiresOn || dateOnly(asOf) <= intradayDeficitExpiresOn);
-  const outstandingIntradayDeficit = deficitStillOutstanding ? candidateIntradayDeficit : 0;
+  const outstandingIntradayDeficit = deficitStillOutstanding ? candidateIntradayDeficit - intradayDeficitMet : 0;
   const practiceThreshold = Math.min(Math.max(0, currentEquity) * 0.05, 1_000);
   const deficitCountsTowardPractice =
     candidateIntradayDeficit > practiceThreshold + EPSILON
@@ -682,6 +1777,7 @@ export const calculateAccount = (
     && settings.intradayDeficitPractice
     && deficitCountsTowardPractice
     && dateOnly(asOf) > intradayDeficitDueDate
+    && deficitCredits(intradayDeficitDueDate) < candidateIntradayDeficit - EPSILON
       ? addCalendarDays(intradayDeficitDueDate, 90)
       : undefined;
   const reportedRestrictionActive =
@@ -720,22 +1816,75 @@ export const calculateAccount = (
         detail: "Prior-day equity is below $25,000. A legacy-regime broker may block day trades until equity is restored.",
       });
     }
-    if (settings.marginRegime === MarginRegime.LEGACY_PDT && dtbpUsed > dtbpLimit) {
+    if (legacyPdt && pdtCounter.flagged) {
+      addAlert(alerts, {
+        id: "pdt-flag",
+        level: settings.startOfDayEquity < 25_000 ? "danger" : "watch",
+        title: "Pattern day trader designation",
+        detail: `${pdtCounter.dayTrades} day trades from ${pdtCounter.windowStart} to ${pdtCounter.windowEnd} are ${((pdtCounter.dayTrades / pdtCounter.trades) * 100).toFixed(1)}% of ${pdtCounter.trades} trades. A legacy-regime broker designates the account a pattern day trader${settings.startOfDayEquity < 25_000 ? " and blocks day trades until equity reaches $25,000" : ", and equity must stay at $25,000 or more on any day it day trades"}.`,
+      });
+    } else if (legacyPdt && pdtCounter.remaining === 0) {
+      const oldest = pdtCounter.days.find((day) => day.dayTrades > 0);
+      addAlert(alerts, {
+        id: "pdt-last",
+        level: "watch",
+        title: "No day trades left before PDT flag",
+        detail: `${pdtCounter.dayTrades} day trades in the five business days to ${pdtCounter.windowEnd}. Another before ${oldest ? addBusinessDays(oldest.date, PDT_WINDOW_DAYS, settings.settlementHolidays) : "the window rolls"} could designate the account a pattern day trader.`,
+      });
+    }
+    if (legacyPdt && todaysDtbpCall > 0) {
       addAlert(alerts, {
         id: "dtbp-call",
         level: "danger",
         title: "Estimated DTBP exceeded",
-        detail: `Tracked intraday commitment exceeds the start-of-day limit by ${formatMoney(dtbpUsed - dtbpLimit)}.`,
+        detail: `Tracked intraday commitment exceeds the ${dtbpRestriction === DtbpRestriction.TWO_TIMES ? "restricted " : ""}start-of-day limit by ${formatMoney(dtbpExcess)}. A legacy-regime broker issues a day-trading call for ${formatMoney(todaysDtbpCall)}, 25% of the excess, due by ${addBusinessDays(sessionDay, 5, settings.settlementHolidays)}${todaysCallMet > 0 ? `; ${formatMoney(todaysCallMet)} in deposits has met ${todaysCallMet >= todaysDtbpCall - EPSILON ? "it" : "part of it"}` : ""}. Until it is met, day-trading buying power is two times maintenance excess.`,
       });
     }
-    if (intradayRuleApplies && highestIntradayDeficit > 0) {
+    if (carriedCallOpen) {
+      addAlert(alerts, dtbpRestriction === DtbpRestriction.CASH_AVAILABLE
+        ? {
+          id: "dtbp-call-outstanding",
+          level: "danger",
+          title: "Day-trading call past due",
+          detail: `${formatMoney(carriedDtbpCall - carriedCallMet)} of the call issued ${settings.dtbpCallDate} was not met by ${carriedCallDueDate}. Day trades are limited to cash available through ${dtbpRestrictionEndsOn}, or until the call is met.`,
+        }
+        : {
+          id: "dtbp-call-outstanding",
+          level: "danger",
+          title: "Day-trading call outstanding",
+          detail: `${formatMoney(carriedDtbpCall - carriedCallMet)} remains on the call issued ${settings.dtbpCallDate}, due by ${carriedCallDueDate}. Day-trading buying power is two times maintenance excess until it is met.`,
+        });
+    } else if (legacyPdt && carriedCallMet > 0) {
+      addAlert(alerts, {
+        id: "dtbp-call-outstanding",
+        level: "info",
+        title: "Day-trading call met",
+        detail: `${formatMoney(carriedCallMet)} in deposits and incoming journals has met the call issued ${settings.dtbpCallDate}. Update the snapshot when the broker confirms it.`,
+      });
+    }
+    if (legacyPdt && reportedCashRestriction) {
       addAlert(alerts, {
-        id: "intraday-deficit",
+        id: "dtbp-restricted",
         level: "danger",
-        title: "Intraday margin deficit",
-        detail: `The largest negative IML after an IML-reducing transaction was ${formatMoney(highestIntradayDeficit)}. It must be satisfied as promptly as possible${intradayDeficitDueDate ? `; the fifth-business-day checkpoint is ${intradayDeficitDueDate}` : ""}.`,
+        title: "Day trading on a cash-available basis",
+        detail: `The broker restricts day trades to cash available through ${settings.dtbpRestrictionUntil}. ${formatMoney(cashAvailableToTrade)} is available.`,
       });
     }
+    if (intradayRuleApplies && highestIntradayDeficit > 0) {
+      addAlert(alerts, outstandingIntradayDeficit > 0
+        ? {
+          id: "intraday-deficit",
+          level: "danger",
+          title: "Intraday margin deficit",
+          detail: `The largest negative IML after an IML-reducing transaction was ${formatMoney(highestIntradayDeficit)}${intradayDeficitMet > 0 ? `; ${formatMoney(outstandingIntradayDeficit)} remains after deposits` : ""}. It must be satisfied as promptly as possible${intradayDeficitDueDate ? `; the fifth-business-day checkpoint is ${intradayDeficitDueDate}` : ""}.`,
+        }
+        : {
+          id: "intraday-deficit",
+          level: "info",
+          title: "Intraday margin deficit met",
+          detail: `The largest negative IML after an IML-reducing transaction was ${formatMoney(highestIntradayDeficit)}. ${formatMoney(intradayDeficitMet)} in deposits and incoming journals since then has met it.`,
+        });
+    }
     if (
       intradayRuleApplies
       && outstandingIntradayDeficit > 0
@@ -787,6 +1936,62 @@ export const calculateAccount = (
         detail: `Estimated maintenance requirement exceeds equity by ${formatMoney(Math.abs(maintenanceExcess))}.`,
       });
     }
+    borrowedShorts
+      .filter(({ borrow }) => borrow.borrowStatus === BorrowStatus.HARD)
+      .forEach(({ position, borrow }) => {
+        addAlert(alerts, {
+          id: `htb-short-${position.symbol}`,
+          level: "watch",
+          title: "Hard-to-borrow short",
+          detail: `${position.symbol} is hard to borrow at ${(borrow.borrowFeeRate * 100).toFixed(2)}% a year, about ${formatMoney(position.marketValue * borrow.borrowFeeRate / 360)} a day on the open short. The lender can recall the shares and force a buy-in.`,
+        });
+      });
+    marginCalls.forEach((call) => {
+      const label = call.type === MarginCallType.REG_T ? "Reg T call" : "House call";
+      const cures = ([["deposit", "deposits"], ["liquidation", "sales"], ["recovery", "higher prices"]] as Array<[MarginCallCure, string]>)
+        .filter(([cure]) => call.cured[cure] > 0)
+        .map(([cure, source]) => `${formatMoney(call.cured[cure])} by ${source}`);
+      const issued = `the ${formatMoney(call.amount)} ${label.toLowerCase()} issued ${call.issuedOn}`;
+      if (call.remaining <= 0) {
+        addAlert(alerts, {
+          id: `margin-call-${call.id}`,
+          level: "info",
+          title: `${label} met`,
+          detail: `Today’s activity met ${issued}: ${cures.join(", ")}. Update the snapshot when the broker confirms it.`,
+        });
+        return;
+      }
+      const ways = call.type === MarginCallType.REG_T
+        ? "a deposit or by selling positions held before the call"
+        : "a deposit, by selling positions, or by a recovery in prices";
+      addAlert(alerts, {
+        id: `margin-call-${call.id}`,
+        level: call.level,
+        title: call.businessDaysLeft < 0
+          ? `${label} past due`
+          : call.businessDaysLeft === 0 ? `${label} due today` : call.businessDaysLeft === 1 ? `${label} due tomorrow` : `${label} outstanding`,
+        detail: call.businessDaysLeft < 0
+          ? `${formatMoney(call.remaining)} of ${issued} was due ${call.dueOn}. The broker may sell positions without further notice to cover it.`
+          : `${formatMoney(call.remaining)} of ${issued} is due by ${call.dueOn}${call.businessDaysLeft > 1 ? `, ${call.businessDaysLeft} business days away` : ""}. Meet it with ${ways}${cures.length > 0 ? `; so far ${cures.join(", ")}` : ""}.`,
+      });
+    });
+  }
+  if (settings.accountType === AccountType.CASH) {
+    if (cashRestrictionActive) {
+      addAlert(alerts, {
+        id: "cash-restricted",
+        level: "watch",
+        title: "Settled cash only",
+        detail: `Purchases must be paid for with settled cash ${cashRestrictionEndsOn ? `through ${cashRestrictionEndsOn}` : "until the broker lifts the restriction"}; pending proceeds do not count. ${goodFaithViolations} good-faith and ${freeridingViolations} freeriding violation${freeridingViolations === 1 ? "" : "s"} in the last 12 months.`,
+      });
+    } else if (goodFaithViolations > 0 && violationsRemaining <= 1) {
+      addAlert(alerts, {
+        id: "gfv-threshold",
+        level: "watch",
+        title: violationsRemaining === 0 ? "Good-faith violation limit reached" : "One good-faith violation left",
+        detail: `${goodFaithViolations} good-faith violation${goodFaithViolations === 1 ? "" : "s"} in the 12 months to ${sessionDay}. Another before the oldest ages out brings a 90-day settled-cash restriction.`,
+      });
+    }
   }
 
   settlements.forEach((item) => {
@@ -831,6 +2036,19 @@ export const calculateAccount = (
     dtbpLimit: roundMoney(dtbpLimit),
     dtbpUsed: roundMoney(dtbpUsed),
     dtbpRemaining: roundMoney(dtbpRemaining),
+    dtbpCall: roundMoney(dtbpCall),
+    dtbpCallMet: roundMoney(dtbpCallMet),
+    dtbpCallDate,
+    dtbpCallDueDate,
+    dtbpRestriction,
+    dtbpRestrictionEndsOn,
+    marginCalls,
+    cashViolations,
+    goodFaithViolations,
+    freeridingViolations,
+    violationsRemaining,
+    cashRestrictionActive,
+    cashRestrictionEndsOn,
     maintenanceRequirement: roundMoney(maintenanceRequirement),
     maintenanceExcess: roundMoney(maintenanceExcess),
     intradayMarginLevel: roundMoney(intradayMarginLevel),
@@ -839,7 +2057,9 @@ export const calculateAccount = (
     intradayBuyingPowerUsed: roundMoney(intradayBuyingPowerUsed),
     intradayBuyingPowerRate,
     highestIntradayDeficit: roundMoney(highestIntradayDeficit),
+    ...(highestIntradayDeficitTradeId ? { highestIntradayDeficitTradeId } : {}),
     outstandingIntradayDeficit: roundMoney(outstandingIntradayDeficit),
+    intradayDeficitMet: roundMoney(intradayDeficitMet),
     intradayDeficitDueDate,
     intradayDeficitExpiresOn,
     deficitCountsTowardPractice,
@@ -851,12 +2071,25 @@ export const calculateAccount = (
     realizedPnl: roundMoney(realizedPnl),
     unrealizedPnl: roundMoney(unrealizedPnl),
     fees: roundMoney(fees),
+    netCashMovements: roundMoney(netCashMovements),
+    netIncome: roundMoney(netIncome),
+    marginDebitBalance: roundMoney(marginDebitBalance),
+    marginInterestRate: marginDebitBalance > 0 ? annualInterest / marginDebitBalance : 0,
+    marginInterestAccrual: roundMoney(marginInterestAccrual),
+    marginInterestAccrued: roundMoney(settings.marginInterestAccrued ?? 0),
+    borrowFeeAccrual: roundMoney(borrowFeeAccrual),
+    borrowFeesAccrued: roundMoney(settings.borrowFeesAccrued ?? 0),
+    pendingCarryDebit: roundMoney(marginInterestAccrual + borrowFeeAccrual),
     positions: outputPositions.sort((a, b) => a.symbol.localeCompare(b.symbol)),
+    openLots,
+    pendingSettlements,
+    optionStrategies: strategies.groups.map((group) => ({ ...group, requirement: roundMoney(group.requirement) })),
     settlements: settlements.sort((a, b) => a.settlementDate.localeCompare(b.settlementDate)),
     alerts,
     analyses,
     auditTrail,
     dayTrades,
+    pdtCounter,
     tradeCount: trades.length,
   };
 };
@@ -0,0 +1,102 @@
+import { describe, expect, test } from "vitest";
+import { calculateAccount, settlementDateFor } from "./engine";
+import { planExpirations } from "./expiration";
+import {
+  AccountSettings,
+  DEFAULT_SETTINGS,
+  InstrumentType,
+  MarginRegime,
+  OptionEventType,
+  OptionType,
+  Side,
+  Trade,
+} from "../types";
+
+const settings = (overrides: Partial<AccountSettings> = {}): AccountSettings => ({
+  ...DEFAULT_SETTINGS,
+  snapshotDate: "2026-07-27",
+  settlementHolidays: [],
+  ...overrides,
+});
+
+const trade = (overrides: Partial<Trade> = {}): Trade => ({
+  id: crypto.randomUUID(),
+  executedAt: "2026-07-27T14:30:00.000Z",
+  symbol: "SPY",
+  instrument: InstrumentType.STOCK,
+  side: Side.BUY,
+  quantity: 100,
+  price: 100,
+  fees: 0,
+  contractMultiplier: 100,
+  leverageFactor: 1,
+  ...overrides,
+});
+
+const option = (overrides: Partial<Trade>) => trade({
+  instrument: InstrumentType.OPTION,
+  quantity: 1,
+  price: 2,
+  optionType: OptionType.CALL,
+  strike: 100,
+  expiration: "2026-07-31",
+  ...overrides,
+});
+
+describe("option expiration", () => {
+  test("expires out-of-the-money contracts and assigns in-the-money shorts at the strike", () => {
+    const trades = [
+      option({ strike: 110, price: 2 }),
+      option({ side: Side.SELL_SHORT, optionType: OptionType.PUT, strike: 100, price: 3 }),
+    ];
+    const run = planExpirations(settings(), trades, "2026-07-31", { SPY: 95 });
+
+    expect(run.outcomes.map((outcome) => [outcome.symbol, outcome.event])).toEqual([
+      ["SPY 2026-07-31 100P", OptionEventType.ASSIGNMENT],
+      ["SPY 2026-07-31 110C", OptionEventType.EXPIRATION],
+    ]);
+    const delivery = run.trades.find((leg) => leg.instrument === InstrumentType.STOCK);
+    expect(delivery).toMatchObject({ side: Side.BUY, quantity: 100, price: 100, optionEvent: OptionEventType.ASSIGNMENT });
+    expect(settlementDateFor(delivery as Trade, settings())).toBe("2026-08-03");
+
+    const after = calculateAccount(settings(), [...trades, ...run.trades], "2026-07-31T20:00:00.000Z");
+    expect(after.positions).toEqual([expect.objectContaining({ symbol: "SPY", quantity: 100, averagePrice: 100 })]);
+    expect(after.realizedPnl).toBe(100);
+  });
+
+  test("exercises long puts against held shares and honours an instruction not to exercise", () => {
+    const trades = [
+      trade({ quantity: 50 }),
+      option({ optionType: OptionType.PUT, strike: 100 }),
+      option({ strike: 80 }),
+    ];
+    const run = planExpirations(settings(), trades, "2026-07-31", { SPY: 90 }, { "SPY 2026-07-31 80C": "expire" });
+    const stockLegs = run.trades.filter((leg) => leg.instrument === InstrumentType.STOCK);
+
+    expect(run.outcomes.find((outcome) => outcome.symbol === "SPY 2026-07-31 80C")?.event).toBe(OptionEventType.EXPIRATION);
+    expect(stockLegs.map((leg) => [leg.side, leg.quantity])).toEqual([[Side.SELL, 50], [Side.SELL_SHORT, 50]]);
+  });
+
+  test("leaves contracts open when the underlying has no price", () => {
+    const run = planExpirations(settings(), [option({ symbol: "QQQ" })], "2026-07-31");
+
+    expect(run.missingPrices).toEqual(["QQQ"]);
+    expect(run.outcomes[0].event).toBeNull();
+    expect(run.trades).toHaveLength(0);
+  });
+
+  test("warns of assignment on short in-the-money contracts and never counts expiry legs as day trades", () => {
+    const legacy = settings({ snapshotDate: "2026-07-30", marginRegime: MarginRegime.LEGACY_PDT });
+    const short = option({ executedAt: "2026-07-30T14:30:00.000Z", side: Side.SELL_SHORT, optionType: OptionType.PUT, strike: 100 });
+    const marks = { SPY: { symbol: "SPY", price: 97, asOf: "2026-07-30T19:00:00.000Z", source: "manual" as const } };
+    const eve = calculateAccount(legacy, [short], "2026-07-30T20:00:00.000Z", { marks });
+
+    expect(eve.alerts).toContainEqual(expect.objectContaining({ id: "assignment-risk-SPY 2026-07-31 100P", level: "watch" }));
+
+    const sameDay = option({ executedAt: "2026-07-31T14:30:00.000Z", strike: 110 });
+    const run = planExpirations(legacy, [sameDay], "2026-07-31", { SPY: 97 });
+    const after = calculateAccount(legacy, [sameDay, ...run.trades], "2026-07-31T20:00:00.000Z");
+    expect(after.dayTrades).toBe(0);
+    expect(after.alerts.some((alert) => alert.id.startsWith("gfv-") || alert.id.startsWith("freeride-"))).toBe(false);
+  });
+});
@@ -0,0 +1,166 @@
+import {
+  AccountSettings,
+  CalculationContext,
+  InstrumentType,
+  OpeningLot,
+  OptionContract,
+  OptionEventType,
+  OptionType,
+  Side,
+  Trade,
+} from "../types";
+import { calculateAccount } from "./engine";
+import { optionContractSymbol } from "./optionStrategies";
+import { marketCloseFor } from "./rollover";
+
+/** OCC exercise by exception: a contract a cent or more in the money is exercised unless instructed otherwise. */
+export const EXERCISE_THRESHOLD = 0.01;
+
+export type ExerciseInstruction = "exercise" | "expire";
+
+export interface ExpirationOutcome {
+  symbol: string;
+  contract: OptionContract;
+  side: OpeningLot["side"];
+  contracts: number;
+  multiplier: number;
+  underlyingPrice: number | null;
+  /** Per share in the money; negative when out of the money. */
+  moneyness: number | null;
+  /** Null when the underlying has no price, so the contract stays open. */
+  event: OptionEventType | null;
+  /** Underlying shares delivered: positive when bought, negative when sold. */
+  shares: number;
+}
+
+export interface ExpirationRun {
+  expiration: string;
+  outcomes: ExpirationOutcome[];
+  /** Underlyings without a price; their contracts are left open. */
+  missingPrices: string[];
+  /** Closing legs for every decided contract, then the stock deliveries at the strike. */
+  trades: Trade[];
+}
+
+const contractOf = (lot: OpeningLot): OptionContract | undefined =>
+  lot.optionType && lot.strike && lot.strike > 0 && lot.expiration
+    ? { underlying: (lot.underlying || lot.symbol).trim().toUpperCase(), optionType: lot.optionType, strike: lot.strike, expiration: lot.expiration }
+    : undefined;
+
+/**
+ * Settles every contract expiring on or before `expiration` against the
+ * underlying's closing price. Out-of-the-money contracts expire worthless;
+ * long contracts in the money are exercised and short ones assigned, each
+ * booked as a zero-price closing leg plus a stock trade at the strike stamped
+ * at that day's close, so delivery settles on the usual cycle from the
+ * expiration date. Deliveries that buy are booked before those that sell, and
+ * a sale beyond the shares held becomes a short sale.
+ */
+export const planExpirations = (
+  settings: AccountSettings,
+  trades: Trade[],
+  expiration: string,
+  prices: Record<string, number> = {},
+  instructions: Record<string, ExerciseInstruction> = {},
+  context: CalculationContext = {},
+): ExpirationRun => {
+  const closeAt = marketCloseFor(expiration);
+  const result = calculateAccount(settings, trades, closeAt, context);
+  const grouped = new Map<string, { lot: OpeningLot; contract: OptionContract; contracts: number }>();
+  result.openLots.forEach((lot) => {
+    const contract = lot.instrument === InstrumentType.OPTION ? contractOf(lot) : undefined;
+    if (!contract || contract.expiration > expiration) return;
+    const key = `${optionContractSymbol(contract)}::${lot.side}`;
+    const existing = grouped.get(key);
+    if (existing) existing.contracts += lot.quantity;
+    else grouped.set(key, { lot, contract, contracts: lot.quantity });
+  });
+
+  const priceOf = (underlying: string) =>
+    prices[underlying]
+    ?? result.positions.find((position) => position.symbol === underlying && position.instrument !== InstrumentType.OPTION)?.markPrice
+    ?? context.marks?.[underlying]?.price
+    ?? null;
+
+  const missingPrices = new Set<string>();
+  const closingLegs: Trade[] = [];
+  const outcomes = [...grouped.values()]
+    .sort((a, b) => a.contract.underlying.localeCompare(b.contract.underlying) || a.contract.strike - b.contract.strike)
+    .map(({ lot, contract, contracts }): ExpirationOutcome => {
+      const symbol = optionContractSymbol(contract);
+      const underlyingPrice = priceOf(contract.underlying);
+      const isCall = contract.optionType === OptionType.CALL;
+      const outcome = { symbol, contract, side: lot.side, contracts, multiplier: lot.contractMultiplier || 100, underlyingPrice, moneyness: null, event: null, shares: 0 };
+      if (underlyingPrice === null) {
+        missingPrices.add(contract.underlying);
+        return outcome;
+      }
+      const moneyness = isCall ? underlyingPrice - contract.strike : contract.strike - underlyingPrice;
+      const inTheMoney = moneyness > EXERCISE_THRESHOLD - 0.000_001;
+      const event = lot.side === "long"
+        ? ((instructions[symbol] ?? (inTheMoney ? "exercise" : "expire")) === "exercise" ? OptionEventType.EXERCISE : OptionEventType.EXPIRATION)
+        : (inTheMoney ? OptionEventType.ASSIGNMENT : OptionEventType.EXPIRATION);
+      const receivesShares = (lot.side === "long") === isCall;
+      const shares = event === OptionEventType.EXPIRATION ? 0 : contracts * outcome.multiplier * (receivesShares ? 1 : -1);
+      closingLegs.push({
+        id: crypto.randomUUID(),
+        executedAt: closeAt,
+        symbol: lot.symbol,
+        instrument: InstrumentType.OPTION,
+        side: lot.side === "long" ? Side.SELL : Side.BUY_TO_COVER,
+        quantity: contracts,
+        price: 0,
+        fees: 0,
+        contractMultiplier: outcome.multiplier,
+        leverageFactor: 1,
+        optionType: contract.optionType,
+        strike: contract.strike,
+        expiration: contract.expiration,
+        underlying: contract.underlying,
+        optionEvent: event,
+      });
+      return { ...outcome, moneyness, event, shares };
+    });
+
+  const held = new Map<string, number>();
+  result.positions
+    .filter((position) => position.instrument !== InstrumentType.OPTION)
+    .forEach((position) => held.set(position.symbol, position.quantity));
+  const deliveries = outcomes
+    .filter((outcome) => outcome.shares !== 0)
+    .sort((a, b) => Math.sign(b.shares) - Math.sign(a.shares));
+  const deliveryLegs = deliveries.flatMap((outcome) => {
+    const underlying = outcome.contract.underlying;
+    const stock = result.openLots.find((lot) => lot.symbol === underlying && lot.instrument !== InstrumentType.OPTION);
+    const leg = (side: Side, quantity: number): Trade => ({
+      id: crypto.randomUUID(),
+      executedAt: closeAt,
+      symbol: underlying,
+      instrument: stock?.instrument ?? InstrumentType.STOCK,
+      side,
+      quantity,
+      price: outcome.contract.strike,
+      fees: 0,
+      contractMultiplier: 100,
+      leverageFactor: stock?.leverageFactor ?? 1,
+      optionEvent: outcome.event ?? undefined,
+      notes: `${outcome.event === OptionEventType.ASSIGNMENT ? "Assigned" : "Exercised"} ${outcome.symbol}`,
+    });
+    const position = held.get(underlying) ?? 0;
+    held.set(underlying, position + outcome.shares);
+    if (outcome.shares > 0) return [leg(Side.BUY, outcome.shares)];
+    const fromLong = Math.min(Math.max(0, position), -outcome.shares);
+    const shorted = -outcome.shares - fromLong;
+    return [
+      ...(fromLong > 0 ? [leg(Side.SELL, fromLong)] : []),
+      ...(shorted > 0 ? [leg(Side.SELL_SHORT, shorted)] : []),
+    ];
+  });
+
+  return {
+    expiration,
+    outcomes,
+    missingPrices: [...missingPrices].sort(),
+    trades: [...closingLegs, ...deliveryLegs],
+  };
+};
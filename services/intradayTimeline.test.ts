@@ -0,0 +1,77 @@
+import { describe, expect, test } from "vitest";
+import { calculateAccount } from "./engine";
+import { buildIntradayTimeline } from "./intradayTimeline";
+import { AccountSettings, AccountType, DEFAULT_SETTINGS, InstrumentType, MarginRegime, Side, Trade } from "../types";
+
+const settings = (overrides: Partial<AccountSettings> = {}): AccountSettings => ({
+  ...DEFAULT_SETTINGS,
+  snapshotDate: "2026-07-27",
+  settlementHolidays: [],
+  ...overrides,
+});
+
+const trade = (id: string, executedAt: string, side: Side, quantity: number): Trade => ({
+  id,
+  executedAt,
+  symbol: "spy",
+  instrument: InstrumentType.STOCK,
+  side,
+  quantity,
+  price: 100,
+  fees: 0,
+  contractMultiplier: 100,
+  leverageFactor: 1,
+});
+
+const timelineFor = (account: AccountSettings, trades: Trade[]) =>
+  buildIntradayTimeline(account, trades, calculateAccount(account, trades, "2026-07-27T20:00:00.000Z"));
+
+describe("intraday timeline", () => {
+  test("plots IML and intraday buying power in execution order and marks the deficit high", () => {
+    const timeline = timelineFor(
+      settings({ marginRegime: MarginRegime.INTRADAY_MARGIN, startOfDayEquity: 10_000, startOfDayMaintenance: 0, brokerMarginBuyingPower: 0 }),
+      [
+        trade("sell", "2026-07-27T16:00:00.000Z", Side.SELL, 500),
+        trade("first", "2026-07-27T14:30:00.000Z", Side.BUY, 200),
+        trade("second", "2026-07-27T15:00:00.000Z", Side.BUY, 300),
+      ],
+    );
+
+    expect(timeline.series).toEqual(["iml", "intradayBuyingPower"]);
+    expect(timeline.points.map((point) => [point.tradeId, point.values.iml, point.imlReducing, point.deficitHigh])).toEqual([
+      ["first", 5_000, true, false],
+      ["second", -2_500, true, true],
+      ["sell", 10_000, false, false],
+    ]);
+    expect(timeline.points[0]).toMatchObject({ symbol: "SPY", values: { intradayBuyingPower: 20_000 } });
+    expect(timeline.references).toEqual([]);
+  });
+
+  test("tracks the DTBP committed against the day's limit for a legacy account", () => {
+    const account = settings({ marginRegime: MarginRegime.LEGACY_PDT, startOfDayMaintenance: 0 });
+    const trades = [
+      trade("buy", "2026-07-27T14:30:00.000Z", Side.BUY, 100),
+      trade("add", "2026-07-27T15:00:00.000Z", Side.BUY, 50),
+    ];
+    const result = calculateAccount(account, trades, "2026-07-27T20:00:00.000Z");
+    const timeline = buildIntradayTimeline(account, trades, result);
+
+    expect(timeline.series).toEqual(["iml", "dtbpUsed"]);
+    expect(timeline.points.map((point) => point.values.dtbpUsed)).toEqual([10_000, 15_000]);
+    expect(timeline.references).toEqual([{ label: "DTBP limit", value: result.dtbpLimit }]);
+  });
+
+  test("follows settled cash for a cash account and keeps to the latest trading day", () => {
+    const timeline = timelineFor(
+      settings({ accountType: AccountType.CASH, snapshotDate: "2026-07-24", settledCash: 30_000 }),
+      [
+        trade("friday", "2026-07-24T14:30:00.000Z", Side.BUY, 50),
+        trade("monday", "2026-07-27T14:30:00.000Z", Side.BUY, 100),
+      ],
+    );
+
+    expect(timeline.day).toBe("2026-07-27");
+    expect(timeline.series).toEqual(["settledCash"]);
+    expect(timeline.points.map((point) => [point.tradeId, point.values.settledCash])).toEqual([["monday", 15_000]]);
+  });
+});
@@ -0,0 +1,74 @@
+import { AccountSettings, AccountType, CalculationResult, MarginRegime, Trade } from "../types";
+
+export type TimelineSeries = "iml" | "intradayBuyingPower" | "dtbpUsed" | "settledCash";
+
+export const timelineSeriesLabel: Record<TimelineSeries, string> = {
+  iml: "Intraday margin level",
+  intradayBuyingPower: "Intraday buying power",
+  dtbpUsed: "DTBP committed",
+  settledCash: "Settled cash",
+};
+
+export interface TimelinePoint {
+  tradeId: string;
+  executedAt: string;
+  symbol: string;
+  values: Record<TimelineSeries, number>;
+  imlReducing: boolean;
+  /** This execution set the day's highest intraday deficit. */
+  deficitHigh: boolean;
+}
+
+export interface TimelineReference {
+  label: string;
+  value: number;
+}
+
+export interface IntradayTimeline {
+  day: string;
+  /** The series that mean something for the account's type and margin regime. */
+  series: TimelineSeries[];
+  points: TimelinePoint[];
+  references: TimelineReference[];
+}
+
+/** The balances that matter to the account's regime. */
+export const timelineSeriesFor = (settings: AccountSettings): TimelineSeries[] => {
+  if (settings.accountType === AccountType.CASH) return ["settledCash"];
+  return settings.marginRegime === MarginRegime.LEGACY_PDT ? ["iml", "dtbpUsed"] : ["iml", "intradayBuyingPower"];
+};
+
+/**
+ * The balances after each execution on the latest trading day in the ledger,
+ * in execution order, read from the analyses the engine already produced.
+ * Legacy accounts get the day's DTBP limit as a reference line.
+ */
+export const buildIntradayTimeline = (settings: AccountSettings, trades: Trade[], result: CalculationResult): IntradayTimeline => {
+  const day = trades.map((trade) => trade.executedAt.slice(0, 10)).sort().at(-1) ?? settings.snapshotDate;
+  const points = trades
+    .filter((trade) => trade.executedAt.startsWith(day) && result.analyses[trade.id])
+    .sort((a, b) => a.executedAt.localeCompare(b.executedAt))
+    .map((trade): TimelinePoint => {
+      const analysis = result.analyses[trade.id];
+      return {
+        tradeId: trade.id,
+        executedAt: trade.executedAt,
+        symbol: trade.symbol.toUpperCase(),
+        values: {
+          iml: analysis.imlAfter,
+          intradayBuyingPower: analysis.intradayBuyingPowerAfter,
+          dtbpUsed: analysis.dtbpUsedAfter,
+          settledCash: analysis.settledCashAfter,
+        },
+        imlReducing: analysis.imlReducing,
+        deficitHigh: trade.id === result.highestIntradayDeficitTradeId,
+      };
+    });
+  const series = timelineSeriesFor(settings);
+  return {
+    day,
+    series,
+    points,
+    references: series.includes("dtbpUsed") ? [{ label: "DTBP limit", value: result.dtbpLimit }] : [],
+  };
+};
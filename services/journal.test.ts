@@ -0,0 +1,148 @@
+import { describe, expect, test } from "vitest";
+import { canRedo, canRestore, canUndo, currentEntry, describeChange, recordChange, recordRollover, recordSync, redo, restoreTo, undo } from "./journal";
+import { createAccountWorkspace } from "./storage";
+import { AccountSettings, AccountWorkspace, InstrumentType, JournalKind, Side, Trade } from "../types";
+
+const trade = (id: string, overrides: Partial<Trade> = {}): Trade => ({
+  id,
+  executedAt: "2026-07-27T14:30:00.000Z",
+  symbol: "SPY",
+  instrument: InstrumentType.STOCK,
+  side: Side.BUY,
+  quantity: 100,
+  price: 100,
+  fees: 0,
+  contractMultiplier: 100,
+  leverageFactor: 1,
+  ...overrides,
+});
+
+const workspace = (trades: Trade[] = [], settings: Partial<AccountSettings> = {}): AccountWorkspace[] =>
+  [createAccountWorkspace("primary", { accountName: "Primary", ...settings }, trades)];
+
+const at = (seconds: number) => new Date(Date.UTC(2026, 6, 27, 15, 0, seconds)).toISOString();
+
+describe("change journal", () => {
+  test("names trade, settings, override and account changes", () => {
+    const base = workspace([trade("a")]);
+
+    expect(describeChange(base, workspace([trade("a"), trade("b", { side: Side.SELL_SHORT, symbol: "tsla", quantity: 5 })])))
+      .toEqual({ kind: JournalKind.ADD_TRADE, accountId: "primary", label: "Logged short sale of 5 TSLA" });
+    expect(describeChange(base, workspace([]))).toMatchObject({ kind: JournalKind.DELETE_TRADE, label: "Deleted buy of 100 SPY" });
+    expect(describeChange(base, workspace([trade("a", { price: 101 })]))).toMatchObject({ kind: JournalKind.EDIT_TRADE, label: "Edited buy of 100 SPY" });
+    expect(describeChange(base, workspace([trade("a")], { settledCash: 5_000, cashMovements: [] })))
+      .toMatchObject({ kind: JournalKind.SETTINGS, label: "Changed settled cash" });
+    expect(describeChange(base, workspace([trade("a")], { symbolMarginOverrides: { MSTR: { longMaintenancePct: 0.5 } } })))
+      .toMatchObject({ kind: JournalKind.OVERRIDES, label: "Changed margin overrides for MSTR" });
+    expect(describeChange(base, [...base, createAccountWorkspace("ira", { accountName: "IRA" })]))
+      .toEqual({ kind: JournalKind.ACCOUNT, label: "Added IRA" });
+  });
+
+  test("names sandbox scenario changes apart from settings and folds rapid edits", () => {
+    const scenario = (name: string) => ({ id: "s1", name, legs: [trade("leg")] });
+    const withScenario = (name?: string): AccountWorkspace[] =>
+      workspace().map((account) => ({ ...account, scenarios: name ? [scenario(name)] : [] }));
+
+    expect(describeChange(workspace(), withScenario("Hedge")))
+      .toEqual({ kind: JournalKind.SCENARIOS, accountId: "primary", label: "Added scenario “Hedge”" });
+    expect(describeChange(withScenario("Hedge"), workspace())).toMatchObject({ label: "Removed scenario “Hedge”" });
+
+    let journal = recordChange(null, withScenario("Hedge"), at(0));
+    const edited = (price: number) => withScenario("Hedge").map((account) => ({
+      ...account,
+      scenarios: account.scenarios.map((item) => ({ ...item, legs: [trade("leg", { price })] })),
+    }));
+    journal = recordChange(journal, edited(1), at(10));
+    journal = recordChange(journal, edited(12), at(11));
+    expect(journal.entries.map((entry) => entry.label)).toEqual(["Opened the workspace", "Edited scenario “Hedge”"]);
+  });
+
+  test("undoes and redoes without dropping entries, and a new change clears redo", () => {
+    const opened = workspace();
+    const added = workspace([trade("a")]);
+    const deleted = workspace([]);
+    let journal = recordChange(null, opened, at(0));
+    journal = recordChange(journal, added, at(10));
+    journal = recordChange(journal, deleted, at(20));
+
+    journal = undo(journal);
+    expect(currentEntry(journal).accounts).toBe(added);
+    expect(canRedo(journal)).toBe(true);
+    expect(recordChange(journal, added, at(21))).toBe(journal);
+
+    journal = redo(journal);
+    expect(currentEntry(journal).accounts).toBe(deleted);
+
+    journal = undo(undo(journal));
+    expect(currentEntry(journal).kind).toBe(JournalKind.BASELINE);
+    expect(canUndo(journal)).toBe(false);
+
+    journal = recordChange(journal, workspace([trade("b")]), at(30));
+    expect(canRedo(journal)).toBe(false);
+    expect(journal.entries.map((entry) => entry.kind)).toEqual([
+      JournalKind.BASELINE, JournalKind.ADD_TRADE, JournalKind.DELETE_TRADE, JournalKind.ADD_TRADE,
+    ]);
+  });
+
+  test("restores an earlier point as a new entry that can itself be undone", () => {
+    const added = workspace([trade("a")]);
+    let journal = recordChange(null, workspace(), at(0));
+    journal = recordChange(journal, added, at(10));
+    journal = recordChange(journal, workspace([]), at(20));
+    const target = journal.entries[1];
+
+    journal = restoreTo(journal, target.id, at(30));
+    expect(currentEntry(journal)).toMatchObject({ kind: JournalKind.RESTORE, accounts: added, parentId: journal.entries[2].id });
+    expect(journal.entries).toHaveLength(4);
+
+    journal = undo(journal);
+    expect(currentEntry(journal).kind).toBe(JournalKind.DELETE_TRADE);
+  });
+
+  test("stops undo, redo and restore at a closed day", () => {
+    const open = workspace([trade("a")], { snapshotDate: "2026-07-27" });
+    const closed = workspace([], { snapshotDate: "2026-07-28" });
+    let journal = recordChange(null, workspace(), at(0));
+    journal = recordChange(journal, open, at(10));
+    journal = recordChange(journal, workspace([trade("a"), trade("b")], { snapshotDate: "2026-07-27" }), at(20));
+    journal = undo(journal);
+    expect(canRedo(journal)).toBe(true);
+
+    journal = recordRollover(journal, closed, "primary", "Closed 2026-07-27", at(30));
+    expect(currentEntry(journal)).toMatchObject({ kind: JournalKind.ROLLOVER, accounts: closed });
+    expect(canUndo(journal)).toBe(false);
+    expect(canRedo(journal)).toBe(false);
+    expect(undo(journal)).toBe(journal);
+
+    const opened = journal.entries[1];
+    expect(canRestore(journal, opened.id)).toBe(false);
+    expect(restoreTo(journal, opened.id, at(40))).toBe(journal);
+
+    journal = recordChange(journal, workspace([trade("c")], { snapshotDate: "2026-07-28" }), at(50));
+    journal = undo(journal);
+    expect(currentEntry(journal).accounts).toBe(closed);
+    expect(canUndo(journal)).toBe(false);
+  });
+
+  test("records a cloud merge as one undoable entry", () => {
+    const merged = workspace([trade("a"), trade("b")], { settledCash: 4_000 });
+    let journal = recordChange(null, workspace([trade("a")]), at(0));
+    journal = recordSync(journal, merged, "Merged cloud changes", at(10));
+
+    expect(currentEntry(journal)).toMatchObject({ kind: JournalKind.SYNC, label: "Merged cloud changes", accounts: merged });
+    expect(recordSync(journal, merged, "Merged cloud changes", at(20))).toBe(journal);
+    expect(currentEntry(undo(journal)).kind).toBe(JournalKind.BASELINE);
+  });
+
+  test("folds rapid repeats of one settings change into a single entry but never trades", () => {
+    let journal = recordChange(null, workspace(), at(0));
+    journal = recordChange(journal, workspace([], { settledCash: 1 }), at(10));
+    journal = recordChange(journal, workspace([], { settledCash: 12 }), at(11));
+    expect(journal.entries).toHaveLength(2);
+    expect(currentEntry(journal).accounts[0].settings.settledCash).toBe(12);
+
+    journal = recordChange(journal, workspace([trade("a")], { settledCash: 12 }), at(12));
+    journal = recordChange(journal, workspace([trade("a"), trade("b")], { settledCash: 12 }), at(12));
+    expect(journal.entries).toHaveLength(4);
+  });
+});
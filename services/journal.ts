@@ -0,0 +1,227 @@
+import { AccountSettings, AccountWorkspace, ChangeJournal, JournalEntry, JournalKind, Side, Trade } from "../types";
+
+/** Oldest entries beyond this are dropped; the current entry and anything redoable are always kept. */
+export const JOURNAL_LIMIT = 100;
+
+/** Repeats of the same settings change this close together, such as typing into a field, fold into one entry. */
+export const JOURNAL_COALESCE_MS = 1_500;
+
+const sideLabel: Record<Side, string> = {
+  [Side.BUY]: "buy",
+  [Side.SELL]: "sell",
+  [Side.SELL_SHORT]: "short sale",
+  [Side.BUY_TO_COVER]: "cover",
+};
+
+const settingLabel: Partial<Record<keyof AccountSettings, string>> = {
+  symbolMarginOverrides: "margin overrides",
+  cashMovements: "cash movements",
+  incomeEvents: "income events",
+  corporateActions: "corporate actions",
+  shortLocates: "short locates",
+  importProfiles: "import profiles",
+  brokerStatement: "broker statement",
+  reconciliationTolerance: "reconciliation tolerance",
+  marginRegime: "margin regime",
+  accountType: "account type",
+  snapshotDate: "snapshot date",
+};
+
+const same = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+const words = (key: string) => key.replace(/([A-Z])/g, " $1").toLowerCase();
+
+const describeTrade = (trade: Trade) => `${sideLabel[trade.side]} of ${trade.quantity.toLocaleString("en-US")} ${trade.symbol.toUpperCase()}`;
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+/**
+ * Names the change between two workspaces: accounts added or removed first,
+ * then trades added, deleted or edited, then sandbox scenarios, then
+ * settings, with a change to the per-symbol margin overrides alone reported
+ * as an override change.
+ */
+export const describeChange = (
+  before: AccountWorkspace[],
+  after: AccountWorkspace[],
+): Pick<JournalEntry, "kind" | "label" | "accountId"> => {
+  const added = after.filter((account) => !before.some((candidate) => candidate.id === account.id));
+  const removed = before.filter((account) => !after.some((candidate) => candidate.id === account.id));
+  if (added.length > 0) return { kind: JournalKind.ACCOUNT, label: `Added ${added.map((account) => account.settings.accountName).join(", ")}` };
+  if (removed.length > 0) return { kind: JournalKind.ACCOUNT, label: `Removed ${removed.map((account) => account.settings.accountName).join(", ")}` };
+
+  const changed = after.find((account) => !same(account, before.find((candidate) => candidate.id === account.id)));
+  const previous = changed && before.find((candidate) => candidate.id === changed.id);
+  if (!changed || !previous) return { kind: JournalKind.SETTINGS, label: "Reordered accounts" };
+
+  const newTrades = changed.trades.filter((trade) => !previous.trades.some((candidate) => candidate.id === trade.id));
+  const deleted = previous.trades.filter((trade) => !changed.trades.some((candidate) => candidate.id === trade.id));
+  const edited = changed.trades.filter((trade) => {
+    const original = previous.trades.find((candidate) => candidate.id === trade.id);
+    return original && !same(original, trade);
+  });
+  const accountId = changed.id;
+  if (newTrades.length > 0) {
+    return { kind: JournalKind.ADD_TRADE, accountId, label: newTrades.length === 1 ? `Logged ${describeTrade(newTrades[0])}` : `Logged ${plural(newTrades.length, "trade")}` };
+  }
+  if (deleted.length > 0) {
+    return { kind: JournalKind.DELETE_TRADE, accountId, label: deleted.length === 1 ? `Deleted ${describeTrade(deleted[0])}` : `Deleted ${plural(deleted.length, "trade")}` };
+  }
+  if (edited.length > 0) {
+    return { kind: JournalKind.EDIT_TRADE, accountId, label: edited.length === 1 ? `Edited ${describeTrade(edited[0])}` : `Edited ${plural(edited.length, "trade")}` };
+  }
+
+  if (!same(changed.scenarios, previous.scenarios)) {
+    const scenario = changed.scenarios.find((candidate) => !same(candidate, previous.scenarios.find((item) => item.id === candidate.id)));
+    const dropped = previous.scenarios.find((candidate) => !changed.scenarios.some((item) => item.id === candidate.id));
+    return {
+      kind: JournalKind.SCENARIOS,
+      accountId,
+      label: scenario
+        ? `${previous.scenarios.some((item) => item.id === scenario.id) ? "Edited" : "Added"} scenario “${scenario.name}”`
+        : `Removed scenario “${dropped?.name ?? ""}”`,
+    };
+  }
+
+  const keys = (Object.keys(changed.settings) as Array<keyof AccountSettings>)
+    .filter((key) => !same(changed.settings[key], previous.settings[key]));
+  if (keys.length === 1 && keys[0] === "symbolMarginOverrides") {
+    const symbols = [...new Set([...Object.keys(changed.settings.symbolMarginOverrides), ...Object.keys(previous.settings.symbolMarginOverrides)])]
+      .filter((symbol) => !same(changed.settings.symbolMarginOverrides[symbol], previous.settings.symbolMarginOverrides[symbol]));
+    return { kind: JournalKind.OVERRIDES, accountId, label: `Changed margin overrides for ${symbols.join(", ") || "the catalog"}` };
+  }
+  const names = keys.length > 0 ? keys.map((key) => settingLabel[key] ?? words(key)) : ["settings"];
+  return {
+    kind: JournalKind.SETTINGS,
+    accountId,
+    label: `Changed ${names.slice(0, 3).join(", ")}${names.length > 3 ? ` and ${plural(names.length - 3, "other setting")}` : ""}`,
+  };
+};
+
+export const currentEntry = (journal: ChangeJournal) =>
+  journal.entries.find((entry) => entry.id === journal.currentId) ?? journal.entries[journal.entries.length - 1];
+
+export const canUndo = (journal: ChangeJournal | null) => {
+  const current = journal && currentEntry(journal);
+  return Boolean(current?.parentId && journal?.entries.some((entry) => entry.id === current.parentId));
+};
+
+export const canRedo = (journal: ChangeJournal | null) => Boolean(journal && journal.redo.length > 0);
+
+const trim = (entries: JournalEntry[], keep: Set<string>) => {
+  const excess = entries.length - JOURNAL_LIMIT;
+  if (excess <= 0) return entries;
+  const dropped = new Set(entries.filter((entry) => !keep.has(entry.id)).slice(0, excess).map((entry) => entry.id));
+  return entries.filter((entry) => !dropped.has(entry.id));
+};
+
+const append = (journal: ChangeJournal, entry: JournalEntry): ChangeJournal => ({
+  entries: trim([...journal.entries, entry], new Set([entry.id])),
+  currentId: entry.id,
+  redo: [],
+});
+
+/**
+ * Appends the workspace as a new entry unless it is already the current one.
+ * The first call opens the journal with a baseline. A settings or scenario
+ * change with the same label to the same account within the coalescing window,
+ * with nothing to redo, replaces the snapshot of the entry before it instead
+ * of adding another.
+ */
+export const recordChange = (
+  journal: ChangeJournal | null,
+  accounts: AccountWorkspace[],
+  at = new Date().toISOString(),
+): ChangeJournal => {
+  if (!journal || journal.entries.length === 0) {
+    const id = crypto.randomUUID();
+    return { entries: [{ id, at, kind: JournalKind.BASELINE, label: "Opened the workspace", accounts }], currentId: id, redo: [] };
+  }
+  const current = currentEntry(journal);
+  if (same(current.accounts, accounts)) return journal;
+
+  const change = describeChange(current.accounts, accounts);
+  const latest = journal.entries[journal.entries.length - 1];
+  if (
+    latest.id === current.id
+    && journal.redo.length === 0
+    && [JournalKind.SETTINGS, JournalKind.OVERRIDES, JournalKind.SCENARIOS].includes(change.kind)
+    && latest.kind === change.kind
+    && latest.label === change.label
+    && latest.accountId === change.accountId
+    && Date.parse(at) - Date.parse(latest.at) <= JOURNAL_COALESCE_MS
+  ) {
+    return { ...journal, entries: [...journal.entries.slice(0, -1), { ...latest, at, accounts }] };
+  }
+  return append(journal, { id: crypto.randomUUID(), at, ...change, parentId: current.id, accounts });
+};
+
+/**
+ * Records a closed day. The archive it wrote is permanent, so the entry has no
+ * parent and clears redo: nothing before the close, in any account, can be
+ * brought back over it.
+ */
+export const recordRollover = (
+  journal: ChangeJournal | null,
+  accounts: AccountWorkspace[],
+  accountId: string,
+  label: string,
+  at = new Date().toISOString(),
+): ChangeJournal => {
+  if (!journal || journal.entries.length === 0) return recordChange(journal, accounts, at);
+  return append(journal, { id: crypto.randomUUID(), at, kind: JournalKind.ROLLOVER, label, accountId, accounts });
+};
+
+/** Records cloud changes merged into the workspace as one undoable entry, whatever records they touched. */
+export const recordSync = (
+  journal: ChangeJournal | null,
+  accounts: AccountWorkspace[],
+  label: string,
+  at = new Date().toISOString(),
+): ChangeJournal => {
+  if (!journal || journal.entries.length === 0) return recordChange(journal, accounts, at);
+  const current = currentEntry(journal);
+  if (same(current.accounts, accounts)) return journal;
+  return append(journal, { id: crypto.randomUUID(), at, kind: JournalKind.SYNC, label, parentId: current.id, accounts });
+};
+
+/** Entries older than the latest closed day cannot be restored. */
+export const canRestore = (journal: ChangeJournal, entryId: string) => {
+  const index = journal.entries.findIndex((entry) => entry.id === entryId);
+  const barrier = journal.entries.map((entry) => entry.kind).lastIndexOf(JournalKind.ROLLOVER);
+  return index >= 0 && index >= barrier;
+};
+
+/** Steps back to the entry the current one was made from. */
+export const undo = (journal: ChangeJournal): ChangeJournal => {
+  if (!canUndo(journal)) return journal;
+  const current = currentEntry(journal);
+  return { ...journal, currentId: current.parentId as string, redo: [...journal.redo, current.id] };
+};
+
+/** Re-applies the most recently undone entry. */
+export const redo = (journal: ChangeJournal): ChangeJournal => {
+  const next = journal.redo[journal.redo.length - 1];
+  if (!next || !journal.entries.some((entry) => entry.id === next)) return { ...journal, redo: [] };
+  return { ...journal, currentId: next, redo: journal.redo.slice(0, -1) };
+};
+
+/**
+ * Brings back the workspace as it stood after an earlier entry. Nothing is
+ * removed: the restore is appended as a change of its own, so it can be undone.
+ */
+export const restoreTo = (journal: ChangeJournal, entryId: string, at = new Date().toISOString()): ChangeJournal => {
+  const target = journal.entries.find((entry) => entry.id === entryId);
+  const current = currentEntry(journal);
+  if (!target || target.id === current.id || !canRestore(journal, entryId)) return journal;
+  const when = new Date(target.at).toLocaleString("en-US", { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+  return append(journal, {
+    id: crypto.randomUUID(),
+    at,
+    kind: JournalKind.RESTORE,
+    label: `Restored to “${target.label}” (${when})`,
+    accountId: target.accountId,
+    parentId: current.id,
+    accounts: target.accounts,
+  });
+};
@@ -0,0 +1,81 @@
+import { describe, expect, test } from "vitest";
+import { OptionLeg, groupOptionStrategies, nakedShortRequirement, optionContractSymbol } from "./optionStrategies";
+import { OptionStrategy, OptionType } from "../types";
+
+const leg = (optionType: OptionType, strike: number, quantity: number, markPrice: number): OptionLeg => {
+  const contract = { underlying: "XYZ", optionType, strike, expiration: "2026-08-21" };
+  return { key: optionContractSymbol(contract), symbol: optionContractSymbol(contract), contract, quantity, markPrice, multiplier: 100 };
+};
+
+const group = (legs: OptionLeg[], shares = 0, cashSecuredPuts = false) =>
+  groupOptionStrategies({
+    legs,
+    holdings: shares ? [{ underlying: "XYZ", quantity: shares }] : [],
+    underlyingPrice: () => 100,
+    cashSecuredPuts,
+  });
+
+describe("option strategy requirements", () => {
+  test("charges an uncovered call 20% of the underlying less the out-of-the-money amount", () => {
+    const call = leg(OptionType.CALL, 105, -1, 2);
+
+    expect(nakedShortRequirement(call, 1, 100)).toBe(1_700);
+    expect(nakedShortRequirement(leg(OptionType.CALL, 140, -1, 0.1), 1, 100)).toBe(1_010);
+  });
+
+  test("uses the exercise price for the uncovered put minimum", () => {
+    expect(nakedShortRequirement(leg(OptionType.PUT, 60, -1, 0.05), 1, 100)).toBe(605);
+  });
+
+  test("limits a credit spread to the strike width", () => {
+    const short = leg(OptionType.CALL, 100, -2, 3);
+    const long = leg(OptionType.CALL, 105, 2, 1);
+    const { groups, requirements } = group([short, long]);
+
+    expect(groups.map((item) => item.strategy)).toEqual([OptionStrategy.VERTICAL]);
+    expect(requirements.get(short.key)).toBe(1_000);
+    expect(requirements.get(long.key)).toBe(200);
+  });
+
+  test("offsets a call written against long shares", () => {
+    const call = leg(OptionType.CALL, 110, -2, 1.5);
+    const { groups, requirements } = group([call], 150);
+
+    expect(groups.map((item) => [item.strategy, item.contracts])).toEqual([
+      [OptionStrategy.COVERED_CALL, 1],
+      [OptionStrategy.NAKED, 1],
+    ]);
+    expect(requirements.get(call.key)).toBe(1_150);
+  });
+
+  test("margins an iron condor at its wider spread only", () => {
+    const legs = [
+      leg(OptionType.PUT, 90, 1, 0.5),
+      leg(OptionType.PUT, 95, -1, 1.2),
+      leg(OptionType.CALL, 105, -1, 1.1),
+      leg(OptionType.CALL, 112, 1, 0.4),
+    ];
+    const { groups } = group(legs);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0]).toEqual(expect.objectContaining({ strategy: OptionStrategy.IRON_CONDOR, requirement: 700 }));
+  });
+
+  test("charges a short straddle the greater side plus the other premium", () => {
+    const call = leg(OptionType.CALL, 100, -1, 4);
+    const put = leg(OptionType.PUT, 100, -1, 3);
+    const { groups, requirements } = group([call, put]);
+
+    expect(groups[0].strategy).toBe(OptionStrategy.STRADDLE);
+    expect(requirements.get(call.key)).toBe(2_400);
+    expect(requirements.get(put.key)).toBe(300);
+  });
+
+  test("secures short puts with the full exercise value in a cash account", () => {
+    const put = leg(OptionType.PUT, 95, -1, 2);
+    const { groups, requirements } = group([put], 0, true);
+
+    expect(groups[0].strategy).toBe(OptionStrategy.CASH_SECURED_PUT);
+    expect(requirements.get(put.key)).toBe(9_500);
+  });
+});
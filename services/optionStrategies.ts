@@ -0,0 +1,236 @@
+import {
+  OptionContract,
+  OptionStrategy,
+  OptionStrategyGroup,
+  OptionType,
+  Trade,
+} from "../types";
+
+const EPSILON = 0.000_001;
+
+export interface OptionLeg {
+  key: string;
+  symbol: string;
+  contract: OptionContract;
+  /** Signed contracts: positive long, negative short. */
+  quantity: number;
+  markPrice: number;
+  multiplier: number;
+}
+
+export interface UnderlyingHolding {
+  underlying: string;
+  /** Signed shares. */
+  quantity: number;
+}
+
+export interface StrategyInputs {
+  legs: OptionLeg[];
+  holdings: UnderlyingHolding[];
+  underlyingPrice: (underlying: string, fallback: number) => number;
+  /** Cash accounts cannot carry naked puts, so unpaired short puts are cash-secured. */
+  cashSecuredPuts: boolean;
+}
+
+export interface StrategyResult {
+  groups: OptionStrategyGroup[];
+  requirements: Map<string, number>;
+}
+
+export const optionContractFor = (
+  trade: Pick<Trade, "symbol" | "optionType" | "strike" | "expiration" | "underlying">,
+): OptionContract | undefined => {
+  if (!trade.optionType || !(trade.strike && trade.strike > 0) || !trade.expiration) return undefined;
+  return {
+    underlying: (trade.underlying || trade.symbol).trim().toUpperCase(),
+    optionType: trade.optionType,
+    strike: trade.strike,
+    expiration: trade.expiration,
+  };
+};
+
+export const optionContractSymbol = (contract: OptionContract) =>
+  `${contract.underlying} ${contract.expiration} ${contract.strike}${contract.optionType === OptionType.CALL ? "C" : "P"}`;
+
+const outOfTheMoney = (contract: OptionContract, underlyingPrice: number) =>
+  contract.optionType === OptionType.CALL
+    ? Math.max(0, contract.strike - underlyingPrice)
+    : Math.max(0, underlyingPrice - contract.strike);
+
+/**
+ * FINRA Rule 4210(f)(2)(G): 100% of the option's current value plus 20% of
+ * the underlying, less any out-of-the-money amount, but never below the option
+ * value plus 10% of the underlying (calls) or of the exercise price (puts).
+ */
+export const nakedShortRequirement = (leg: OptionLeg, contracts: number, underlyingPrice: number) => {
+  const units = contracts * leg.multiplier;
+  const premium = leg.markPrice * units;
+  const standard = premium + 0.20 * underlyingPrice * units - outOfTheMoney(leg.contract, underlyingPrice) * units;
+  const minimum = premium + 0.10 * units * (leg.contract.optionType === OptionType.CALL ? underlyingPrice : leg.contract.strike);
+  return Math.max(standard, minimum);
+};
+
+const spreadRequirement = (long: OptionLeg, short: OptionLeg, contracts: number) => {
+  const width = short.contract.optionType === OptionType.CALL
+    ? long.contract.strike - short.contract.strike
+    : short.contract.strike - long.contract.strike;
+  return Math.max(0, width) * contracts * short.multiplier;
+};
+
+// A long leg only covers a short leg when it lives at least as long.
+const coversShort = (long: OptionLeg, short: OptionLeg) =>
+  long.contract.underlying === short.contract.underlying
+  && long.contract.optionType === short.contract.optionType
+  && long.multiplier === short.multiplier
+  && long.contract.expiration >= short.contract.expiration;
+
+/**
+ * Pairs option positions into the strategies FINRA 4210 margins as a unit and
+ * returns the maintenance requirement carried by each position key. Long legs
+ * keep their paid-in-full requirement; offsets reduce only the short legs.
+ */
+export const groupOptionStrategies = ({
+  legs,
+  holdings,
+  underlyingPrice,
+  cashSecuredPuts,
+}: StrategyInputs): StrategyResult => {
+  const remaining = new Map(legs.map((leg) => [leg.key, Math.abs(leg.quantity)]));
+  const shares = new Map<string, number>();
+  holdings.forEach((holding) => shares.set(holding.underlying, (shares.get(holding.underlying) ?? 0) + holding.quantity));
+  const requirements = new Map<string, number>();
+  const groups: OptionStrategyGroup[] = [];
+
+  const charge = (key: string, amount: number) => requirements.set(key, (requirements.get(key) ?? 0) + amount);
+  const take = (leg: OptionLeg, contracts: number) => remaining.set(leg.key, (remaining.get(leg.key) ?? 0) - contracts);
+  const open = (leg: OptionLeg) => (remaining.get(leg.key) ?? 0) > EPSILON;
+  const priceOf = (leg: OptionLeg) => underlyingPrice(leg.contract.underlying, leg.contract.strike);
+
+  const longs = legs.filter((leg) => leg.quantity > 0);
+  const shorts = legs.filter((leg) => leg.quantity < 0);
+  longs.forEach((leg) => charge(leg.key, leg.markPrice * leg.quantity * leg.multiplier));
+
+  // Tightest cover first keeps the spread requirement as small as possible.
+  const bestCover = (short: OptionLeg) => longs
+    .filter((long) => open(long) && coversShort(long, short))
+    .sort((a, b) => spreadRequirement(a, short, 1) - spreadRequirement(b, short, 1))[0];
+
+  const pushGroup = (strategy: OptionStrategy, description: string, members: OptionLeg[], contracts: number, requirement: number) => {
+    groups.push({
+      id: `${strategy}-${members.map((leg) => leg.key).join("+")}-${groups.length}`,
+      strategy,
+      underlying: members[0].contract.underlying,
+      description,
+      contracts,
+      legs: members.map((leg) => ({ symbol: leg.symbol, quantity: leg.quantity < 0 ? -contracts : contracts })),
+      requirement,
+    });
+  };
+
+  // Iron condors: a short put spread below a short call spread.
+  shorts.filter((leg) => leg.contract.optionType === OptionType.PUT).forEach((shortPut) => {
+    shorts.filter((leg) => leg.contract.optionType === OptionType.CALL
+      && leg.contract.underlying === shortPut.contract.underlying
+      && leg.contract.expiration === shortPut.contract.expiration
+      && leg.contract.strike > shortPut.contract.strike).forEach((shortCall) => {
+      while (open(shortPut) && open(shortCall)) {
+        const longPut = longs.find((long) => open(long) && coversShort(long, shortPut) && long.contract.strike < shortPut.contract.strike);
+        const longCall = longs.find((long) => open(long) && coversShort(long, shortCall) && long.contract.strike > shortCall.contract.strike);
+        if (!longPut || !longCall) return;
+        const contracts = Math.min(...[shortPut, shortCall, longPut, longCall].map((leg) => remaining.get(leg.key) ?? 0));
+        const requirement = Math.max(
+          spreadRequirement(longPut, shortPut, contracts),
+          spreadRequirement(longCall, shortCall, contracts),
+        );
+        [shortPut, shortCall, longPut, longCall].forEach((leg) => take(leg, contracts));
+        charge(shortPut.key, requirement / 2);
+        charge(shortCall.key, requirement / 2);
+        pushGroup(
+          OptionStrategy.IRON_CONDOR,
+          `${longPut.contract.strike}/${shortPut.contract.strike}/${shortCall.contract.strike}/${longCall.contract.strike} iron condor`,
+          [longPut, shortPut, shortCall, longCall],
+          contracts,
+          requirement,
+        );
+      }
+    });
+  });
+
+  // Verticals (and same-strike calendars) against a long leg that covers the short.
+  shorts.forEach((short) => {
+    let cover = bestCover(short);
+    while (open(short) && cover) {
+      const contracts = Math.min(remaining.get(short.key) ?? 0, remaining.get(cover.key) ?? 0);
+      const requirement = spreadRequirement(cover, short, contracts);
+      take(short, contracts);
+      take(cover, contracts);
+      charge(short.key, requirement);
+      pushGroup(
+        OptionStrategy.VERTICAL,
+        `${cover.contract.strike}/${short.contract.strike} ${short.contract.optionType} ${requirement > EPSILON ? "credit" : "debit"} spread`,
+        [cover, short],
+        contracts,
+        requirement,
+      );
+      cover = bestCover(short);
+    }
+  });
+
+  // Covered calls: 100% of the short call is offset by long underlying shares.
+  shorts.filter((leg) => leg.contract.optionType === OptionType.CALL).forEach((short) => {
+    const available = Math.floor(((shares.get(short.contract.underlying) ?? 0) + EPSILON) / short.multiplier);
+    const contracts = Math.min(available, remaining.get(short.key) ?? 0);
+    if (contracts <= 0) return;
+    take(short, contracts);
+    shares.set(short.contract.underlying, (shares.get(short.contract.underlying) ?? 0) - contracts * short.multiplier);
+    charge(short.key, 0);
+    pushGroup(OptionStrategy.COVERED_CALL, `${short.contract.strike} call covered by ${contracts * short.multiplier} shares`, [short], contracts, 0);
+  });
+
+  // Short straddles and strangles: the greater naked requirement plus the other leg's value.
+  shorts.filter((leg) => leg.contract.optionType === OptionType.CALL).forEach((shortCall) => {
+    shorts.filter((leg) => leg.contract.optionType === OptionType.PUT
+      && leg.contract.underlying === shortCall.contract.underlying
+      && leg.contract.expiration === shortCall.contract.expiration
+      && leg.multiplier === shortCall.multiplier).forEach((shortPut) => {
+      if (!open(shortCall) || !open(shortPut) || cashSecuredPuts) return;
+      const contracts = Math.min(remaining.get(shortCall.key) ?? 0, remaining.get(shortPut.key) ?? 0);
+      const price = priceOf(shortCall);
+      const callRequirement = nakedShortRequirement(shortCall, contracts, price);
+      const putRequirement = nakedShortRequirement(shortPut, contracts, price);
+      const callPremium = shortCall.markPrice * contracts * shortCall.multiplier;
+      const putPremium = shortPut.markPrice * contracts * shortPut.multiplier;
+      const callControls = callRequirement >= putRequirement;
+      charge(shortCall.key, callControls ? callRequirement : callPremium);
+      charge(shortPut.key, callControls ? putPremium : putRequirement);
+      take(shortCall, contracts);
+      take(shortPut, contracts);
+      pushGroup(
+        OptionStrategy.STRADDLE,
+        shortCall.contract.strike === shortPut.contract.strike
+          ? `Short ${shortCall.contract.strike} straddle`
+          : `Short ${shortPut.contract.strike}/${shortCall.contract.strike} strangle`,
+        [shortPut, shortCall],
+        contracts,
+        Math.max(callRequirement + putPremium, putRequirement + callPremium),
+      );
+    });
+  });
+
+  shorts.forEach((short) => {
+    const contracts = remaining.get(short.key) ?? 0;
+    if (contracts <= EPSILON) return;
+    take(short, contracts);
+    if (short.contract.optionType === OptionType.PUT && cashSecuredPuts) {
+      const requirement = short.contract.strike * contracts * short.multiplier;
+      charge(short.key, requirement);
+      pushGroup(OptionStrategy.CASH_SECURED_PUT, `${short.contract.strike} put secured by cash`, [short], contracts, requirement);
+      return;
+    }
+    const requirement = nakedShortRequirement(short, contracts, priceOf(short));
+    charge(short.key, requirement);
+    pushGroup(OptionStrategy.NAKED, `Uncovered ${short.contract.strike} ${short.contract.optionType}`, [short], contracts, requirement);
+  });
+
+  return { groups, requirements };
+};
@@ -0,0 +1,65 @@
+import { describe, expect, test } from "vitest";
+import { sizeOrder } from "./orderSizer";
+import {
+  AccountSettings,
+  AccountType,
+  DEFAULT_SETTINGS,
+  InstrumentType,
+  MarginRegime,
+  Side,
+  Trade,
+} from "../types";
+
+const settings = (overrides: Partial<AccountSettings> = {}): AccountSettings => ({
+  ...DEFAULT_SETTINGS,
+  snapshotDate: "2026-07-27",
+  settlementHolidays: [],
+  ...overrides,
+});
+
+const order = (overrides: Partial<Trade> = {}): Trade => ({
+  id: "preview",
+  executedAt: "2026-07-27T14:30:00.000Z",
+  symbol: "XYZ",
+  instrument: InstrumentType.STOCK,
+  side: Side.BUY,
+  quantity: 1,
+  price: 100,
+  fees: 0,
+  contractMultiplier: 100,
+  leverageFactor: 1,
+  ...overrides,
+});
+
+describe("order sizer", () => {
+  test("solves for the largest purchase that keeps IML non-negative", () => {
+    const sizing = sizeOrder(settings(), [], order());
+
+    expect(sizing).toMatchObject({ quantity: 1_200, limitedBy: "iml" });
+    expect(sizing.analysis?.imlAfter).toBe(0);
+  });
+
+  test("holds back the cushion", () => {
+    expect(sizeOrder(settings(), [], order(), 5_000).quantity).toBe(1_000);
+  });
+
+  test("stops at the legacy DTBP limit", () => {
+    const sizing = sizeOrder(settings({ marginRegime: MarginRegime.LEGACY_PDT, brokerDtbp: 50_000 }), [], order());
+
+    expect(sizing).toMatchObject({ quantity: 500, limitedBy: "dtbp" });
+  });
+
+  test("keeps cash-account purchases fully funded", () => {
+    const sizing = sizeOrder(settings({ accountType: AccountType.CASH, settledCash: 10_050 }), [], order({ fees: 50 }));
+
+    expect(sizing).toMatchObject({ quantity: 100, limitedBy: "cash" });
+  });
+
+  test("never sizes a sale beyond the tracked position", () => {
+    const held = order({ id: "held", quantity: 150 });
+    const sizing = sizeOrder(settings(), [held], order({ side: Side.SELL, executedAt: "2026-07-27T15:00:00.000Z" }));
+
+    expect(sizing).toMatchObject({ quantity: 150, limitedBy: "position" });
+    expect(sizeOrder(settings(), [], order({ side: Side.SELL }))).toMatchObject({ quantity: 0, limitedBy: "position" });
+  });
+});
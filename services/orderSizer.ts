@@ -0,0 +1,128 @@
+import {
+  AccountSettings,
+  AccountType,
+  CalculationContext,
+  CalculationResult,
+  MarginRegime,
+  Trade,
+  TradeAnalysis,
+} from "../types";
+import { calculateAccount, formatMoney } from "./engine";
+
+export type SizingLimit = "position" | "cash" | "iml" | "dtbp";
+
+export interface OrderSizing {
+  /** Largest whole quantity that passes every check; 0 when even one unit fails. */
+  quantity: number;
+  /** The check that stops the next unit, or null when the search hit its ceiling. */
+  limitedBy: SizingLimit | null;
+  message: string;
+  analysis?: TradeAnalysis;
+  result?: CalculationResult;
+}
+
+const SIZING_ID = "sizing";
+const MAX_QUANTITY = 10_000_000;
+
+const evaluate = (
+  settings: AccountSettings,
+  trades: Trade[],
+  order: Trade,
+  quantity: number,
+  cushion: number,
+  context: CalculationContext,
+) => {
+  const result = calculateAccount(settings, [...trades, { ...order, id: SIZING_ID, quantity }], undefined, context);
+  const analysis = result.analyses[SIZING_ID];
+  let limit: SizingLimit | null = null;
+  if (result.alerts.some((alert) => alert.id === `oversell-${SIZING_ID}` || alert.id === `overcover-${SIZING_ID}`)) {
+    limit = "position";
+  } else if ((analysis?.unfundedAmount ?? 0) > 0) {
+    limit = "cash";
+  } else if (settings.accountType === AccountType.CASH) {
+    if (result.cashAvailableToTrade < cushion) limit = "cash";
+  } else if (analysis && analysis.imlAfter < analysis.imlBefore && analysis.imlAfter < cushion) {
+    limit = "iml";
+  } else if (settings.marginRegime === MarginRegime.LEGACY_PDT && result.dtbpLimit - result.dtbpUsed < cushion) {
+    limit = "dtbp";
+  }
+  return { result, analysis, limit };
+};
+
+const limitMessage = (limit: SizingLimit, cushion: number) => {
+  const reserve = cushion > 0 ? ` with a ${formatMoney(cushion)} cushion` : "";
+  switch (limit) {
+    case "position":
+      return "Capped by the tracked position; a larger order would oversell or overcover.";
+    case "cash":
+      return `Capped by tracked cash${reserve}; a larger purchase would not be fully funded.`;
+    case "iml":
+      return `Capped by intraday margin level${reserve}; a larger order would leave IML below the floor.`;
+    case "dtbp":
+      return `Capped by legacy DTBP${reserve}; a larger order would exceed the start-of-day limit.`;
+  }
+};
+
+/**
+ * Finds the largest whole quantity of an order that keeps IML non-negative,
+ * stays within legacy DTBP, leaves purchases fully funded and never oversells,
+ * each after reserving the cushion. Every candidate is replayed through
+ * calculateAccount after the existing ledger, so the answer follows the same
+ * rules as the live preview. The checks only tighten as quantity grows, which
+ * is what makes the doubling-then-bisecting search valid.
+ */
+export const sizeOrder = (
+  settings: AccountSettings,
+  trades: Trade[],
+  order: Trade,
+  cushion = 0,
+  context: CalculationContext = {},
+): OrderSizing => {
+  const check = (quantity: number) => evaluate(settings, trades, order, quantity, cushion, context);
+
+  const first = check(1);
+  if (first.limit) {
+    return { quantity: 0, limitedBy: first.limit, message: limitMessage(first.limit, cushion) };
+  }
+
+  let low = 1;
+  let lowCheck = first;
+  let high = 2;
+  let highCheck = check(high);
+  while (!highCheck.limit) {
+    low = high;
+    lowCheck = highCheck;
+    if (high >= MAX_QUANTITY) {
+      return {
+        quantity: low,
+        limitedBy: null,
+        message: `No limit reached up to ${MAX_QUANTITY.toLocaleString()} units.`,
+        analysis: lowCheck.analysis,
+        result: lowCheck.result,
+      };
+    }
+    high = Math.min(high * 2, MAX_QUANTITY);
+    highCheck = check(high);
+  }
+
+  let failing = highCheck.limit;
+  while (high - low > 1) {
+    const middle = Math.floor((low + high) / 2);
+    const middleCheck = check(middle);
+    if (middleCheck.limit) {
+      high = middle;
+      failing = middleCheck.limit;
+    } else {
+      low = middle;
+      lowCheck = middleCheck;
+    }
+  }
+
+  return {
+    quantity: low,
+    limitedBy: failing,
+    message: limitMessage(failing, cushion),
+    analysis: lowCheck.analysis,
+    result: lowCheck.result,
+  };
+};
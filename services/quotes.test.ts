@@ -0,0 +1,30 @@
+import { describe, expect, test } from "vitest";
+import { jsonQuoteProvider, mergeMarks, parseQuoteTable } from "./quotes";
+
+describe("quote providers", () => {
+  test("parses a pasted quote table and skips its header", () => {
+    const marks = parseQuoteTable("Symbol,Last,Time\naapl,213.05,10:42\nMSFT,$501.10", "2026-07-27T14:00:00.000Z");
+
+    expect(marks.map((mark) => [mark.symbol, mark.price])).toEqual([["AAPL", 213.05], ["MSFT", 501.1]]);
+    expect(marks[0].asOf).toBe(new Date("2026-07-27T10:42:00").toISOString());
+    expect(marks[1].asOf).toBe("2026-07-27T14:00:00.000Z");
+  });
+
+  test("reads both array and map payloads from a JSON feed", async () => {
+    const respond = (body: unknown) => (async () => new Response(JSON.stringify(body))) as typeof fetch;
+    const fromArray = await jsonQuoteProvider("http://feed", respond([{ symbol: "spy", price: 600, asOf: "2026-07-27T14:00:00Z" }])).fetchQuotes(["SPY"]);
+    const fromMap = await jsonQuoteProvider("http://feed", respond({ SPY: 601, QQQ: 500 })).fetchQuotes(["SPY"]);
+
+    expect(fromArray).toEqual([{ symbol: "SPY", price: 600, asOf: "2026-07-27T14:00:00.000Z", source: "feed" }]);
+    expect(fromMap.map((mark) => mark.price)).toEqual([601]);
+  });
+
+  test("keeps the newest mark per symbol", () => {
+    const merged = mergeMarks(
+      { SPY: { symbol: "SPY", price: 600, asOf: "2026-07-27T15:00:00.000Z", source: "feed" } },
+      [{ symbol: "SPY", price: 590, asOf: "2026-07-27T14:00:00.000Z", source: "manual" }],
+    );
+
+    expect(merged.SPY.price).toBe(600);
+  });
+});
@@ -0,0 +1,108 @@
+import { QuoteMark, QuoteSource } from "../types";
+import { parseDelimited, parseImportNumber, parseImportTimestamp } from "./csvImport";
+
+/**
+ * A source of marks for open positions. Providers never talk to a broker; they
+ * turn something the user controls (typed prices, a pasted quote table, or a
+ * local JSON endpoint) into timestamped marks.
+ */
+export interface QuoteProvider {
+  source: QuoteSource;
+  label: string;
+  fetchQuotes(symbols: string[]): Promise<QuoteMark[]>;
+}
+
+const normalizeQuoteSymbol = (symbol: string) => symbol.trim().toUpperCase();
+
+const wanted = (symbols: string[]) => {
+  const set = new Set(symbols.map(normalizeQuoteSymbol));
+  return (mark: QuoteMark) => set.size === 0 || set.has(mark.symbol);
+};
+
+export const manualQuoteProvider = (
+  prices: Record<string, number>,
+  asOf = new Date().toISOString(),
+): QuoteProvider => ({
+  source: "manual",
+  label: "Manual entry",
+  async fetchQuotes(symbols) {
+    return Object.entries(prices)
+      .filter(([, price]) => Number.isFinite(price) && price > 0)
+      .map(([symbol, price]) => ({ symbol: normalizeQuoteSymbol(symbol), price, asOf, source: "manual" as const }))
+      .filter(wanted(symbols));
+  },
+});
+
+/**
+ * Reads "SYMBOL, price[, time]" rows from a pasted table. A header row is
+ * skipped automatically because its price column does not parse.
+ */
+export const parseQuoteTable = (text: string, asOf = new Date().toISOString()): QuoteMark[] =>
+  parseDelimited(text)
+    .map((row) => {
+      const [symbol = "", rawPrice, rawTime] = row;
+      const price = parseImportNumber(rawPrice);
+      const timestamp = rawTime ? parseImportTimestamp(rawTime) ?? parseImportTimestamp(asOf.slice(0, 10), rawTime) : undefined;
+      return { symbol: normalizeQuoteSymbol(symbol), price, asOf: timestamp ?? asOf, source: "pasted" as const };
+    })
+    .filter((mark) => mark.symbol && Number.isFinite(mark.price) && mark.price > 0);
+
+export const pastedQuoteProvider = (text: string, asOf = new Date().toISOString()): QuoteProvider => ({
+  source: "pasted",
+  label: "Pasted quote table",
+  async fetchQuotes(symbols) {
+    return parseQuoteTable(text, asOf).filter(wanted(symbols));
+  },
+});
+
+type FeedPayload =
+  | Array<{ symbol: string; price: number; asOf?: string; timestamp?: string }>
+  | Record<string, number | { price: number; asOf?: string; timestamp?: string }>;
+
+/**
+ * Stand-in for a market-data feed: any local file or HTTP endpoint returning
+ * either an array of { symbol, price, asOf } or a { SYMBOL: price } map.
+ */
+export const jsonQuoteProvider = (
+  url: string,
+  fetcher: typeof fetch = (input, init) => fetch(input, init),
+): QuoteProvider => ({
+  source: "feed",
+  label: "JSON / HTTP feed",
+  async fetchQuotes(symbols) {
+    if (!url.trim()) throw new Error("Enter a quote feed URL.");
+    const query = symbols.length > 0 ? `${url.includes("?") ? "&" : "?"}symbols=${encodeURIComponent(symbols.join(","))}` : "";
+    const response = await fetcher(`${url}${query}`);
+    if (!response.ok) throw new Error(`Quote feed responded ${response.status}.`);
+    const payload = (await response.json()) as FeedPayload;
+    const receivedAt = new Date().toISOString();
+    const entries = Array.isArray(payload)
+      ? payload.map((item) => ({ symbol: item.symbol, price: item.price, asOf: item.asOf ?? item.timestamp }))
+      : Object.entries(payload).map(([symbol, value]) =>
+        typeof value === "number"
+          ? { symbol, price: value, asOf: undefined }
+          : { symbol, price: value.price, asOf: value.asOf ?? value.timestamp });
+    return entries
+      .map((entry) => ({
+        symbol: normalizeQuoteSymbol(String(entry.symbol ?? "")),
+        price: Number(entry.price),
+        asOf: entry.asOf && !Number.isNaN(new Date(entry.asOf).getTime()) ? new Date(entry.asOf).toISOString() : receivedAt,
+        source: "feed" as const,
+      }))
+      .filter((mark) => mark.symbol && Number.isFinite(mark.price) && mark.price > 0)
+      .filter(wanted(symbols));
+  },
+});
+
+/** Keeps the newest mark per symbol. */
+export const mergeMarks = (
+  current: Record<string, QuoteMark>,
+  incoming: QuoteMark[],
+): Record<string, QuoteMark> => {
+  const next = { ...current };
+  incoming.forEach((mark) => {
+    const existing = next[mark.symbol];
+    if (!existing || existing.asOf <= mark.asOf) next[mark.symbol] = mark;
+  });
+  return next;
+};
@@ -0,0 +1,154 @@
+import { describe, expect, test } from "vitest";
+import { calculateAccount } from "./engine";
+import { parseBrokerStatement, reconcileAccount, reconcileStatement } from "./reconciliation";
+import {
+  AccountSettings,
+  BrokerStatement,
+  DEFAULT_SETTINGS,
+  InstrumentType,
+  OptionType,
+  Side,
+  Trade,
+} from "../types";
+
+const settings = (overrides: Partial<AccountSettings> = {}): AccountSettings => ({
+  ...DEFAULT_SETTINGS,
+  snapshotDate: "2026-07-27",
+  settlementHolidays: [],
+  ...overrides,
+});
+
+const trades: Trade[] = [{
+  id: "buy",
+  executedAt: "2026-07-27T14:30:00.000Z",
+  symbol: "SPY",
+  instrument: InstrumentType.STOCK,
+  side: Side.BUY,
+  quantity: 100,
+  price: 100,
+  fees: 0,
+  contractMultiplier: 100,
+  leverageFactor: 1,
+}];
+
+const statement = (overrides: Partial<BrokerStatement> = {}): BrokerStatement => ({
+  asOf: "2026-07-27T20:00:00.000Z",
+  equity: 30_000,
+  maintenanceRequirement: 2_500,
+  marginBuyingPower: null,
+  dayTradingBuyingPower: null,
+  cash: null,
+  positions: [{ symbol: "spy", quantity: 100, averagePrice: 100 }],
+  ...overrides,
+});
+
+const asOf = "2026-07-27T20:00:00.000Z";
+
+describe("broker statement reconciliation", () => {
+  test("matches a statement that agrees with the ledger and skips blank fields", () => {
+    const account = settings({ brokerStatement: statement() });
+    const { reconciliation, result } = reconcileAccount(account, trades, calculateAccount(account, trades, asOf));
+
+    expect(reconciliation?.balances.map((row) => row.field)).toEqual(["Equity", "Maintenance requirement"]);
+    expect(reconciliation?.positions).toEqual([expect.objectContaining({ symbol: "SPY", status: "matched" })]);
+    expect(reconciliation?.breaks).toBe(0);
+    expect(result.alerts.some((alert) => alert.id === "reconciliation-variance")).toBe(false);
+  });
+
+  test("applies the larger of the dollar and percentage tolerances", () => {
+    const base = calculateAccount(settings(), trades, asOf);
+    const within = reconcileStatement(statement({ equity: 30_025 }), base, settings());
+    const outside = reconcileStatement(statement({ equity: 30_040 }), base, settings());
+
+    expect(within.balances[0]).toMatchObject({ variance: -25, tolerance: 30.03, withinTolerance: true });
+    expect(outside.balances[0]).toMatchObject({ variance: -40, withinTolerance: false });
+  });
+
+  test("flags position quantity, price and missing-symbol differences and raises an alert", () => {
+    const account = settings({
+      brokerStatement: statement({
+        positions: [
+          { symbol: "SPY", quantity: 90, averagePrice: 100.5 },
+          { symbol: "QQQ", quantity: -10, averagePrice: 500 },
+        ],
+      }),
+    });
+    const ledger = calculateAccount(account, trades, asOf);
+    const { reconciliation, result } = reconcileAccount(account, trades, ledger);
+
+    expect(reconciliation?.positions).toEqual([
+      expect.objectContaining({ symbol: "QQQ", status: "missing_in_ledger", quantityVariance: 10 }),
+      expect.objectContaining({ symbol: "SPY", status: "variance", quantityVariance: 10, priceVariance: -0.5 }),
+    ]);
+    expect(result.alerts).toContainEqual(expect.objectContaining({ id: "reconciliation-variance", level: "danger" }));
+    expect(ledger.alerts.some((alert) => alert.id === "reconciliation-variance")).toBe(false);
+  });
+
+  test("compares the ledger as of the statement cutoff, not later fills", () => {
+    const account = settings({ brokerStatement: statement({ asOf: "2026-07-27T15:00:00.000Z" }) });
+    const later = [...trades, { ...trades[0], id: "later", executedAt: "2026-07-27T16:00:00.000Z", quantity: 50 }];
+    const live = calculateAccount(account, later, asOf);
+    const { reconciliation, result } = reconcileAccount(account, later, live);
+
+    expect(live.positions[0].quantity).toBe(150);
+    expect(reconciliation?.positions).toEqual([expect.objectContaining({ symbol: "SPY", ledgerQuantity: 100, status: "matched" })]);
+    expect(reconciliation?.breaks).toBe(0);
+    expect(result).toBe(live);
+  });
+
+  test("holds option lots under their contract symbol beside the underlying stock", () => {
+    const call: Trade = {
+      ...trades[0],
+      id: "call",
+      instrument: InstrumentType.OPTION,
+      side: Side.SELL_SHORT,
+      quantity: 1,
+      price: 2,
+      optionType: OptionType.CALL,
+      strike: 110,
+      expiration: "2026-08-21",
+    };
+    const reconciliation = reconcileStatement(
+      statement({
+        equity: null,
+        maintenanceRequirement: null,
+        positions: [
+          { symbol: "SPY", quantity: 100, averagePrice: 100 },
+          { symbol: "spy 2026-08-21 110c", quantity: -1, averagePrice: 2 },
+        ],
+      }),
+      calculateAccount(settings(), [...trades, call], asOf),
+      settings(),
+    );
+
+    expect(reconciliation.positions).toEqual([
+      expect.objectContaining({ symbol: "SPY", ledgerQuantity: 100, ledgerAveragePrice: 100, status: "matched" }),
+      expect.objectContaining({ symbol: "SPY 2026-08-21 110C", ledgerQuantity: -1, ledgerAveragePrice: 2, status: "matched" }),
+    ]);
+    expect(reconciliation.breaks).toBe(0);
+  });
+
+  test("reads balances and positions from a pasted statement", () => {
+    const parsed = parseBrokerStatement([
+      "Net Liquidation Value: $31,250.40",
+      "Maintenance requirement\t2,500.00",
+      "Day Trading Buying Power\t118,000",
+      "Cash\t20,000",
+      "Symbol,Qty,Avg Price",
+      "AAPL,100,190.25",
+      "tsla,-5,\"1,010.00\"",
+    ].join("\n"), asOf);
+
+    expect(parsed).toMatchObject({
+      equity: 31_250.4,
+      maintenanceRequirement: 2_500,
+      dayTradingBuyingPower: 118_000,
+      marginBuyingPower: null,
+      cash: 20_000,
+      positions: [
+        { symbol: "AAPL", quantity: 100, averagePrice: 190.25 },
+        { symbol: "TSLA", quantity: -5, averagePrice: 1_010 },
+      ],
+    });
+  });
+});
@@ -0,0 +1,212 @@
+import {
+  AccountSettings,
+  AccountType,
+  BalanceVariance,
+  BrokerPositionReport,
+  BrokerStatement,
+  CalculationContext,
+  CalculationResult,
+  InstrumentType,
+  MarginRegime,
+  PositionVariance,
+  Reconciliation,
+  RiskAlert,
+  Trade,
+} from "../types";
+import { calculateAccount } from "./engine";
+import { parseDelimited, parseImportNumber } from "./csvImport";
+import { optionContractFor, optionContractSymbol } from "./optionStrategies";
+
+const EPSILON = 0.000_001;
+const roundMoney = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+const normalizeSymbol = (symbol: string) => symbol.trim().toUpperCase().replace(/\s+/g, " ");
+
+type BalanceField = Exclude<keyof BrokerStatement, "asOf" | "positions">;
+
+/** The label and ledger figure each broker field is compared against, per account type and regime. */
+const balanceTargets = (
+  settings: AccountSettings,
+  result: CalculationResult,
+): Array<{ key: BalanceField; field: string; ledger: number }> => [
+  { key: "equity", field: "Equity", ledger: result.currentEquity },
+  { key: "cash", field: "Cash balance", ledger: result.settledCash + result.unsettledCash },
+  { key: "maintenanceRequirement", field: "Maintenance requirement", ledger: result.maintenanceRequirement },
+  { key: "marginBuyingPower", field: "Margin buying power", ledger: result.marginBuyingPower },
+  settings.accountType === AccountType.CASH
+    ? { key: "dayTradingBuyingPower", field: "Cash available to trade", ledger: result.cashAvailableToTrade }
+    : settings.marginRegime === MarginRegime.LEGACY_PDT
+      ? { key: "dayTradingBuyingPower", field: "Day-trading buying power", ledger: result.dtbpRemaining }
+      : { key: "dayTradingBuyingPower", field: "Intraday buying power", ledger: result.intradayBuyingPower },
+];
+
+/**
+ * Net quantity and average cost per symbol from the ledger's open lots, at
+ * original cost rather than the carried mark. Option lots are held under
+ * their contract symbol, as brokers report them, not their underlying.
+ */
+const ledgerHoldings = (result: CalculationResult) => {
+  const holdings = new Map<string, { long: number; short: number; longCost: number; shortCost: number; multiplier: number }>();
+  result.openLots.forEach((lot) => {
+    const contract = lot.instrument === InstrumentType.OPTION ? optionContractFor(lot) : undefined;
+    const symbol = normalizeSymbol(contract ? optionContractSymbol(contract) : lot.symbol);
+    const multiplier = lot.instrument === InstrumentType.OPTION ? lot.contractMultiplier || 100 : 1;
+    const holding = holdings.get(symbol) ?? { long: 0, short: 0, longCost: 0, shortCost: 0, multiplier };
+    if (lot.side === "long") {
+      holding.long += lot.quantity;
+      holding.longCost += lot.costBasis;
+    } else {
+      holding.short += lot.quantity;
+      holding.shortCost += lot.costBasis;
+    }
+    holdings.set(symbol, holding);
+  });
+  return new Map([...holdings].map(([symbol, holding]) => {
+    const quantity = holding.long - holding.short;
+    const cost = quantity >= 0 ? holding.longCost : holding.shortCost;
+    const averagePrice = Math.abs(quantity) > EPSILON ? cost / Math.abs(quantity) / holding.multiplier : 0;
+    return [symbol, { quantity, averagePrice }] as const;
+  }).filter(([, holding]) => Math.abs(holding.quantity) > EPSILON));
+};
+
+/**
+ * Compares a broker statement with the ledger field by field. Variances are
+ * ledger minus broker, so a positive figure means the ledger reads higher.
+ * A balance is within tolerance when the variance is no larger than the
+ * greater of the dollar and percentage thresholds.
+ */
+export const reconcileStatement = (
+  statement: BrokerStatement,
+  result: CalculationResult,
+  settings: AccountSettings,
+): Reconciliation => {
+  const tolerance = settings.reconciliationTolerance;
+  const balances: BalanceVariance[] = balanceTargets(settings, result)
+    .filter(({ key }) => statement[key] !== null && Number.isFinite(statement[key]))
+    .map(({ key, field, ledger }) => {
+      const broker = statement[key] as number;
+      const variance = roundMoney(ledger - broker);
+      const allowed = roundMoney(Math.max(tolerance.amount, tolerance.percent * Math.abs(broker)));
+      return { field, broker, ledger: roundMoney(ledger), variance, tolerance: allowed, withinTolerance: Math.abs(variance) <= allowed + EPSILON };
+    });
+
+  const reported = new Map<string, BrokerPositionReport>();
+  statement.positions.forEach((position) => {
+    const symbol = normalizeSymbol(position.symbol);
+    const existing = reported.get(symbol);
+    if (!existing) {
+      reported.set(symbol, { symbol, quantity: position.quantity, averagePrice: position.averagePrice });
+      return;
+    }
+    const quantity = existing.quantity + position.quantity;
+    const cost = Math.abs(existing.quantity) * existing.averagePrice + Math.abs(position.quantity) * position.averagePrice;
+    const absolute = Math.abs(existing.quantity) + Math.abs(position.quantity);
+    reported.set(symbol, { symbol, quantity, averagePrice: absolute > 0 ? cost / absolute : 0 });
+  });
+  const ledger = ledgerHoldings(result);
+  const symbols = [...new Set([...reported.keys(), ...ledger.keys()])].sort();
+  const positions: PositionVariance[] = symbols.map((symbol) => {
+    const broker = reported.get(symbol);
+    const held = ledger.get(symbol);
+    const brokerQuantity = broker?.quantity ?? 0;
+    const ledgerQuantity = held?.quantity ?? 0;
+    const brokerAveragePrice = broker?.averagePrice ?? 0;
+    const ledgerAveragePrice = roundMoney(held?.averagePrice ?? 0);
+    const quantityVariance = ledgerQuantity - brokerQuantity;
+    const priceVariance = broker && held ? roundMoney(ledgerAveragePrice - brokerAveragePrice) : 0;
+    const status = !held
+      ? "missing_in_ledger"
+      : !broker
+        ? "missing_at_broker"
+        : Math.abs(quantityVariance) > tolerance.quantity + EPSILON
+          || (brokerAveragePrice > 0 && Math.abs(priceVariance) > tolerance.price + EPSILON)
+          ? "variance"
+          : "matched";
+    return { symbol, brokerQuantity, ledgerQuantity, brokerAveragePrice, ledgerAveragePrice, quantityVariance, priceVariance, status };
+  });
+
+  return {
+    asOf: statement.asOf,
+    balances,
+    positions,
+    breaks: balances.filter((row) => !row.withinTolerance).length
+      + positions.filter((row) => row.status !== "matched").length,
+  };
+};
+
+/**
+ * Reconciles the account's saved statement against the ledger as it stood at
+ * the statement's cutoff, so fills after the broker's snapshot are not breaks.
+ * The ledger never reads the statement; a variance beyond tolerance is added
+ * as an alert on a copy of the live result so the dashboard can surface it.
+ */
+export const reconcileAccount = (
+  settings: AccountSettings,
+  trades: Trade[],
+  result: CalculationResult,
+  context: CalculationContext = {},
+): { reconciliation: Reconciliation | null; result: CalculationResult } => {
+  const statement = settings.brokerStatement;
+  if (!statement) return { reconciliation: null, result };
+  const reconciliation = reconcileStatement(statement, calculateAccount(settings, trades, statement.asOf, context), settings);
+  if (reconciliation.breaks === 0) return { reconciliation, result };
+  const alert: RiskAlert = {
+    id: "reconciliation-variance",
+    level: "danger",
+    title: "Ledger does not match the broker statement",
+    detail: `${reconciliation.breaks} balance or position variance${reconciliation.breaks === 1 ? "" : "s"} beyond tolerance against the ${reconciliation.asOf.slice(0, 10)} statement. Reconcile every discrepancy before trading.`,
+  };
+  return { reconciliation, result: { ...result, alerts: [...result.alerts, alert] } };
+};
+
+const BALANCE_HINTS: Array<[RegExp, BalanceField]> = [
+  [/maint(enance)?( margin)?( req(uirement)?)?|house (call )?req/i, "maintenanceRequirement"],
+  [/day ?trad(e|ing) ?(buying ?power|bp)|dtbp|intraday/i, "dayTradingBuyingPower"],
+  [/(margin|stock|overnight|reg ?t) ?(buying ?power|bp)|^buying ?power$/i, "marginBuyingPower"],
+  [/equity|net ?liq(uidation)?( value)?|account ?value|total ?value/i, "equity"],
+  [/cash/i, "cash"],
+];
+
+/** Tab-separated rows come from spreadsheets and web tables; "Label: value" from copied text. */
+const splitStatementLine = (line: string) => {
+  if (line.includes("\t")) return line.split("\t");
+  const labelled = /^([^:]+):\s*(.+)$/.exec(line);
+  if (labelled) return [labelled[1], labelled[2]];
+  return parseDelimited(line, ",")[0] ?? [];
+};
+
+/**
+ * Reads a statement pasted from a broker's balances page. Two-column rows are
+ * matched to balance fields by label; rows of "symbol, quantity, average
+ * price" become positions. Unrecognized rows, including headers, are skipped.
+ */
+export const parseBrokerStatement = (
+  text: string,
+  asOf = new Date().toISOString(),
+): BrokerStatement => {
+  const statement: BrokerStatement = {
+    asOf,
+    equity: null,
+    maintenanceRequirement: null,
+    marginBuyingPower: null,
+    dayTradingBuyingPower: null,
+    cash: null,
+    positions: [],
+  };
+  text.split(/\r?\n/).forEach((line) => {
+    const cells = splitStatementLine(line).map((cell) => cell.trim()).filter(Boolean);
+    if (cells.length === 2) {
+      const value = parseImportNumber(cells[1]);
+      const field = BALANCE_HINTS.find(([pattern]) => pattern.test(cells[0]))?.[1];
+      if (field && Number.isFinite(value) && statement[field] === null) statement[field] = value;
+      return;
+    }
+    if (cells.length >= 3) {
+      const quantity = parseImportNumber(cells[1]);
+      const averagePrice = parseImportNumber(cells[2]);
+      if (cells[0] && Number.isFinite(quantity) && quantity !== 0 && Number.isFinite(averagePrice)) {
+        statement.positions.push({ symbol: normalizeSymbol(cells[0]), quantity, averagePrice });
+      }
+    }
+  });
+  return statement;
+};
@@ -0,0 +1,189 @@
+import { describe, expect, test } from "vitest";
+import { calculateAccount } from "./engine";
+import { closeDay, marketCloseFor } from "./rollover";
+import { createAccountWorkspace } from "./storage";
+import { AccountSettings, AccountType, CashMovementType, CorporateActionType, DtbpRestriction, IncomeEventType, InstrumentType, MarginCallType, MarginRegime, Side, Trade } from "../types";
+
+const trade = (overrides: Partial<Trade> = {}): Trade => ({
+  id: crypto.randomUUID(),
+  executedAt: "2026-07-27T14:30:00.000Z",
+  symbol: "SPY",
+  instrument: InstrumentType.STOCK,
+  side: Side.BUY,
+  quantity: 100,
+  price: 100,
+  fees: 0,
+  contractMultiplier: 100,
+  leverageFactor: 1,
+  ...overrides,
+});
+
+const account = (trades: Trade[], overrides: Partial<AccountSettings> = {}) =>
+  createAccountWorkspace("test", { snapshotDate: "2026-07-27", settlementHolidays: [], ...overrides }, trades);
+
+describe("end-of-day rollover", () => {
+  test("finds 4 p.m. New York time across daylight saving", () => {
+    expect(marketCloseFor("2026-07-27")).toBe("2026-07-27T20:00:00.000Z");
+    expect(marketCloseFor("2026-12-14")).toBe("2026-12-14T21:00:00.000Z");
+  });
+
+  test("carries open positions forward at the closing mark", () => {
+    const late = trade({ id: "after-close", executedAt: "2026-07-27T21:30:00.000Z", symbol: "QQQ" });
+    const rollover = closeDay(account([trade(), late]), {
+      marks: { SPY: { symbol: "SPY", price: 105, asOf: "2026-07-27T19:59:00.000Z", source: "manual" } },
+    });
+
+    expect(rollover.settings.snapshotDate).toBe("2026-07-28");
+    expect(rollover.settings.startOfDayEquity).toBe(30_500);
+    expect(rollover.settings.openingLots).toEqual([
+      expect.objectContaining({ symbol: "SPY", side: "long", quantity: 100, price: 105, costBasis: 10_000 }),
+    ]);
+    expect(rollover.trades.map((item) => item.id)).toEqual(["after-close"]);
+    expect(rollover.archive.trades).toHaveLength(1);
+
+    const nextDay = calculateAccount(rollover.settings, [], "2026-07-28T15:00:00.000Z");
+    expect(nextDay.currentEquity).toBe(30_500);
+    expect(nextDay.positions[0]).toEqual(expect.objectContaining({ markPrice: 105, markSource: "close", maintenanceRequirement: 2_625 }));
+    expect(nextDay.intradayBuyingPowerLimit).toBe(111_500);
+
+    const sold = calculateAccount(rollover.settings, [trade({ executedAt: "2026-07-28T14:00:00.000Z", side: Side.SELL, price: 106 })], "2026-07-28T15:00:00.000Z");
+    expect(sold.realizedPnl).toBe(100);
+    expect(sold.positions).toHaveLength(0);
+  });
+
+  test("rolls pending proceeds with their own settlement dates", () => {
+    const rollover = closeDay(account([
+      trade({ id: "buy" }),
+      trade({ id: "sell", executedAt: "2026-07-27T15:00:00.000Z", side: Side.SELL, price: 101 }),
+    ], { accountType: AccountType.CASH }));
+
+    expect(rollover.settings.settledCash).toBe(20_000);
+    expect(rollover.settings.openingSettlements).toEqual([
+      { tradeId: "sell", symbol: "SPY", tradeDate: "2026-07-27", settlesOn: "2026-07-28", amount: 10_100 },
+    ]);
+    const nextDay = calculateAccount(rollover.settings, [], "2026-07-28T15:00:00.000Z");
+    expect(nextDay.settledCash).toBe(30_100);
+    expect(nextDay.settlements[0].status).toBe("settled");
+  });
+
+  test("records the day's largest intraday deficit as outstanding", () => {
+    const rollover = closeDay(account([trade({ quantity: 1_000, price: 200 })]));
+
+    expect(rollover.settings.outstandingIntradayDeficit).toBe(20_000);
+    expect(rollover.settings.intradayDeficitDate).toBe("2026-07-27");
+  });
+
+  test("folds the day's cash movements into the opening balances", () => {
+    const rollover = closeDay(account([], {
+      accountType: AccountType.CASH,
+      cashMovements: [
+        { id: "wire", postedAt: "2026-07-27T14:00:00.000Z", type: CashMovementType.DEPOSIT, amount: 5_000 },
+        { id: "ach", postedAt: "2026-07-27T15:00:00.000Z", type: CashMovementType.DEPOSIT, amount: 2_000, clearsOn: "2026-07-30" },
+        { id: "later", postedAt: "2026-07-27T22:00:00.000Z", type: CashMovementType.WITHDRAWAL, amount: 1_000 },
+      ],
+    }));
+
+    expect(rollover.settings.startOfDayEquity).toBe(37_000);
+    expect(rollover.settings.settledCash).toBe(35_000);
+    expect(rollover.settings.openingSettlements).toEqual([
+      expect.objectContaining({ tradeId: "ach", settlesOn: "2026-07-30", amount: 2_000, movementType: CashMovementType.DEPOSIT }),
+    ]);
+    expect(rollover.settings.cashMovements.map((movement) => movement.id)).toEqual(["later"]);
+    expect(rollover.archive.settings.cashMovements).toHaveLength(2);
+  });
+
+  test("takes the night's margin interest out of equity and charges the month at its end", () => {
+    const tiers = [{ upTo: null, annualRate: 0.09 }];
+    const midMonth = closeDay(account([trade({ quantity: 400 })], { marginInterestTiers: tiers, marginInterestAccrued: 20 }));
+
+    expect(midMonth.result.marginDebitBalance).toBe(10_000);
+    expect(midMonth.result.marginInterestAccrual).toBe(2.5);
+    expect(midMonth.settings.startOfDayEquity).toBe(29_997.5);
+    expect(midMonth.settings.marginInterestAccrued).toBe(22.5);
+    expect(midMonth.settings.settledCash).toBe(30_000);
+
+    const monthEnd = closeDay(account([trade({ executedAt: "2026-07-31T14:30:00.000Z", quantity: 400 })], {
+      snapshotDate: "2026-07-31",
+      marginInterestTiers: tiers,
+      marginInterestAccrued: 20,
+      incomeEvents: [{ id: "next", type: IncomeEventType.DIVIDEND, symbol: "SPY", amount: 1, exDate: "2026-08-05", payDate: "2026-08-20" }],
+    }));
+
+    expect(monthEnd.result.marginInterestAccrual).toBe(7.5);
+    expect(monthEnd.settings.marginInterestAccrued).toBe(0);
+    expect(monthEnd.settings.settledCash).toBe(29_972.5);
+    expect(monthEnd.settings.incomeEvents.map((event) => event.id)).toEqual(["next"]);
+  });
+
+  test("accrues stock-loan fees like interest and drops the day's locates", () => {
+    const rollover = closeDay(account([trade({ symbol: "MSTR", side: Side.SELL_SHORT, contractMultiplier: 1 })], {
+      borrowFeesAccrued: 10,
+      shortLocates: [
+        { id: "today", symbol: "MSTR", quantity: 100, obtainedOn: "2026-07-27" },
+        { id: "tomorrow", symbol: "MSTR", quantity: 100, obtainedOn: "2026-07-28" },
+      ],
+    }));
+
+    expect(rollover.result.borrowFeeAccrual).toBe(3.33);
+    expect(rollover.settings.startOfDayEquity).toBe(29_996.67);
+    expect(rollover.settings.borrowFeesAccrued).toBe(13.33);
+    expect(rollover.settings.shortLocates.map((locate) => locate.id)).toEqual(["tomorrow"]);
+  });
+
+  test("carries split-adjusted lots and keeps later corporate actions", () => {
+    const split = { id: "split", type: CorporateActionType.SPLIT, symbol: "SPY", effectiveDate: "2026-07-27", ratio: 2 };
+    const later = { id: "later", type: CorporateActionType.SYMBOL_CHANGE, symbol: "SPY", newSymbol: "SPYY", effectiveDate: "2026-07-29" };
+    const rollover = closeDay(account([trade({ executedAt: "2026-07-24T14:30:00.000Z" })], { corporateActions: [split, later] }));
+
+    expect(rollover.settings.openingLots[0]).toMatchObject({ symbol: "SPY", quantity: 200, price: 50, costBasis: 10_000 });
+    expect(rollover.settings.corporateActions.map((action) => action.id)).toEqual(["later"]);
+    expect(rollover.archive.settings.corporateActions.map((action) => action.id)).toEqual(["split"]);
+  });
+
+  test("carries an unmet day-trading call with the day it was issued", () => {
+    const rollover = closeDay(account([trade({ quantity: 1_300 })], { marginRegime: MarginRegime.LEGACY_PDT, brokerDtbp: 0 }));
+
+    expect(rollover.settings).toMatchObject({ outstandingDtbpCall: 2_500, dtbpCallDate: "2026-07-27" });
+    expect(calculateAccount(rollover.settings, [], "2026-07-28T20:00:00.000Z").dtbpRestriction).toBe(DtbpRestriction.TWO_TIMES);
+  });
+
+  test("carries an unmet Reg T call with its issue and due dates", () => {
+    const rollover = closeDay(account([trade({ symbol: "XYZ", quantity: 800, contractMultiplier: 1 })]));
+
+    expect(rollover.settings.marginCalls).toEqual([
+      { id: "reg-t-2026-07-27", type: MarginCallType.REG_T, amount: 10_000, outstanding: 10_000, issuedOn: "2026-07-27", dueOn: "2026-07-30" },
+    ]);
+    expect(calculateAccount(rollover.settings, [], "2026-07-28T20:00:00.000Z").marginCalls).toEqual([
+      expect.objectContaining({ remaining: 10_000, businessDaysLeft: 2 }),
+    ]);
+  });
+
+  test("adds the day's good-faith violations to the register", () => {
+    const rollover = closeDay(account([
+      trade({ id: "buy-a", contractMultiplier: 1 }),
+      trade({ id: "sell-a", side: Side.SELL, executedAt: "2026-07-27T15:00:00.000Z", contractMultiplier: 1 }),
+      trade({ id: "buy-b", symbol: "QQQ", executedAt: "2026-07-27T16:00:00.000Z", contractMultiplier: 1 }),
+      trade({ id: "sell-b", symbol: "QQQ", side: Side.SELL, executedAt: "2026-07-27T17:00:00.000Z", contractMultiplier: 1 }),
+    ], { accountType: AccountType.CASH, settledCash: 10_000 }));
+
+    expect(rollover.settings.cashViolations).toEqual([expect.objectContaining({ id: "gfv-sell-b", date: "2026-07-27" })]);
+    expect(calculateAccount(rollover.settings, [], "2026-07-28T20:00:00.000Z").violationsRemaining).toBe(2);
+  });
+
+  test("keeps day-trade tallies that stay inside the next pattern-day-trader window", () => {
+    const rollover = closeDay(account([
+      trade(),
+      trade({ side: Side.SELL, executedAt: "2026-07-27T15:00:00.000Z" }),
+    ], {
+      dayTradeHistory: [
+        { date: "2026-07-21", dayTrades: 1, trades: 2 },
+        { date: "2026-07-23", dayTrades: 1, trades: 3 },
+      ],
+    }));
+
+    expect(rollover.settings.dayTradeHistory).toEqual([
+      { date: "2026-07-23", dayTrades: 1, trades: 3 },
+      { date: "2026-07-27", dayTrades: 1, trades: 2 },
+    ]);
+  });
+});
@@ -0,0 +1,135 @@
+import {
+  AccountSettings,
+  AccountWorkspace,
+  CalculationContext,
+  CalculationResult,
+  DayArchive,
+  Trade,
+} from "../types";
+import { PDT_WINDOW_DAYS, addBusinessDays, calculateAccount } from "./engine";
+
+export interface DayRollover {
+  closedDate: string;
+  closedAt: string;
+  nextDate: string;
+  result: CalculationResult;
+  /** Opening snapshot for the next business day. */
+  settings: AccountSettings;
+  /** Executions stamped after the close stay in the working ledger. */
+  trades: Trade[];
+  archive: DayArchive;
+}
+
+const cents = (value: number) => Math.round(value * 100) / 100;
+
+const newYorkHour = (iso: string) =>
+  Number(new Intl.DateTimeFormat("en-US", { timeZone: "America/New_York", hour: "numeric", hourCycle: "h23" }).format(new Date(iso)));
+
+/** 4:00 p.m. New York time on the given date, in either EDT or EST. */
+export const marketCloseFor = (date: string) => {
+  const candidates = [`${date}T20:00:00.000Z`, `${date}T21:00:00.000Z`];
+  return candidates.find((iso) => newYorkHour(iso) === 16) ?? candidates[0];
+};
+
+/**
+ * Turns the snapshot day's ledger into the next day's opening balances: closing
+ * equity and cash, including the day's deposits, withdrawals and income, become
+ * the opening figures, open positions carry forward as opening lots at their
+ * closing marks (already adjusted for any corporate action that took effect),
+ * pending proceeds, held deposits and unpaid dividends keep their own
+ * settlement dates, and the day's largest unmet intraday deficit becomes the
+ * outstanding deficit, as does any unmet day-trading call with its issue date.
+ * Reg T and house calls still owed carry with their issue and due dates, and
+ * the day's good-faith and freeriding violations join the register.
+ * The night's margin interest and stock-loan fees come out of opening equity
+ * and are added to the month's accruals, which are charged to cash when the
+ * next business day falls in a new month. Locates are good only for the day
+ * they were obtained. Day-trade tallies still inside the next
+ * day's pattern-day-trader window are kept. Broker-reported capacity figures
+ * and the reconciled statement describe the day that just closed, so they are
+ * cleared rather than carried.
+ */
+export const closeDay = (
+  account: AccountWorkspace,
+  context: CalculationContext = {},
+  closedAt = marketCloseFor(account.settings.snapshotDate),
+): DayRollover => {
+  const { settings } = account;
+  const closedDate = settings.snapshotDate;
+  const closeTime = new Date(closedAt).getTime();
+  const closedTrades = account.trades.filter((trade) => new Date(trade.executedAt).getTime() <= closeTime);
+  const laterTrades = account.trades.filter((trade) => new Date(trade.executedAt).getTime() > closeTime);
+  const closedMovements = (settings.cashMovements ?? []).filter((movement) => new Date(movement.postedAt).getTime() <= closeTime);
+  const laterMovements = (settings.cashMovements ?? []).filter((movement) => new Date(movement.postedAt).getTime() > closeTime);
+  const bookedIncome = (settings.incomeEvents ?? []).filter((event) => event.exDate <= closedDate);
+  const laterIncome = (settings.incomeEvents ?? []).filter((event) => event.exDate > closedDate);
+  const appliedActions = (settings.corporateActions ?? []).filter((action) => action.effectiveDate <= closedDate);
+  const laterActions = (settings.corporateActions ?? []).filter((action) => action.effectiveDate > closedDate);
+  const result = calculateAccount(settings, closedTrades, closedAt, context);
+  const nextDate = addBusinessDays(closedDate, 1, settings.settlementHolidays);
+  const accruedInterest = cents((settings.marginInterestAccrued ?? 0) + result.marginInterestAccrual);
+  const accruedBorrowFees = cents((settings.borrowFeesAccrued ?? 0) + result.borrowFeeAccrual);
+  const interestPosts = nextDate.slice(0, 7) !== closedDate.slice(0, 7);
+
+  const deficitOutstanding = result.outstandingIntradayDeficit > 0;
+  const deficitSetToday =
+    result.highestIntradayDeficit > 0
+    && result.highestIntradayDeficit >= settings.outstandingIntradayDeficit;
+  const restrictionCarries =
+    result.intradayRestrictionActive
+    && Boolean(result.intradayRestrictionEndsOn)
+    && (result.intradayRestrictionEndsOn ?? "") >= nextDate;
+
+  return {
+    closedDate,
+    closedAt,
+    nextDate,
+    result,
+    settings: {
+      ...settings,
+      snapshotDate: nextDate,
+      startOfDayEquity: cents(result.currentEquity - result.pendingCarryDebit),
+      settledCash: interestPosts ? cents(result.settledCash - accruedInterest - accruedBorrowFees) : result.settledCash,
+      unsettledCash: 0,
+      openingSettlements: result.pendingSettlements,
+      openingLots: result.openLots,
+      cashMovements: laterMovements,
+      incomeEvents: laterIncome,
+      corporateActions: laterActions,
+      dayTradeHistory: result.pdtCounter.days.filter((day) =>
+        day.trades > 0 && day.date >= addBusinessDays(nextDate, -(PDT_WINDOW_DAYS - 1), settings.settlementHolidays)),
+      marginInterestAccrued: interestPosts ? 0 : accruedInterest,
+      borrowFeesAccrued: interestPosts ? 0 : accruedBorrowFees,
+      shortLocates: (settings.shortLocates ?? []).filter((locate) => locate.obtainedOn >= nextDate),
+      brokerMarginBuyingPower: 0,
+      brokerDtbp: 0,
+      brokerIntradayBuyingPower: 0,
+      brokerStatement: null,
+      outstandingIntradayDeficit: result.outstandingIntradayDeficit,
+      intradayDeficitDate: deficitOutstanding
+        ? (deficitSetToday ? closedDate : settings.intradayDeficitDate)
+        : "",
+      intradayDeficitExtraordinary: deficitOutstanding && !deficitSetToday && settings.intradayDeficitExtraordinary,
+      intradayRestrictionUntil: restrictionCarries ? result.intradayRestrictionEndsOn ?? "" : "",
+      outstandingDtbpCall: result.dtbpCall,
+      dtbpCallDate: result.dtbpCall > 0 ? result.dtbpCallDate ?? closedDate : "",
+      dtbpRestrictionUntil: settings.dtbpRestrictionUntil >= nextDate ? settings.dtbpRestrictionUntil : "",
+      marginCalls: result.marginCalls
+        .filter((call) => call.remaining > 0)
+        .map(({ id, type, amount, remaining, issuedOn, dueOn }) => ({ id, type, amount, outstanding: remaining, issuedOn, dueOn })),
+      cashViolations: result.cashViolations,
+    },
+    trades: laterTrades,
+    archive: {
+      id: `${account.id}:${closedDate}`,
+      accountId: account.id,
+      date: closedDate,
+      closedAt,
+      settings: { ...settings, cashMovements: closedMovements, incomeEvents: bookedIncome, corporateActions: appliedActions },
+      trades: closedTrades,
+      marks: Object.fromEntries(Object.entries(context.marks ?? {})
+        .filter(([, mark]) => new Date(mark.asOf).getTime() <= closeTime)),
+      result,
+    },
+  };
+};
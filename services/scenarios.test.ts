@@ -0,0 +1,83 @@
+import { describe, expect, test } from "vitest";
+import { promoteScenario, runScenario, stageLegs } from "./scenarios";
+import {
+  AccountSettings,
+  DEFAULT_SETTINGS,
+  InstrumentType,
+  Scenario,
+  Side,
+  Trade,
+} from "../types";
+
+const settings = (overrides: Partial<AccountSettings> = {}): AccountSettings => ({
+  ...DEFAULT_SETTINGS,
+  snapshotDate: "2026-07-27",
+  settlementHolidays: [],
+  ...overrides,
+});
+
+const trade = (overrides: Partial<Trade> = {}): Trade => ({
+  id: crypto.randomUUID(),
+  executedAt: "2026-07-27T14:30:00.000Z",
+  symbol: "AAA",
+  instrument: InstrumentType.STOCK,
+  side: Side.BUY,
+  quantity: 100,
+  price: 100,
+  fees: 0,
+  contractMultiplier: 100,
+  leverageFactor: 1,
+  ...overrides,
+});
+
+const ledger = [trade({ id: "held" })];
+const rotation: Scenario = {
+  id: "rotate",
+  name: "Rotate into BBB, short CCC",
+  legs: [
+    trade({ id: "sell-a", side: Side.SELL }),
+    trade({ id: "buy-b", symbol: "BBB", quantity: 200 }),
+    trade({ id: "short-c", symbol: "CCC", side: Side.SELL_SHORT, quantity: 50, price: 200 }),
+  ],
+};
+const startAt = "2026-07-27T15:00:00.000Z";
+
+describe("scenario sandbox", () => {
+  test("stages legs in order after the ledger", () => {
+    const staged = stageLegs(ledger, rotation.legs, "2026-07-27T14:00:00.000Z");
+
+    expect(staged.map((leg) => leg.executedAt)).toEqual([
+      "2026-07-27T14:30:01.000Z",
+      "2026-07-27T14:30:02.000Z",
+      "2026-07-27T14:30:03.000Z",
+    ]);
+  });
+
+  test("reports the IML and cash path leg by leg", () => {
+    const run = runScenario(settings(), ledger, rotation, {}, startAt);
+
+    expect(run.before.intradayMarginLevel).toBe(27_500);
+    expect(run.steps.map((step) => step.intradayMarginLevel)).toEqual([30_000, 25_000, 22_000]);
+    expect(run.steps.map((step) => step.analysis.tradeId)).toEqual(["sell-a", "buy-b", "short-c"]);
+    expect(run.after.positions.map((position) => [position.symbol, position.quantity])).toEqual([["BBB", 200], ["CCC", -50]]);
+    expect(run.dangerLegs).toBe(0);
+  });
+
+  test("counts legs the engine would flag", () => {
+    const run = runScenario(settings(), [], { ...rotation, legs: rotation.legs.slice(0, 1) }, {}, startAt);
+
+    expect(run.dangerLegs).toBe(1);
+  });
+
+  test("promotes legs with new ids and sequential times", () => {
+    const promoted = promoteScenario(ledger, rotation, startAt);
+
+    expect(promoted).toHaveLength(3);
+    expect(promoted.map((leg) => leg.id)).not.toContain("sell-a");
+    expect(promoted.map((leg) => leg.executedAt)).toEqual([
+      "2026-07-27T15:00:00.000Z",
+      "2026-07-27T15:00:01.000Z",
+      "2026-07-27T15:00:02.000Z",
+    ]);
+  });
+});
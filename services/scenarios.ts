@@ -0,0 +1,82 @@
+import {
+  AccountSettings,
+  CalculationContext,
+  CalculationResult,
+  Scenario,
+  Trade,
+  TradeAnalysis,
+} from "../types";
+import { calculateAccount } from "./engine";
+
+export interface ScenarioStep {
+  leg: Trade;
+  analysis: TradeAnalysis;
+  intradayMarginLevel: number;
+  intradayBuyingPower: number;
+  dtbpRemaining: number;
+  cashAvailableToTrade: number;
+  maintenanceExcess: number;
+}
+
+export interface ScenarioRun {
+  scenario: Scenario;
+  /** Legs as they would be logged, with sequential execution times. */
+  legs: Trade[];
+  steps: ScenarioStep[];
+  before: CalculationResult;
+  after: CalculationResult;
+  dangerLegs: number;
+}
+
+const LEG_SPACING_MS = 1_000;
+
+/**
+ * Stamps legs one second apart, starting after both `startAt` and the latest
+ * logged execution, so the engine processes them in the staged order and
+ * after everything already in the ledger.
+ */
+export const stageLegs = (trades: Trade[], legs: Trade[], startAt = new Date().toISOString()): Trade[] => {
+  const latest = trades.reduce((max, trade) => Math.max(max, new Date(trade.executedAt).getTime() + LEG_SPACING_MS), 0);
+  const start = Math.max(new Date(startAt).getTime(), latest);
+  return legs.map((leg, index) => ({ ...leg, executedAt: new Date(start + index * LEG_SPACING_MS).toISOString() }));
+};
+
+/**
+ * Replays the ledger plus each prefix of the scenario, so every step shows the
+ * account exactly as it would stand after that leg and before the next.
+ */
+export const runScenario = (
+  settings: AccountSettings,
+  trades: Trade[],
+  scenario: Scenario,
+  context: CalculationContext = {},
+  startAt = new Date().toISOString(),
+): ScenarioRun => {
+  const legs = stageLegs(trades, scenario.legs, startAt);
+  const before = calculateAccount(settings, trades, legs[0]?.executedAt ?? startAt, context);
+  let after = before;
+  const steps = legs.map((leg, index) => {
+    after = calculateAccount(settings, [...trades, ...legs.slice(0, index + 1)], leg.executedAt, context);
+    return {
+      leg,
+      analysis: after.analyses[leg.id],
+      intradayMarginLevel: after.intradayMarginLevel,
+      intradayBuyingPower: after.intradayBuyingPower,
+      dtbpRemaining: after.dtbpRemaining,
+      cashAvailableToTrade: after.cashAvailableToTrade,
+      maintenanceExcess: after.maintenanceExcess,
+    };
+  });
+  return {
+    scenario,
+    legs,
+    steps,
+    before,
+    after,
+    dangerLegs: steps.filter((step) => step.analysis?.risk === "danger").length,
+  };
+};
+
+/** The legs to append to the real ledger: freshly identified and timed from now. */
+export const promoteScenario = (trades: Trade[], scenario: Scenario, startAt = new Date().toISOString()): Trade[] =>
+  stageLegs(trades, scenario.legs, startAt).map((leg) => ({ ...leg, id: crypto.randomUUID() }));
@@ -1,59 +1,151 @@
-import { AccountSettings, DEFAULT_SETTINGS, Trade } from "../types";
+import { AccountSettings, AccountWorkspace, ChangeJournal, DEFAULT_SETTINGS, DayArchive, QuoteMark, Scenario, Trade } from "../types";
+import type { CloudState } from "./supabase";
+import type { SyncBase } from "./sync";
 
 const DATABASE_NAME = "true-dtbp";
 const STORE_NAME = "workspace";
+const ACCOUNT_STORE_NAME = "accounts";
+const ARCHIVE_STORE_NAME = "archive";
+const JOURNAL_STORE_NAME = "journal";
 const STATE_KEY = "primary";
+const SYNC_BASE_KEY = "sync-base";
 
-export interface StoredState {
+export const PRIMARY_ACCOUNT_ID = "primary";
+
+/** Shared record: the quote marks apply to every account, the rest is UI state. */
+interface StoredShared {
+  activeAccountId?: string;
+  accountOrder?: string[];
+  marks: Record<string, QuoteMark>;
+  updatedAt: string;
+  // Single-account records written before workspaces carried these inline.
+  settings?: AccountSettings;
+  trades?: Trade[];
+}
+
+interface StoredAccount {
+  id: string;
   settings: AccountSettings;
   trades: Trade[];
+  scenarios?: Scenario[];
+  updatedAt: string;
+}
+
+export interface StoredState {
+  accounts: AccountWorkspace[];
+  activeAccountId: string;
+  marks: Record<string, QuoteMark>;
   updatedAt: string;
 }
 
 const openDatabase = () =>
   new Promise<IDBDatabase>((resolve, reject) => {
-    const request = indexedDB.open(DATABASE_NAME, 1);
+    const request = indexedDB.open(DATABASE_NAME, 4);
     request.onupgradeneeded = () => {
       if (!request.result.objectStoreNames.contains(STORE_NAME)) {
         request.result.createObjectStore(STORE_NAME);
       }
+      if (!request.result.objectStoreNames.contains(ACCOUNT_STORE_NAME)) {
+        request.result.createObjectStore(ACCOUNT_STORE_NAME);
+      }
+      if (!request.result.objectStoreNames.contains(ARCHIVE_STORE_NAME)) {
+        request.result.createObjectStore(ARCHIVE_STORE_NAME, { keyPath: "id" }).createIndex("accountId", "accountId");
+      }
+      if (!request.result.objectStoreNames.contains(JOURNAL_STORE_NAME)) {
+        request.result.createObjectStore(JOURNAL_STORE_NAME);
+      }
     };
     request.onsuccess = () => resolve(request.result);
     request.onerror = () => reject(request.error);
   });
 
-const mergeSettings = (settings?: Partial<AccountSettings>): AccountSettings => ({
+export const mergeSettings = (settings?: Partial<AccountSettings>): AccountSettings => ({
   ...DEFAULT_SETTINGS,
   ...settings,
   symbolMarginOverrides: settings?.symbolMarginOverrides ?? {},
   settlementHolidays: settings?.settlementHolidays ?? [],
+  importProfiles: settings?.importProfiles ?? [],
+  openingLots: settings?.openingLots ?? [],
+  openingSettlements: settings?.openingSettlements ?? [],
+  cashMovements: settings?.cashMovements ?? [],
+  incomeEvents: settings?.incomeEvents ?? [],
+  corporateActions: settings?.corporateActions ?? [],
+  dayTradeHistory: settings?.dayTradeHistory ?? [],
+  marginCalls: settings?.marginCalls ?? [],
+  shortLocates: settings?.shortLocates ?? [],
+  cashViolations: settings?.cashViolations ?? [],
+  marginInterestTiers: settings?.marginInterestTiers ?? DEFAULT_SETTINGS.marginInterestTiers,
+  reconciliationTolerance: { ...DEFAULT_SETTINGS.reconciliationTolerance, ...settings?.reconciliationTolerance },
 });
 
+/** Scenarios written before they moved onto the workspace sit in the settings and are lifted out here. */
+export const createAccountWorkspace = (
+  id: string = crypto.randomUUID(),
+  settings?: Partial<AccountSettings>,
+  trades: Trade[] = [],
+  scenarios?: Scenario[],
+): AccountWorkspace => {
+  const { scenarios: legacyScenarios, ...current } = (settings ?? {}) as Partial<AccountSettings> & { scenarios?: Scenario[] };
+  return { id, settings: mergeSettings(current), trades, scenarios: scenarios ?? legacyScenarios ?? [] };
+};
+
+/** The same lift for a cloud row, whether just pulled or kept as the sync base. */
+export const liftCloudScenarios = (row: Omit<CloudState, "scenarios"> & { scenarios?: Scenario[] }): CloudState => {
+  const { scenarios: legacyScenarios, ...settings } = row.settings as AccountSettings & { scenarios?: Scenario[] };
+  return { ...row, settings, scenarios: row.scenarios ?? legacyScenarios ?? [] };
+};
+
 export const localStore = {
   async load(): Promise<StoredState> {
     const database = await openDatabase();
     return new Promise((resolve, reject) => {
-      const transaction = database.transaction(STORE_NAME, "readonly");
-      const request = transaction.objectStore(STORE_NAME).get(STATE_KEY);
-      request.onsuccess = () => {
-        const state = request.result as StoredState | undefined;
+      const transaction = database.transaction([STORE_NAME, ACCOUNT_STORE_NAME], "readonly");
+      const sharedRequest = transaction.objectStore(STORE_NAME).get(STATE_KEY);
+      const accountsRequest = transaction.objectStore(ACCOUNT_STORE_NAME).getAll();
+      transaction.oncomplete = () => {
+        database.close();
+        const shared = sharedRequest.result as StoredShared | undefined;
+        const stored = (accountsRequest.result as StoredAccount[] | undefined) ?? [];
+        const order = shared?.accountOrder ?? [];
+        const rank = (id: string) => (order.includes(id) ? order.indexOf(id) : order.length);
+        const accounts = stored
+          .sort((a, b) => rank(a.id) - rank(b.id))
+          .map((account) => createAccountWorkspace(account.id, account.settings, account.trades ?? [], account.scenarios));
+        if (accounts.length === 0) {
+          accounts.push(createAccountWorkspace(PRIMARY_ACCOUNT_ID, shared?.settings, shared?.trades ?? []));
+        }
         resolve({
-          settings: mergeSettings(state?.settings),
-          trades: state?.trades ?? [],
-          updatedAt: state?.updatedAt ?? new Date(0).toISOString(),
+          accounts,
+          activeAccountId: accounts.some((account) => account.id === shared?.activeAccountId)
+            ? shared?.activeAccountId ?? accounts[0].id
+            : accounts[0].id,
+          marks: shared?.marks ?? {},
+          updatedAt: shared?.updatedAt ?? new Date(0).toISOString(),
         });
       };
-      request.onerror = () => reject(request.error);
-      transaction.oncomplete = () => database.close();
+      transaction.onerror = () => reject(transaction.error);
     });
   },
 
-  async save(settings: AccountSettings, trades: Trade[]) {
+  async save(accounts: AccountWorkspace[], activeAccountId: string, marks: Record<string, QuoteMark>) {
     const database = await openDatabase();
     return new Promise<void>((resolve, reject) => {
-      const transaction = database.transaction(STORE_NAME, "readwrite");
+      const transaction = database.transaction([STORE_NAME, ACCOUNT_STORE_NAME], "readwrite");
+      const updatedAt = new Date().toISOString();
+      const accountStore = transaction.objectStore(ACCOUNT_STORE_NAME);
+      const keysRequest = accountStore.getAllKeys();
+      keysRequest.onsuccess = () => {
+        const kept = new Set(accounts.map((account) => account.id));
+        keysRequest.result.filter((key) => !kept.has(String(key))).forEach((key) => accountStore.delete(key));
+      };
+      accounts.forEach((account) => {
+        accountStore.put(
+          { id: account.id, settings: account.settings, trades: account.trades, scenarios: account.scenarios, updatedAt } satisfies StoredAccount,
+          account.id,
+        );
+      });
       transaction.objectStore(STORE_NAME).put(
-        { settings, trades, updatedAt: new Date().toISOString() } satisfies StoredState,
+        { activeAccountId, accountOrder: accounts.map((account) => account.id), marks, updatedAt } satisfies StoredShared,
         STATE_KEY,
       );
       transaction.oncomplete = () => {
@@ -63,4 +155,96 @@ export const localStore = {
       transaction.onerror = () => reject(transaction.error);
     });
   },
+
+  /** Archived days are write-once: closing a date that is already archived is rejected. */
+  async saveArchive(archive: DayArchive) {
+    const database = await openDatabase();
+    return new Promise<void>((resolve, reject) => {
+      const transaction = database.transaction(ARCHIVE_STORE_NAME, "readwrite");
+      transaction.objectStore(ARCHIVE_STORE_NAME).add(archive);
+      transaction.oncomplete = () => {
+        database.close();
+        resolve();
+      };
+      transaction.onerror = () => {
+        database.close();
+        reject(transaction.error?.name === "ConstraintError"
+          ? new Error(`${archive.date} is already archived`)
+          : transaction.error);
+      };
+    });
+  },
+
+  async loadArchive(accountId: string): Promise<DayArchive[]> {
+    const database = await openDatabase();
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction(ARCHIVE_STORE_NAME, "readonly");
+      const request = transaction.objectStore(ARCHIVE_STORE_NAME).index("accountId").getAll(accountId);
+      request.onsuccess = () => resolve((request.result as DayArchive[]).sort((a, b) => a.date.localeCompare(b.date)));
+      request.onerror = () => reject(request.error);
+      transaction.oncomplete = () => database.close();
+    });
+  },
+
+  /** The cloud rows as of the last pull or push, which the next sync merges against. */
+  async loadSyncBase(): Promise<SyncBase> {
+    const database = await openDatabase();
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction(STORE_NAME, "readonly");
+      const request = transaction.objectStore(STORE_NAME).get(SYNC_BASE_KEY);
+      request.onsuccess = () => {
+        const base = (request.result as SyncBase | undefined) ?? {};
+        resolve(Object.fromEntries(Object.entries(base).map(([id, row]) => [id, liftCloudScenarios(row)])));
+      };
+      request.onerror = () => reject(request.error);
+      transaction.oncomplete = () => database.close();
+    });
+  },
+
+  async saveSyncBase(base: SyncBase) {
+    const database = await openDatabase();
+    return new Promise<void>((resolve, reject) => {
+      const transaction = database.transaction(STORE_NAME, "readwrite");
+      transaction.objectStore(STORE_NAME).put(base, SYNC_BASE_KEY);
+      transaction.oncomplete = () => {
+        database.close();
+        resolve();
+      };
+      transaction.onerror = () => reject(transaction.error);
+    });
+  },
+
+  async loadJournal(): Promise<ChangeJournal | null> {
+    const database = await openDatabase();
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction(JOURNAL_STORE_NAME, "readonly");
+      const request = transaction.objectStore(JOURNAL_STORE_NAME).get(STATE_KEY);
+      request.onsuccess = () => {
+        const journal = request.result as ChangeJournal | undefined;
+        // Snapshots written by older versions pick up settings added since.
+        resolve(journal ? {
+          ...journal,
+          entries: journal.entries.map((entry) => ({
+            ...entry,
+            accounts: entry.accounts.map((account) => createAccountWorkspace(account.id, account.settings, account.trades ?? [], account.scenarios)),
+          })),
+        } : null);
+      };
+      request.onerror = () => reject(request.error);
+      transaction.oncomplete = () => database.close();
+    });
+  },
+
+  async saveJournal(journal: ChangeJournal) {
+    const database = await openDatabase();
+    return new Promise<void>((resolve, reject) => {
+      const transaction = database.transaction(JOURNAL_STORE_NAME, "readwrite");
+      transaction.objectStore(JOURNAL_STORE_NAME).put(journal, STATE_KEY);
+      transaction.oncomplete = () => {
+        database.close();
+        resolve();
+      };
+      transaction.onerror = () => reject(transaction.error);
+    });
+  },
 };
@@ -0,0 +1,135 @@
+import { describe, expect, test } from "vitest";
+import { stressSymbols, stressTest } from "./stress";
+import {
+  AccountSettings,
+  DEFAULT_SETTINGS,
+  InstrumentType,
+  OptionType,
+  Side,
+  Trade,
+} from "../types";
+
+const settings = (overrides: Partial<AccountSettings> = {}): AccountSettings => ({
+  ...DEFAULT_SETTINGS,
+  snapshotDate: "2026-07-27",
+  settlementHolidays: [],
+  ...overrides,
+});
+
+const trade = (overrides: Partial<Trade> = {}): Trade => ({
+  id: crypto.randomUUID(),
+  executedAt: "2026-07-27T14:30:00.000Z",
+  symbol: "XYZ",
+  instrument: InstrumentType.STOCK,
+  side: Side.BUY,
+  quantity: 1_000,
+  price: 100,
+  fees: 0,
+  contractMultiplier: 100,
+  leverageFactor: 1,
+  ...overrides,
+});
+
+const option = (overrides: Partial<Trade>) => trade({
+  symbol: "SPY",
+  instrument: InstrumentType.OPTION,
+  side: Side.SELL_SHORT,
+  quantity: 1,
+  price: 2,
+  optionType: OptionType.PUT,
+  strike: 95,
+  expiration: "2026-08-21",
+  ...overrides,
+});
+
+const asOf = "2026-07-27T19:00:00.000Z";
+const spyMark = { SPY: { symbol: "SPY", price: 100, asOf, source: "manual" as const } };
+const noShock = { mode: "uniform" as const, uniformPct: 0, symbolPct: {}, spyPct: 0 };
+
+describe("price-shock stress test", () => {
+  test("reprices positions under a uniform shock and recomputes maintenance", () => {
+    const report = stressTest(settings(), [trade()], { ...noShock, uniformPct: -0.04 }, {}, asOf);
+
+    expect(report.base.maintenanceExcess).toBe(5_000);
+    expect(report.shocked.positions[0].markPrice).toBe(96);
+    expect(report.shocked.maintenanceRequirement).toBe(24_000);
+    expect(report.shocked.maintenanceExcess).toBe(2_000);
+    expect(report.positions[0]).toMatchObject({ move: -0.04, pnl: -4_000, maintenanceAfter: 24_000 });
+  });
+
+  test("solves the breakeven move per position and for the portfolio", () => {
+    const report = stressTest(settings(), [trade()], noShock, {}, asOf);
+
+    expect(report.positions[0].breakevenMove).toBeCloseTo(-0.0667, 3);
+    expect(report.portfolioBreakevenMove).toBeCloseTo(-0.0667, 3);
+  });
+
+  test("finds an upward breakeven for short positions", () => {
+    const report = stressTest(settings(), [trade({ side: Side.SELL_SHORT, quantity: 100 })], noShock, {}, asOf);
+
+    expect(report.positions[0].breakevenMove).toBeCloseTo(2.0769, 3);
+  });
+
+  test("shocks only the named symbols", () => {
+    const report = stressTest(
+      settings(),
+      [trade({ quantity: 100 }), trade({ symbol: "ABC", quantity: 100 })],
+      { ...noShock, mode: "symbol", symbolPct: { ABC: -0.5 } },
+      {},
+      asOf,
+    );
+
+    expect(report.positions.map((position) => [position.symbol, position.shockedPrice])).toEqual([["ABC", 50], ["XYZ", 100]]);
+  });
+
+  test("beta-weights a SPY move using the catalog", () => {
+    const report = stressTest(settings(), [trade({ symbol: "TSLA", quantity: 500 })], { ...noShock, mode: "beta", spyPct: -0.1 }, {}, asOf);
+
+    expect(report.positions[0]).toMatchObject({ move: -0.2, shockedPrice: 80, beta: { beta: 2, source: "catalog" } });
+    expect(report.positions[0].breakevenMove).toBeCloseTo(-0.4286, 3);
+    expect(report.portfolioBreakevenMove).toBeCloseTo(-0.2143, 3);
+  });
+
+  test("moves an option with its underlying and reprices it to at least intrinsic value", () => {
+    const report = stressTest(settings(), [option({})], { ...noShock, uniformPct: -0.2 }, { marks: spyMark }, asOf);
+    const [put] = report.positions;
+
+    expect(stressSymbols(report.base)).toEqual(["SPY"]);
+    expect(put).toMatchObject({
+      symbol: "SPY 2026-08-21 95P",
+      movesWith: "SPY",
+      shockedPrice: 17,
+      maintenanceBefore: 1_700,
+      maintenanceAfter: 3_300,
+      pnl: -1_500,
+    });
+  });
+
+  test("keeps an out-of-the-money option's premium when the move stays outside the strike", () => {
+    const report = stressTest(
+      settings(),
+      [trade({ symbol: "SPY", quantity: 100 }), option({ optionType: OptionType.CALL, strike: 110 })],
+      { ...noShock, mode: "symbol", symbolPct: { SPY: 0.05 } },
+      {},
+      asOf,
+    );
+
+    expect(stressSymbols(report.base)).toEqual(["SPY"]);
+    expect(report.positions.map((position) => [position.symbol, position.shockedPrice])).toEqual([["SPY", 105], ["SPY 2026-08-21 110C", 2]]);
+  });
+
+  test("prices a covered call's gain on the stock against the call's loss past the strike", () => {
+    const report = stressTest(
+      settings(),
+      [trade({ symbol: "SPY", quantity: 100 }), option({ optionType: OptionType.CALL, strike: 110 })],
+      { ...noShock, uniformPct: 0.2 },
+      {},
+      asOf,
+    );
+
+    expect(report.positions.map((position) => [position.symbol, position.shockedPrice, position.pnl])).toEqual([
+      ["SPY", 120, 2_000],
+      ["SPY 2026-08-21 110C", 12, -1_000],
+    ]);
+  });
+});
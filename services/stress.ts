@@ -0,0 +1,219 @@
+import {
+  AccountSettings,
+  CalculationContext,
+  CalculationResult,
+  InstrumentType,
+  OpeningLot,
+  OptionContract,
+  OptionType,
+  QuoteMark,
+  Trade,
+} from "../types";
+import { ResolvedSymbolBeta, resolveSymbolBeta } from "../data/prototypeMarginCatalog";
+import { calculateAccount } from "./engine";
+import { optionContractFor, optionContractSymbol } from "./optionStrategies";
+
+export type ShockMode = "uniform" | "symbol" | "beta";
+
+export interface PriceShock {
+  mode: ShockMode;
+  /** Fractional move applied to every position, e.g. -0.1 for a 10% drop. */
+  uniformPct: number;
+  /** Fractional move per symbol (or option underlying); unlisted symbols do not move. */
+  symbolPct: Record<string, number>;
+  /** SPY's fractional move, scaled by each symbol's beta. */
+  spyPct: number;
+}
+
+export interface StressedPosition {
+  symbol: string;
+  /** The symbol whose price is shocked: the position itself, or an option's underlying. */
+  movesWith: string;
+  quantity: number;
+  markPrice: number;
+  move: number;
+  shockedPrice: number;
+  maintenanceBefore: number;
+  maintenanceAfter: number;
+  pnl: number;
+  beta: ResolvedSymbolBeta;
+  /** The single-name move that takes maintenance excess to zero, or null if none within range. */
+  breakevenMove: number | null;
+}
+
+export interface StressReport {
+  base: CalculationResult;
+  shocked: CalculationResult;
+  positions: StressedPosition[];
+  /** The uniform move, or SPY move under beta weighting, that takes maintenance excess to zero. */
+  portfolioBreakevenMove: number | null;
+}
+
+const DOWN_LIMIT = -0.99;
+const UP_LIMIT = 3;
+const SCAN_STEP = 0.05;
+const BISECTIONS = 20;
+
+interface Exposure {
+  symbol: string;
+  movesWith: string;
+  /** The underlying price for an option, otherwise the position's own mark. */
+  price: number;
+  beta: ResolvedSymbolBeta;
+  /** Set for options, which are repriced from the shocked underlying. */
+  option?: { contract: OptionContract; premium: number };
+}
+
+/** Option lots carry the underlying as their symbol; their position is keyed by the contract. */
+const positionSymbolOf = (lot: OpeningLot) => {
+  const contract = lot.instrument === InstrumentType.OPTION ? optionContractFor(lot) : undefined;
+  return contract ? optionContractSymbol(contract) : lot.symbol;
+};
+
+const contractFor = (base: CalculationResult, symbol: string) => {
+  const lot = base.openLots.find((candidate) => positionSymbolOf(candidate) === symbol);
+  return lot?.instrument === InstrumentType.OPTION ? optionContractFor(lot) : undefined;
+};
+
+const intrinsicValue = (contract: OptionContract, underlyingPrice: number) =>
+  Math.max(0, contract.optionType === OptionType.CALL ? underlyingPrice - contract.strike : contract.strike - underlyingPrice);
+
+/** The symbols a per-symbol shock can move: each stock-like position and each option underlying. */
+export const stressSymbols = (base: CalculationResult) =>
+  [...new Set(base.positions.map((position) => contractFor(base, position.symbol)?.underlying ?? position.symbol))].sort();
+
+/**
+ * Stock-like positions move their own mark. Options move with their
+ * underlying: there is no pricing model, so the premium keeps its time value
+ * and moves one-for-one with intrinsic value, never falling below intrinsic.
+ */
+const exposuresFor = (settings: AccountSettings, base: CalculationResult, context: CalculationContext): Exposure[] =>
+  base.positions.map((position) => {
+    const contract = contractFor(base, position.symbol);
+    if (!contract) {
+      const lot = base.openLots.find((candidate) => positionSymbolOf(candidate) === position.symbol);
+      return {
+        symbol: position.symbol,
+        movesWith: position.symbol,
+        price: position.markPrice,
+        beta: resolveSymbolBeta(position.symbol, settings, lot?.leverageFactor ?? 1),
+      };
+    }
+    const underlying = contract.underlying;
+    return {
+      symbol: position.symbol,
+      movesWith: underlying,
+      price: base.positions.find((candidate) => candidate.symbol === underlying && candidate.instrument !== InstrumentType.OPTION)?.markPrice
+        ?? context.marks?.[underlying]?.price
+        ?? 0,
+      beta: resolveSymbolBeta(underlying, settings, 1),
+      option: { contract, premium: position.markPrice },
+    };
+  });
+
+const shockedMarks = (
+  exposures: Exposure[],
+  moveFor: (exposure: Exposure) => number,
+  asOf: string,
+): Record<string, QuoteMark> =>
+  Object.fromEntries(exposures
+    .filter((exposure) => exposure.price > 0)
+    .flatMap((exposure) => {
+      const price = Math.max(0.0001, exposure.price * (1 + moveFor(exposure)));
+      const marks: [string, QuoteMark][] = [[exposure.movesWith, { symbol: exposure.movesWith, price, asOf, source: "manual" }]];
+      if (exposure.option) {
+        const { contract, premium } = exposure.option;
+        const intrinsic = intrinsicValue(contract, price);
+        const repriced = Math.max(intrinsic, premium + intrinsic - intrinsicValue(contract, exposure.price));
+        marks.push([exposure.symbol, { symbol: exposure.symbol, price: Math.max(0.0001, repriced), asOf, source: "manual" }]);
+      }
+      return marks;
+    }));
+
+/**
+ * Finds the move nearest zero, in either direction, at which the excess
+ * crosses below zero. A coarse scan brackets the first crossing on each side
+ * and bisection narrows it, so portfolios that are not monotonic in price
+ * still report the first call rather than a later one.
+ */
+const solveBreakeven = (excessAt: (move: number) => number): number | null => {
+  if (excessAt(0) < 0) return 0;
+  const firstCrossing = (direction: -1 | 1) => {
+    const limit = direction < 0 ? DOWN_LIMIT : UP_LIMIT;
+    let safe = 0;
+    for (let move = SCAN_STEP * direction; direction < 0 ? move >= limit : move <= limit; move += SCAN_STEP * direction) {
+      if (excessAt(move) < 0) {
+        let breached = move;
+        for (let step = 0; step < BISECTIONS; step += 1) {
+          const middle = (safe + breached) / 2;
+          if (excessAt(middle) < 0) breached = middle;
+          else safe = middle;
+        }
+        return breached;
+      }
+      safe = move;
+    }
+    return null;
+  };
+  const down = firstCrossing(-1);
+  const up = firstCrossing(1);
+  if (down === null) return up;
+  if (up === null) return down;
+  return Math.abs(down) <= Math.abs(up) ? down : up;
+};
+
+/**
+ * Reprices open positions by feeding shocked quotes through calculateAccount,
+ * so maintenance, excess and IML follow exactly the same lot and strategy
+ * rules as the live ledger.
+ */
+export const stressTest = (
+  settings: AccountSettings,
+  trades: Trade[],
+  shock: PriceShock,
+  context: CalculationContext = {},
+  asOf = new Date().toISOString(),
+): StressReport => {
+  const base = calculateAccount(settings, trades, asOf, context);
+  const exposures = exposuresFor(settings, base, context);
+  const run = (moveFor: (exposure: Exposure) => number) =>
+    calculateAccount(settings, trades, asOf, { ...context, marks: { ...context.marks, ...shockedMarks(exposures, moveFor, asOf) } });
+
+  const moveFor = (exposure: Exposure) =>
+    shock.mode === "uniform"
+      ? shock.uniformPct
+      : shock.mode === "symbol"
+        ? shock.symbolPct[exposure.movesWith] ?? 0
+        : shock.spyPct * exposure.beta.beta;
+  const shocked = run(moveFor);
+
+  const positions = exposures.map((exposure) => {
+    const before = base.positions.find((position) => position.symbol === exposure.symbol);
+    const after = shocked.positions.find((position) => position.symbol === exposure.symbol);
+    const move = moveFor(exposure);
+    return {
+      symbol: exposure.symbol,
+      movesWith: exposure.movesWith,
+      quantity: before?.quantity ?? 0,
+      markPrice: before?.markPrice ?? 0,
+      move,
+      shockedPrice: after?.markPrice ?? 0,
+      maintenanceBefore: before?.maintenanceRequirement ?? 0,
+      maintenanceAfter: after?.maintenanceRequirement ?? 0,
+      pnl: Math.round(((after?.unrealizedPnl ?? 0) - (before?.unrealizedPnl ?? 0)) * 100) / 100,
+      beta: exposure.beta,
+      breakevenMove: exposure.price > 0
+        ? solveBreakeven((single) => run((candidate) => (candidate.movesWith === exposure.movesWith ? single : 0)).maintenanceExcess)
+        : null,
+    };
+  });
+
+  return {
+    base,
+    shocked,
+    positions,
+    portfolioBreakevenMove: exposures.length === 0
+      ? null
+      : solveBreakeven((move) => run((exposure) => (shock.mode === "beta" ? move * exposure.beta.beta : move)).maintenanceExcess),
+  };
+};
@@ -1,5 +1,7 @@
 import { createClient, Session } from "@supabase/supabase-js";
-import { AccountSettings, Trade } from "../types";
+import { AccountSettings, AccountWorkspace, Scenario, Trade } from "../types";
+import { liftCloudScenarios } from "./storage";
+import { SyncBase, changedSinceBase, stampRecords } from "./sync";
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL?.trim();
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY?.trim();
@@ -15,10 +17,29 @@ export const supabase = isCloudConfigured
     })
   : null;
 
+/** When a trade, a scenario or a settings field last changed, and how many times it has been pushed. */
+export interface RecordStamp {
+  version: number;
+  updatedAt: string;
+}
+
 export interface CloudState {
+  accountId: string;
   settings: AccountSettings;
   trades: Trade[];
+  scenarios: Scenario[];
   updatedAt: string;
+  /** Bumped on every write; a write against an older revision is rejected. */
+  revision: number;
+  /** Keyed by `trade:<id>`, `scenario:<id>` and `settings:<field>`. */
+  versions: Record<string, RecordStamp>;
+}
+
+export interface CloudSaveResult {
+  /** The rows as written, to merge the next pull against. */
+  base: SyncBase;
+  /** Accounts whose row changed in the cloud since the last pull; nothing was written for them. */
+  stale: string[];
 }
 
 const requireClient = () => {
@@ -66,35 +87,103 @@ export const cloud = {
     if (error) throw error;
   },
 
-  async load(): Promise<CloudState | null> {
+  /** One row per account; an empty list means nothing has been synced yet. */
+  async load(): Promise<CloudState[]> {
     const client = requireClient();
     const user = await requireUser();
     const { data, error } = await client
       .from("account_states")
-      .select("settings,trades,updated_at")
+      .select("account_id,settings,trades,scenarios,updated_at,revision,versions")
       .eq("user_id", user.id)
-      .maybeSingle();
+      .order("created_at", { ascending: true });
     if (error) throw error;
-    if (!data) return null;
-    return {
-      settings: data.settings as AccountSettings,
-      trades: data.trades as Trade[],
-      updatedAt: data.updated_at,
-    };
+    return (data ?? []).map((row) => liftCloudScenarios({
+      accountId: row.account_id,
+      settings: row.settings as AccountSettings,
+      trades: row.trades as Trade[],
+      scenarios: row.scenarios as Scenario[] | undefined,
+      updatedAt: row.updated_at,
+      revision: row.revision ?? 0,
+      versions: (row.versions ?? {}) as Record<string, RecordStamp>,
+    }));
   },
 
-  async save(settings: AccountSettings, trades: Trade[]) {
+  /**
+   * Writes each account that changed since the base, only if its row is still
+   * at the base revision, and removes rows for accounts deleted on this device
+   * on the same condition. Rows another device has written since are left
+   * alone and reported as stale, for the caller to pull and merge.
+   */
+  async save(accounts: AccountWorkspace[], base: SyncBase): Promise<CloudSaveResult> {
     const client = requireClient();
     const user = await requireUser();
-    const { error } = await client.from("account_states").upsert(
-      {
-        user_id: user.id,
-        settings,
-        trades,
-        updated_at: new Date().toISOString(),
-      },
-      { onConflict: "user_id" },
-    );
-    if (error) throw error;
+    const updatedAt = new Date().toISOString();
+    const next: SyncBase = { ...base };
+    const stale: string[] = [];
+    let wrote = false;
+
+    for (const account of accounts) {
+      const previous = base[account.id];
+      if (!changedSinceBase(previous, account)) continue;
+      const row: CloudState = {
+        accountId: account.id,
+        settings: account.settings,
+        trades: account.trades,
+        scenarios: account.scenarios,
+        updatedAt,
+        revision: (previous?.revision ?? 0) + 1,
+        versions: stampRecords(previous, account, updatedAt),
+      };
+      const values = {
+        settings: row.settings,
+        trades: row.trades,
+        scenarios: row.scenarios,
+        updated_at: row.updatedAt,
+        revision: row.revision,
+        versions: row.versions,
+      };
+      if (previous) {
+        const { data, error } = await client
+          .from("account_states")
+          .update(values)
+          .eq("user_id", user.id)
+          .eq("account_id", account.id)
+          .eq("revision", previous.revision)
+          .select("account_id");
+        if (error) throw error;
+        if ((data ?? []).length === 0) {
+          stale.push(account.id);
+          continue;
+        }
+      } else {
+        const { error } = await client.from("account_states").insert({ user_id: user.id, account_id: account.id, ...values });
+        // 23505: another device created this account first.
+        if (error?.code === "23505") {
+          stale.push(account.id);
+          continue;
+        }
+        if (error) throw error;
+      }
+      next[account.id] = row;
+      wrote = true;
+    }
+
+    for (const removed of Object.values(base).filter((row) => !accounts.some((account) => account.id === row.accountId))) {
+      const { data, error } = await client
+        .from("account_states")
+        .delete()
+        .eq("user_id", user.id)
+        .eq("account_id", removed.accountId)
+        .eq("revision", removed.revision)
+        .select("account_id");
+      if (error) throw error;
+      if ((data ?? []).length === 0) {
+        stale.push(removed.accountId);
+        continue;
+      }
+      delete next[removed.accountId];
+      wrote = true;
+    }
+    return { base: wrote ? next : base, stale };
   },
 };
@@ -0,0 +1,147 @@
+import { describe, expect, test } from "vitest";
+import { createAccountWorkspace } from "./storage";
+import { changedSinceBase, mergeWorkspace, rebaseMerge, resolveConflicts, stampRecords } from "./sync";
+import type { CloudState } from "./supabase";
+import { AccountSettings, AccountWorkspace, InstrumentType, Scenario, Side, Trade } from "../types";
+
+const trade = (id: string, overrides: Partial<Trade> = {}): Trade => ({
+  id,
+  executedAt: "2026-07-27T14:30:00.000Z",
+  symbol: "SPY",
+  instrument: InstrumentType.STOCK,
+  side: Side.BUY,
+  quantity: 100,
+  price: 100,
+  fees: 0,
+  contractMultiplier: 100,
+  leverageFactor: 1,
+  ...overrides,
+});
+
+const account = (trades: Trade[], settings: Partial<AccountSettings> = {}): AccountWorkspace =>
+  createAccountWorkspace("primary", { accountName: "Primary", snapshotDate: "2026-07-27", ...settings }, trades);
+
+// Postgres returns jsonb with its own key order; reversing the keys stands in for that.
+const reorder = <T extends object>(value: T): T => Object.fromEntries(Object.entries(value).reverse()) as T;
+
+const row = (workspace: AccountWorkspace, revision = 1, versions: CloudState["versions"] = {}): CloudState => ({
+  accountId: workspace.id,
+  settings: reorder(workspace.settings),
+  trades: workspace.trades.map(reorder),
+  scenarios: workspace.scenarios.map(reorder),
+  updatedAt: "2026-07-27T15:00:00.000Z",
+  revision,
+  versions,
+});
+
+describe("cloud sync merge", () => {
+  test("merges trades added and deleted on each device without conflicts", () => {
+    const base = row(account([trade("kept"), trade("deleted-here"), trade("deleted-there")]));
+    const local = account([trade("kept"), trade("deleted-there"), trade("added-here")]);
+    const remote = row(account([trade("kept"), trade("deleted-here"), trade("added-there")]), 2);
+
+    const merge = mergeWorkspace({ primary: base }, [local], [remote]);
+
+    expect(merge.conflicts).toEqual([]);
+    expect(merge.accounts[0].trades.map((item) => item.id)).toEqual(["kept", "added-here", "added-there"]);
+    expect(merge.pulled).toBe(2);
+  });
+
+  test("takes a settings field changed on one side and flags one changed on both", () => {
+    const base = row(account([trade("a")], { settledCash: 10_000, houseBufferPct: 0 }));
+    const local = account([trade("a", { price: 101 })], { settledCash: 12_000, houseBufferPct: 0 });
+    const remote = row(account([trade("a", { price: 102 })], { settledCash: 10_000, houseBufferPct: 0.05 }), 2, {
+      "trade:a": { version: 2, updatedAt: "2026-07-27T15:00:00.000Z" },
+    });
+
+    const merge = mergeWorkspace({ primary: base }, [local], [remote]);
+
+    expect(merge.accounts[0].settings).toMatchObject({ settledCash: 12_000, houseBufferPct: 0.05 });
+    expect(merge.conflicts).toEqual([expect.objectContaining({
+      kind: "trade",
+      id: "primary:trade:a",
+      remoteUpdatedAt: "2026-07-27T15:00:00.000Z",
+    })]);
+    expect(merge.accounts[0].trades[0].price).toBe(101);
+    expect(resolveConflicts(merge, { "primary:trade:a": "remote" })[0].trades[0].price).toBe(102);
+  });
+
+  test("flags an edit against a deletion and resolves it either way", () => {
+    const base = row(account([trade("a")]));
+    const merge = mergeWorkspace({ primary: base }, [account([trade("a", { quantity: 50 })])], [row(account([]), 2)]);
+
+    expect(merge.conflicts).toEqual([expect.objectContaining({ kind: "trade", remote: undefined })]);
+    expect(resolveConflicts(merge, {})[0].trades.map((item) => item.quantity)).toEqual([50]);
+    expect(resolveConflicts(merge, { "primary:trade:a": "remote" })[0].trades).toEqual([]);
+  });
+
+  test("keeps edits made while conflicts were open and surfaces new ones", () => {
+    const base = row(account([trade("a"), trade("b")]));
+    const remote = row(account([trade("a", { price: 102 }), trade("b", { quantity: 10 })]), 2);
+    const shown = mergeWorkspace({ primary: base }, [account([trade("a", { price: 101 }), trade("b")])], [remote]);
+
+    const meanwhile = account([trade("a", { price: 101 }), trade("b"), trade("c")], { settledCash: 9_000 });
+    const quiet = rebaseMerge(shown, { primary: base }, [meanwhile], [remote]);
+    const resolved = resolveConflicts(quiet.merge, { "primary:trade:a": "remote" })[0];
+
+    expect(quiet.unseen).toEqual([]);
+    expect(resolved.trades.map((item) => [item.id, item.price, item.quantity])).toEqual([["a", 102, 100], ["b", 100, 10], ["c", 100, 100]]);
+    expect(resolved.settings.settledCash).toBe(9_000);
+
+    const clashing = rebaseMerge(shown, { primary: base }, [account([trade("a", { price: 101 }), trade("b", { quantity: 20 })])], [remote]);
+    expect(clashing.unseen).toEqual([expect.objectContaining({ id: "primary:trade:b" })]);
+  });
+
+  test("gives a new device the cloud copy and keeps accounts only one side has seen", () => {
+    const fresh = createAccountWorkspace("primary");
+    const cloudCopy = row(account([trade("a")], { settledCash: 5_000 }));
+    const ira = createAccountWorkspace("ira", { accountName: "IRA" });
+
+    const merge = mergeWorkspace({}, [fresh, ira], [cloudCopy]);
+
+    expect(merge.conflicts).toEqual([]);
+    expect(merge.accounts.map((item) => item.id)).toEqual(["primary", "ira"]);
+    expect(merge.accounts[0]).toMatchObject({ trades: [expect.objectContaining({ id: "a" })], settings: { settledCash: 5_000 } });
+  });
+
+  test("merges sandbox scenarios per record, apart from the settings", () => {
+    const scenario = (id: string, name = id): Scenario => ({ id, name, legs: [trade(`${id}-leg`)] });
+    const withScenarios = (scenarios: Scenario[], settings: Partial<AccountSettings> = {}) =>
+      ({ ...account([], settings), scenarios });
+    const base = row(withScenarios([scenario("kept"), scenario("renamed")]));
+    const local = withScenarios([scenario("kept"), scenario("renamed", "Local name"), scenario("added-here")], { settledCash: 8_000 });
+    const remote = row(withScenarios([scenario("kept"), scenario("renamed", "Cloud name")]), 2);
+
+    const merge = mergeWorkspace({ primary: base }, [local], [remote]);
+
+    expect(merge.accounts[0].scenarios.map((item) => item.id)).toEqual(["kept", "renamed", "added-here"]);
+    expect(merge.accounts[0].settings).not.toHaveProperty("scenarios");
+    expect(merge.conflicts).toEqual([expect.objectContaining({ kind: "scenario", id: "primary:scenario:renamed" })]);
+    expect(resolveConflicts(merge, { "primary:scenario:renamed": "remote" })[0].scenarios[1].name).toBe("Cloud name");
+    expect(stampRecords(base, local, "2026-07-27T16:00:00.000Z")).toHaveProperty("scenario:added-here");
+  });
+
+  test("lifts scenarios saved inside the settings onto the workspace", () => {
+    const legacy = { accountName: "Primary", scenarios: [{ id: "old", name: "Old", legs: [] }] } as Partial<AccountSettings>;
+    const lifted = createAccountWorkspace("primary", legacy);
+
+    expect(lifted.scenarios).toEqual([{ id: "old", name: "Old", legs: [] }]);
+    expect(lifted.settings).not.toHaveProperty("scenarios");
+  });
+
+  test("stamps only the records that changed since the base", () => {
+    const base = row(account([trade("a"), trade("b")]), 3, {
+      "trade:a": { version: 1, updatedAt: "2026-07-26T15:00:00.000Z" },
+      "trade:b": { version: 4, updatedAt: "2026-07-26T15:00:00.000Z" },
+      "settings:settledCash": { version: 2, updatedAt: "2026-07-26T15:00:00.000Z" },
+    });
+    const local = account([trade("a"), trade("b", { price: 99 }), trade("c")], { settledCash: 7_500 });
+    const stamps = stampRecords(base, local, "2026-07-27T16:00:00.000Z");
+
+    expect(changedSinceBase(base, account([trade("a"), trade("b")]))).toBe(false);
+    expect(stamps["trade:a"]).toEqual({ version: 1, updatedAt: "2026-07-26T15:00:00.000Z" });
+    expect(stamps["trade:b"]).toEqual({ version: 5, updatedAt: "2026-07-27T16:00:00.000Z" });
+    expect(stamps["trade:c"]).toEqual({ version: 1, updatedAt: "2026-07-27T16:00:00.000Z" });
+    expect(stamps["settings:settledCash"]).toEqual({ version: 3, updatedAt: "2026-07-27T16:00:00.000Z" });
+  });
+});
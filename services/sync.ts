@@ -0,0 +1,260 @@
+import type { CloudState, RecordStamp } from "./supabase";
+import { createAccountWorkspace, mergeSettings } from "./storage";
+import { AccountSettings, AccountWorkspace, Scenario, Trade } from "../types";
+
+/** Each account's row as of the last pull or push, keyed by account id. */
+export type SyncBase = Record<string, CloudState>;
+
+export type ConflictChoice = "local" | "remote";
+
+interface ConflictBase {
+  /** `<accountId>:<recordId>`. */
+  id: string;
+  accountId: string;
+  accountName: string;
+  recordId: string;
+  /** When the cloud copy last changed, from its record stamp. */
+  remoteUpdatedAt?: string;
+}
+
+export interface TradeConflict extends ConflictBase {
+  kind: "trade";
+  /** Absent when the trade was deleted on that side. */
+  local?: Trade;
+  remote?: Trade;
+}
+
+export interface ScenarioConflict extends ConflictBase {
+  kind: "scenario";
+  /** Absent when the scenario was deleted on that side. */
+  local?: Scenario;
+  remote?: Scenario;
+}
+
+export interface SettingConflict extends ConflictBase {
+  kind: "setting";
+  field: keyof AccountSettings;
+  local: unknown;
+  remote: unknown;
+}
+
+export type SyncConflict = TradeConflict | ScenarioConflict | SettingConflict;
+
+export interface WorkspaceMerge {
+  /** The merged accounts, holding the local side of every conflict until it is resolved. */
+  accounts: AccountWorkspace[];
+  conflicts: SyncConflict[];
+  /** Trades, scenarios, settings fields and accounts taken from the cloud. */
+  pulled: number;
+}
+
+// Postgres stores jsonb with its own key order and drops undefined members, so
+// records round-tripped through the cloud are compared structurally.
+const same = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null || Array.isArray(a) !== Array.isArray(b)) return false;
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  const keys = Object.keys(left).filter((key) => left[key] !== undefined);
+  return keys.length === Object.keys(right).filter((key) => right[key] !== undefined).length
+    && keys.every((key) => same(left[key], right[key]));
+};
+
+/** An account this device has never touched: no trades and the default settings, whatever day it was opened. */
+const pristine = (account: AccountWorkspace) =>
+  account.trades.length === 0 && account.scenarios.length === 0 && same({ ...account.settings, snapshotDate: "" }, { ...mergeSettings(), snapshotDate: "" });
+
+export const tradeRecordId = (id: string) => `trade:${id}`;
+export const scenarioRecordId = (id: string) => `scenario:${id}`;
+export const settingRecordId = (field: string) => `settings:${field}`;
+
+type Versions<T> = { base?: T; local?: T; remote?: T };
+type Outcome<T> = { value?: T; from: "local" | "remote" | "both"; conflict: boolean };
+
+/**
+ * The three-way rule applied to every record: a side that still matches the
+ * base has not touched it, so the other side's version wins, including a
+ * deletion. When both sides changed it differently, the record conflicts.
+ */
+const mergeRecord = <T>({ base, local, remote }: Versions<T>): Outcome<T> => {
+  if (same(local, remote)) return { value: local, from: "both", conflict: false };
+  if (same(local, base)) return { value: remote, from: "remote", conflict: false };
+  if (same(remote, base)) return { value: local, from: "local", conflict: false };
+  return { value: local, from: "local", conflict: true };
+};
+
+/** Applies the three-way rule to each id in a list of records, keeping the merged survivors in order. */
+const mergeById = <T extends { id: string }>(
+  base: T[] = [],
+  local: T[],
+  remote: T[],
+  onMerge: (id: string, sides: Versions<T>, outcome: Outcome<T>) => void,
+): T[] => {
+  const ids = [...new Set([...local, ...remote, ...base].map((record) => record.id))];
+  return ids.flatMap((id): T[] => {
+    const sides = {
+      base: base.find((record) => record.id === id),
+      local: local.find((record) => record.id === id),
+      remote: remote.find((record) => record.id === id),
+    };
+    const outcome = mergeRecord(sides);
+    onMerge(id, sides, outcome);
+    return outcome.value ? [outcome.value] : [];
+  });
+};
+
+export const changedSinceBase = (base: CloudState | undefined, account: Pick<AccountWorkspace, "settings" | "trades" | "scenarios">) =>
+  !base || !same(base.settings, account.settings) || !same(base.trades, account.trades) || !same(base.scenarios, account.scenarios);
+
+/**
+ * Stamps every trade, scenario and settings field: records unchanged since the
+ * base keep their stamp, changed or new ones get the next version at `at`, and
+ * deleted ones drop out.
+ */
+export const stampRecords = (base: CloudState | undefined, account: AccountWorkspace, at: string): Record<string, RecordStamp> => {
+  const stamps: Record<string, RecordStamp> = {};
+  const stamp = (recordId: string, unchanged: boolean) => {
+    const previous = base?.versions[recordId];
+    stamps[recordId] = unchanged && previous ? previous : { version: (previous?.version ?? 0) + 1, updatedAt: at };
+  };
+  account.trades.forEach((trade) => {
+    stamp(tradeRecordId(trade.id), same(trade, base?.trades.find((candidate) => candidate.id === trade.id)));
+  });
+  account.scenarios.forEach((scenario) => {
+    stamp(scenarioRecordId(scenario.id), same(scenario, base?.scenarios.find((candidate) => candidate.id === scenario.id)));
+  });
+  (Object.keys(account.settings) as Array<keyof AccountSettings>).forEach((field) => {
+    stamp(settingRecordId(field), same(account.settings[field], base?.settings[field]));
+  });
+  return stamps;
+};
+
+const mergeAccount = (base: CloudState | undefined, local: AccountWorkspace, remote: CloudState) => {
+  const conflicts: SyncConflict[] = [];
+  let pulled = 0;
+  const accountName = local.settings.accountName;
+  const remoteUpdatedAt = (recordId: string) => remote.versions[recordId]?.updatedAt;
+
+  const trades = mergeById(base?.trades, local.trades, remote.trades, (id, sides, outcome) => {
+    if (outcome.from === "remote") pulled += 1;
+    if (outcome.conflict) {
+      const recordId = tradeRecordId(id);
+      conflicts.push({ kind: "trade", id: `${local.id}:${recordId}`, accountId: local.id, accountName, recordId, local: sides.local, remote: sides.remote, remoteUpdatedAt: remoteUpdatedAt(recordId) });
+    }
+  });
+  const scenarios = mergeById(base?.scenarios, local.scenarios, remote.scenarios, (id, sides, outcome) => {
+    if (outcome.from === "remote") pulled += 1;
+    if (outcome.conflict) {
+      const recordId = scenarioRecordId(id);
+      conflicts.push({ kind: "scenario", id: `${local.id}:${recordId}`, accountId: local.id, accountName, recordId, local: sides.local, remote: sides.remote, remoteUpdatedAt: remoteUpdatedAt(recordId) });
+    }
+  });
+
+  const fields = [...new Set([...Object.keys(local.settings), ...Object.keys(remote.settings), ...Object.keys(base?.settings ?? {})])] as Array<keyof AccountSettings>;
+  const settings = Object.fromEntries(fields.flatMap((field) => {
+    const sides = { base: base?.settings[field], local: local.settings[field], remote: remote.settings[field] };
+    const outcome = mergeRecord<unknown>(sides);
+    if (outcome.from === "remote") pulled += 1;
+    if (outcome.conflict) {
+      const recordId = settingRecordId(field);
+      conflicts.push({ kind: "setting", id: `${local.id}:${recordId}`, accountId: local.id, accountName, recordId, field, local: sides.local, remote: sides.remote, remoteUpdatedAt: remoteUpdatedAt(recordId) });
+    }
+    return outcome.value === undefined ? [] : [[field, outcome.value]];
+  })) as Partial<AccountSettings>;
+
+  return { account: createAccountWorkspace(local.id, settings, trades, scenarios), conflicts, pulled };
+};
+
+/**
+ * Merges the cloud rows into this device's workspace, record by record,
+ * against the rows both last agreed on. Trades and scenarios added or deleted
+ * on either side and settings fields changed on one side merge on their own;
+ * a record both sides changed differently is a conflict. An account deleted
+ * on one side goes unless the other side has changed it since; an account
+ * only one side has ever seen is kept. An untouched account on a device that
+ * has never synced, such as the default one on a new device, takes the cloud
+ * copy whole.
+ */
+export const mergeWorkspace = (base: SyncBase, local: AccountWorkspace[], remote: CloudState[]): WorkspaceMerge => {
+  const conflicts: SyncConflict[] = [];
+  let pulled = 0;
+  const ids = [...new Set([...local.map((account) => account.id), ...remote.map((row) => row.accountId)])];
+  const accounts = ids.flatMap((id): AccountWorkspace[] => {
+    const mine = local.find((account) => account.id === id);
+    const theirs = remote.find((row) => row.accountId === id);
+    const previous = base[id];
+    if (mine && theirs && !previous && pristine(mine)) {
+      pulled += 1;
+      return [createAccountWorkspace(theirs.accountId, theirs.settings, theirs.trades, theirs.scenarios)];
+    }
+    if (mine && theirs) {
+      const merged = mergeAccount(previous, mine, theirs);
+      conflicts.push(...merged.conflicts);
+      pulled += merged.pulled;
+      return [merged.account];
+    }
+    if (mine) {
+      if (previous && !changedSinceBase(previous, mine)) {
+        pulled += 1;
+        return [];
+      }
+      return [mine];
+    }
+    if (!theirs || (previous && !changedSinceBase(previous, theirs))) return [];
+    pulled += 1;
+    return [createAccountWorkspace(theirs.accountId, theirs.settings, theirs.trades, theirs.scenarios)];
+  });
+  return { accounts, conflicts, pulled };
+};
+
+/**
+ * Redoes a merge the user is still resolving against the workspace as it is
+ * now, so trades and settings edited while the conflicts were on screen are
+ * kept. Conflicts the user was not shown, such as a record edited locally
+ * meanwhile that the cloud also changed, come back as `unseen`.
+ */
+export const rebaseMerge = (
+  shown: WorkspaceMerge,
+  base: SyncBase,
+  local: AccountWorkspace[],
+  remote: CloudState[],
+): { merge: WorkspaceMerge; unseen: SyncConflict[] } => {
+  const merge = mergeWorkspace(base, local, remote);
+  const unseen = merge.conflicts.filter((conflict) => {
+    const before = shown.conflicts.find((candidate) => candidate.id === conflict.id);
+    return !before || !same(before.local, conflict.local);
+  });
+  return { merge, unseen };
+};
+
+/** Applies the chosen side of each conflict; unanswered conflicts keep this device's version. */
+export const resolveConflicts = (merge: WorkspaceMerge, choices: Record<string, ConflictChoice>): AccountWorkspace[] =>
+  merge.accounts.map((account) => {
+    const remoteChoices = merge.conflicts.filter((conflict) => conflict.accountId === account.id && choices[conflict.id] === "remote");
+    if (remoteChoices.length === 0) return account;
+    let trades = account.trades;
+    let scenarios = account.scenarios;
+    const settings: Partial<AccountSettings> = { ...account.settings };
+    remoteChoices.forEach((conflict) => {
+      if (conflict.kind === "trade") {
+        const localId = conflict.local?.id ?? conflict.remote?.id;
+        trades = conflict.remote
+          ? trades.some((trade) => trade.id === localId)
+            ? trades.map((trade) => (trade.id === localId ? conflict.remote as Trade : trade))
+            : [...trades, conflict.remote]
+          : trades.filter((trade) => trade.id !== localId);
+      } else if (conflict.kind === "scenario") {
+        const localId = conflict.local?.id ?? conflict.remote?.id;
+        scenarios = conflict.remote
+          ? scenarios.some((scenario) => scenario.id === localId)
+            ? scenarios.map((scenario) => (scenario.id === localId ? conflict.remote as Scenario : scenario))
+            : [...scenarios, conflict.remote]
+          : scenarios.filter((scenario) => scenario.id !== localId);
+      } else if (conflict.remote === undefined) {
+        delete settings[conflict.field];
+      } else {
+        (settings as Record<string, unknown>)[conflict.field] = conflict.remote;
+      }
+    });
+    return createAccountWorkspace(account.id, settings, trades, scenarios);
+  });
@@ -0,0 +1,115 @@
+import { describe, expect, test } from "vitest";
+import { calculateAccount } from "./engine";
+import { buildTaxLotReport, form8949Csv, holdingTerm } from "./taxLots";
+import { AccountSettings, DEFAULT_SETTINGS, InstrumentType, OpeningLot, Side, Trade } from "../types";
+
+const settings = (overrides: Partial<AccountSettings> = {}): AccountSettings => ({
+  ...DEFAULT_SETTINGS,
+  snapshotDate: "2026-03-02",
+  settledCash: 100_000,
+  settlementHolidays: [],
+  ...overrides,
+});
+
+const trade = (id: string, executedAt: string, side: Side, quantity: number, price: number, fees = 0): Trade => ({
+  id,
+  executedAt: `${executedAt}T14:30:00.000Z`,
+  symbol: "SPY",
+  instrument: InstrumentType.STOCK,
+  side,
+  quantity,
+  price,
+  fees,
+  contractMultiplier: 100,
+  leverageFactor: 1,
+});
+
+const day = (trades: Trade[], openingLots: OpeningLot[] = []) => ({
+  trades,
+  result: calculateAccount(settings({ snapshotDate: trades[0].executedAt.slice(0, 10), openingLots }), trades, `${trades.at(-1)?.executedAt.slice(0, 10)}T20:00:00.000Z`),
+});
+
+describe("tax lots", () => {
+  test("reports each closed lot with fees in proceeds and basis and the holding term", () => {
+    const trades = [
+      trade("buy", "2026-03-02", Side.BUY, 10, 100, 1),
+      trade("sell", "2026-03-02", Side.SELL, 10, 110, 2),
+    ];
+    const report = buildTaxLotReport([day(trades)]);
+
+    expect(report.lots).toEqual([expect.objectContaining({
+      lotId: "buy",
+      acquired: "2026-03-02",
+      sold: "2026-03-02",
+      proceeds: 1_098,
+      costBasis: 1_001,
+      gain: 97,
+      term: "short",
+      washSaleDisallowed: 0,
+    })]);
+    expect(holdingTerm("2025-03-02", "2026-03-02")).toBe("short");
+    expect(holdingTerm("2025-03-02", "2026-03-03")).toBe("long");
+  });
+
+  test("disallows a loss replaced within 30 days and carries it into the replacement lot", () => {
+    const first = day([
+      trade("buy", "2026-01-15", Side.BUY, 10, 100),
+      trade("sell", "2026-03-02", Side.SELL, 10, 90),
+    ]);
+    const second = day([
+      trade("rebuy", "2026-03-20", Side.BUY, 10, 92),
+      trade("resell", "2026-04-30", Side.SELL, 10, 95),
+    ]);
+    const report = buildTaxLotReport([second, first]);
+    const [loss, replacement] = report.lots;
+
+    expect(loss).toMatchObject({ tradeId: "sell", gain: 0, washSaleDisallowed: 100, replacementLotIds: ["rebuy"] });
+    expect(replacement).toMatchObject({ lotId: "rebuy", costBasis: 1_020, gain: -70, acquired: "2026-02-02" });
+    expect(report.washSaleDisallowed).toBe(100);
+    expect(report.shortTermGain).toBe(-70);
+  });
+
+  test("limits the disallowed loss to the replacement shares and ignores purchases outside the window", () => {
+    const report = buildTaxLotReport([
+      day([
+        trade("early", "2026-01-02", Side.BUY, 10, 100),
+        trade("partial", "2026-02-25", Side.BUY, 4, 95),
+        trade("sell", "2026-03-02", Side.SELL, 10, 90),
+        trade("late", "2026-04-10", Side.BUY, 10, 91),
+      ]),
+    ]);
+    const sale = report.lots.find((lot) => lot.lotId === "early");
+
+    expect(sale).toMatchObject({ washSaleDisallowed: 40, gain: -60, replacementLotIds: ["partial"] });
+  });
+
+  test("exports Form 8949 rows with code W and short-term rows first", () => {
+    const report = buildTaxLotReport([
+      day([trade("old", "2026-03-02", Side.SELL, 10, 150)], [{
+        lotId: "old",
+        symbol: "SPY",
+        instrument: InstrumentType.STOCK,
+        side: "long",
+        quantity: 10,
+        price: 100,
+        costBasis: 1_000,
+        acquiredAt: "2024-01-10T15:00:00.000Z",
+        markedAt: "2026-02-27T21:00:00.000Z",
+        contractMultiplier: 100,
+        leverageFactor: 1,
+        unsettledFunding: [],
+        unfundedAmount: 0,
+      }]),
+      day([
+        trade("buy", "2026-03-03", Side.BUY, 5, 100),
+        trade("sell", "2026-03-04", Side.SELL, 5, 80),
+        trade("rebuy", "2026-03-05", Side.BUY, 5, 81),
+      ]),
+    ]);
+    const lines = form8949Csv(report).split("\n");
+
+    expect(lines[0]).toBe("Part,(a) Description of property,(b) Date acquired,(c) Date sold or disposed of,(d) Proceeds,(e) Cost or other basis,(f) Code,(g) Amount of adjustment,(h) Gain or (loss)");
+    expect(lines[1]).toBe("I,5 sh SPY,03/03/2026,03/04/2026,400.00,500.00,W,100.00,0.00");
+    expect(lines[2]).toBe("II,10 sh SPY,01/10/2024,03/02/2026,1500.00,1000.00,,,500.00");
+  });
+});
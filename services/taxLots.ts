@@ -0,0 +1,241 @@
+import { CalculationResult, InstrumentType, RelievedLot, Side, Trade } from "../types";
+import { optionContractFor, optionContractSymbol } from "./optionStrategies";
+
+/** IRC §1091: a loss is disallowed when substantially identical stock is bought within 30 days either side of the sale. */
+export const WASH_SALE_WINDOW_DAYS = 30;
+
+export type HoldingTerm = "short" | "long";
+
+/** One day of the ledger: the day's executions and the result they produced. */
+export interface TaxLotDay {
+  trades: Trade[];
+  result: CalculationResult;
+}
+
+export interface ClosedTaxLot {
+  id: string;
+  tradeId: string;
+  lotId: string;
+  /** The symbol, or the contract symbol for an option. */
+  security: string;
+  description: string;
+  side: "long" | "short";
+  quantity: number;
+  acquired: string;
+  sold: string;
+  /** Net of the closing trade's fees. */
+  proceeds: number;
+  /** Includes opening fees and any loss carried in from an earlier wash sale. */
+  costBasis: number;
+  /** Loss disallowed by a wash sale, reported with code W as a positive adjustment. */
+  washSaleDisallowed: number;
+  gain: number;
+  term: HoldingTerm;
+  /** Lots that received the disallowed loss. */
+  replacementLotIds: string[];
+}
+
+export interface TaxLotReport {
+  lots: ClosedTaxLot[];
+  shortTermGain: number;
+  longTermGain: number;
+  washSaleDisallowed: number;
+}
+
+interface Purchase {
+  lotId: string;
+  security: string;
+  acquired: string;
+  quantity: number;
+  /** Shares not yet used to replace a wash-sale loss. */
+  available: number;
+}
+
+interface CarriedAdjustment {
+  quantity: number;
+  basis: number;
+  acquired: string;
+}
+
+const EPSILON = 0.000_001;
+const DAY_MS = 86_400_000;
+
+const cents = (value: number) => Math.round(value * 100) / 100;
+const dayNumber = (date: string) => Date.parse(`${date}T00:00:00.000Z`) / DAY_MS;
+const fromDayNumber = (day: number) => new Date(day * DAY_MS).toISOString().slice(0, 10);
+
+const securityOf = (trade: Trade) => {
+  const contract = trade.instrument === InstrumentType.OPTION ? optionContractFor(trade) : undefined;
+  return contract ? optionContractSymbol(contract) : trade.symbol.trim().toUpperCase();
+};
+
+/** Held for more than one year: sold after the first anniversary of the acquisition date. */
+export const holdingTerm = (acquired: string, sold: string): HoldingTerm => {
+  const [year, month, day] = acquired.split("-").map(Number);
+  const anniversary = new Date(Date.UTC(year + 1, month - 1, day)).toISOString().slice(0, 10);
+  return sold > anniversary ? "long" : "short";
+};
+
+/**
+ * Builds the realized lots for every closing trade across the given days,
+ * oldest first. Long lots sold at a loss are tested against purchases of the
+ * same security within the wash-sale window; the disallowed loss is added to
+ * the replacement shares' basis and their holding period is extended by the
+ * sold lot's, so a later sale of those shares reports the carried figures.
+ * Each replacement share absorbs at most one loss. Short sales are reported as
+ * acquired and sold on the covering date and are always short-term.
+ */
+export const buildTaxLotReport = (days: TaxLotDay[]): TaxLotReport => {
+  const executions = days
+    .flatMap((day) => day.trades.map((trade) => ({ trade, relieved: day.result.analyses[trade.id]?.relievedLots ?? [] })))
+    .sort((a, b) => a.trade.executedAt.localeCompare(b.trade.executedAt));
+  const tradesById = new Map(executions.map(({ trade }) => [trade.id, trade]));
+  const feesFor = (tradeId: string, quantity: number) => {
+    const trade = tradesById.get(tradeId);
+    return trade && trade.quantity > 0 ? (trade.fees || 0) * (quantity / trade.quantity) : 0;
+  };
+
+  const purchases: Purchase[] = executions.flatMap(({ trade, relieved }) => {
+    if (trade.side !== Side.BUY) return [];
+    const opened = trade.quantity - relieved.reduce((sum, lot) => sum + lot.quantity, 0);
+    return opened > EPSILON
+      ? [{ lotId: trade.id, security: securityOf(trade), acquired: trade.executedAt.slice(0, 10), quantity: opened, available: opened }]
+      : [];
+  });
+  const carried = new Map<string, CarriedAdjustment[]>();
+  const soldFromLot = new Map<string, number>();
+  const lots: ClosedTaxLot[] = [];
+
+  const piecesOf = (relieved: RelievedLot) => {
+    const pieces: CarriedAdjustment[] = [];
+    let remaining = relieved.quantity;
+    const queue = carried.get(relieved.lotId) ?? [];
+    while (remaining > EPSILON && queue.length > 0) {
+      const next = queue[0];
+      const quantity = Math.min(remaining, next.quantity);
+      const basis = next.basis * (quantity / next.quantity);
+      pieces.push({ quantity, basis, acquired: next.acquired });
+      next.quantity -= quantity;
+      next.basis -= basis;
+      if (next.quantity <= EPSILON) queue.shift();
+      remaining -= quantity;
+    }
+    if (remaining > EPSILON) pieces.push({ quantity: remaining, basis: 0, acquired: relieved.acquiredAt.slice(0, 10) });
+    return pieces;
+  };
+
+  executions.forEach(({ trade, relieved }) => {
+    const security = securityOf(trade);
+    const sold = trade.executedAt.slice(0, 10);
+    const side = trade.side === Side.SELL ? "long" : "short";
+    const unit = trade.instrument === InstrumentType.OPTION ? "" : " sh";
+
+    relieved.forEach((relievedLot) => {
+      const closingFees = feesFor(trade.id, relievedLot.quantity);
+      const openingFees = feesFor(relievedLot.lotId, relievedLot.quantity);
+      const pieces = side === "long"
+        ? piecesOf(relievedLot)
+        : [{ quantity: relievedLot.quantity, basis: 0, acquired: sold }];
+
+      pieces.forEach((piece, index) => {
+        const share = piece.quantity / relievedLot.quantity;
+        const proceeds = cents(side === "long"
+          ? (relievedLot.exitValue - closingFees) * share
+          : (relievedLot.costBasis - openingFees) * share);
+        const costBasis = cents(side === "long"
+          ? (relievedLot.costBasis + openingFees) * share + piece.basis
+          : (relievedLot.exitValue + closingFees) * share);
+        const loss = costBasis - proceeds;
+        let washSaleDisallowed = 0;
+        const replacementLotIds: string[] = [];
+
+        if (side === "long" && loss > EPSILON) {
+          let uncovered = piece.quantity;
+          const heldDays = dayNumber(sold) - dayNumber(piece.acquired);
+          purchases
+            .filter((purchase) => purchase.security === security
+              && purchase.lotId !== relievedLot.lotId
+              && Math.abs(dayNumber(purchase.acquired) - dayNumber(sold)) <= WASH_SALE_WINDOW_DAYS)
+            .forEach((purchase) => {
+              const stillHeld = purchase.quantity - (soldFromLot.get(purchase.lotId) ?? 0);
+              const quantity = Math.min(uncovered, purchase.available, stillHeld);
+              if (quantity <= EPSILON) return;
+              const disallowed = loss * (quantity / piece.quantity);
+              carried.set(purchase.lotId, [
+                ...(carried.get(purchase.lotId) ?? []),
+                { quantity, basis: disallowed, acquired: fromDayNumber(dayNumber(purchase.acquired) - heldDays) },
+              ]);
+              purchase.available -= quantity;
+              uncovered -= quantity;
+              washSaleDisallowed += disallowed;
+              replacementLotIds.push(purchase.lotId);
+            });
+        }
+
+        const quantity = Number(piece.quantity.toFixed(6));
+        lots.push({
+          id: `${trade.id}:${relievedLot.lotId}${pieces.length > 1 ? `:${index + 1}` : ""}`,
+          tradeId: trade.id,
+          lotId: relievedLot.lotId,
+          security,
+          description: `${quantity.toLocaleString("en-US")}${unit} ${security}`,
+          side,
+          quantity,
+          acquired: piece.acquired,
+          sold,
+          proceeds,
+          costBasis,
+          washSaleDisallowed: cents(washSaleDisallowed),
+          gain: cents(proceeds - costBasis + washSaleDisallowed),
+          term: side === "long" ? holdingTerm(piece.acquired, sold) : "short",
+          replacementLotIds,
+        });
+      });
+      if (side === "long") soldFromLot.set(relievedLot.lotId, (soldFromLot.get(relievedLot.lotId) ?? 0) + relievedLot.quantity);
+    });
+  });
+
+  const total = (term: HoldingTerm) => cents(lots.filter((lot) => lot.term === term).reduce((sum, lot) => sum + lot.gain, 0));
+  return {
+    lots,
+    shortTermGain: total("short"),
+    longTermGain: total("long"),
+    washSaleDisallowed: cents(lots.reduce((sum, lot) => sum + lot.washSaleDisallowed, 0)),
+  };
+};
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const formDate = (date: string) => `${date.slice(5, 7)}/${date.slice(8, 10)}/${date.slice(0, 4)}`;
+
+/** Form 8949 columns (a) through (h), with Part I (short-term) rows before Part II (long-term). */
+export const form8949Csv = (report: TaxLotReport) => {
+  const header = [
+    "Part",
+    "(a) Description of property",
+    "(b) Date acquired",
+    "(c) Date sold or disposed of",
+    "(d) Proceeds",
+    "(e) Cost or other basis",
+    "(f) Code",
+    "(g) Amount of adjustment",
+    "(h) Gain or (loss)",
+  ];
+  const rows = [...report.lots]
+    .sort((a, b) => (a.term === b.term ? 0 : a.term === "short" ? -1 : 1) || a.sold.localeCompare(b.sold))
+    .map((lot) => [
+      lot.term === "short" ? "I" : "II",
+      lot.description,
+      formDate(lot.acquired),
+      formDate(lot.sold),
+      lot.proceeds.toFixed(2),
+      lot.costBasis.toFixed(2),
+      lot.washSaleDisallowed > 0 ? "W" : "",
+      lot.washSaleDisallowed > 0 ? lot.washSaleDisallowed.toFixed(2) : "",
+      lot.gain.toFixed(2),
+    ]);
+  return [header, ...rows].map((row) => row.map(csvCell).join(",")).join("\n");
+};
@@ -0,0 +1,65 @@
+import { describe, expect, test } from "vitest";
+import { diffTradeEdit, replaceTrade } from "./tradeEdit";
+import { AccountSettings, AccountType, DEFAULT_SETTINGS, InstrumentType, MarginRegime, Side, Trade } from "../types";
+
+const settings = (overrides: Partial<AccountSettings> = {}): AccountSettings => ({
+  ...DEFAULT_SETTINGS,
+  snapshotDate: "2026-07-27",
+  settlementHolidays: [],
+  ...overrides,
+});
+
+const trade = (id: string, executedAt: string, quantity: number, overrides: Partial<Trade> = {}): Trade => ({
+  id,
+  executedAt,
+  symbol: "SPY",
+  instrument: InstrumentType.STOCK,
+  side: Side.BUY,
+  quantity,
+  price: 100,
+  fees: 0,
+  contractMultiplier: 100,
+  leverageFactor: 1,
+  ...overrides,
+});
+
+const AS_OF = "2026-07-27T20:00:00.000Z";
+
+describe("trade edits", () => {
+  test("replaces the trade in place, keeping its id and position in the ledger", () => {
+    const trades = [trade("a", "2026-07-27T14:30:00.000Z", 10), trade("b", "2026-07-27T15:00:00.000Z", 20)];
+    const edited = replaceTrade(trades, { ...trades[0], price: 101 });
+
+    expect(edited.map((item) => [item.id, item.price])).toEqual([["a", 101], ["b", 100]]);
+    expect(diffTradeEdit(settings(), trades, trades[0], {}, AS_OF)).toMatchObject({ edited: false, metrics: [], alerts: [], analyses: [] });
+  });
+
+  test("lists the metrics, alerts and analysis rows a larger fill would change", () => {
+    const account = settings({ marginRegime: MarginRegime.INTRADAY_MARGIN, startOfDayEquity: 10_000, startOfDayMaintenance: 0, brokerMarginBuyingPower: 0 });
+    const original = trade("buy", "2026-07-27T14:30:00.000Z", 200);
+    const diff = diffTradeEdit(account, [original], { ...original, quantity: 500 }, {}, AS_OF);
+
+    expect(diff.edited).toBe(true);
+    expect(diff.metrics).toContainEqual(expect.objectContaining({ field: "intradayMarginLevel", before: 5_000, after: -2_500 }));
+    expect(diff.metrics).toContainEqual(expect.objectContaining({ field: "maintenanceRequirement", before: 5_000, after: 12_500 }));
+    expect(diff.alerts.some((change) => change.status === "added" && change.alert.level === "danger")).toBe(true);
+    expect(diff.analyses).toEqual([expect.objectContaining({
+      tradeId: "buy",
+      edited: true,
+      fields: expect.arrayContaining([expect.objectContaining({ field: "imlAfter", before: 5_000, after: -2_500 })]),
+    })]);
+  });
+
+  test("carries an earlier fill's change into the executions after it", () => {
+    const account = settings({ accountType: AccountType.CASH, settledCash: 30_000 });
+    const first = trade("first", "2026-07-27T14:30:00.000Z", 100);
+    const later = trade("later", "2026-07-27T15:00:00.000Z", 150);
+    const diff = diffTradeEdit(account, [first, later], { ...first, quantity: 200 }, {}, AS_OF);
+
+    expect(diff.analyses.map((change) => change.tradeId)).toEqual(["first", "later"]);
+    expect(diff.analyses[1]).toMatchObject({
+      edited: false,
+      fields: expect.arrayContaining([expect.objectContaining({ field: "settledFundsUsed", before: 15_000, after: 10_000 })]),
+    });
+  });
+});
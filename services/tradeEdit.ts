@@ -0,0 +1,155 @@
+import {
+  AccountSettings,
+  CalculationContext,
+  CalculationResult,
+  RiskAlert,
+  RiskLevel,
+  Trade,
+  TradeAnalysis,
+} from "../types";
+import { calculateAccount } from "./engine";
+
+type NumericKeys<T> = { [K in keyof T]-?: T[K] extends number ? K : never }[keyof T];
+
+export type MetricFormat = "money" | "count";
+
+export interface MetricChange {
+  field: NumericKeys<CalculationResult>;
+  label: string;
+  format: MetricFormat;
+  before: number;
+  after: number;
+}
+
+export interface AlertChange {
+  status: "added" | "removed" | "changed";
+  /** The alert as it stands after the edit, or as it stood before a removal. */
+  alert: RiskAlert;
+  previous?: RiskAlert;
+}
+
+export interface AnalysisFieldChange {
+  field: NumericKeys<TradeAnalysis>;
+  label: string;
+  before: number;
+  after: number;
+}
+
+export interface AnalysisChange {
+  tradeId: string;
+  /** The row being edited, as opposed to a later execution the edit ripples into. */
+  edited: boolean;
+  riskBefore: RiskLevel;
+  riskAfter: RiskLevel;
+  fields: AnalysisFieldChange[];
+}
+
+export interface TradeEditDiff {
+  before: CalculationResult;
+  after: CalculationResult;
+  metrics: MetricChange[];
+  alerts: AlertChange[];
+  analyses: AnalysisChange[];
+  /** The edit changes at least one trade field. */
+  edited: boolean;
+}
+
+const EPSILON = 0.005;
+
+const METRICS: Array<Omit<MetricChange, "before" | "after">> = [
+  { field: "currentEquity", label: "Equity", format: "money" },
+  { field: "settledCash", label: "Settled cash", format: "money" },
+  { field: "unsettledCash", label: "Unsettled cash", format: "money" },
+  { field: "cashAvailableToTrade", label: "Cash available to trade", format: "money" },
+  { field: "marginBuyingPower", label: "Margin buying power", format: "money" },
+  { field: "dtbpUsed", label: "DTBP used", format: "money" },
+  { field: "dtbpRemaining", label: "DTBP remaining", format: "money" },
+  { field: "dtbpCall", label: "Day-trading call", format: "money" },
+  { field: "maintenanceRequirement", label: "Maintenance requirement", format: "money" },
+  { field: "maintenanceExcess", label: "Maintenance excess", format: "money" },
+  { field: "intradayMarginLevel", label: "Intraday margin level", format: "money" },
+  { field: "intradayBuyingPower", label: "Intraday buying power", format: "money" },
+  { field: "highestIntradayDeficit", label: "Highest intraday deficit", format: "money" },
+  { field: "outstandingIntradayDeficit", label: "Outstanding intraday deficit", format: "money" },
+  { field: "imlReducingTransactions", label: "IML-reducing transactions", format: "count" },
+  { field: "realizedPnl", label: "Realized P&L", format: "money" },
+  { field: "unrealizedPnl", label: "Unrealized P&L", format: "money" },
+  { field: "fees", label: "Fees", format: "money" },
+  { field: "dayTrades", label: "Day trades", format: "count" },
+  { field: "goodFaithViolations", label: "Good-faith violations", format: "count" },
+  { field: "freeridingViolations", label: "Freeriding violations", format: "count" },
+];
+
+const ANALYSIS_FIELDS: Array<Omit<AnalysisFieldChange, "before" | "after">> = [
+  { field: "notional", label: "Notional" },
+  { field: "settledFundsUsed", label: "Settled funds used" },
+  { field: "unsettledFundsUsed", label: "Unsettled funds used" },
+  { field: "unfundedAmount", label: "Unfunded" },
+  { field: "imlAfter", label: "IML after" },
+  { field: "intradayBuyingPowerAfter", label: "Intraday BP after" },
+  { field: "dtbpUsedAfter", label: "DTBP used after" },
+  { field: "settledCashAfter", label: "Settled cash after" },
+];
+
+export const replaceTrade = (trades: Trade[], edited: Trade): Trade[] =>
+  trades.map((trade) => (trade.id === edited.id ? edited : trade));
+
+const tradeChanged = (a: Trade, b: Trade) => [...new Set([...Object.keys(a), ...Object.keys(b)])]
+  .some((key) => JSON.stringify(a[key as keyof Trade]) !== JSON.stringify(b[key as keyof Trade]));
+
+const sameAlert = (a: RiskAlert, b: RiskAlert) => a.level === b.level && a.title === b.title && a.detail === b.detail;
+
+/**
+ * Replays the ledger with and without the edit at the same moment and lists
+ * what moved: headline metrics, alerts raised, cleared or reworded, and every
+ * execution whose analysis changed. Later executions are included because an
+ * earlier fill changes the cash, lots and IML they were judged against.
+ */
+export const diffTradeEdit = (
+  settings: AccountSettings,
+  trades: Trade[],
+  edited: Trade,
+  context: CalculationContext = {},
+  asOf = new Date().toISOString(),
+): TradeEditDiff => {
+  const original = trades.find((trade) => trade.id === edited.id);
+  const before = calculateAccount(settings, trades, asOf, context);
+  const after = calculateAccount(settings, replaceTrade(trades, edited), asOf, context);
+
+  const metrics = METRICS
+    .map((metric) => ({ ...metric, before: before[metric.field], after: after[metric.field] }))
+    .filter((metric) => Math.abs(metric.after - metric.before) > EPSILON);
+
+  const alerts: AlertChange[] = [
+    ...after.alerts.flatMap((alert): AlertChange[] => {
+      const previous = before.alerts.find((candidate) => candidate.id === alert.id);
+      if (!previous) return [{ status: "added", alert }];
+      return sameAlert(previous, alert) ? [] : [{ status: "changed", alert, previous }];
+    }),
+    ...before.alerts
+      .filter((alert) => !after.alerts.some((candidate) => candidate.id === alert.id))
+      .map((alert): AlertChange => ({ status: "removed", alert })),
+  ];
+
+  const analyses = [...trades]
+    .sort((a, b) => a.executedAt.localeCompare(b.executedAt))
+    .flatMap((trade): AnalysisChange[] => {
+      const was = before.analyses[trade.id];
+      const now = after.analyses[trade.id];
+      if (!was || !now) return [];
+      const fields = ANALYSIS_FIELDS
+        .map((field) => ({ ...field, before: was[field.field], after: now[field.field] }))
+        .filter((field) => Math.abs(field.after - field.before) > EPSILON);
+      if (fields.length === 0 && was.risk === now.risk) return [];
+      return [{ tradeId: trade.id, edited: trade.id === edited.id, riskBefore: was.risk, riskAfter: now.risk, fields }];
+    });
+
+  return {
+    before,
+    after,
+    metrics,
+    alerts,
+    analyses,
+    edited: original ? tradeChanged(original, edited) : false,
+  };
+};
@@ -1,11 +1,40 @@
--- Run this once in the Supabase SQL editor.
+-- Run this once in the Supabase SQL editor. It is safe to re-run, and upgrades
+-- the original single-row-per-user table to one row per tracked account.
 create table if not exists public.account_states (
-  user_id uuid primary key references auth.users(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  account_id text not null default 'primary',
   settings jsonb not null default '{}'::jsonb,
   trades jsonb not null default '[]'::jsonb,
-  updated_at timestamptz not null default now()
+  scenarios jsonb not null default '[]'::jsonb,
+  revision integer not null default 0,
+  versions jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  primary key (user_id, account_id)
 );
 
+alter table public.account_states add column if not exists account_id text not null default 'primary';
+alter table public.account_states add column if not exists created_at timestamptz not null default now();
+-- Sync writes only against the revision it last saw, and stamps each trade and
+-- settings field with its own version so devices can merge record by record.
+alter table public.account_states add column if not exists revision integer not null default 0;
+alter table public.account_states add column if not exists versions jsonb not null default '{}'::jsonb;
+-- Sandbox scenarios sit beside the trades rather than inside the settings.
+alter table public.account_states add column if not exists scenarios jsonb not null default '[]'::jsonb;
+
+do $$
+begin
+  if exists (
+    select 1 from pg_constraint
+    where conname = 'account_states_pkey'
+      and conrelid = 'public.account_states'::regclass
+      and array_length(conkey, 1) = 1
+  ) then
+    alter table public.account_states drop constraint account_states_pkey;
+    alter table public.account_states add primary key (user_id, account_id);
+  end if;
+end $$;
+
 alter table public.account_states enable row level security;
 
 drop policy if exists "Users can read their account state" on public.account_states;
@@ -23,3 +52,8 @@ create policy "Users can update their account state"
 on public.account_states for update
 using (auth.uid() = user_id)
 with check (auth.uid() = user_id);
+
+drop policy if exists "Users can delete their account state" on public.account_states;
+create policy "Users can delete their account state"
+on public.account_states for delete
+using (auth.uid() = user_id);
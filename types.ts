@@ -19,6 +19,30 @@ export enum DtbpMethod {
   AGGREGATE = "aggregate",
 }
 
+/** What a legacy day-trading call leaves the account with while it is unmet. */
+export enum DtbpRestriction {
+  NONE = "none",
+  TWO_TIMES = "two_times",
+  CASH_AVAILABLE = "cash_available",
+}
+
+/** Who a margin call answers to: Regulation T initial margin or the broker's maintenance requirement. */
+export enum MarginCallType {
+  REG_T = "reg_t",
+  HOUSE = "house",
+}
+
+/** Whether shares can be borrowed for a short sale off the broker's general list or only by locate. */
+export enum BorrowStatus {
+  EASY = "easy",
+  HARD = "hard",
+}
+
+export enum CashViolationType {
+  GOOD_FAITH = "good_faith",
+  FREERIDING = "freeriding",
+}
+
 export enum InstrumentType {
   STOCK = "stock",
   ETF = "etf",
@@ -26,6 +50,20 @@ export enum InstrumentType {
   OPTION = "option",
 }
 
+export enum OptionType {
+  CALL = "call",
+  PUT = "put",
+}
+
+export enum OptionStrategy {
+  COVERED_CALL = "covered_call",
+  CASH_SECURED_PUT = "cash_secured_put",
+  VERTICAL = "vertical",
+  STRADDLE = "straddle",
+  IRON_CONDOR = "iron_condor",
+  NAKED = "naked",
+}
+
 export enum Side {
   BUY = "buy",
   SELL = "sell",
@@ -33,8 +71,50 @@ export enum Side {
   BUY_TO_COVER = "buy_to_cover",
 }
 
+export enum CashMovementType {
+  DEPOSIT = "deposit",
+  WITHDRAWAL = "withdrawal",
+  JOURNAL_IN = "journal_in",
+  JOURNAL_OUT = "journal_out",
+}
+
+export enum IncomeEventType {
+  DIVIDEND = "dividend",
+  CREDIT_INTEREST = "credit_interest",
+}
+
+export enum CorporateActionType {
+  SPLIT = "split",
+  SYMBOL_CHANGE = "symbol_change",
+  CASH_MERGER = "cash_merger",
+  STOCK_MERGER = "stock_merger",
+  SPIN_OFF = "spin_off",
+}
+
+export enum OptionEventType {
+  EXPIRATION = "expiration",
+  EXERCISE = "exercise",
+  ASSIGNMENT = "assignment",
+}
+
+export enum LotReliefMethod {
+  FIFO = "fifo",
+  LIFO = "lifo",
+  HIGHEST_COST = "highest_cost",
+  SPECIFIC = "specific",
+}
+
 export type RiskLevel = "info" | "watch" | "danger";
 
+export type QuoteSource = "manual" | "pasted" | "feed";
+export type MarkSource = "trade" | "close" | QuoteSource;
+
+/** A quantity taken from one open lot under specific identification. */
+export interface LotSelection {
+  lotId: string;
+  quantity: number;
+}
+
 export interface Trade {
   id: string;
   executedAt: string;
@@ -47,16 +127,216 @@ export interface Trade {
   contractMultiplier: number;
   leverageFactor: number;
   marginRequirementPct?: number;
+  optionType?: OptionType;
+  strike?: number;
+  expiration?: string;
+  underlying?: string;
+  /**
+   * Set on the closing and delivery legs booked by the expiration processor.
+   * They are not orders, so they never count as day trades, and an option
+   * leg closed by expiration is not a sale for settlement-violation purposes.
+   */
+  optionEvent?: OptionEventType;
+  /** Overrides the account's lot-relief method for this closing trade. */
+  lotRelief?: LotReliefMethod;
+  /** Lots chosen under specific identification; any quantity beyond them follows the account method. */
+  lotSelections?: LotSelection[];
+  notes?: string;
+}
+
+/** Cash credited to or debited from the account outside of trading. */
+export interface CashMovement {
+  id: string;
+  postedAt: string;
+  type: CashMovementType;
+  /** Always positive; the type sets the direction. */
+  amount: number;
+  /** A credit on hold counts toward equity at once but only settles on this date. */
+  clearsOn?: string;
+  notes?: string;
+}
+
+/**
+ * A dividend books on its ex-date against the position held going into that
+ * day, as a credit when long and a debit when short, and moves cash on the pay
+ * date. Credit interest books and pays on the same dates, as a dollar amount.
+ */
+export interface IncomeEvent {
+  id: string;
+  type: IncomeEventType;
+  /** Dividends only. */
+  symbol?: string;
+  /** Per share for dividends; the dollar amount for interest. */
+  amount: number;
+  exDate: string;
+  payDate: string;
   notes?: string;
 }
 
+/**
+ * A corporate action adjusts open lots before the open on its effective date.
+ * Cost basis and acquisition dates carry over: a split rescales quantity and
+ * price, a symbol change or stock merger moves the lots to the new symbol, a
+ * cash merger closes them at the cash price, and a spin-off moves part of the
+ * basis into shares of the new company.
+ */
+export interface CorporateAction {
+  id: string;
+  type: CorporateActionType;
+  symbol: string;
+  effectiveDate: string;
+  /** The symbol the shares become, or the spun-off company. */
+  newSymbol?: string;
+  /** New shares per share held: 4 for a 4-for-1 split, 0.1 for a 1-for-10 reverse split. */
+  ratio?: number;
+  /** Cash mergers only. */
+  cashPerShare?: number;
+  /** Spin-offs only: the fraction of the parent's cost basis moved to the new shares. */
+  basisAllocation?: number;
+  notes?: string;
+}
+
+/** One slice of a blended margin-interest schedule. */
+export interface MarginInterestTier {
+  /** Debit balance this slice runs up to; null for the top slice. */
+  upTo: number | null;
+  annualRate: number;
+}
+
+/** A named set of hypothetical orders, staged in sequence after the ledger. */
+export interface Scenario {
+  id: string;
+  name: string;
+  legs: Trade[];
+}
+
+export interface OptionContract {
+  underlying: string;
+  optionType: OptionType;
+  strike: number;
+  expiration: string;
+}
+
 export interface SymbolMarginOverride {
   initialMarginPct?: number;
   longMaintenancePct?: number;
   shortMaintenancePct?: number;
+  /** Beta to SPY used by beta-weighted stress tests. */
+  beta?: number;
+  borrowStatus?: BorrowStatus;
+  /** Annualized stock-loan fee charged on the short market value. */
+  borrowFeeRate?: number;
+  locateRequired?: boolean;
   notes?: string;
 }
 
+/** A good-faith or freeriding violation the cash account incurred. */
+export interface CashViolation {
+  id: string;
+  type: CashViolationType;
+  date: string;
+  symbol: string;
+  /** The sale's share funded by unsettled proceeds, or not paid for at all. */
+  amount: number;
+  tradeId?: string;
+}
+
+/** Shares the broker confirmed it can borrow for short sales on one trading day. */
+export interface ShortLocate {
+  id: string;
+  symbol: string;
+  quantity: number;
+  obtainedOn: string;
+}
+
+export type ImportField =
+  | "executedAt"
+  | "executedTime"
+  | "symbol"
+  | "side"
+  | "quantity"
+  | "price"
+  | "fees"
+  | "instrument"
+  | "contractMultiplier"
+  | "leverageFactor"
+  | "optionType"
+  | "strike"
+  | "expiration"
+  | "underlying"
+  | "id";
+
+export interface ImportProfile {
+  id: string;
+  name: string;
+  hasHeader: boolean;
+  columns: Partial<Record<ImportField, string>>;
+  defaultInstrument: InstrumentType;
+  defaultMultiplier: number;
+}
+
+/** A lot carried into the day by a rollover, valued at the prior close. */
+export interface OpeningLot {
+  /** Stable across rollovers so a lot can be chosen by specific identification. */
+  lotId?: string;
+  symbol: string;
+  instrument: InstrumentType;
+  side: "long" | "short";
+  quantity: number;
+  price: number;
+  costBasis: number;
+  acquiredAt: string;
+  markedAt: string;
+  contractMultiplier: number;
+  leverageFactor: number;
+  marginRequirementPct?: number;
+  optionType?: OptionType;
+  strike?: number;
+  expiration?: string;
+  underlying?: string;
+  unsettledFunding: Array<{ amount: number; settlesOn: string }>;
+  unfundedAmount: number;
+}
+
+export interface OpeningSettlement {
+  tradeId: string;
+  symbol: string;
+  tradeDate: string;
+  settlesOn: string;
+  amount: number;
+  /** Set when the pending amount is a held deposit or journal rather than sale proceeds. */
+  movementType?: CashMovementType;
+  /** Set for a dividend or interest payable on a later pay date; negative when owed. */
+  incomeType?: IncomeEventType;
+}
+
+export interface BrokerPositionReport {
+  symbol: string;
+  /** Signed: negative for short positions. */
+  quantity: number;
+  averagePrice: number;
+}
+
+/** Figures copied from a broker statement. Blank fields are left out of the comparison. */
+export interface BrokerStatement {
+  asOf: string;
+  equity: number | null;
+  maintenanceRequirement: number | null;
+  marginBuyingPower: number | null;
+  dayTradingBuyingPower: number | null;
+  cash: number | null;
+  positions: BrokerPositionReport[];
+}
+
+export interface ReconciliationTolerance {
+  /** Dollar variance ignored on balance fields. */
+  amount: number;
+  /** Fractional variance ignored on balance fields; the larger of the two applies. */
+  percent: number;
+  quantity: number;
+  price: number;
+}
+
 export interface AccountSettings {
   accountName: string;
   brokerName: string;
@@ -67,24 +347,124 @@ export interface AccountSettings {
   snapshotDate: string;
   settledCash: number;
   unsettledCash: number;
+  openingSettlements: OpeningSettlement[];
+  openingLots: OpeningLot[];
+  cashMovements: CashMovement[];
+  incomeEvents: IncomeEvent[];
+  corporateActions: CorporateAction[];
   startOfDayEquity: number;
   startOfDayMaintenance: number;
   brokerMarginBuyingPower: number;
   brokerDtbp: number;
   brokerIntradayBuyingPower: number;
   pdtRestricted: boolean;
+  /** Closed days' activity still inside the five-business-day pattern-day-trader window. */
+  dayTradeHistory: DayTradeTally[];
   outstandingIntradayDeficit: number;
   intradayDeficitDate: string;
   intradayDeficitPractice: boolean;
   intradayDeficitExtraordinary: boolean;
   intradayRestrictionUntil: string;
+  /** Unmet legacy day-trading call carried from an earlier day. */
+  outstandingDtbpCall: number;
+  dtbpCallDate: string;
+  /** Last day of a broker-reported cash-available restriction. */
+  dtbpRestrictionUntil: string;
+  /** Reg T and house calls still open from earlier days. */
+  marginCalls: MarginCall[];
+  /** Business days the broker allows to meet a house call. */
+  houseCallDays: number;
+  /** Manual cash-up-front restriction, on top of any the violation register derives. */
   cashRestricted: boolean;
+  /** Every good-faith and freeriding violation recorded, oldest first. */
+  cashViolations: CashViolation[];
+  /** Good-faith violations in 12 months that bring the 90-day restriction. */
+  gfvRestrictionThreshold: number;
   longMaintenancePct: number;
   shortMaintenancePct: number;
   initialMarginPct: number;
   houseBufferPct: number;
+  /** Short maintenance floor for hard-to-borrow symbols without their own short rate. */
+  htbShortMaintenancePct: number;
+  marginInterestTiers: MarginInterestTier[];
+  marginInterestDayCount: 360 | 365;
+  /** Interest accrued this month and not yet posted; already reflected in start-of-day equity. */
+  marginInterestAccrued: number;
   symbolMarginOverrides: Record<string, SymbolMarginOverride>;
+  shortLocates: ShortLocate[];
+  /** Stock-loan fees accrued this month and not yet charged; already reflected in start-of-day equity. */
+  borrowFeesAccrued: number;
+  lotReliefMethod: LotReliefMethod;
   settlementHolidays: string[];
+  importProfiles: ImportProfile[];
+  quoteFeedUrl: string;
+  quoteStaleMinutes: number;
+  brokerStatement: BrokerStatement | null;
+  reconciliationTolerance: ReconciliationTolerance;
+}
+
+/** A margin call as issued, with what was still owed when the day opened. */
+export interface MarginCall {
+  id: string;
+  type: MarginCallType;
+  amount: number;
+  outstanding: number;
+  issuedOn: string;
+  dueOn: string;
+}
+
+export interface AccountWorkspace {
+  id: string;
+  settings: AccountSettings;
+  trades: Trade[];
+  /** Sandbox what-ifs; never part of the ledger or a closed day. */
+  scenarios: Scenario[];
+}
+
+export enum JournalKind {
+  BASELINE = "baseline",
+  ADD_TRADE = "add_trade",
+  EDIT_TRADE = "edit_trade",
+  DELETE_TRADE = "delete_trade",
+  SETTINGS = "settings",
+  OVERRIDES = "overrides",
+  SCENARIOS = "scenarios",
+  ACCOUNT = "account",
+  RESTORE = "restore",
+  ROLLOVER = "rollover",
+  SYNC = "sync",
+}
+
+/** One change to the workspace and every account as it stood afterwards. */
+export interface JournalEntry {
+  id: string;
+  at: string;
+  kind: JournalKind;
+  label: string;
+  /** The account the change touched; absent when accounts were added or removed. */
+  accountId?: string;
+  /** The entry this change was made on top of; undo returns to it. A closed day has none. */
+  parentId?: string;
+  accounts: AccountWorkspace[];
+}
+
+export interface ChangeJournal {
+  entries: JournalEntry[];
+  /** The entry whose snapshot is the workspace on screen. */
+  currentId: string;
+  /** Entries undone since the last change, most recently undone last. */
+  redo: string[];
+}
+
+export interface QuoteMark {
+  symbol: string;
+  price: number;
+  asOf: string;
+  source: QuoteSource;
+}
+
+export interface CalculationContext {
+  marks?: Record<string, QuoteMark>;
 }
 
 export interface Position {
@@ -93,11 +473,23 @@ export interface Position {
   quantity: number;
   averagePrice: number;
   markPrice: number;
+  markSource: MarkSource;
+  markedAt: string;
   marketValue: number;
   maintenanceRequirement: number;
   unrealizedPnl: number;
 }
 
+export interface OptionStrategyGroup {
+  id: string;
+  strategy: OptionStrategy;
+  underlying: string;
+  description: string;
+  contracts: number;
+  legs: Array<{ symbol: string; quantity: number }>;
+  requirement: number;
+}
+
 export interface SettlementItem {
   id: string;
   tradeId: string;
@@ -106,6 +498,8 @@ export interface SettlementItem {
   settlementDate: string;
   amount: number;
   status: "settled" | "pending";
+  movementType?: CashMovementType;
+  incomeType?: IncomeEventType;
 }
 
 export interface RiskAlert {
@@ -129,6 +523,24 @@ export interface TradeAnalysis {
   imlAfter: number;
   imlReducing: boolean;
   intradayBuyingPowerAfter: number;
+  /** Legacy day-trading buying power committed so far today, by the account's DTBP method. */
+  dtbpUsedAfter: number;
+  /** Settled cash left after the trade; tracked for cash accounts only. */
+  settledCashAfter: number;
+  /** The lots a closing trade relieved, in the order they were taken. */
+  relievedLots?: RelievedLot[];
+  /** Shares of a short sale not covered by a locate recorded for the trade date. */
+  locateShortfall?: number;
+}
+
+export interface RelievedLot {
+  lotId: string;
+  acquiredAt: string;
+  quantity: number;
+  /** The relieved share of the lot's original cost, or of its proceeds for a short lot. */
+  costBasis: number;
+  /** What the closing trade paid or received for this quantity. */
+  exitValue: number;
 }
 
 export interface AuditEntry {
@@ -139,6 +551,78 @@ export interface AuditEntry {
   result: number;
 }
 
+export interface BalanceVariance {
+  field: string;
+  broker: number;
+  ledger: number;
+  variance: number;
+  tolerance: number;
+  withinTolerance: boolean;
+}
+
+export type PositionVarianceStatus = "matched" | "variance" | "missing_in_ledger" | "missing_at_broker";
+
+export interface PositionVariance {
+  symbol: string;
+  brokerQuantity: number;
+  ledgerQuantity: number;
+  brokerAveragePrice: number;
+  ledgerAveragePrice: number;
+  quantityVariance: number;
+  priceVariance: number;
+  status: PositionVarianceStatus;
+}
+
+export interface Reconciliation {
+  asOf: string;
+  balances: BalanceVariance[];
+  positions: PositionVariance[];
+  breaks: number;
+}
+
+/** One business day's activity for the pattern-day-trader test. */
+export interface DayTradeTally {
+  date: string;
+  dayTrades: number;
+  trades: number;
+}
+
+export interface PdtCounter {
+  windowStart: string;
+  windowEnd: string;
+  /** Every business day in the window, oldest first. */
+  days: DayTradeTally[];
+  dayTrades: number;
+  trades: number;
+  /** Day trades that can still be made in the window without reaching four. */
+  remaining: number;
+  /** Four or more day trades that are also more than 6% of the window's trades. */
+  flagged: boolean;
+}
+
+export type MarginCallCure = "deposit" | "liquidation" | "recovery";
+
+export interface MarginCallStatus extends MarginCall {
+  /** Still owed after the day's deposits, sales and price moves. */
+  remaining: number;
+  /** How much of the call each source met today. */
+  cured: Record<MarginCallCure, number>;
+  /** Business days from the session to the due date; negative once past due. */
+  businessDaysLeft: number;
+  level: RiskLevel;
+}
+
+export interface DayArchive {
+  id: string;
+  accountId: string;
+  date: string;
+  closedAt: string;
+  settings: AccountSettings;
+  trades: Trade[];
+  marks: Record<string, QuoteMark>;
+  result: CalculationResult;
+}
+
 export interface CalculationResult {
   asOf: string;
   currentEquity: number;
@@ -150,6 +634,26 @@ export interface CalculationResult {
   dtbpLimit: number;
   dtbpUsed: number;
   dtbpRemaining: number;
+  /** Day-trading call still unmet, including one issued today. */
+  dtbpCall: number;
+  dtbpCallMet: number;
+  /** When the oldest unmet call was issued. */
+  dtbpCallDate?: string;
+  dtbpCallDueDate?: string;
+  dtbpRestriction: DtbpRestriction;
+  dtbpRestrictionEndsOn?: string;
+  /** Open calls carried in and issued today, with any met today. */
+  marginCalls: MarginCallStatus[];
+  /** The register with today's violations appended. */
+  cashViolations: CashViolation[];
+  /** Good-faith violations in the 12 months to the session. */
+  goodFaithViolations: number;
+  freeridingViolations: number;
+  /** Good-faith violations left before the restriction; zero while restricted. */
+  violationsRemaining: number;
+  /** Purchases limited to settled cash, set manually or by the register. */
+  cashRestrictionActive: boolean;
+  cashRestrictionEndsOn?: string;
   maintenanceRequirement: number;
   maintenanceExcess: number;
   intradayMarginLevel: number;
@@ -158,7 +662,11 @@ export interface CalculationResult {
   intradayBuyingPowerUsed: number;
   intradayBuyingPowerRate: number;
   highestIntradayDeficit: number;
+  /** The execution that set the day's deficit high, when a trade rather than a withdrawal set it. */
+  highestIntradayDeficitTradeId?: string;
   outstandingIntradayDeficit: number;
+  /** Credits received since the controlling deficit arose, up to its size. */
+  intradayDeficitMet: number;
   intradayDeficitDueDate?: string;
   intradayDeficitExpiresOn?: string;
   deficitCountsTowardPractice: boolean;
@@ -170,12 +678,34 @@ export interface CalculationResult {
   realizedPnl: number;
   unrealizedPnl: number;
   fees: number;
+  /** Deposits and incoming journals less withdrawals and outgoing journals. */
+  netCashMovements: number;
+  /** Dividends and interest booked, net of short-dividend debits. */
+  netIncome: number;
+  marginDebitBalance: number;
+  /** Blended annual rate on the current debit balance. */
+  marginInterestRate: number;
+  /** Interest that accrues on tonight's debit through the next business day. */
+  marginInterestAccrual: number;
+  marginInterestAccrued: number;
+  /** Stock-loan fees on tonight's short positions through the next business day. */
+  borrowFeeAccrual: number;
+  borrowFeesAccrued: number;
+  /**
+   * Tonight's interest and borrow fees together. They are debited when the
+   * day is closed, so today's equity, IML and buying power do not include them.
+   */
+  pendingCarryDebit: number;
   positions: Position[];
+  openLots: OpeningLot[];
+  pendingSettlements: OpeningSettlement[];
+  optionStrategies: OptionStrategyGroup[];
   settlements: SettlementItem[];
   alerts: RiskAlert[];
   analyses: Record<string, TradeAnalysis>;
   auditTrail: AuditEntry[];
   dayTrades: number;
+  pdtCounter: PdtCounter;
   tradeCount: number;
 }
 
@@ -191,24 +721,59 @@ export const DEFAULT_SETTINGS: AccountSettings = {
   snapshotDate: today,
   settledCash: 30_000,
   unsettledCash: 0,
+  openingSettlements: [],
+  openingLots: [],
+  cashMovements: [],
+  incomeEvents: [],
+  corporateActions: [],
   startOfDayEquity: 30_000,
   startOfDayMaintenance: 0,
   brokerMarginBuyingPower: 60_000,
   brokerDtbp: 120_000,
   brokerIntradayBuyingPower: 0,
   pdtRestricted: false,
+  dayTradeHistory: [],
   outstandingIntradayDeficit: 0,
   intradayDeficitDate: "",
   intradayDeficitPractice: false,
   intradayDeficitExtraordinary: false,
   intradayRestrictionUntil: "",
+  outstandingDtbpCall: 0,
+  dtbpCallDate: "",
+  dtbpRestrictionUntil: "",
+  marginCalls: [],
+  houseCallDays: 5,
   cashRestricted: false,
+  cashViolations: [],
+  gfvRestrictionThreshold: 3,
   longMaintenancePct: 0.25,
   shortMaintenancePct: 0.30,
   initialMarginPct: 0.50,
   houseBufferPct: 0,
+  htbShortMaintenancePct: 1,
+  marginInterestTiers: [
+    { upTo: 25_000, annualRate: 0.1325 },
+    { upTo: 100_000, annualRate: 0.1275 },
+    { upTo: 1_000_000, annualRate: 0.12 },
+    { upTo: null, annualRate: 0.1125 },
+  ],
+  marginInterestDayCount: 360,
+  marginInterestAccrued: 0,
   symbolMarginOverrides: {},
+  shortLocates: [],
+  borrowFeesAccrued: 0,
+  lotReliefMethod: LotReliefMethod.FIFO,
   settlementHolidays: [],
+  importProfiles: [],
+  quoteFeedUrl: "",
+  quoteStaleMinutes: 15,
+  brokerStatement: null,
+  reconciliationTolerance: {
+    amount: 1,
+    percent: 0.001,
+    quantity: 0,
+    price: 0.01,
+  },
 };
 
 export const EMPTY_RESULT: CalculationResult = {
@@ -222,6 +787,15 @@ export const EMPTY_RESULT: CalculationResult = {
   dtbpLimit: 0,
   dtbpUsed: 0,
   dtbpRemaining: 0,
+  dtbpCall: 0,
+  dtbpCallMet: 0,
+  dtbpRestriction: DtbpRestriction.NONE,
+  marginCalls: [],
+  cashViolations: [],
+  goodFaithViolations: 0,
+  freeridingViolations: 0,
+  violationsRemaining: 0,
+  cashRestrictionActive: false,
   maintenanceRequirement: 0,
   maintenanceExcess: 0,
   intradayMarginLevel: 0,
@@ -231,6 +805,7 @@ export const EMPTY_RESULT: CalculationResult = {
   intradayBuyingPowerRate: 0,
   highestIntradayDeficit: 0,
   outstandingIntradayDeficit: 0,
+  intradayDeficitMet: 0,
   deficitCountsTowardPractice: false,
   intradayRestrictionActive: false,
   imlReducingTransactions: 0,
@@ -239,11 +814,24 @@ export const EMPTY_RESULT: CalculationResult = {
   realizedPnl: 0,
   unrealizedPnl: 0,
   fees: 0,
+  netCashMovements: 0,
+  netIncome: 0,
+  marginDebitBalance: 0,
+  marginInterestRate: 0,
+  marginInterestAccrual: 0,
+  marginInterestAccrued: 0,
+  borrowFeeAccrual: 0,
+  borrowFeesAccrued: 0,
+  pendingCarryDebit: 0,
   positions: [],
+  openLots: [],
+  pendingSettlements: [],
+  optionStrategies: [],
   settlements: [],
   alerts: [],
   analyses: {},
   auditTrail: [],
   dayTrades: 0,
+  pdtCounter: { windowStart: "", windowEnd: "", days: [], dayTrades: 0, trades: 0, remaining: 3, flagged: false },
   tradeCount: 0,
 };